@@ -4,8 +4,38 @@ const fs = require('fs').promises;
 const path = require('path');
 const axios = require('axios'); // 引入 axios
 const OpenAI = require('openai'); // 引入 OpenAI
+const { createJobManager } = require('./workflow/jobs');
+const { createStepCache } = require('./workflow/cache');
+const { createOutputValidator, generateWithAutoFix } = require('./workflow/validation');
+const { createPromptLibrary } = require('./workflow/promptLibrary');
+const { createWorkspacePaths, getPlatformInfo, parseWorkspaceRoots, toPortablePath } = require('./workflow/paths');
 const app = express();
-app.use(express.json());
+// 运行记录中包含步骤输入内容，放宽请求体大小限制
+app.use(express.json({ limit: '10mb' }));
+
+// 允许前端不经过 Vite 代理直接访问（前端设置了后端服务地址时）：CORS_ORIGIN 指定允许的来源（多个以逗号分隔），
+// 未设置时只允许本机的来源；其他来源不返回 CORS 响应头，浏览器会拒绝跨域请求
+const CORS_ORIGINS = (process.env.CORS_ORIGIN || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const LOCALHOST_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+const isAllowedOrigin = origin => CORS_ORIGINS.length > 0 ? CORS_ORIGINS.includes(origin) : LOCALHOST_ORIGIN.test(origin);
+
+app.use((req, res, next) => {
+  const origin = req.headers.origin;
+  res.header('Vary', 'Origin');
+  if (origin && isAllowedOrigin(origin)) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type');
+  }
+  if (req.method === 'OPTIONS') {
+    return res.sendStatus(204);
+  }
+  next();
+});
+
+// 文件接口（文件处理、中转、列出、读写文件）只能访问的工作目录：WORKSPACE_ROOTS 指定（多个目录以 ; 或 : 分隔，
+// 与系统 PATH 一致），未设置时为本服务所在目录的上一级目录
+const workspace = createWorkspacePaths(parseWorkspaceRoots(process.env.WORKSPACE_ROOTS, path.resolve(__dirname, '..')));
 
 // 初始化 OpenAI 客户端
 const openai = new OpenAI({
@@ -21,11 +51,26 @@ const openaiCoder = new OpenAI({
 const CONFIG_DIR = path.join(__dirname, 'configs');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'app-config.json');
 const MULTI_FILE_STREAM_CONFIG_FILE = path.join(CONFIG_DIR, 'multi-file-stream-config.json');
+// 工作流运行记录目录，每次运行一个 JSON 文件
+const RUN_HISTORY_DIR = path.join(CONFIG_DIR, 'run-history');
+// 最多保留的运行记录数量，超出时删除最早的记录
+const MAX_RUN_HISTORY = 200;
+// 步骤结果缓存目录
+const STEP_CACHE_DIR = path.join(CONFIG_DIR, 'step-cache');
+// 最多保留的步骤缓存数量与保留天数，超出时删除最早的缓存
+const MAX_STEP_CACHE_ENTRIES = 500;
+const STEP_CACHE_MAX_AGE_DAYS = 30;
+const stepCache = createStepCache(STEP_CACHE_DIR, {
+  maxEntries: MAX_STEP_CACHE_ENTRIES,
+  maxAge: STEP_CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+});
+// 提示词库（可复用、带版本的提示词片段）
+const promptLibrary = createPromptLibrary(path.join(CONFIG_DIR, 'prompt-library.json'));
 
-// 确保配置目录存在
+// 确保配置目录（含运行记录目录）存在
 async function ensureConfigDir() {
   try {
-    await fs.mkdir(CONFIG_DIR, { recursive: true });
+    await fs.mkdir(RUN_HISTORY_DIR, { recursive: true });
   } catch (error) {
     console.error('创建配置目录失败:', error);
   }
@@ -43,19 +88,50 @@ function extractContentFromMarkdown(markdown) {
   return match ? match[1].trim() : markdown;
 }
 
+// 累加多次模型调用的 token 用量
+function addUsage(total, usage) {
+  if (!total) return usage;
+  return {
+    prompt_tokens: (total.prompt_tokens || 0) + (usage.prompt_tokens || 0),
+    completion_tokens: (total.completion_tokens || 0) + (usage.completion_tokens || 0),
+    total_tokens: (total.total_tokens || 0) + (usage.total_tokens || 0)
+  };
+}
+
+// 读取步骤缓存，缓存的输出不满足当前的校验规则时视为未命中
+async function getCachedOutput(cacheKey, validateContent) {
+  const content = await stepCache.get(cacheKey);
+  return content !== undefined && validateContent(content).length === 0 ? content : undefined;
+}
+
+// 为请求创建取消控制器：客户端在响应完成前断开连接时中止下游的模型调用
+function createRequestAbortController(res) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller;
+}
+
 app.post('/api/process-file', async (req, res) => {
-  const { inputs, outputFileName, outputFolder } = req.body;
+  const { outputFileName, forceRefresh, validation } = req.body;
+  const { signal } = createRequestAbortController(res);
 
-  if (!inputs || !outputFileName || !outputFolder) {
-    return res.status(400).json({ error: '缺少必要参数: inputs, outputFileName, 或 outputFolder' });
+  if (!req.body.inputs || !outputFileName || !req.body.outputFolder) {
+    return res.status(400).json({ success: false, error: '缺少必要参数: inputs, outputFileName, 或 outputFolder' });
   }
 
   try {
+    const inputs = workspace.resolveInputs(req.body.inputs);
+    const outputFolder = workspace.resolvePath(req.body.outputFolder);
+    const outputFilePath = workspace.resolvePath(path.join(outputFolder, outputFileName));
+    const validateContent = createOutputValidator(validation, outputFileName);
+
     // 首先判断输出文件夹是否存在，不存在就创建一个文件夹
     await fs.mkdir(outputFolder, { recursive: true });
 
-    const outputFilePath = path.join(outputFolder, outputFileName);
-
     // 获取文件扩展名
     const fileExtension = path.extname(outputFileName).toLowerCase();
 
@@ -73,33 +149,37 @@ app.post('/api/process-file', async (req, res) => {
     // 拼接的时候需要使用 \n 进行换行
     const combinedContent = contentParts.join('\n');
 
-    let extractedContent;
+    // 输入内容与上次相同时直接使用缓存的输出（forceRefresh 时忽略缓存）
+    const cacheKey = stepCache.getKey({ content: combinedContent, endpoint: '/api/process-file', outputExtension: fileExtension });
+    const cachedContent = forceRefresh ? undefined : await getCachedOutput(cacheKey, validateContent);
 
-    // 根据文件扩展名选择不同的处理逻辑
-    if (fileExtension === '.jsx' || fileExtension === '.tsx') {
-      // 使用 /api/generate-react 接口处理 React 组件
-      console.log('正在调用 React 生成 API 服务...');
+    // 调用模型生成输出，根据文件扩展名选择不同的处理逻辑
+    const requestModelOutput = async message => {
+      if (fileExtension === '.jsx' || fileExtension === '.tsx') {
+        // 使用 /api/generate-react 接口处理 React 组件
+        console.log('正在调用 React 生成 API 服务...');
 
-      // 为本次文件处理创建一个唯一的会话ID
-      const sessionId = `react-generation-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        // 为本次文件处理创建一个唯一的会话ID
+        const sessionId = `react-generation-${Date.now()}-${Math.random().toString(36).substring(7)}`;
 
-      // 调用 generate-react 接口
-      const reactApiResponse = await axios.post(process.env.GENERATE_REACT_API_URL || '/api/generate-react', {
-        message: combinedContent
-      });
+        // 调用 generate-react 接口
+        const reactApiResponse = await axios.post(process.env.GENERATE_REACT_API_URL || '/api/generate-react', {
+          message
+        }, { signal });
 
-      // 从响应中获取生成的 React 组件代码
-      const aiContent = reactApiResponse.data.reactCode;
+        // 从响应中获取生成的 React 组件代码
+        const aiContent = reactApiResponse.data.reactCode;
 
-      if (typeof aiContent !== 'string') {
-        throw new Error("React 生成 API 没有返回有效的回复内容。");
-      }
+        if (typeof aiContent !== 'string') {
+          throw new Error("React 生成 API 没有返回有效的回复内容。");
+        }
 
-      console.log('React 生成 API 服务成功返回结果。');
+        console.log('React 生成 API 服务成功返回结果。');
+
+        // 提取代码内容
+        return extractContentFromMarkdown(aiContent);
+      }
 
-      // 提取代码内容
-      extractedContent = extractContentFromMarkdown(aiContent);
-    } else {
       // 默认处理逻辑（适用于 .json 等其他文件类型）
       console.log('正在调用聊天 API 服务...');
 
@@ -108,9 +188,9 @@ app.post('/api/process-file', async (req, res) => {
       console.log(process.env.CHAT_API_URL, process.env.OPENAI_API_KEY)
       // 使用 axios 发送 POST 请求到你的聊天服务
       const chatApiResponse = await axios.post(process.env.CHAT_API_URL, {
-        message: combinedContent,
+        message,
         sessionId: sessionId
-      });
+      }, { signal });
 
       // 从聊天服务的响应中获取最终的回复内容
       const aiContent = chatApiResponse.data.reply;
@@ -122,9 +202,24 @@ app.post('/api/process-file', async (req, res) => {
       console.log('聊天 API 服务成功返回结果。');
 
       // 提取代码内容
-      extractedContent = extractContentFromMarkdown(aiContent);
-    }
+      return extractContentFromMarkdown(aiContent);
+    };
+
+    let extractedContent = cachedContent;
+    let autoFixHistory;
 
+    if (cachedContent !== undefined) {
+      console.log('命中步骤缓存，跳过模型调用。');
+    } else {
+      // 输出不满足校验规则时按配置自动修复，仍不通过则不写入文件和缓存
+      ({ content: extractedContent, autoFixHistory } = await generateWithAutoFix({
+        prompt: combinedContent,
+        generate: requestModelOutput,
+        validate: validateContent,
+        maxRounds: validation?.autoFixRounds
+      }));
+      await stepCache.set(cacheKey, { content: extractedContent, endpoint: '/api/process-file' });
+    }
     // 返回的内容不仅要存放到指定的文件夹中
     await fs.writeFile(outputFilePath, extractedContent, 'utf-8');
 
@@ -134,34 +229,51 @@ app.post('/api/process-file', async (req, res) => {
       message: '文件已处理并成功保存!',
       data: {
         path: outputFilePath,
-        content: extractedContent
+        content: extractedContent,
+        cached: cachedContent !== undefined,
+        autoFixHistory
       }
     });
   } catch (error) {
+    // 客户端已取消请求，连接已关闭，无需再返回响应
+    if (signal.aborted) {
+      console.log('客户端已取消文件处理请求');
+      return;
+    }
     console.error(error);
     // 增加对 axios 网络错误的专门捕获
     if (error.isAxiosError) {
       console.error('Axios 错误详情:', error.response?.data);
       return res.status(500).json({
+        success: false,
         error: '与 API 服务通信失败。',
         details: error.response?.data || error.message
       });
     }
     // 处理文件未找到的错误
     if (error.code === 'ENOENT' && error.path) {
-      return res.status(400).json({ error: `输入文件未找到: ${error.path}` });
+      return res.status(400).json({ success: false, error: `输入文件未找到: ${error.path}` });
+    }
+    // 校验规则无效或输出未通过校验
+    if (error.expose) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        details: { validationErrors: error.validationErrors, autoFixHistory: error.autoFixHistory }
+      });
     }
     // 其他通用错误
-    res.status(500).json({ error: '处理文件时发生错误。' });
+    res.status(500).json({ success: false, error: '处理文件时发生错误。' });
   }
 });
 
 // 添加 /api/generate-react 接口
 app.post('/api/generate-react', async (req, res) => {
   const { message, sessionId } = req.body;
+  const { signal } = createRequestAbortController(res);
 
   if (!message) {
-    return res.status(400).json({ error: '缺少必要参数: message' });
+    return res.status(400).json({ success: false, error: '缺少必要参数: message' });
   }
 
   try {
@@ -173,7 +285,7 @@ app.post('/api/generate-react', async (req, res) => {
       sessionId: sessionId || `react-gen-${Date.now()}`,
       // 可以添加特定的提示词或参数，指示这是 React 组件生成
       systemPrompt: '请将 JSP 代码转换为 React 组件。确保组件符合 React 最佳实践，使用函数组件和 Hooks。'
-    });
+    }, { signal });
 
     // 从响应中获取生成的内容
     const reply = apiResponse.data.reply;
@@ -190,72 +302,99 @@ app.post('/api/generate-react', async (req, res) => {
       reply: reply
     });
   } catch (error) {
+    if (signal.aborted) {
+      console.log('客户端已取消 React 组件生成请求');
+      return;
+    }
     console.error(error);
     if (error.isAxiosError) {
       console.error('Axios 错误详情:', error.response?.data);
       return res.status(500).json({
+        success: false,
         error: '与 API 服务通信失败。',
         details: error.response?.data || error.message
       });
     }
-    res.status(500).json({ error: '生成 React 组件时发生错误。' });
+    res.status(500).json({ success: false, error: '生成 React 组件时发生错误。' });
   }
 });
 
-// 添加直接使用 OpenAI API 的文件处理接口
-app.post('/api/process-file-direct', async (req, res) => {
-  const { inputs, outputFileName, outputFolder } = req.body;
-  const model = req.query.model || 'qianwen'; // 默认使用千问
-
-  if (!inputs || !outputFileName || !outputFolder) {
-    return res.status(400).json({ error: '缺少必要参数: inputs, outputFileName, 或 outputFolder' });
+// 直接调用 OpenAI API 处理文件：拼接提示词与文件内容后流式调用模型，结果写入输出文件；
+// onDelta 在收到每段模型输出时调用，用于流式接口实时推送；输入内容未变化时使用缓存的输出（forceRefresh 时忽略缓存）；
+// 配置了 validation 时输出需通过校验才会写入文件和缓存，onAutoFix 在每轮自动修复开始时调用；
+// 输入文件和输出目录须在工作目录内
+async function processFileDirect({ inputs: rawInputs, outputFileName, outputFolder: rawOutputFolder, model, forceRefresh, validation }, { signal, onDelta, onAutoFix } = {}) {
+  const inputs = workspace.resolveInputs(rawInputs);
+  const outputFolder = workspace.resolvePath(rawOutputFolder);
+  const outputFilePath = workspace.resolvePath(path.join(outputFolder, outputFileName));
+
+  // 根据模型选择使用不同的实例
+  let aiInstance;
+  let modelName;
+  let shouldPrintToConsole = true;
+
+  if (model === 'qianwen') {
+    aiInstance = openaiCoder;
+    modelName = process.env.OPENAI_MODEL_CODER || "qwen-coder-plus";
+    shouldPrintToConsole = false; // openaiCoder 不打印流式信息
+  } else if (model === 'deepseek') {
+    aiInstance = openai;
+    modelName = process.env.OPENAI_MODEL || 'deepseek-coder';
+    shouldPrintToConsole = true;
+  } else {
+    throw Object.assign(new Error('Invalid model. Supported models: qianwen, deepseek'), { status: 400, expose: true });
   }
-
-  try {
-    // 首先判断输出文件夹是否存在，不存在就创建一个文件夹
-    await fs.mkdir(outputFolder, { recursive: true });
-
-    const outputFilePath = path.join(outputFolder, outputFileName);
-
-    // 循环inputs，将提示词和文件内容拼接起来
-    const contentParts = [];
-    for (const input of inputs) {
-      if (input.type === 'prompt') {
-        contentParts.push(input.value);
-      } else if (input.type === 'file') {
-        // 如果是文件地址，需要先读取文件内容
-        const fileContent = await fs.readFile(input.value, 'utf-8');
-        contentParts.push(fileContent);
+  const validateContent = createOutputValidator(validation, outputFileName);
+
+  // 首先判断输出文件夹是否存在，不存在就创建一个文件夹
+  await fs.mkdir(outputFolder, { recursive: true });
+
+  // 循环inputs，将提示词和文件内容拼接起来
+  const contentParts = [];
+  for (const input of inputs) {
+    if (input.type === 'prompt') {
+      contentParts.push(input.value);
+    } else if (input.type === 'file') {
+      // 如果是文件地址，需要先读取文件内容
+      try {
+        contentParts.push(await fs.readFile(input.value, 'utf-8'));
+      } catch (error) {
+        // 处理文件未找到的错误
+        if (error.code === 'ENOENT' && error.path) {
+          throw Object.assign(new Error(`输入文件未找到: ${error.path}`), { status: 400, expose: true });
+        }
+        throw error;
       }
     }
-    // 拼接的时候需要使用 \n 进行换行
-    const combinedContent = contentParts.join('\n');
+  }
+  // 拼接的时候需要使用 \n 进行换行
+  const combinedContent = contentParts.join('\n');
+
+  const cacheKey = stepCache.getKey({ content: combinedContent, endpoint: '/api/process-file-direct', model });
+  const cachedContent = forceRefresh ? undefined : await getCachedOutput(cacheKey, validateContent);
+  if (cachedContent !== undefined) {
+    console.log(`命中步骤缓存，跳过 ${model} 模型调用。`);
+    await fs.writeFile(outputFilePath, cachedContent, 'utf-8');
+    return { path: outputFilePath, content: cachedContent, cached: true };
+  }
 
-    // 根据模型选择使用不同的实例
-    let aiInstance;
-    let modelName;
-    let shouldPrintToConsole = true;
-
-    if (model === 'qianwen') {
-      aiInstance = openaiCoder;
-      modelName = process.env.OPENAI_MODEL_CODER || "qwen-coder-plus";
-      shouldPrintToConsole = false; // openaiCoder 不打印流式信息
-    } else if (model === 'deepseek') {
-      aiInstance = openai;
-      modelName = process.env.OPENAI_MODEL || 'deepseek-coder';
-      shouldPrintToConsole = true;
-    } else {
-      return res.status(400).json({ error: 'Invalid model. Supported models: qianwen, deepseek' });
-    }
+  let usage;
 
+  // 调用模型生成一次输出（输出因长度截断时提示模型继续），返回提取出的代码内容
+  const requestModelOutput = async (message, round) => {
     let messages = [
       { role: 'system', content: '你是一个资深程序员，擅长解析各种语言的代码' },
-      { role: 'user', content: combinedContent },
+      { role: 'user', content: message },
     ];
     let aiContent = '';
     let finishReason;
 
-    console.log(`正在使用 ${model} 模型处理文件...`);
+    if (round > 0) {
+      console.log(`输出未通过校验，正在进行第 ${round} 轮自动修复...`);
+      onAutoFix?.(round);
+    } else {
+      console.log(`正在使用 ${model} 模型处理文件...`);
+    }
 
     // 都使用流式处理，但千问不打印到控制台
     do {
@@ -264,13 +403,17 @@ app.post('/api/process-file-direct', async (req, res) => {
         model: modelName,
         temperature: 0.5,
         stream: true,
-      });
+      }, { signal });
 
       let currentIterationContent = '';
       if (shouldPrintToConsole) {
         console.log('--- OpenAI Stream Start ---');
       }
       for await (const chunk of stream) {
+        // 部分服务会在最后一个分片中返回 token 用量，多轮调用时累加
+        if (chunk.usage) {
+          usage = addUsage(usage, chunk.usage);
+        }
         const delta = chunk.choices[0]?.delta;
 
         if (!delta) continue;
@@ -283,6 +426,7 @@ app.post('/api/process-file-direct', async (req, res) => {
         if (delta.content) {
           const contentPart = delta.content;
           currentIterationContent += contentPart;
+          onDelta?.(contentPart);
           // 只有 deepseek 才在控制台直接打印最终内容
           if (shouldPrintToConsole) {
             process.stdout.write(contentPart);
@@ -306,11 +450,39 @@ app.post('/api/process-file-direct', async (req, res) => {
     } while (finishReason === 'length');
 
     console.log(`${model} 模型成功返回结果。`);
+    return extractContentFromMarkdown(aiContent);
+  };
+
+  // 输出不满足校验规则时按配置自动修复，仍不通过则不写入文件和缓存
+  const { content: extractedContent, autoFixHistory } = await generateWithAutoFix({
+    prompt: combinedContent,
+    generate: requestModelOutput,
+    validate: validateContent,
+    maxRounds: validation?.autoFixRounds
+  });
+  await stepCache.set(cacheKey, { content: extractedContent, endpoint: '/api/process-file-direct', model });
+
+  // 返回的内容不仅要存放到指定的文件夹中
+  await fs.writeFile(outputFilePath, extractedContent, 'utf-8');
+
+  return { path: outputFilePath, content: extractedContent, cached: false, usage, autoFixHistory };
+}
 
-    const extractedContent = extractContentFromMarkdown(aiContent);
+// 添加直接使用 OpenAI API 的文件处理接口
+app.post('/api/process-file-direct', async (req, res) => {
+  const { inputs, outputFileName, outputFolder, forceRefresh, validation } = req.body;
+  const model = req.query.model || 'qianwen'; // 默认使用千问
+  const { signal } = createRequestAbortController(res);
 
-    // 返回的内容不仅要存放到指定的文件夹中
-    await fs.writeFile(outputFilePath, extractedContent, 'utf-8');
+  if (!inputs || !outputFileName || !outputFolder) {
+    return res.status(400).json({ success: false, error: '缺少必要参数: inputs, outputFileName, 或 outputFolder' });
+  }
+
+  try {
+    const { path: outputFilePath, content, cached, autoFixHistory } = await processFileDirect(
+      { inputs, outputFileName, outputFolder, model, forceRefresh, validation },
+      { signal }
+    );
 
     // 同时需要把保存的路径和内容在接口中返回
     res.status(200).json({
@@ -318,16 +490,188 @@ app.post('/api/process-file-direct', async (req, res) => {
       message: '文件已处理并成功保存!',
       data: {
         path: outputFilePath,
-        content: extractedContent
+        content,
+        cached,
+        autoFixHistory
       }
     });
   } catch (error) {
+    // 客户端已取消请求，流式调用已被中止
+    if (signal.aborted) {
+      console.log(`客户端已取消 ${model} 模型处理请求`);
+      return;
+    }
+    // 参数错误（模型无效、输入文件不存在、校验规则无效）和输出未通过校验时直接返回错误信息
+    if (error.expose) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        details: { validationErrors: error.validationErrors, autoFixHistory: error.autoFixHistory }
+      });
+    }
     console.error(error);
-    // 处理文件未找到的错误
+    res.status(500).json({ success: false, error: '处理文件时发生错误。' });
+  }
+});
+
+// 直接处理接口的流式版本（SSE）：模型输出实时以 delta 事件推送，
+// 自动修复开始时发送 autofix 事件，处理完成后发送 done 事件（内容与非流式接口的响应一致），出错时发送 error 事件
+app.post('/api/process-file-direct/stream', async (req, res) => {
+  const { inputs, outputFileName, outputFolder, forceRefresh, validation } = req.body;
+  const model = req.query.model || 'qianwen'; // 默认使用千问
+  const { signal } = createRequestAbortController(res);
+
+  if (!inputs || !outputFileName || !outputFolder) {
+    return res.status(400).json({ success: false, error: '缺少必要参数: inputs, outputFileName, 或 outputFolder' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const { path: outputFilePath, content, cached, usage, autoFixHistory } = await processFileDirect(
+      { inputs, outputFileName, outputFolder, model, forceRefresh, validation },
+      {
+        signal,
+        onDelta: delta => sendEvent('delta', { content: delta }),
+        onAutoFix: round => sendEvent('autofix', { round })
+      }
+    );
+
+    sendEvent('done', {
+      success: true,
+      message: '文件已处理并成功保存!',
+      data: {
+        path: outputFilePath,
+        content,
+        cached,
+        autoFixHistory
+      },
+      usage
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`客户端已取消 ${model} 模型处理请求`);
+      return;
+    }
+    // 响应头已发送，错误通过 error 事件返回，status（含模型服务的原始状态码）供前端重试策略判断
+    if (error.expose) {
+      sendEvent('error', { error: error.message, status: error.status, autoFixHistory: error.autoFixHistory });
+    } else {
+      console.error(error);
+      sendEvent('error', { error: '处理文件时发生错误。', status: error.status || 500 });
+    }
+  }
+  res.end();
+});
+
+// 请求中转允许的目标地址前缀：模型服务地址，以及 RELAY_ALLOWED_BASE_URLS 中的地址（多个以逗号分隔）
+const RELAY_ALLOWED_BASE_URLS = [
+  process.env.OPENAI_API_BASE,
+  process.env.OPENAI_API_BASE_CODER,
+  ...(process.env.RELAY_ALLOWED_BASE_URLS || '').split(',')
+].map(url => (url || '').trim()).filter(Boolean);
+
+// 目标地址与允许的地址同源，且路径在允许的地址的路径之下
+const isAllowedRelayUrl = url => {
+  let target;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  return RELAY_ALLOWED_BASE_URLS.some(baseUrl => {
+    try {
+      const base = new URL(baseUrl);
+      const basePath = base.pathname.replace(/\/+$/, '');
+      return target.origin === base.origin
+        && (!basePath || target.pathname === basePath || target.pathname.startsWith(`${basePath}/`));
+    } catch {
+      return false;
+    }
+  });
+};
+
+// 工作流 API 调用步骤的请求中转：替换请求体模板中的 {{文件名}} 后转发到目标地址，
+// 避免浏览器跨域限制。只允许转发到配置的地址（见 RELAY_ALLOWED_BASE_URLS），其他地址返回 403；
+// 目标接口返回非 2xx 时以 502 返回，并在 details.status 中带上原始状态码
+app.post('/api/relay', async (req, res) => {
+  const { url, method = 'GET', headers = {}, bodyTemplate, files = {}, timeout = 30000 } = req.body;
+  const { signal } = createRequestAbortController(res);
+
+  if (!url) {
+    return res.status(400).json({ success: false, error: '缺少必要参数: url' });
+  }
+  if (!isAllowedRelayUrl(url)) {
+    return res.status(403).json({ success: false, error: `目标地址不在允许转发的地址中: ${url}` });
+  }
+
+  try {
+    // 读取请求体模板中引用的文件内容（file 为文件路径，content 为前置步骤的输出内容）
+    let body;
+    if (bodyTemplate) {
+      body = bodyTemplate;
+      for (const [name, input] of Object.entries(files)) {
+        const content = input.type === 'file' ? await fs.readFile(workspace.resolvePath(input.value), 'utf-8') : input.value;
+        body = body.split(`{{${name}}}`).join(content);
+      }
+    }
+
+    console.log(`正在转发请求: ${method} ${url}`);
+
+    const response = await axios.request({
+      url,
+      method,
+      headers,
+      data: body,
+      timeout,
+      signal,
+      // 由本接口统一处理目标接口的状态码
+      validateStatus: () => true,
+      // 保留原始响应文本，交由前端按需解析
+      responseType: 'text',
+      transformResponse: data => data
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      return res.status(502).json({
+        success: false,
+        error: `目标接口返回状态码 ${response.status}`,
+        details: { status: response.status, content: response.data }
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        status: response.status,
+        headers: response.headers,
+        content: response.data
+      }
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('客户端已取消转发请求');
+      return;
+    }
+    console.error(error);
+    if (error.code === 'ECONNABORTED') {
+      return res.status(504).json({ success: false, error: `请求超时（${timeout}ms）` });
+    }
     if (error.code === 'ENOENT' && error.path) {
-      return res.status(400).json({ error: `输入文件未找到: ${error.path}` });
+      return res.status(400).json({ success: false, error: `输入文件未找到: ${error.path}` });
     }
-    res.status(500).json({ error: '处理文件时发生错误。' });
+    if (error.expose) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    res.status(502).json({ success: false, error: '转发请求失败', details: error.message });
   }
 });
 
@@ -349,26 +693,112 @@ async function getFiles(dir, fileType) {
   return Array.prototype.concat(...files).filter(Boolean);
 }
 
+// 后端运行的平台和路径分隔符
+app.get('/api/platform', (req, res) => {
+  res.status(200).json({ success: true, data: getPlatformInfo() });
+});
+
+// 返回的文件路径相对于 folderPath，以 / 分隔
 app.post('/api/list-files', async (req, res) => {
-  const { folderPath, fileType } = req.body;
+  const { fileType } = req.body;
 
-  if (!folderPath || !fileType) {
-    return res.status(400).json({ error: 'Missing required parameters: folderPath or fileType' });
+  if (!req.body.folderPath || !fileType) {
+    return res.status(400).json({ success: false, error: 'Missing required parameters: folderPath or fileType' });
   }
 
+  let folderPath;
   try {
+    folderPath = workspace.resolvePath(req.body.folderPath);
     const files = await getFiles(folderPath, fileType);
-    const relativeFiles = files.map(file => path.relative(folderPath, file));
+    const relativeFiles = files.map(file => toPortablePath(path.relative(folderPath, file)));
     res.status(200).json({
       success: true,
       data: relativeFiles,
     });
   } catch (error) {
+    if (error.expose) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error(error);
     if (error.code === 'ENOENT') {
-      return res.status(400).json({ error: `Directory not found: ${folderPath}` });
+      return res.status(400).json({ success: false, error: `Directory not found: ${folderPath}` });
+    }
+    res.status(500).json({ success: false, error: 'An error occurred while listing files.' });
+  }
+});
+
+// 检查文件是否存在，用于从失败处继续执行时判断已成功步骤的输出文件是否仍可复用；工作目录之外的文件视为不存在
+app.post('/api/files/exists', async (req, res) => {
+  const { paths } = req.body;
+
+  if (!Array.isArray(paths)) {
+    return res.status(400).json({ success: false, error: '请提供文件路径列表 (paths)' });
+  }
+
+  const results = await Promise.all(paths.map(async filePath => {
+    try {
+      const stat = await fs.stat(workspace.resolvePath(filePath));
+      return [filePath, stat.isFile()];
+    } catch {
+      return [filePath, false];
+    }
+  }));
+
+  res.status(200).json({
+    success: true,
+    data: Object.fromEntries(results)
+  });
+});
+
+// 读取文件内容，用于将步骤的新输出与磁盘上的文件对比
+app.post('/api/files/read', async (req, res) => {
+  const { path: filePath } = req.body;
+
+  if (!filePath) {
+    return res.status(400).json({ success: false, error: '请提供文件路径 (path)' });
+  }
+
+  try {
+    const content = await fs.readFile(workspace.resolvePath(filePath), 'utf-8');
+    res.status(200).json({
+      success: true,
+      data: { path: filePath, content }
+    });
+  } catch (error) {
+    if (error.expose) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({ success: false, error: `文件不存在: ${filePath}` });
+    }
+    console.error('读取文件失败:', error);
+    res.status(500).json({ success: false, error: '读取文件失败' });
+  }
+});
+
+// 写入文件内容（目录不存在时自动创建），用于保留步骤的旧输出
+app.post('/api/files/write', async (req, res) => {
+  const { path: filePath, content } = req.body;
+
+  if (!filePath || typeof content !== 'string') {
+    return res.status(400).json({ success: false, error: '请提供文件路径 (path) 和文件内容 (content)' });
+  }
+
+  try {
+    const nativePath = workspace.resolvePath(filePath);
+    await fs.mkdir(path.dirname(nativePath), { recursive: true });
+    await fs.writeFile(nativePath, content, 'utf-8');
+    res.status(200).json({
+      success: true,
+      message: '文件已保存',
+      data: { path: filePath, size: `${content.length} 字符` }
+    });
+  } catch (error) {
+    if (error.expose) {
+      return res.status(error.status).json({ success: false, error: error.message });
     }
-    res.status(500).json({ error: 'An error occurred while listing files.' });
+    console.error('写入文件失败:', error);
+    res.status(500).json({ success: false, error: '写入文件失败' });
   }
 });
 
@@ -804,6 +1234,300 @@ app.get('/api/multi-stream/info', async (req, res) => {
   }
 });
 
+// 运行记录文件路径，记录ID只允许字母、数字、下划线和连字符，防止路径穿越
+function getRunFilePath(runId) {
+  return /^[\w-]+$/.test(runId) ? path.join(RUN_HISTORY_DIR, `${runId}.json`) : null;
+}
+
+// 读取全部运行记录，按开始时间倒序
+async function readAllRuns() {
+  const fileNames = (await fs.readdir(RUN_HISTORY_DIR)).filter(name => name.endsWith('.json'));
+  const runs = [];
+  for (const fileName of fileNames) {
+    try {
+      runs.push(JSON.parse(await fs.readFile(path.join(RUN_HISTORY_DIR, fileName), 'utf-8')));
+    } catch (error) {
+      console.error(`读取运行记录 ${fileName} 失败:`, error.message);
+    }
+  }
+  return runs.sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt)));
+}
+
+// 运行记录摘要（不含步骤详情），用于列表展示
+function summarizeRun(run) {
+  const steps = (run.workflows || []).flatMap(workflow => workflow.steps || []);
+  const countSteps = status => steps.filter(step => step.status === status).length;
+  return {
+    id: run.id,
+    kind: run.kind,
+    targetId: run.targetId,
+    targetName: run.targetName,
+    status: run.status,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    workflowCount: (run.workflows || []).length,
+    stepCounts: {
+      total: steps.length,
+      success: countSteps('success'),
+      error: countSteps('error'),
+      skipped: countSteps('skipped')
+    }
+  };
+}
+
+// 删除超出保留数量的运行记录：按文件修改时间保留最近写入的记录，不读取记录内容
+async function pruneRunHistory() {
+  const fileNames = (await fs.readdir(RUN_HISTORY_DIR)).filter(name => name.endsWith('.json'));
+  if (fileNames.length <= MAX_RUN_HISTORY) return;
+
+  const entries = await Promise.all(fileNames.map(async fileName => {
+    const filePath = path.join(RUN_HISTORY_DIR, fileName);
+    const stats = await fs.stat(filePath).catch(() => null);
+    return { filePath, mtimeMs: stats ? stats.mtimeMs : 0 };
+  }));
+  entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  await Promise.all(entries.slice(MAX_RUN_HISTORY).map(entry => fs.unlink(entry.filePath).catch(() => {})));
+}
+
+// 写入运行记录；新增记录时清理超出保留数量的最早记录，更新已有记录（如任务执行中的每个步骤）时不清理
+async function writeRun(filePath, run) {
+  const isNewRun = await fs.access(filePath).then(() => false, () => true);
+  await fs.writeFile(filePath, JSON.stringify(run, null, 2), 'utf-8');
+  if (isNewRun) await pruneRunHistory();
+}
+
+// 保存（新增或覆盖）运行记录
+app.post('/api/runs/save', async (req, res) => {
+  try {
+    const run = req.body;
+    const filePath = run && typeof run === 'object' ? getRunFilePath(String(run.id || '')) : null;
+
+    if (!filePath) {
+      return res.status(400).json({
+        success: false,
+        error: '请提供有效的运行记录（需要包含合法的 id）'
+      });
+    }
+
+    await writeRun(filePath, run);
+
+    res.status(200).json({
+      success: true,
+      message: '运行记录保存成功',
+      data: { id: run.id }
+    });
+  } catch (error) {
+    console.error('保存运行记录失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '保存运行记录时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 运行记录列表，可按类型（workflow / group）和目标ID筛选
+app.get('/api/runs/list', async (req, res) => {
+  try {
+    const { kind, targetId } = req.query;
+    const runs = (await readAllRuns())
+      .filter(run => (!kind || run.kind === kind) && (!targetId || run.targetId === targetId))
+      .map(summarizeRun);
+
+    res.status(200).json({
+      success: true,
+      data: runs
+    });
+  } catch (error) {
+    console.error('读取运行记录列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '读取运行记录列表时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 读取单条运行记录（含步骤详情）
+app.get('/api/runs/:id', async (req, res) => {
+  const filePath = getRunFilePath(req.params.id);
+  if (!filePath) {
+    return res.status(400).json({ success: false, error: '运行记录ID不合法' });
+  }
+
+  try {
+    const run = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    res.status(200).json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({ success: false, error: '运行记录不存在' });
+    }
+    console.error('读取运行记录失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '读取运行记录时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 删除运行记录
+app.delete('/api/runs/:id', async (req, res) => {
+  const filePath = getRunFilePath(req.params.id);
+  if (!filePath) {
+    return res.status(400).json({ success: false, error: '运行记录ID不合法' });
+  }
+
+  try {
+    await fs.unlink(filePath);
+    res.status(200).json({
+      success: true,
+      message: '运行记录删除成功'
+    });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({ success: false, error: '运行记录不存在' });
+    }
+    console.error('删除运行记录失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '删除运行记录时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 提示词库中的全部片段（含历史版本）
+app.get('/api/prompts', async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await promptLibrary.list()
+    });
+  } catch (error) {
+    console.error('读取提示词库失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '读取提示词库时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 新建或更新提示词片段，内容变化时保存为新版本
+app.post('/api/prompts/save', async (req, res) => {
+  try {
+    const prompt = await promptLibrary.save(req.body || {});
+    res.status(200).json({
+      success: true,
+      message: '提示词片段保存成功',
+      data: prompt
+    });
+  } catch (error) {
+    if (error.expose) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('保存提示词片段失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '保存提示词片段时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 删除提示词片段（含全部版本）
+app.delete('/api/prompts/:id', async (req, res) => {
+  try {
+    if (!(await promptLibrary.remove(req.params.id))) {
+      return res.status(404).json({ success: false, error: '提示词片段不存在' });
+    }
+    res.status(200).json({
+      success: true,
+      message: '提示词片段删除成功'
+    });
+  } catch (error) {
+    console.error('删除提示词片段失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '删除提示词片段时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 服务端任务管理器：任务在后端执行，步骤通过本服务的接口处理
+const jobManager = createJobManager({
+  getBaseUrl: () => `http://localhost:${PORT}`,
+  saveRun: run => writeRun(getRunFilePath(run.id), run)
+});
+
+// 提交任务（工作流组）执行，立即返回任务信息，执行进度通过 GET /api/jobs/:id 查询
+app.post('/api/jobs', async (req, res) => {
+  const { targetId, targetName, workflows, forceRefresh, variables } = req.body || {};
+
+  if (!targetId || !Array.isArray(workflows) || workflows.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: '请提供任务ID (targetId) 和要执行的工作流 (workflows)'
+    });
+  }
+
+  try {
+    const job = jobManager.submit({ targetId, targetName: targetName || targetId, workflows, forceRefresh: Boolean(forceRefresh), variables });
+    console.log(`开始执行任务: ${job.targetName}，包含 ${workflows.length} 个工作流`);
+    res.status(200).json({
+      success: true,
+      message: '任务已提交',
+      data: job
+    });
+  } catch (error) {
+    console.error('提交任务失败:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.status ? error.message : '提交任务时发生错误',
+      details: error.message
+    });
+  }
+});
+
+// 任务列表（不含步骤详情），可按任务ID (targetId) 和状态筛选
+app.get('/api/jobs', (req, res) => {
+  const { targetId, status } = req.query;
+  res.status(200).json({
+    success: true,
+    data: jobManager.list({ targetId, status })
+  });
+});
+
+// 读取任务详情（含各工作流的步骤状态）
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobManager.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: '任务不存在或已过期' });
+  }
+  res.status(200).json({
+    success: true,
+    data: job
+  });
+});
+
+// 取消任务
+app.post('/api/jobs/:id/cancel', (req, res) => {
+  const job = jobManager.cancel(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: '任务不存在或已过期' });
+  }
+  res.status(200).json({
+    success: true,
+    message: '任务已取消',
+    data: job
+  });
+});
+
 // 启动服务器的逻辑保持不变
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
@@ -811,8 +1535,14 @@ app.listen(PORT, () => {
   console.log(`文件处理接口:`);
   console.log(`  - POST /api/process-file        - 智能文件处理（支持React组件生成）`);
   console.log(`  - POST /api/process-file-direct - 直接使用OpenAI API处理文件（支持模型选择：?model=qianwen|deepseek）`);
+  console.log(`  - POST /api/process-file-direct/stream - 直接处理接口的流式版本（SSE 实时推送模型输出）`);
   console.log(`  - POST /api/generate-react      - React组件生成`);
+  console.log(`  - GET  /api/platform            - 后端运行平台与路径分隔符`);
   console.log(`  - POST /api/list-files          - 文件列表获取`);
+  console.log(`  - POST /api/files/exists        - 检查文件是否存在`);
+  console.log(`  - POST /api/files/read          - 读取文件内容`);
+  console.log(`  - POST /api/files/write         - 写入文件内容`);
+  console.log(`  - POST /api/relay               - 工作流 API 调用步骤的请求中转`);
   console.log(`配置管理接口:`);
   console.log(`  - POST /api/config/save         - 保存配置`);
   console.log(`  - GET  /api/config/load         - 读取配置`);
@@ -823,4 +1553,18 @@ app.listen(PORT, () => {
   console.log(`  - GET  /api/multi-stream/load    - 读取多文件流组配置`);
   console.log(`  - POST /api/multi-stream/process - 执行多文件流组批量处理`);
   console.log(`  - GET  /api/multi-stream/info    - 获取多文件流组配置信息`);
+  console.log(`运行记录接口:`);
+  console.log(`  - POST /api/runs/save            - 保存运行记录`);
+  console.log(`  - GET  /api/runs/list            - 运行记录列表`);
+  console.log(`  - GET  /api/runs/:id             - 读取运行记录`);
+  console.log(`  - DELETE /api/runs/:id           - 删除运行记录`);
+  console.log(`提示词库接口:`);
+  console.log(`  - GET  /api/prompts              - 提示词片段列表`);
+  console.log(`  - POST /api/prompts/save         - 新建或更新提示词片段`);
+  console.log(`  - DELETE /api/prompts/:id        - 删除提示词片段`);
+  console.log(`任务执行接口:`);
+  console.log(`  - POST /api/jobs                 - 提交任务在服务端执行`);
+  console.log(`  - GET  /api/jobs                 - 任务列表`);
+  console.log(`  - GET  /api/jobs/:id             - 读取任务状态`);
+  console.log(`  - POST /api/jobs/:id/cancel      - 取消任务`);
 });
\ No newline at end of file
@@ -0,0 +1,61 @@
+// 步骤结果缓存（按内容寻址）：以拼接后的输入内容（文件内容与提示词）、接口和模型计算缓存键，
+// 输入未变化时直接复用上次的模型输出，不再调用模型
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+
+// 删除超过 maxAge（毫秒）的缓存项，剩余数量超过 maxEntries 时再删除最早写入的
+async function pruneCacheDir(cacheDir, { maxEntries, maxAge }) {
+  const names = (await fs.readdir(cacheDir)).filter(name => name.endsWith('.json'));
+  const entries = (await Promise.all(names.map(async name => {
+    const filePath = path.join(cacheDir, name);
+    const stats = await fs.stat(filePath).catch(() => null);
+    return stats && { filePath, mtimeMs: stats.mtimeMs };
+  }))).filter(Boolean).sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const now = Date.now();
+  const staleEntries = entries.filter((entry, index) =>
+    (maxAge !== undefined && now - entry.mtimeMs > maxAge) || (maxEntries !== undefined && index >= maxEntries));
+  await Promise.all(staleEntries.map(entry => fs.unlink(entry.filePath).catch(() => {})));
+}
+
+// 创建缓存，每个缓存项保存为 cacheDir 下的一个 JSON 文件；
+// maxEntries 为最多保留的缓存项数量，maxAge 为缓存项的最长保留时间（毫秒），每次写入后清理
+function createStepCache(cacheDir, { maxEntries, maxAge } = {}) {
+  const getFilePath = key => path.join(cacheDir, `${key}.json`);
+
+  return {
+    // 计算缓存键：content 为发送给模型的完整内容，endpoint 和 model 决定处理方式，
+    // outputExtension 影响 /api/process-file 选择的处理服务
+    getKey: ({ content, endpoint, model = '', outputExtension = '' }) => crypto
+      .createHash('sha256')
+      .update(JSON.stringify([endpoint, model, outputExtension, content]))
+      .digest('hex'),
+
+    // 读取缓存的输出内容，未命中时返回 undefined
+    get: async key => {
+      try {
+        const entry = JSON.parse(await fs.readFile(getFilePath(key), 'utf-8'));
+        return typeof entry.content === 'string' ? entry.content : undefined;
+      } catch (error) {
+        if (error.code !== 'ENOENT') console.error('读取步骤缓存失败:', error.message);
+        return undefined;
+      }
+    },
+
+    // 写入缓存，失败时只记录日志，不影响本次处理结果
+    set: async (key, { content, endpoint, model }) => {
+      try {
+        await fs.mkdir(cacheDir, { recursive: true });
+        await fs.writeFile(getFilePath(key), JSON.stringify({ key, endpoint, model, content, createdAt: new Date().toISOString() }), 'utf-8');
+        await pruneCacheDir(cacheDir, { maxEntries, maxAge });
+      } catch (error) {
+        console.error('写入步骤缓存失败:', error.message);
+      }
+    }
+  };
+}
+
+module.exports = {
+  createStepCache
+};
@@ -0,0 +1,74 @@
+const assert = require('node:assert/strict');
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const { afterEach, beforeEach, describe, it } = require('node:test');
+const { createStepCache } = require('./cache');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('createStepCache', () => {
+  let cacheDir;
+
+  beforeEach(async () => {
+    cacheDir = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'step-cache-')), 'cache');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(cacheDir), { recursive: true, force: true });
+  });
+
+  const listEntries = async () => (await fs.readdir(cacheDir)).sort();
+
+  it('相同的输入得到相同的缓存键，内容、接口、模型或输出类型不同时缓存键不同', () => {
+    const cache = createStepCache(cacheDir);
+    const input = { content: '转换 a.jsp', endpoint: '/api/process-file', model: 'gpt', outputExtension: '.tsx' };
+    const key = cache.getKey(input);
+
+    assert.equal(cache.getKey({ ...input }), key);
+    assert.match(key, /^[0-9a-f]{64}$/);
+    ['content', 'endpoint', 'model', 'outputExtension'].forEach(field => {
+      assert.notEqual(cache.getKey({ ...input, [field]: 'other' }), key, field);
+    });
+  });
+
+  it('写入后可以读取输出内容，未命中时返回 undefined', async () => {
+    const cache = createStepCache(cacheDir);
+
+    assert.equal(await cache.get('missing'), undefined);
+    await cache.set('key', { content: '输出', endpoint: '/api/process-file', model: 'gpt' });
+    assert.equal(await cache.get('key'), '输出');
+  });
+
+  it('缓存文件损坏时视为未命中', async () => {
+    const cache = createStepCache(cacheDir);
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(path.join(cacheDir, 'broken.json'), '{', 'utf-8');
+
+    assert.equal(await cache.get('broken'), undefined);
+  });
+
+  it('超出数量上限时删除最早写入的缓存项', async () => {
+    const cache = createStepCache(cacheDir, { maxEntries: 2 });
+    for (const [index, key] of ['a', 'b', 'c'].entries()) {
+      await cache.set(key, { content: key });
+      // 按修改时间排序，写入时间相同时顺序不确定
+      const time = new Date(Date.now() - (3 - index) * 1000);
+      await fs.utimes(path.join(cacheDir, `${key}.json`), time, time);
+    }
+    await cache.set('d', { content: 'd' });
+
+    assert.deepEqual(await listEntries(), ['c.json', 'd.json']);
+  });
+
+  it('删除超过保留时间的缓存项', async () => {
+    const cache = createStepCache(cacheDir, { maxAge: 30 * DAY });
+    await cache.set('old', { content: 'old' });
+    const time = new Date(Date.now() - 31 * DAY);
+    await fs.utimes(path.join(cacheDir, 'old.json'), time, time);
+    await cache.set('new', { content: 'new' });
+
+    assert.deepEqual(await listEntries(), ['new.json']);
+    assert.equal(await cache.get('old'), undefined);
+  });
+});
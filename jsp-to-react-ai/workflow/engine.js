@@ -0,0 +1,26 @@
+// 工作流引擎：服务端任务与前端共用 react-use-ai/src/engine 的实现，
+// 由 npm run build:engine 打包到 workflow/dist/engine.js；
+// 首次提交任务时才加载，未打包时只有任务接口不可用，其余接口不受影响
+const path = require('path');
+
+const bundlePath = path.join(__dirname, 'dist', 'engine.js');
+
+let engine;
+
+function loadEngine() {
+  if (!engine) {
+    try {
+      engine = require(bundlePath);
+    } catch (error) {
+      if (error.code === 'MODULE_NOT_FOUND' && error.message.includes(bundlePath)) {
+        throw Object.assign(new Error('未找到工作流引擎，请先执行 npm run build:engine'), { status: 503 });
+      }
+      throw error;
+    }
+  }
+  return engine;
+}
+
+module.exports = {
+  loadEngine
+};
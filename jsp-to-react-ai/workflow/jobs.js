@@ -0,0 +1,285 @@
+// 服务端任务：在后端依次执行任务（工作流组）中的全部工作流，
+// 关闭或刷新浏览器不会中断执行，前端通过轮询任务状态显示进度并在页面加载时重新关联运行中的任务
+const { loadEngine } = require('./engine');
+
+// 两个工作流之间的等待时间（毫秒）
+const WORKFLOW_INTERVAL = 500;
+// 内存中最多保留的已结束任务数量，超出时移除最早结束的任务
+const MAX_FINISHED_JOBS = 50;
+// 运行记录中输出内容的最大长度
+const MAX_OUTPUT_CONTENT_LENGTH = 10000;
+
+const now = () => new Date().toISOString();
+
+const getErrorMessage = error => error instanceof Error ? error.message : String(error);
+
+const isFinished = job => !['queued', 'running'].includes(job.status);
+
+// 任务摘要（不含工作流和步骤详情），用于列表展示
+function summarizeJob(job) {
+  const { workflows, ...summary } = job;
+  return summary;
+}
+
+// 创建运行记录中的工作流记录（格式与前端运行历史一致）
+const createWorkflowRunRecord = workflow => ({
+  workflowId: workflow.id,
+  workflowName: workflow.name,
+  status: 'running',
+  startedAt: now(),
+  steps: [...workflow.steps]
+    .sort((a, b) => a.order - b.order)
+    .map(step => ({ stepId: step.id, stepName: step.name, status: 'pending' }))
+});
+
+// 根据步骤事件更新运行记录中的步骤
+function recordStepEvent(workflowRecord, event, results) {
+  const stepRecord = workflowRecord.steps.find(s => s.stepId === event.step?.id);
+  if (!stepRecord) return;
+
+  switch (event.type) {
+    case 'step:start': {
+      let inputs;
+      try {
+        inputs = Object.fromEntries(loadEngine().resolveFileInputs(event.step, results));
+      } catch {
+        inputs = undefined;
+      }
+      Object.assign(stepRecord, {
+        status: 'running',
+        startedAt: now(),
+        finishedAt: undefined,
+        attempts: 1,
+        inputs,
+        message: undefined,
+        error: undefined
+      });
+      break;
+    }
+    case 'step:retry':
+      stepRecord.attempts = event.attempts.length;
+      break;
+    case 'step:success': {
+      const { path, content } = event.result.data || {};
+      Object.assign(stepRecord, {
+        status: 'success',
+        finishedAt: now(),
+        outputPath: path,
+        outputContent: !path && typeof content === 'string' ? content.slice(0, MAX_OUTPUT_CONTENT_LENGTH) : undefined,
+        message: event.result.message
+      });
+      break;
+    }
+    case 'step:error':
+      Object.assign(stepRecord, {
+        status: 'error',
+        finishedAt: now(),
+        attempts: event.attempts.length,
+        message: event.result.message,
+        error: getErrorMessage(event.error)
+      });
+      break;
+    case 'step:skipped':
+      Object.assign(stepRecord, { status: 'skipped', finishedAt: now(), message: event.result.message });
+      break;
+  }
+}
+
+// 创建任务管理器：getBaseUrl 返回本服务地址（步骤通过本服务的接口执行），saveRun 用于保存运行记录
+function createJobManager({ getBaseUrl, saveRun }) {
+  // 任务ID -> { job, controller }
+  const jobs = new Map();
+
+  // 移除超出保留数量的已结束任务
+  const pruneJobs = () => {
+    const finished = [...jobs.values()]
+      .map(entry => entry.job)
+      .filter(isFinished)
+      .sort((a, b) => String(b.finishedAt).localeCompare(String(a.finishedAt)));
+    finished.slice(MAX_FINISHED_JOBS).forEach(job => jobs.delete(job.id));
+  };
+
+  // 在后台执行任务中的全部工作流，单个工作流失败不影响后续工作流
+  const execute = async (job, controller) => {
+    const { signal } = controller;
+    const { applyWorkflowEvent, createStepExecutor, isAbortError, runWorkflow, setApiBaseUrl } = loadEngine();
+    // 引擎通过本服务的接口执行步骤
+    setApiBaseUrl(getBaseUrl());
+    const executeStep = createStepExecutor({ forceRefresh: job.forceRefresh });
+    const run = {
+      id: job.runId,
+      kind: 'group',
+      targetId: job.targetId,
+      targetName: job.targetName,
+      status: 'running',
+      startedAt: job.startedAt,
+      workflows: []
+    };
+
+    // 依次保存，避免较早的写入覆盖较新的记录
+    let saving = Promise.resolve();
+    const save = () => {
+      const snapshot = JSON.parse(JSON.stringify(run));
+      saving = saving.then(() => saveRun(snapshot)).catch(error => console.error('保存运行记录失败:', error.message));
+    };
+
+    job.status = 'running';
+    save();
+
+    for (let index = 0; index < job.workflows.length; index++) {
+      const workflow = job.workflows[index];
+
+      // 任务已取消，剩余工作流的步骤全部标记为跳过
+      if (signal.aborted) {
+        workflow.steps.forEach(step => Object.assign(step, { status: 'skipped', result: undefined }));
+        continue;
+      }
+
+      job.currentWorkflowIndex = index;
+      workflow.steps.forEach(step => Object.assign(step, { status: 'pending', result: undefined, attempts: undefined }));
+
+      const workflowRecord = createWorkflowRunRecord(workflow);
+      run.workflows.push(workflowRecord);
+      save();
+
+      const results = new Map();
+      let finishedSteps = 0;
+
+      try {
+        const { failedStepIds } = await runWorkflow(workflow, {
+          executeStep,
+          signal,
+          group: { id: job.targetId, name: job.targetName },
+          variables: job.variables,
+          onEvent: event => {
+            // 任务快照不记录进度和流式输出
+            if (event.type === 'progress' || event.type === 'step:output') return;
+            workflow.steps = applyWorkflowEvent(workflow.steps, event);
+            recordStepEvent(workflowRecord, event, results);
+            if (event.type === 'step:success') results.set(event.step.id, event.result);
+            if (['step:success', 'step:error', 'step:skipped'].includes(event.type)) {
+              finishedSteps++;
+              job.progress = Math.round(((index + finishedSteps / workflow.steps.length) / job.workflows.length) * 100);
+              if (event.type !== 'step:skipped') save();
+            }
+          }
+        });
+
+        // 按失败策略继续执行、但有步骤失败的工作流记为部分完成
+        if (failedStepIds.length > 0) {
+          job.partialWorkflows++;
+          workflowRecord.status = 'partial';
+        } else {
+          job.completedWorkflows++;
+          workflowRecord.status = 'success';
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          workflowRecord.status = 'cancelled';
+        } else {
+          job.failedWorkflows++;
+          job.errors.push({ workflowName: workflow.name, message: getErrorMessage(error) });
+          workflowRecord.status = 'failed';
+          workflowRecord.error = getErrorMessage(error);
+          console.error(`任务 ${job.targetName} 的工作流 ${workflow.name} 执行失败:`, getErrorMessage(error));
+        }
+      }
+
+      workflowRecord.finishedAt = now();
+      // 未执行到的步骤保持 pending，运行中被中止的步骤记为跳过
+      workflowRecord.steps.forEach(step => {
+        if (step.status === 'running') Object.assign(step, { status: 'skipped', finishedAt: now() });
+      });
+      if (!signal.aborted) job.progress = Math.round(((index + 1) / job.workflows.length) * 100);
+      save();
+
+      // 如果不是最后一个工作流，等待一段时间再执行下一个
+      if (index < job.workflows.length - 1 && !signal.aborted) {
+        await new Promise(resolve => setTimeout(resolve, WORKFLOW_INTERVAL));
+      }
+    }
+
+    const { completedWorkflows, partialWorkflows, failedWorkflows } = job;
+    if (signal.aborted) {
+      job.status = 'cancelled';
+      run.status = 'cancelled';
+    } else if (failedWorkflows === 0 && partialWorkflows === 0) {
+      job.status = 'completed';
+      run.status = 'success';
+    } else {
+      job.status = completedWorkflows + partialWorkflows > 0 ? 'partial' : 'failed';
+      run.status = job.status;
+    }
+    job.finishedAt = now();
+    run.finishedAt = job.finishedAt;
+    save();
+    pruneJobs();
+
+    console.log(`任务 ${job.targetName} 执行结束，状态: ${job.status}`);
+  };
+
+  return {
+    // 提交任务并立即返回，任务在后台执行；forceRefresh 时忽略步骤结果缓存，variables 为任务上的变量
+    submit: ({ targetId, targetName, workflows, forceRefresh = false, variables = {} }) => {
+      const runningJob = [...jobs.values()].find(entry => entry.job.targetId === targetId && !isFinished(entry.job));
+      if (runningJob) {
+        throw Object.assign(new Error(`任务 "${targetName}" 正在执行中`), { status: 409 });
+      }
+      // 引擎未打包时提交失败，不创建任务
+      loadEngine();
+
+      const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const job = {
+        id,
+        kind: 'group',
+        targetId,
+        targetName,
+        status: 'queued',
+        progress: 0,
+        currentWorkflowIndex: 0,
+        totalWorkflows: workflows.length,
+        completedWorkflows: 0,
+        partialWorkflows: 0,
+        failedWorkflows: 0,
+        errors: [],
+        startedAt: now(),
+        runId: `run-${id}`,
+        forceRefresh,
+        variables,
+        workflows
+      };
+      const controller = new AbortController();
+      jobs.set(id, { job, controller });
+
+      execute(job, controller).catch(error => {
+        console.error(`任务 ${targetName} 执行异常:`, error);
+        job.status = 'failed';
+        job.errors.push({ workflowName: '', message: getErrorMessage(error) });
+        job.finishedAt = now();
+      });
+
+      return job;
+    },
+
+    get: jobId => jobs.get(jobId)?.job,
+
+    // 任务列表（不含步骤详情），可按目标ID和状态筛选，按开始时间倒序
+    list: ({ targetId, status } = {}) => [...jobs.values()]
+      .map(entry => entry.job)
+      .filter(job => (!targetId || job.targetId === targetId) && (!status || job.status === status))
+      .sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt)))
+      .map(summarizeJob),
+
+    // 取消任务：中止进行中的请求，未执行的工作流不再执行
+    cancel: jobId => {
+      const entry = jobs.get(jobId);
+      if (!entry) return undefined;
+      if (!isFinished(entry.job)) entry.controller.abort();
+      return entry.job;
+    }
+  };
+}
+
+module.exports = {
+  createJobManager
+};
@@ -0,0 +1,47 @@
+// 路径：前端配置中的路径以 / 分隔保存（与平台无关），旧配置中也可能是 Windows 下的 \ 分隔路径，
+// 读写文件前统一转换为当前平台的格式，返回给前端的相对路径使用 / 分隔（与前端 src/engine/paths.ts 保持一致）
+
+const path = require('path');
+
+const toPortablePath = value => value.replace(/\\/g, '/');
+
+// 转换为当前平台的路径；非 Windows 平台上 \ 也视为分隔符
+const toNativePath = value => typeof value === 'string' && value ? path.normalize(toPortablePath(value)) : value;
+
+// 后端运行的平台，前端据此显示和拼接路径（/api/platform）
+const getPlatformInfo = () => ({ platform: process.platform, separator: path.sep });
+
+// 解析工作目录配置：多个目录以平台的路径列表分隔符（Windows 为 ;，其他平台为 :）分隔，未配置时使用 defaultRoot
+const parseWorkspaceRoots = (value, defaultRoot) =>
+  (value ? value.split(path.delimiter) : [defaultRoot])
+    .map(root => root.trim())
+    .filter(Boolean)
+    .map(root => path.resolve(toNativePath(root)));
+
+// Windows 的路径不区分大小写
+const normalizeForCompare = value => process.platform === 'win32' ? value.toLowerCase() : value;
+
+const isInsideRoot = (root, target) => {
+  const relative = path.relative(normalizeForCompare(root), normalizeForCompare(target));
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+};
+
+// 限制文件接口只能访问工作目录内的路径：resolvePath 返回当前平台的绝对路径，
+// 工作目录之外的路径抛出 403 错误（expose 表示错误信息可直接返回给前端）
+const createWorkspacePaths = roots => {
+  const resolvePath = value => {
+    const resolved = path.resolve(toNativePath(String(value)));
+    if (!roots.some(root => isInsideRoot(root, resolved))) {
+      throw Object.assign(new Error(`路径不在允许访问的工作目录中: ${value}`), { status: 403, expose: true });
+    }
+    return resolved;
+  };
+  // 文件处理接口的输入中，文件类型的值为文件路径
+  const resolveInputs = inputs => Array.isArray(inputs)
+    ? inputs.map(input => input && input.type === 'file' ? { ...input, value: resolvePath(input.value) } : input)
+    : inputs;
+
+  return { roots, resolvePath, resolveInputs };
+};
+
+module.exports = { toPortablePath, toNativePath, getPlatformInfo, parseWorkspaceRoots, createWorkspacePaths };
@@ -0,0 +1,48 @@
+const assert = require('node:assert/strict');
+const path = require('path');
+const { describe, it } = require('node:test');
+const { createWorkspacePaths, parseWorkspaceRoots, toNativePath, toPortablePath } = require('./paths');
+
+describe('路径转换', () => {
+  it('前端保存的路径转换为当前平台的格式', () => {
+    assert.equal(toPortablePath('a\\b/c'), 'a/b/c');
+    assert.equal(toNativePath('a\\b/c'), path.join('a', 'b', 'c'));
+    assert.equal(toNativePath(''), '');
+    assert.equal(toNativePath(undefined), undefined);
+  });
+
+  it('工作目录以平台的路径列表分隔符分隔，未配置时使用默认目录', () => {
+    const roots = ['/work/a', '/work/b'].map(root => path.resolve(root));
+    assert.deepEqual(parseWorkspaceRoots(` /work/a ${path.delimiter}${path.delimiter}/work/b`, '/default'), roots);
+    assert.deepEqual(parseWorkspaceRoots(undefined, '/default'), [path.resolve('/default')]);
+  });
+});
+
+describe('createWorkspacePaths', () => {
+  const root = path.resolve('/work/project');
+  const workspace = createWorkspacePaths([root]);
+
+  it('工作目录内的路径解析为绝对路径', () => {
+    assert.equal(workspace.resolvePath('/work/project'), root);
+    assert.equal(workspace.resolvePath('/work/project\\src/App.tsx'), path.join(root, 'src', 'App.tsx'));
+  });
+
+  it('工作目录之外的路径（包括 .. 和前缀相同的目录）返回 403', () => {
+    ['/etc/passwd', '/work/project/../other/a.txt', '/work/project-other/a.txt'].forEach(value => {
+      assert.throws(() => workspace.resolvePath(value), error => {
+        assert.equal(error.status, 403);
+        assert.equal(error.expose, true);
+        return true;
+      }, value);
+    });
+  });
+
+  it('只解析文件处理接口输入中文件类型的值', () => {
+    const inputs = [{ type: 'file', value: '/work/project/a.jsp' }, { type: 'prompt', value: '/etc/passwd' }];
+    assert.deepEqual(workspace.resolveInputs(inputs), [
+      { type: 'file', value: path.join(root, 'a.jsp') },
+      { type: 'prompt', value: '/etc/passwd' }
+    ]);
+    assert.throws(() => workspace.resolveInputs([{ type: 'file', value: '/etc/passwd' }]));
+  });
+});
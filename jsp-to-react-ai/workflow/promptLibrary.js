@@ -0,0 +1,81 @@
+// 提示词库：可复用的提示词片段，提示词中以 {{> 片段ID}} 引用最新版本，{{> 片段ID@版本号}} 固定引用某个版本；
+// 修改片段内容时保存为新版本，历史版本保留（与前端 src/engine/promptLibrary.ts 保持一致）
+const fs = require('fs').promises;
+const path = require('path');
+
+// 片段ID只允许字母、数字、下划线和连字符
+const PROMPT_ID_PATTERN = /^[\w-]+$/;
+
+const createBadRequest = message => Object.assign(new Error(message), { status: 400, expose: true });
+
+// 创建提示词库，全部片段保存在 filePath 指向的 JSON 文件中
+function createPromptLibrary(filePath) {
+  const readAll = async () => {
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return Array.isArray(data.prompts) ? data.prompts : [];
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const writeAll = async prompts => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({ prompts, lastUpdated: new Date().toISOString() }, null, 2), 'utf-8');
+  };
+
+  // 修改依次执行，避免同时保存时互相覆盖
+  let queue = Promise.resolve();
+  const enqueue = task => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  return {
+    list: readAll,
+
+    // 新建或更新片段：内容变化时追加新版本，只修改名称、说明时不产生新版本
+    save: ({ id, name, description, content, note }) => enqueue(async () => {
+      if (typeof id !== 'string' || !PROMPT_ID_PATTERN.test(id)) {
+        throw createBadRequest('片段ID只能包含字母、数字、下划线和连字符');
+      }
+      if (typeof content !== 'string' || !content.trim()) {
+        throw createBadRequest('片段内容不能为空');
+      }
+
+      const prompts = await readAll();
+      const now = new Date().toISOString();
+      let prompt = prompts.find(item => item.id === id);
+      if (!prompt) {
+        prompt = { id, name: name || id, versions: [] };
+        prompts.push(prompt);
+      }
+      prompt.name = name || prompt.name;
+      prompt.description = description || undefined;
+
+      const latest = prompt.versions[prompt.versions.length - 1];
+      if (!latest || latest.content !== content) {
+        prompt.versions.push({ version: (latest?.version ?? 0) + 1, content, note: note || undefined, createdAt: now });
+      }
+      prompt.updatedAt = now;
+
+      await writeAll(prompts);
+      return prompt;
+    }),
+
+    // 删除片段，片段不存在时返回 false
+    remove: id => enqueue(async () => {
+      const prompts = await readAll();
+      const rest = prompts.filter(item => item.id !== id);
+      if (rest.length === prompts.length) return false;
+      await writeAll(rest);
+      return true;
+    })
+  };
+}
+
+module.exports = {
+  createPromptLibrary
+};
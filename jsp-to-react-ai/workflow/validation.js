@@ -0,0 +1,244 @@
+// 步骤输出校验：按步骤配置的规则检查模型输出（语法、JSON Schema、必须包含的文本、正则），
+// 在写入输出文件和步骤缓存之前执行；配置了自动修复时把错误反馈给模型重新生成，
+// 仍不通过时以 422 返回，由前端与服务端引擎按重试策略重试
+const path = require('path');
+
+// 使用 TypeScript 解析器检查语法的输出文件类型
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+// 每类问题最多报告的条数，避免错误信息过长
+const MAX_REPORTED_ERRORS = 5;
+
+// 规则本身无效（JSON Schema 或正则写错）时的错误，重试无法解决，以 400 返回
+const createRuleError = message => Object.assign(new Error(message), { status: 400, expose: true });
+
+// 输出不满足校验规则时的错误，autoFixHistory 为自动修复的各轮记录
+const createValidationError = (errors, autoFixHistory) => Object.assign(
+  new Error(`输出校验失败: ${errors.join('；')}`),
+  { status: 422, expose: true, validationErrors: errors, autoFixHistory }
+);
+
+const getJsonType = value => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value, type) => {
+  if (type === 'integer') return Number.isInteger(value);
+  return getJsonType(value) === type;
+};
+
+// 按 JSON Schema 校验数据，支持常用关键字：type、enum、const、required、properties、additionalProperties、
+// items、minItems、maxItems、minLength、maxLength、pattern、minimum、maximum
+function validateJsonSchema(value, schema, pointer = '$') {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${pointer} 应为 ${types.join(' | ')} 类型，实际为 ${getJsonType(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.some(item => JSON.stringify(item) === JSON.stringify(value))) {
+    errors.push(`${pointer} 应为 ${schema.enum.map(item => JSON.stringify(item)).join(', ')} 之一`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${pointer} 应为 ${JSON.stringify(schema.const)}`);
+  }
+
+  if (getJsonType(value) === 'object') {
+    const properties = schema.properties || {};
+    (schema.required || []).forEach(key => {
+      if (!(key in value)) errors.push(`${pointer} 缺少必填字段 "${key}"`);
+    });
+    Object.entries(value).forEach(([key, item]) => {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(item, properties[key], `${pointer}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${pointer} 不允许包含字段 "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${pointer}.${key}`));
+      }
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${pointer} 至少应有 ${schema.minItems} 项`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${pointer} 最多只能有 ${schema.maxItems} 项`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${pointer}[${index}]`)));
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${pointer} 长度不能少于 ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${pointer} 长度不能超过 ${schema.maxLength}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${pointer} 不匹配 ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${pointer} 不能小于 ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${pointer} 不能大于 ${schema.maximum}`);
+    }
+  }
+
+  return errors;
+}
+
+// JSON Schema 中全部的 pattern（包括 properties、additionalProperties 和 items 中的），用于在调用模型前检查
+function collectSchemaPatterns(schema) {
+  if (!schema || typeof schema !== 'object') return [];
+  return [
+    ...(typeof schema.pattern === 'string' ? [schema.pattern] : []),
+    ...Object.values(schema.properties || {}).flatMap(collectSchemaPatterns),
+    ...collectSchemaPatterns(schema.additionalProperties),
+    ...collectSchemaPatterns(schema.items)
+  ];
+}
+
+// TypeScript 是可选依赖，仅用于语法检查，首次使用时加载；未安装时返回 null
+let typescript;
+function loadTypeScript() {
+  if (typescript === undefined) {
+    try {
+      typescript = require('typescript');
+    } catch {
+      typescript = null;
+    }
+  }
+  return typescript;
+}
+
+// 使用 TypeScript 解析器检查 .ts/.tsx/.js/.jsx 的语法错误（不做类型检查）
+function checkScriptSyntax(content, fileName) {
+  const ts = loadTypeScript();
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve }
+  });
+
+  return diagnostics.map(diagnostic => {
+    const text = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) return `语法错误: ${text}`;
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `第 ${line + 1} 行第 ${character + 1} 列语法错误: ${text}`;
+  });
+}
+
+// 根据校验规则创建校验函数，返回的函数检查输出内容并返回全部不通过的原因（为空表示通过）；
+// 规则无效时立即抛出错误，避免调用模型后才发现配置问题
+function createOutputValidator(validation, outputFileName) {
+  const { checkSyntax = false, jsonSchema, requiredTexts = [], patterns = [] } = validation || {};
+  const extension = path.extname(outputFileName || '').toLowerCase();
+
+  let schema;
+  if (jsonSchema?.trim()) {
+    try {
+      schema = JSON.parse(jsonSchema);
+    } catch (error) {
+      throw createRuleError(`JSON Schema 不是合法的 JSON: ${error.message}`);
+    }
+    collectSchemaPatterns(schema).forEach(pattern => {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw createRuleError(`JSON Schema 中的正则表达式无效: ${error.message}`);
+      }
+    });
+  }
+  if (checkSyntax && SCRIPT_EXTENSIONS.includes(extension) && !loadTypeScript()) {
+    throw createRuleError('检查脚本语法需要安装可选依赖 typescript（npm install typescript）');
+  }
+  const regexes = patterns.filter(Boolean).map(pattern => {
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw createRuleError(`正则表达式无效: ${error.message}`);
+    }
+  });
+
+  return content => {
+    const errors = [];
+
+    if (extension === '.json' && (checkSyntax || schema)) {
+      let value;
+      let parsed = false;
+      try {
+        value = JSON.parse(content);
+        parsed = true;
+      } catch (error) {
+        errors.push(`输出不是合法的 JSON: ${error.message}`);
+      }
+      if (parsed && schema) {
+        errors.push(...validateJsonSchema(value, schema).slice(0, MAX_REPORTED_ERRORS));
+      }
+    } else if (checkSyntax && SCRIPT_EXTENSIONS.includes(extension)) {
+      errors.push(...checkScriptSyntax(content, outputFileName).slice(0, MAX_REPORTED_ERRORS));
+    }
+
+    requiredTexts.filter(Boolean).forEach(text => {
+      if (!content.includes(text)) errors.push(`输出缺少必须包含的内容 "${text}"`);
+    });
+    regexes.forEach(regex => {
+      if (!regex.test(content)) errors.push(`输出不匹配正则表达式 /${regex.source}/`);
+    });
+
+    return errors;
+  };
+}
+
+// 自动修复的提示词：包含原始提示词、未通过校验的输出和错误原因
+const buildAutoFixPrompt = (prompt, output, errors) => [
+  prompt,
+  '',
+  '你上一次按以上要求生成的内容未通过校验：',
+  output,
+  '',
+  '校验错误：',
+  ...errors.map(error => `- ${error}`),
+  '',
+  '请修复以上错误，重新输出完整的内容，不要解释。'
+].join('\n');
+
+// 生成输出并校验：不通过时把原始提示词、错误输出和错误原因发回模型修复，最多 maxRounds 轮；
+// generate(prompt, round) 返回模型输出，round 为 0 表示首次生成；
+// 返回最终输出和各轮记录（未进行修复时记录为 undefined），修复后仍不通过时抛出 422 错误
+async function generateWithAutoFix({ prompt, generate, validate, maxRounds = 0 }) {
+  const history = [];
+  let content = await generate(prompt, 0);
+  let errors = validate(content);
+  history.push({ round: 0, content, errors });
+
+  while (errors.length > 0 && history.length <= maxRounds) {
+    const round = history.length;
+    content = await generate(buildAutoFixPrompt(prompt, content, errors), round);
+    errors = validate(content);
+    history.push({ round, content, errors });
+  }
+
+  const autoFixHistory = history.length > 1 ? history : undefined;
+  if (errors.length > 0) {
+    throw createValidationError(errors, autoFixHistory);
+  }
+  return { content, autoFixHistory };
+}
+
+module.exports = {
+  createOutputValidator,
+  generateWithAutoFix
+};
@@ -0,0 +1,153 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { createOutputValidator, generateWithAutoFix } = require('./validation');
+
+const hasTypeScript = (() => {
+  try {
+    require.resolve('typescript');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('createOutputValidator', () => {
+  it('没有配置规则时总是通过', () => {
+    assert.deepEqual(createOutputValidator(undefined, 'a.tsx')('任意内容'), []);
+  });
+
+  it('JSON 输出检查语法', () => {
+    const validate = createOutputValidator({ checkSyntax: true }, 'data.json');
+
+    assert.deepEqual(validate('{"a": 1}'), []);
+    assert.equal(validate('{a: 1}').length, 1);
+    assert.match(validate('{a: 1}')[0], /^输出不是合法的 JSON/);
+  });
+
+  it('按 JSON Schema 校验 JSON 输出', () => {
+    const schema = {
+      type: 'object',
+      required: ['name', 'items'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', pattern: '^[A-Z]' },
+        status: { enum: ['on', 'off'] },
+        items: { type: 'array', minItems: 1, items: { type: 'integer', maximum: 10 } }
+      }
+    };
+    const validate = createOutputValidator({ jsonSchema: JSON.stringify(schema) }, 'data.json');
+
+    assert.deepEqual(validate(JSON.stringify({ name: 'User', items: [1, 2] })), []);
+    assert.deepEqual(validate(JSON.stringify({ name: 'user', status: 'x', items: [1.5, 20], extra: true })), [
+      '$.name 不匹配 ^[A-Z]',
+      '$.status 应为 "on", "off" 之一',
+      '$.items[0] 应为 integer 类型，实际为 number',
+      '$.items[1] 不能大于 10',
+      '$ 不允许包含字段 "extra"'
+    ]);
+    assert.deepEqual(validate('[]'), ['$ 应为 object 类型，实际为 array']);
+  });
+
+  it('每类问题最多报告 5 条', () => {
+    const schema = { type: 'array', items: { type: 'string' } };
+    const validate = createOutputValidator({ jsonSchema: JSON.stringify(schema) }, 'data.json');
+
+    assert.equal(validate(JSON.stringify([1, 2, 3, 4, 5, 6, 7])).length, 5);
+  });
+
+  it('检查必须包含的文本和正则表达式', () => {
+    const validate = createOutputValidator({ requiredTexts: ['export default', ''], patterns: ['^import'] }, 'a.tsx');
+
+    assert.deepEqual(validate("import React from 'react';\nexport default App;"), []);
+    assert.deepEqual(validate('const a = 1;'), [
+      '输出缺少必须包含的内容 "export default"',
+      '输出不匹配正则表达式 /^import/'
+    ]);
+  });
+
+  it('检查脚本输出的语法并报告位置', { skip: !hasTypeScript && '未安装可选依赖 typescript' }, () => {
+    const validate = createOutputValidator({ checkSyntax: true }, 'App.tsx');
+
+    assert.deepEqual(validate('export const App = () => <div>{1}</div>;'), []);
+    const errors = validate('export const App = () => {\n  return <div>;\n');
+    assert.ok(errors.length > 0);
+    assert.match(errors[0], /^第 2 行第 \d+ 列语法错误/);
+  });
+
+  it('规则本身无效时在调用模型前抛出 400 错误', () => {
+    const cases = [
+      [{ jsonSchema: '{' }, /JSON Schema 不是合法的 JSON/],
+      [{ jsonSchema: JSON.stringify({ properties: { a: { items: { pattern: '(' } } } }) }, /JSON Schema 中的正则表达式无效/],
+      [{ patterns: ['['] }, /正则表达式无效/]
+    ];
+    cases.forEach(([validation, message]) => {
+      assert.throws(() => createOutputValidator(validation, 'data.json'), error => {
+        assert.equal(error.status, 400);
+        assert.match(error.message, message);
+        return true;
+      });
+    });
+  });
+});
+
+// 输出包含 "ok" 时通过
+const validate = content => content.includes('ok') ? [] : ['输出缺少 ok'];
+
+// 按顺序返回预设的输出，并记录每次收到的提示词和轮次
+const createGenerator = outputs => {
+  const calls = [];
+  const generate = async (prompt, round) => {
+    calls.push({ prompt, round });
+    return outputs[calls.length - 1];
+  };
+  return { calls, generate };
+};
+
+describe('generateWithAutoFix', () => {
+  it('首次输出通过校验时直接返回，不记录修复过程', async () => {
+    const { calls, generate } = createGenerator(['ok']);
+
+    assert.deepEqual(await generateWithAutoFix({ prompt: '生成', generate, validate, maxRounds: 2 }), { content: 'ok', autoFixHistory: undefined });
+    assert.equal(calls.length, 1);
+  });
+
+  it('不通过时把原始提示词、错误输出和错误原因发回模型修复', async () => {
+    const { calls, generate } = createGenerator(['bad', 'ok']);
+
+    const { content, autoFixHistory } = await generateWithAutoFix({ prompt: '生成组件', generate, validate, maxRounds: 2 });
+
+    assert.equal(content, 'ok');
+    assert.deepEqual(calls.map(call => call.round), [0, 1]);
+    assert.equal(calls[0].prompt, '生成组件');
+    assert.ok(calls[1].prompt.startsWith('生成组件\n'));
+    assert.ok(calls[1].prompt.includes('\nbad\n'));
+    assert.ok(calls[1].prompt.includes('- 输出缺少 ok'));
+    assert.deepEqual(autoFixHistory, [
+      { round: 0, content: 'bad', errors: ['输出缺少 ok'] },
+      { round: 1, content: 'ok', errors: [] }
+    ]);
+  });
+
+  it('修复轮次用完仍不通过时抛出 422 错误，附带各轮记录', async () => {
+    const { calls, generate } = createGenerator(['bad', 'bad again', 'still bad']);
+
+    await assert.rejects(generateWithAutoFix({ prompt: '生成', generate, validate, maxRounds: 2 }), error => {
+      assert.equal(error.status, 422);
+      assert.deepEqual(error.validationErrors, ['输出缺少 ok']);
+      assert.deepEqual(error.autoFixHistory.map(item => item.content), ['bad', 'bad again', 'still bad']);
+      return true;
+    });
+    assert.equal(calls.length, 3);
+  });
+
+  it('未开启自动修复时校验不通过直接抛出错误，不记录修复过程', async () => {
+    const { calls, generate } = createGenerator(['bad']);
+
+    await assert.rejects(generateWithAutoFix({ prompt: '生成', generate, validate }), error => {
+      assert.equal(error.status, 422);
+      assert.equal(error.autoFixHistory, undefined);
+      return true;
+    });
+    assert.equal(calls.length, 1);
+  });
+});
@@ -6,6 +6,8 @@ import BatchProcessForm from './components/BatchProcessForm';
 import WorkflowPage from './pages/WorkflowPage';
 import WorkflowGroupPage from './pages/WorkflowGroupPage';
 import WorkflowGroupDetailPage from './pages/WorkflowGroupDetailPage';
+import PromptLibraryPage from './pages/PromptLibraryPage';
+import ApiSettings from './components/ApiSettings';
 import './App.css';
 
 const { Header, Content } = Layout;
@@ -16,9 +18,9 @@ function App() {
   return (
     <ConfigProvider locale={zhCN}>
       <Layout className="layout">
-        <Header>
+        <Header style={{ display: 'flex', alignItems: 'center' }}>
           <div className="logo" />
-          <Menu theme="dark" mode="horizontal" selectedKeys={[location.pathname]}>
+          <Menu theme="dark" mode="horizontal" selectedKeys={[location.pathname]} style={{ flex: 1, minWidth: 0 }}>
             <Menu.Item key="/">
               <Link to="/">单次转换</Link>
             </Menu.Item>
@@ -31,7 +33,11 @@ function App() {
             <Menu.Item key="/workflow-groups">
               <Link to="/workflow-groups">工作流组管理</Link>
             </Menu.Item>
+            <Menu.Item key="/prompts">
+              <Link to="/prompts">提示词库</Link>
+            </Menu.Item>
           </Menu>
+          <ApiSettings />
         </Header>
         <Content style={{ padding: '0' }}>
           <Routes>
@@ -48,6 +54,7 @@ function App() {
             <Route path="/workflow" element={<WorkflowPage />} />
             <Route path="/workflow-groups" element={<WorkflowGroupPage />} />
             <Route path="/workflow-group/:groupId" element={<WorkflowGroupDetailPage />} />
+            <Route path="/prompts" element={<PromptLibraryPage />} />
           </Routes>
         </Content>
       </Layout>
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, Modal, Typography, message } from 'antd';
+import { SettingOutlined } from '@ant-design/icons';
+import { getApiBaseUrl, loadPlatformInfo, setApiBaseUrl } from '../engine';
+import type { PlatformInfo } from '../engine';
+
+const { Text } = Typography;
+
+// 后端服务地址设置：保存在浏览器中，修改后新的请求立即使用新地址；
+// 同时读取后端运行的平台，路径按后端平台的分隔符发送和显示
+const ApiSettings: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [open, setOpen] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [platformInfo, setPlatformInfo] = useState<PlatformInfo | null>(null);
+
+  const refreshPlatformInfo = () => {
+    setPlatformInfo(null);
+    loadPlatformInfo()
+      .then(setPlatformInfo)
+      .catch(error => console.error('读取后端平台信息失败:', error));
+  };
+
+  useEffect(refreshPlatformInfo, []);
+
+  const openSettings = () => {
+    setBaseUrl(getApiBaseUrl());
+    setOpen(true);
+  };
+
+  const save = () => {
+    const value = baseUrl.trim();
+    if (value && !/^https?:\/\//.test(value)) {
+      messageApi.error('服务地址需要以 http:// 或 https:// 开头');
+      return;
+    }
+    setApiBaseUrl(value);
+    refreshPlatformInfo();
+    setOpen(false);
+    messageApi.success(value ? `后端服务地址已设置为 ${getApiBaseUrl()}` : '已恢复默认的后端服务地址');
+  };
+
+  return (
+    <>
+      {contextHolder}
+      <Button type="text" icon={<SettingOutlined />} style={{ color: '#fff' }} onClick={openSettings}>
+        服务设置
+      </Button>
+      <Modal title="后端服务设置" open={open} onOk={save} onCancel={() => setOpen(false)} okText="保存" cancelText="取消">
+        <Form layout="vertical">
+          <Form.Item
+            label="后端服务地址"
+            extra={<Text type="secondary">例如 http://127.0.0.1:3000。留空时请求当前站点的 /api（开发环境由 Vite 代理转发）；跨域访问时后端需通过 CORS_ORIGIN 允许当前站点</Text>}
+          >
+            <Input
+              value={baseUrl}
+              onChange={e => setBaseUrl(e.target.value)}
+              placeholder="留空使用默认地址"
+              allowClear
+            />
+          </Form.Item>
+          <Form.Item label="后端运行平台">
+            {platformInfo
+              ? <Text>{platformInfo.platform}（路径分隔符 <Text code>{platformInfo.separator}</Text>）</Text>
+              : <Text type="secondary">未连接到后端，路径按 / 分隔发送</Text>}
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+};
+
+export default ApiSettings;
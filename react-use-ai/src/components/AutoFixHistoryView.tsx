@@ -0,0 +1,56 @@
+import React from 'react';
+import { Collapse, Space, Tag, Typography } from 'antd';
+import type { AutoFixRound } from '../engine';
+
+const { Text } = Typography;
+
+interface AutoFixHistoryViewProps {
+  history: AutoFixRound[];
+}
+
+// 自动修复记录：每轮的输出内容及其未通过的校验项
+const AutoFixHistoryView: React.FC<AutoFixHistoryViewProps> = ({ history }) => (
+  <Collapse
+    size="small"
+    items={history.map(item => ({
+      key: item.round,
+      label: (
+        <Space>
+          <Text>{item.round === 0 ? '首次生成' : `第 ${item.round} 轮修复`}</Text>
+          {item.errors.length > 0
+            ? <Tag color="error">未通过 {item.errors.length} 项</Tag>
+            : <Tag color="success">通过</Tag>}
+        </Space>
+      ),
+      children: (
+        <div>
+          {item.errors.length > 0 && (
+            <ul style={{ marginTop: 0, paddingLeft: '20px' }}>
+              {item.errors.map((error, index) => (
+                <li key={index}><Text type="danger">{error}</Text></li>
+              ))}
+            </ul>
+          )}
+          <pre
+            style={{
+              margin: 0,
+              padding: '8px',
+              maxHeight: 300,
+              overflow: 'auto',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-all',
+              fontSize: '12px',
+              backgroundColor: '#fafafa',
+              border: '1px solid #f0f0f0',
+              borderRadius: '4px'
+            }}
+          >
+            {item.content}
+          </pre>
+        </div>
+      )
+    }))}
+  />
+);
+
+export default AutoFixHistoryView;
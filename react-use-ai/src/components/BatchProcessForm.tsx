@@ -1,10 +1,11 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Input, Button, message, Modal, Select, List, Tag, Space } from 'antd';
-import axios from 'axios';
-import CodeMirror from '@uiw/react-codemirror';
+import { Input, Button, message, Modal, Select, List, Tag, Space, Checkbox } from 'antd';
 import { javascript } from '@codemirror/lang-javascript';
 import { json } from '@codemirror/lang-json';
 import { css } from '@codemirror/lang-css';
+import { dirname, joinPath, listFiles, processFile, stem, toPlatformPath } from '../engine';
+import type { ProcessInput } from '../engine';
+import EditableOutputView from './EditableOutputView';
 
 // --- Interface Definitions ---
 interface InputItem {
@@ -42,6 +43,8 @@ const BatchProcessForm: React.FC = () => {
     const [inputs, setInputs] = useState<InputItem[]>([]);
     const [outputFolder, setOutputFolder] = useState('');
     const [outputFileType, setOutputFileType] = useState('');
+    // 由后端按输出文件类型检查语法（JSON / TypeScript），不通过时任务失败
+    const [checkSyntax, setCheckSyntax] = useState(true);
     const [fileSources, setFileSources] = useState<FileSource[]>([]);
 
     const [conversionQueue, setConversionQueue] = useState<ConversionTask[]>([]);
@@ -67,24 +70,22 @@ const BatchProcessForm: React.FC = () => {
             try {
                 const fileValueForTask = JSON.stringify({ sourcePath: taskToProcess.sourcePath, file: taskToProcess.fileName });
 
-                const apiInputs = inputs.map(uiInput => {
+                const apiInputs = inputs.map((uiInput): ProcessInput => {
                     if (uiInput.type === 'prompt') {
                         return { type: 'prompt', value: uiInput.value as string };
                     }
 
                     if (uiInput.type === 'file' && Array.isArray(uiInput.value) && uiInput.value.includes(fileValueForTask)) {
-                        return { type: 'file', value: `${taskToProcess.sourcePath}\\${taskToProcess.fileName}` };
+                        return { type: 'file', value: toPlatformPath(joinPath(taskToProcess.sourcePath, taskToProcess.fileName)) };
                     } else {
                         return { type: 'file', value: '' }; // Placeholder to maintain order
                     }
                 });
 
-                const lastSeparatorIndex = Math.max(taskToProcess.fileName.lastIndexOf('\\'), taskToProcess.fileName.lastIndexOf('/'));
-                const directoryPath = lastSeparatorIndex === -1 ? '' : taskToProcess.fileName.substring(0, lastSeparatorIndex);
-                const fileNameWithExt = lastSeparatorIndex === -1 ? taskToProcess.fileName : taskToProcess.fileName.substring(lastSeparatorIndex + 1);
-                const fileNameWithoutExt = fileNameWithExt.includes('.') ? fileNameWithExt.substring(0, fileNameWithExt.lastIndexOf('.')) : fileNameWithExt;
+                const fileNameWithoutExt = stem(taskToProcess.fileName);
 
-                const finalOutputFolder = directoryPath ? `${outputFolder}\\${directoryPath}` : outputFolder;
+                // 输出目录下保留源文件的相对目录
+                const finalOutputFolder = toPlatformPath(joinPath(outputFolder, dirname(taskToProcess.fileName)));
                 
                 // 确保输出文件名使用大驼峰命名法
                 let finalFileNameWithoutExt = fileNameWithoutExt;
@@ -95,39 +96,21 @@ const BatchProcessForm: React.FC = () => {
                 
                 const finalOutputFileName = `${finalFileNameWithoutExt}.${outputFileType || 'tsx'}`;
 
-                const response = await axios.post<ProcessResult>('/api/process-file', {
+                const response = await processFile('/api/process-file', {
                     inputs: apiInputs,
                     outputFolder: finalOutputFolder,
                     outputFileName: finalOutputFileName,
+                    validation: { checkSyntax },
                 });
 
-                if (response.data.success) {
-                    try {
-                        if (outputFileType === 'json') {
-                            JSON.parse(response.data.data.content);
-                        }
-
-                        setConversionQueue(prev => prev.map(task =>
-                            task.id === taskToProcess.id ? { ...task, status: 'success', result: response.data } : task
-                        ));
-                    } catch (e) {
-                        const errorResult: ProcessResult = {
-                            success: false,
-                            message: '转换失败：返回的内容不是有效的JSON格式。',
-                            data: response.data.data
-                        };
-                        setConversionQueue(prev => prev.map(task =>
-                            task.id === taskToProcess.id ? { ...task, status: 'error', result: errorResult } : task
-                        ));
-                    }
-                } else {
-                    setConversionQueue(prev => prev.map(task =>
-                        task.id === taskToProcess.id ? { ...task, status: 'error', result: response.data } : task
-                    ));
-                }
+                const result = { success: true, message: response.message || '转换成功', data: response.data };
+                setConversionQueue(prev => prev.map(task =>
+                    task.id === taskToProcess.id ? { ...task, status: 'success', result } : task
+                ));
             } catch (error) {
                 console.error(`转换失败: ${taskToProcess.fileName}`, error);
-                const result = { success: false, message: `转换失败: ${taskToProcess.fileName}` };
+                // 输出未通过校验等情况下显示接口返回的原因
+                const result = { success: false, message: `转换失败: ${error instanceof Error ? error.message : taskToProcess.fileName}` };
                 setConversionQueue(prev => prev.map(task =>
                     task.id === taskToProcess.id ? { ...task, status: 'error', result } : task
                 ));
@@ -161,7 +144,7 @@ const BatchProcessForm: React.FC = () => {
 
         tasksToStart.forEach(task => processTask(task));
 
-    }, [conversionQueue, inputs, outputFolder, outputFileType, messageApi, allTasksCompleted]);
+    }, [conversionQueue, inputs, outputFolder, outputFileType, checkSyntax, messageApi, allTasksCompleted]);
 
 
     // --- File Source Handlers ---
@@ -188,20 +171,12 @@ const BatchProcessForm: React.FC = () => {
 
         updateFileSource(sourceId, 'loading', true);
         try {
-            const response = await axios.post<{ success: boolean; data: string[]; message?: string }>('/api/list-files', {
-                folderPath: source.path,
-                fileType: source.fileType,
-            });
-            if (response.data.success) {
-                updateFileSource(sourceId, 'files', response.data.data);
-                messageApi.success(`来源 "${source.path}" 文件提取成功`);
-            } else {
-                updateFileSource(sourceId, 'files', []);
-                messageApi.error(response.data.message || '文件提取失败');
-            }
+            const files = await listFiles(source.path, source.fileType);
+            updateFileSource(sourceId, 'files', files);
+            messageApi.success(`来源 "${source.path}" 文件提取成功`);
         } catch (error) {
             updateFileSource(sourceId, 'files', []);
-            messageApi.error('提取文件失败');
+            messageApi.error(`提取文件失败: ${error instanceof Error ? error.message : error}`);
         } finally {
             updateFileSource(sourceId, 'loading', false);
         }
@@ -297,6 +272,14 @@ const BatchProcessForm: React.FC = () => {
         setConversionQueue(tasks);
     };
 
+    // 手动修改的结果保存到文件后，同步更新队列中对应任务的结果
+    const saveResultContent = (content: string, size: string) => {
+        if (!currentResult) return;
+        const updated = { ...currentResult, data: { ...currentResult.data, content, size } };
+        setConversionQueue(prev => prev.map(task => task.result === currentResult ? { ...task, result: updated } : task));
+        setCurrentResult(updated);
+    };
+
     const viewResult = (result: ProcessResult) => {
         setCurrentResult(result);
         setIsResultModalVisible(true);
@@ -395,6 +378,9 @@ const BatchProcessForm: React.FC = () => {
                     <Input value={outputFolder} onChange={(e) => setOutputFolder(e.target.value)} placeholder="输出文件夹路径" style={{ flex: 1, marginRight: '10px' }} />
                     <Input value={outputFileType} onChange={(e) => setOutputFileType(e.target.value)} placeholder="输出文件类型 (如 tsx)" style={{ flex: 1 }} />
                 </div>
+                <Checkbox checked={checkSyntax} onChange={(e) => setCheckSyntax(e.target.checked)}>
+                    校验输出语法（json 解析 JSON，ts/tsx/js/jsx 使用 TypeScript 解析）
+                </Checkbox>
             </div>
 
             <Button type="primary" onClick={handleBatchConvert} loading={isRunning} disabled={isRunning}>
@@ -435,11 +421,11 @@ const BatchProcessForm: React.FC = () => {
                             <div>{currentResult.message}</div>
                             {currentResult.data?.content && (
                                 <div style={{ marginTop: '10px' }}>
-                                    <CodeMirror
-                                        value={currentResult.data.content}
+                                    <EditableOutputView
+                                        content={currentResult.data.content}
+                                        path={currentResult.data.path}
                                         extensions={codeMirrorExtensions}
-                                        readOnly
-                                        style={{ border: '1px solid #d9d9d9', borderRadius: '4px', maxHeight: '60vh', overflow: 'auto' }}
+                                        onSaved={saveResultContent}
                                     />
                                 </div>
                             )}
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useMemo } from 'react';
-import { Card, Typography, Tag, Space } from 'antd';
+import { Card, Typography, Tag, Space, Alert } from 'antd';
 import type { WorkflowStep } from './WorkflowDesigner';
+import { findDependencyCycles } from '../engine';
 
 const { Text } = Typography;
 
@@ -28,6 +29,7 @@ interface GraphEdge {
   fromY: number;
   toX: number;
   toY: number;
+  inCycle: boolean;
 }
 
 const DependencyGraph: React.FC<DependencyGraphProps> = ({
@@ -37,6 +39,9 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // 检测循环依赖
+  const cycles = useMemo(() => findDependencyCycles(steps), [steps]);
+
   // 计算图形布局
   const { nodes, edges } = useMemo(() => {
     const nodeWidth = 200;
@@ -65,7 +70,7 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
       });
 
       if (currentLevel.length === 0) {
-        // 处理循环依赖的情况
+        // 存在循环依赖时无法继续分层，依次放置剩余步骤以便在图中标出环
         const remaining = steps.filter(step => !visited.has(step.id));
         if (remaining.length > 0) {
           currentLevel.push(remaining[0].id);
@@ -116,6 +121,10 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
 
     // 计算边
     const graphEdges: GraphEdge[] = [];
+    // 环上相邻步骤之间的依赖边
+    const isCycleEdge = (from: string, to: string) => cycles.some(cycle =>
+      cycle.some((id, index) => id === to && cycle[(index + 1) % cycle.length] === from)
+    );
     graphNodes.forEach(node => {
       node.dependencies.forEach(depId => {
         const depNode = graphNodes.find(n => n.id === depId);
@@ -126,14 +135,15 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
             fromX: depNode.x + depNode.width / 2,
             fromY: depNode.y + depNode.height,
             toX: node.x + node.width / 2,
-            toY: node.y
+            toY: node.y,
+            inCycle: isCycleEdge(depId, node.id)
           });
         }
       });
     });
 
     return { nodes: graphNodes, edges: graphEdges };
-  }, [steps]);
+  }, [steps, cycles]);
 
   // 绘制图形
   useEffect(() => {
@@ -167,7 +177,8 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
         edge.toX, edge.toY
       );
       
-      ctx.strokeStyle = '#d9d9d9';
+      const edgeColor = edge.inCycle ? '#ff4d4f' : '#d9d9d9';
+      ctx.strokeStyle = edgeColor;
       ctx.lineWidth = 2;
       ctx.stroke();
 
@@ -178,7 +189,7 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
       ctx.lineTo(edge.toX - arrowSize, edge.toY - arrowSize);
       ctx.lineTo(edge.toX + arrowSize, edge.toY - arrowSize);
       ctx.closePath();
-      ctx.fillStyle = '#d9d9d9';
+      ctx.fillStyle = edgeColor;
       ctx.fill();
     });
 
@@ -190,12 +201,14 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
           case 'success': return '#52c41a';
           case 'error': return '#ff4d4f';
           case 'running': return '#1890ff';
+          case 'skipped': return '#faad14';
           case 'pending': return '#d9d9d9';
           default: return '#d9d9d9';
         }
       };
 
-      ctx.fillStyle = '#ffffff';
+      // 运行中的节点使用浅色底，便于区分同时运行的多个步骤
+      ctx.fillStyle = node.status === 'running' ? '#e6f7ff' : '#ffffff';
       ctx.strokeStyle = getStatusColor(node.status);
       ctx.lineWidth = 3;
       
@@ -214,10 +227,13 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
       ctx.closePath();
       
       ctx.fill();
+      // 被跳过的节点使用虚线边框
+      ctx.setLineDash(node.status === 'skipped' ? [6, 4] : []);
       ctx.stroke();
+      ctx.setLineDash([]);
 
       // 节点文本
-      ctx.fillStyle = '#000000';
+      ctx.fillStyle = node.status === 'skipped' ? '#999999' : '#000000';
       ctx.font = 'bold 14px Arial';
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
@@ -252,6 +268,8 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
 
   }, [nodes, edges]);
 
+  const runningCount = nodes.filter(node => node.status === 'running').length;
+
   // 处理点击事件
   const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
     if (!onStepClick) return;
@@ -283,8 +301,26 @@ const DependencyGraph: React.FC<DependencyGraphProps> = ({
           <Tag color="processing">运行中</Tag>
           <Tag color="success">成功</Tag>
           <Tag color="error">失败</Tag>
+          <Tag color="warning" style={{ borderStyle: 'dashed' }}>已跳过</Tag>
+          {runningCount > 0 && (
+            <Text type="secondary">当前 {runningCount} 个步骤运行中</Text>
+          )}
         </Space>
       </div>
+
+      {cycles.length > 0 && (
+        <Alert
+          type="error"
+          showIcon
+          message="检测到循环依赖，工作流无法执行（红色连线为环上的依赖）"
+          description={cycles.map((cycle, index) => (
+            <div key={index}>
+              {[...cycle, cycle[0]].map(id => steps.find(s => s.id === id)?.name || id).join(' → ')}
+            </div>
+          ))}
+          style={{ marginBottom: '16px' }}
+        />
+      )}
       
       <Card style={{ padding: '16px', textAlign: 'center' }}>
         {nodes.length === 0 ? (
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Popconfirm, Space, Tag, Typography, message } from 'antd';
+import { SaveOutlined, UndoOutlined } from '@ant-design/icons';
+import CodeMirror from '@uiw/react-codemirror';
+import { writeOutputFile } from '../engine';
+
+const { Text } = Typography;
+
+interface EditableOutputViewProps {
+  // 生成的内容
+  content: string;
+  // 输出文件路径，没有路径时只能编辑不能保存
+  path?: string;
+  extensions?: React.ComponentProps<typeof CodeMirror>['extensions'];
+  maxHeight?: string;
+  // 保存成功后调用，参数为保存的内容和文件大小
+  onSaved?: (content: string, size: string) => void;
+}
+
+// 可编辑的生成结果：直接修改内容并写回输出文件
+const EditableOutputView: React.FC<EditableOutputViewProps> = ({ content, path, extensions, maxHeight = '60vh', onSaved }) => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [draft, setDraft] = useState(content);
+  const [saving, setSaving] = useState(false);
+  const dirty = draft !== content;
+
+  // 切换结果或保存后，以新的内容为准
+  useEffect(() => {
+    setDraft(content);
+  }, [content]);
+
+  const save = async () => {
+    if (!path) return;
+    setSaving(true);
+    try {
+      const { size } = await writeOutputFile(path, draft);
+      onSaved?.(draft, size);
+      messageApi.success('已保存到输出文件');
+    } catch (error) {
+      console.error('保存输出文件失败:', error);
+      messageApi.error('保存输出文件失败，请检查服务是否可用');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      {contextHolder}
+      <Space style={{ marginBottom: '8px' }} wrap>
+        <Button
+          size="small"
+          type="primary"
+          icon={<SaveOutlined />}
+          loading={saving}
+          disabled={!dirty || !path}
+          onClick={save}
+        >
+          保存到文件
+        </Button>
+        <Popconfirm title="放弃所有未保存的修改？" onConfirm={() => setDraft(content)} disabled={!dirty || saving}>
+          <Button size="small" icon={<UndoOutlined />} disabled={!dirty || saving}>
+            撤销修改
+          </Button>
+        </Popconfirm>
+        {dirty && <Tag color="warning">未保存</Tag>}
+        <Text type="secondary">
+          {path ? '可直接编辑内容，保存后写回输出文件；重新生成会覆盖手动修改' : '没有输出文件路径，修改无法保存'}
+        </Text>
+      </Space>
+      <CodeMirror
+        value={draft}
+        extensions={extensions}
+        onChange={setDraft}
+        style={{
+          border: '1px solid #d9d9d9',
+          borderRadius: '4px',
+          maxHeight,
+          overflow: 'auto'
+        }}
+      />
+    </div>
+  );
+};
+
+export default EditableOutputView;
@@ -1,10 +1,12 @@
 import React, { useState, useMemo } from 'react';
 import { Input, Button, message, Modal, Select, Space } from 'antd';
-import axios from 'axios';
-import CodeMirror from '@uiw/react-codemirror';
 import { javascript } from '@codemirror/lang-javascript';
 import { json } from '@codemirror/lang-json';
 import { css } from '@codemirror/lang-css';
+import { dirname, formatElapsed, joinPath, listFiles, processFile, stem, streamProcessFile, supportsStreaming, toPlatformPath } from '../engine';
+import type { StepStreamOutput } from '../engine';
+import StreamOutputView from './StreamOutputView';
+import EditableOutputView from './EditableOutputView';
 
 interface InputItem {
     id: string;
@@ -42,6 +44,9 @@ const FileProcessForm: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<ProcessResult | null>(null);
     const [isResultModalVisible, setIsResultModalVisible] = useState(false);
+    const [apiEndpoint, setApiEndpoint] = useState('/api/process-file');
+    // 直接处理接口的实时输出
+    const [streamOutput, setStreamOutput] = useState<StepStreamOutput | null>(null);
 
     const codeMirrorExtensions = useMemo(() => {
         const path = result?.data?.path || '';
@@ -130,20 +135,12 @@ const FileProcessForm: React.FC = () => {
 
         updateFileSource(sourceId, 'loading', true);
         try {
-            const response = await axios.post<{ success: boolean; data: string[]; message?: string }>('/api/list-files', {
-                folderPath: source.path,
-                fileType: source.fileType,
-            });
-            if (response.data.success) {
-                updateFileSource(sourceId, 'files', response.data.data);
-                messageApi.success(`来源 "${source.path}" 文件提取成功`);
-            } else {
-                updateFileSource(sourceId, 'files', []);
-                messageApi.error(response.data.message || '文件提取失败');
-            }
+            const files = await listFiles(source.path, source.fileType);
+            updateFileSource(sourceId, 'files', files);
+            messageApi.success(`来源 "${source.path}" 文件提取成功`);
         } catch (error) {
             updateFileSource(sourceId, 'files', []);
-            messageApi.error('提取文件失败，请检查服务是否可用');
+            messageApi.error(`提取文件失败: ${error instanceof Error ? error.message : error}`);
         } finally {
             updateFileSource(sourceId, 'loading', false);
         }
@@ -197,12 +194,10 @@ const FileProcessForm: React.FC = () => {
             return;
         }
 
-        const lastSeparatorIndex = Math.max(filePath.lastIndexOf('\\'), filePath.lastIndexOf('/'));
-        const directoryPath = lastSeparatorIndex === -1 ? '' : filePath.substring(0, lastSeparatorIndex);
-        const fileNameWithExt = lastSeparatorIndex === -1 ? filePath : filePath.substring(lastSeparatorIndex + 1);
-        const fileNameWithoutExt = fileNameWithExt.includes('.') ? fileNameWithExt.substring(0, fileNameWithExt.lastIndexOf('.')) : fileNameWithExt;
+        const fileNameWithoutExt = stem(filePath);
 
-        const finalOutputFolder = directoryPath ? `${outputFolder}\\${directoryPath}` : outputFolder;
+        // 输出目录下保留源文件的相对目录
+        const finalOutputFolder = toPlatformPath(joinPath(outputFolder, dirname(filePath)));
         
         // 确保输出文件名使用大驼峰命名法
         let finalName = outputFileName.trim() ? outputFileName.trim() : fileNameWithoutExt;
@@ -218,7 +213,7 @@ const FileProcessForm: React.FC = () => {
                 if (type === 'file') {
                     try {
                         const parsed = JSON.parse(value);
-                        return { type, value: `${parsed.sourcePath}\\${parsed.file}` };
+                        return { type, value: toPlatformPath(joinPath(parsed.sourcePath, parsed.file)) };
                     } catch {
                         return { type, value: '' }; // Should not happen if validation passes
                     }
@@ -232,18 +227,30 @@ const FileProcessForm: React.FC = () => {
                 outputFileName: `${finalName}.${outputFileType}`
             };
 
-            // 使用相对路径，将通过Vite代理转发到后端服务器
-            const response = await axios.post<ProcessResult>('/api/process-file', formData);
+            // 直接处理接口使用流式版本，在结果弹窗中实时显示模型输出
+            if (supportsStreaming(apiEndpoint)) {
+                setResult(null);
+                setStreamOutput({ content: '', tokens: 0, elapsed: 0, startedAt: Date.now() });
+                setIsResultModalVisible(true);
+                const streamResult = await streamProcessFile(apiEndpoint, formData, { onOutput: setStreamOutput });
+                messageApi.success('转换成功');
+                setResult(streamResult);
+                return;
+            }
+
+            setStreamOutput(null);
+            const response = await processFile(apiEndpoint, formData);
             messageApi.success('转换成功');
 
             // 设置结果
-            setResult(response.data);
+            setResult({ success: true, message: response.message || '转换成功', data: response.data });
         } catch (error) {
             console.error('转换失败:', error);
-            messageApi.error('转换失败，请检查服务是否可用');
+            const errorMessage = `转换失败: ${error instanceof Error ? error.message : error}`;
+            messageApi.error(errorMessage);
             setResult({
                 success: false,
-                message: '转换失败，请检查服务是否可用'
+                message: errorMessage
             });
         } finally {
             setLoading(false);
@@ -378,17 +385,28 @@ const FileProcessForm: React.FC = () => {
                 </div>
 
                 <div className="convert-section" style={{ marginTop: '20px' }}>
+                    <Select
+                        value={apiEndpoint}
+                        onChange={setApiEndpoint}
+                        disabled={loading}
+                        style={{ width: '240px', marginRight: '10px' }}
+                        options={[
+                            { value: '/api/process-file', label: '标准处理接口' },
+                            { value: '/api/process-file-direct?model=qianwen', label: '直接处理接口（千问，实时输出）' },
+                            { value: '/api/process-file-direct?model=deepseek', label: '直接处理接口（deepseek，实时输出）' }
+                        ]}
+                    />
                     <Button type="primary" onClick={handleConvert} loading={loading}>
                         转换
                     </Button>
-                    {result && (
+                    {(result || streamOutput) && (
                         <Button onClick={() => setIsResultModalVisible(true)} style={{ marginLeft: '10px' }}>
                             查看结果
                         </Button>
                     )}
                 </div>
 
-                {result && (
+                {(result || streamOutput) && (
                     <Modal
                         title="转换结果"
                         open={isResultModalVisible}
@@ -396,34 +414,44 @@ const FileProcessForm: React.FC = () => {
                         footer={null}
                         width="80%"
                     >
-                        <div className="result-section" style={{ marginTop: '20px', width: '100%' }}>
-                            <div style={{
-                                padding: '15px',
-                                backgroundColor: result.success ? '#f6ffed' : '#fff2f0',
-                                border: `1px solid ${result.success ? '#b7eb8f' : '#ffccc7'}`,
-                                borderRadius: '4px'
-                            }}>
-                                <div style={{ marginBottom: '10px', fontWeight: 'bold' }}>
-                                    {result.success ? '转换成功' : '转换失败'}
-                                </div>
-                                <div>{result.message}</div>
-                                {result.data?.content && (
-                                    <div style={{ marginTop: '10px' }}>
-                                        <CodeMirror
-                                            value={result.data.content}
-                                            extensions={codeMirrorExtensions}
-                                            readOnly
-                                            style={{
-                                                border: '1px solid #d9d9d9',
-                                                borderRadius: '4px',
-                                                maxHeight: '60vh',
-                                                overflow: 'auto'
-                                            }}
-                                        />
+                        {streamOutput && (loading || !result?.success) && (
+                            <div style={{ marginTop: '20px', width: '100%' }}>
+                                <StreamOutputView output={streamOutput} streaming={loading} maxHeight="60vh" />
+                            </div>
+                        )}
+                        {result && (
+                            <div className="result-section" style={{ marginTop: '20px', width: '100%' }}>
+                                <div style={{
+                                    padding: '15px',
+                                    backgroundColor: result.success ? '#f6ffed' : '#fff2f0',
+                                    border: `1px solid ${result.success ? '#b7eb8f' : '#ffccc7'}`,
+                                    borderRadius: '4px'
+                                }}>
+                                    <div style={{ marginBottom: '10px', fontWeight: 'bold' }}>
+                                        {result.success ? '转换成功' : '转换失败'}
                                     </div>
-                                )}
+                                    <div>{result.message}</div>
+                                    {result.data?.elapsed !== undefined && (
+                                        <div style={{ marginTop: '5px', color: '#8c8c8c' }}>
+                                            生成用时 {formatElapsed(result.data.elapsed)}，共 {result.data.tokens} tokens
+                                        </div>
+                                    )}
+                                    {result.data?.content && (
+                                        <div style={{ marginTop: '10px' }}>
+                                            <EditableOutputView
+                                                content={result.data.content}
+                                                path={result.data.path}
+                                                extensions={codeMirrorExtensions}
+                                                onSaved={(content, size) => setResult(current => current && {
+                                                    ...current,
+                                                    data: { ...current.data, content, size }
+                                                })}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
+                        )}
                     </Modal>
                 )}
             </div>
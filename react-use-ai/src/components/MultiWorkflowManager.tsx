@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Card,
   List,
@@ -16,7 +16,8 @@ import {
   Statistic,
   Progress,
   Tooltip,
-  Table
+  Table,
+  Checkbox
 } from 'antd';
 import {
   PlusOutlined,
@@ -32,10 +33,14 @@ import {
   HolderOutlined,
   MenuOutlined,
   UpOutlined,
-  DownOutlined
+  DownOutlined,
+  HistoryOutlined,
+  StepForwardOutlined
 } from '@ant-design/icons';
-import axios from 'axios';
 import type { Workflow, WorkflowStep } from './WorkflowDesigner';
+import RunHistory from './RunHistory';
+import { runWorkflow, applyWorkflowEvent, resetSteps, isAbortError, validateWorkflow, createRunRecorder, listRunningJobs, watchJob, applyJobToWorkflows, canResumeWorkflow, prepareResume, executeStepByType, executeStepWithoutCache, loadAppConfig, saveAppConfig, loadMultiStreamConfig, saveMultiStreamConfig } from '../engine';
+import type { AppConfig, GroupJob, MultiStreamConfig, ResumePlan } from '../engine';
 
 const { Title, Text, Paragraph } = Typography;
 const { TextArea } = Input;
@@ -46,11 +51,6 @@ interface MultiWorkflowManagerProps {
   workflowGroup?: {
     id: string;
     name: string;
-    executionContext?: {
-      isRunning: boolean;
-      taskExecution?: any;
-      executingTasks: Set<string>;
-    };
   };
 }
 
@@ -87,53 +87,73 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
   const [batchExecution, setBatchExecution] = useState<BatchExecution | null>(null);
   const [isCreateModalVisible, setIsCreateModalVisible] = useState(false);
   const [isImportModalVisible, setIsImportModalVisible] = useState(false);
+  const [isRunHistoryVisible, setIsRunHistoryVisible] = useState(false);
   const [isBatchResultModalVisible, setIsBatchResultModalVisible] = useState(false);
   const [isDragMode, setIsDragMode] = useState(false);
+  // 快速执行与批量执行时忽略步骤结果缓存
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [newWorkflowName, setNewWorkflowName] = useState('');
   const [newWorkflowDescription, setNewWorkflowDescription] = useState('');
   const [importData, setImportData] = useState('');
   const [messageApi, contextHolder] = message.useMessage();
+  // 正在执行的工作流对应的取消控制器，以及批量执行的取消控制器
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const batchAbortControllerRef = useRef<AbortController | null>(null);
+  // 当前工作流组在服务端运行中的任务
+  const [runningJob, setRunningJob] = useState<GroupJob | null>(null);
 
   // 加载工作流列表
   useEffect(() => {
     loadWorkflows();
-    
-    // 如果有传递的执行上下文，恢复执行状态
-    if (workflowGroup?.executionContext) {
-      const { isRunning, taskExecution, executingTasks } = workflowGroup.executionContext;
-      
-      if (isRunning && taskExecution) {
-        // 显示恢复执行状态的提示
-        messageApi.info(`检测到正在执行的任务，进度: ${Math.round(taskExecution.progress)}%`);
-        
-        // 这里可以添加更多恢复逻辑，比如设置执行状态
-        // 但由于跨组件的复杂性，这里只显示信息
-      }
-    }
   }, [workflowGroup]);
 
+  // 工作流组模式下，关联该组在服务端运行中的任务并同步进度与步骤状态（离开页面时只停止轮询）
+  const workflowGroupId = workflowGroup?.id;
+  useEffect(() => {
+    if (!workflowGroupId) return;
+    const controller = new AbortController();
+
+    listRunningJobs()
+      .then(async runningJobs => {
+        const job = runningJobs.find(j => j.targetId === workflowGroupId);
+        if (!job || controller.signal.aborted) return;
+
+        messageApi.info(`检测到正在执行的任务，进度: ${job.progress}%`);
+        const finalJob = await watchJob(job.id, latest => {
+          setRunningJob(latest);
+          setWorkflows(prev => applyJobToWorkflows(prev, latest));
+        }, controller.signal);
+
+        if (!controller.signal.aborted) {
+          setRunningJob(null);
+          messageApi.success(`任务执行结束：成功 ${finalJob.completedWorkflows} 个，部分完成 ${finalJob.partialWorkflows} 个，失败 ${finalJob.failedWorkflows} 个`);
+        }
+      })
+      .catch(error => console.error('获取任务执行状态失败:', error));
+
+    return () => controller.abort();
+  }, [workflowGroupId, messageApi]);
+
   const loadWorkflows = async () => {
     try {
       // 如果是工作流组模式，使用多文件流接口
-      const apiEndpoint = workflowGroup ? '/api/multi-stream/load' : '/api/config/load';
-      const response = await axios.get(apiEndpoint);
+      const configData = workflowGroup ? await loadMultiStreamConfig() : await loadAppConfig();
       
-      if (response.data.success && response.data.data) {
-        const configData = response.data.data;
+      if (configData) {
         
-        let workflowsData = [];
+        let workflowsData: Workflow[] = [];
         
         if (workflowGroup) {
           // 工作流组模式：从工作流组中获取工作流
-          const groups = configData.workflowGroups || [];
-          const currentGroup = groups.find((g: any) => g.id === workflowGroup.id);
+          const groups = (configData as MultiStreamConfig).workflowGroups || [];
+          const currentGroup = groups.find(g => g.id === workflowGroup.id);
           
           if (currentGroup && currentGroup.template && currentGroup.template.workflows) {
             workflowsData = currentGroup.template.workflows;
           }
         } else {
           // 普通模式：直接获取工作流列表
-          workflowsData = configData.workflows || [];
+          workflowsData = (configData as AppConfig).workflows || [];
         }
         
         if (Array.isArray(workflowsData)) {
@@ -155,7 +175,7 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
       }
     } catch (error) {
       console.error('加载工作流列表失败:', error);
-      messageApi.error('加载工作流列表失败，请检查网络连接');
+      messageApi.error(`加载工作流列表失败: ${error instanceof Error ? error.message : error}`);
       setWorkflows([]);
     }
   };
@@ -165,17 +185,12 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
     try {
       if (workflowGroup) {
         // 工作流组模式：使用多文件流接口
-        const loadResponse = await axios.get('/api/multi-stream/load');
-        let existingConfig = {};
-        
-        if (loadResponse.data.success && loadResponse.data.data) {
-          existingConfig = loadResponse.data.data;
-        }
+        const existingConfig = await loadMultiStreamConfig() ?? {};
 
         // 更新指定工作流组的模板
         const updatedConfig = {
           ...existingConfig,
-          workflowGroups: (existingConfig as any).workflowGroups?.map((g: any) => {
+          workflowGroups: existingConfig.workflowGroups?.map(g => {
             if (g.id === workflowGroup.id) {
               return {
                 ...g,
@@ -200,12 +215,7 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
           lastUpdated: new Date().toISOString()
         };
 
-        const response = await axios.post('/api/multi-stream/save', updatedConfig);
-        
-        if (!response.data.success) {
-          throw new Error(response.data.message || '保存失败');
-        }
-        
+        await saveMultiStreamConfig(updatedConfig);
         return true;
       } else {
         // 普通模式：使用原有接口
@@ -221,17 +231,12 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
           workflowOrder: workflowsToSave.map(w => w.id)
         };
         
-        const response = await axios.post('/api/config/save', configData);
-        
-        if (!response.data.success) {
-          throw new Error(response.data.message || '保存失败');
-        }
-        
+        await saveAppConfig(configData);
         return true;
       }
     } catch (error) {
       console.error('保存配置失败:', error);
-      messageApi.error('保存配置失败，请检查网络连接');
+      messageApi.error(`保存配置失败: ${error instanceof Error ? error.message : error}`);
       return false;
     }
   };
@@ -314,17 +319,12 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         workflowOrder: newWorkflows.map(w => w.id)
       };
       
-      const response = await axios.post('/api/config/save', configData);
-      
-      if (response.data.success) {
-        setWorkflows(newWorkflows);
-        messageApi.success('工作流复制成功');
-      } else {
-        messageApi.error(response.data.message || '复制工作流失败');
-      }
+      await saveAppConfig(configData);
+      setWorkflows(newWorkflows);
+      messageApi.success('工作流复制成功');
     } catch (error) {
       console.error('复制工作流失败:', error);
-      messageApi.error('复制工作流失败，请检查网络连接');
+      messageApi.error(`复制工作流失败: ${error instanceof Error ? error.message : error}`);
     }
   };
 
@@ -446,150 +446,50 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         workflowOrder: newWorkflows.map(w => w.id)
       };
       
-      const response = await axios.post('/api/config/save', configData);
-      
-      if (response.data.success) {
-        setWorkflows(newWorkflows);
-        setIsImportModalVisible(false);
-        setImportData('');
-        messageApi.success('工作流导入成功');
-      } else {
-        messageApi.error(response.data.message || '导入工作流失败');
-      }
+      await saveAppConfig(configData);
+      setWorkflows(newWorkflows);
+      setIsImportModalVisible(false);
+      setImportData('');
+      messageApi.success('工作流导入成功');
     } catch (error) {
       console.error('导入工作流失败:', error);
-      messageApi.error('导入工作流失败，请检查数据格式或网络连接');
+      messageApi.error(`导入工作流失败: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  // 使用FileProcessForm的API执行单个步骤
-  const executeStepWithAPI = async (step: WorkflowStep, previousResults: Map<string, any>) => {
-    const { fileInputs = [], promptInputs = [], outputFolder, outputFileName, apiEndpoint = '/api/process-file' } = step.config;
-
-    // 验证必要参数
-    if (fileInputs.length === 0) {
-      throw new Error('缺少文件输入配置');
-    }
-    if (promptInputs.length === 0) {
-      throw new Error('缺少提示词配置');
-    }
-    if (!outputFolder || !outputFileName) {
-      throw new Error('缺少输出配置');
+  // 快速执行工作流（结果保留在界面，执行记录保存到运行历史）；
+  // resume 为 true 时从失败处继续，复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤
+  const handleQuickExecute = async (workflow: Workflow, batchSignal?: AbortSignal, resume = false) => {
+    if (workflow.steps.length === 0) {
+      messageApi.error('该工作流没有配置步骤');
+      return;
     }
 
-    // 创建文件路径映射表
-    const filePathMap = new Map<string, string>();
-    
-    // 处理文件输入，解析依赖步骤的输出
-    for (const fileInput of fileInputs) {
-      let filePath = fileInput.path;
-      
-      // 如果依赖其他步骤，获取其输出路径
-      if (fileInput.dependsOn) {
-        const depResult = previousResults.get(fileInput.dependsOn);
-        if (depResult?.success && depResult.data?.path) {
-          filePath = depResult.data.path;
-        } else {
-          throw new Error(`依赖步骤 "${fileInput.dependsOn}" 未成功执行或无输出文件`);
-        }
-      }
-
-      if (!filePath) {
-        throw new Error(`文件 "${fileInput.name}" 缺少有效路径`);
-      }
-
-      // 将文件名映射到路径
-      filePathMap.set(fileInput.name, filePath);
+    const issues = validateWorkflow(workflow.steps);
+    if (issues.length > 0) {
+      messageApi.error(`工作流 "${workflow.name}" 校验未通过: ${issues[0].message}`);
+      return;
     }
 
-    // 处理提示词输入，按 {{}} 标记拆分生成inputs
-    const processedInputs: Array<{ type: 'file' | 'prompt'; value: string }> = [];
-
-    for (const promptInput of promptInputs) {
-      let content = promptInput.content;
-      
-      // 使用正则表达式找到所有 {{文件名}} 标记
-      const fileReferences = content.match(/\{\{([^}]+)\}\}/g) || [];
-      
-      if (fileReferences.length === 0) {
-        // 如果没有文件引用，直接添加提示词
-        processedInputs.push({
-          type: 'prompt',
-          value: content
-        });
-      } else {
-        // 按文件引用拆分提示词
-        let remainingContent = content;
-        
-        for (const fileRef of fileReferences) {
-          const fileName = fileRef.replace(/[{}]/g, ''); // 移除 {{}}
-          const filePath = filePathMap.get(fileName);
-          
-          if (!filePath) {
-            throw new Error(`找不到文件 "${fileName}" 的路径配置`);
-          }
-          
-          // 找到文件引用的位置
-          const refIndex = remainingContent.indexOf(fileRef);
-          
-          if (refIndex > 0) {
-            // 添加文件引用前的提示词部分
-            const beforePrompt = remainingContent.substring(0, refIndex).trim();
-            if (beforePrompt) {
-              processedInputs.push({
-                type: 'prompt',
-                value: beforePrompt
-              });
-            }
-          }
-          
-          // 添加文件
-          processedInputs.push({
-            type: 'file',
-            value: filePath
-          });
-          
-          // 更新剩余内容
-          remainingContent = remainingContent.substring(refIndex + fileRef.length);
-        }
-        
-        // 添加最后剩余的提示词部分
-        if (remainingContent.trim()) {
-          processedInputs.push({
-            type: 'prompt',
-            value: remainingContent.trim()
-          });
-        }
+    let plan: ResumePlan | undefined;
+    if (resume) {
+      try {
+        plan = await prepareResume(workflow.steps);
+      } catch (error) {
+        console.error('检查步骤输出失败:', error);
+        messageApi.error('检查步骤输出失败，请检查服务是否可用');
+        return;
+      }
+      if (plan.stepIds.length === 0) {
+        messageApi.info(`工作流 "${workflow.name}" 没有需要继续执行的步骤`);
+        return;
       }
     }
 
-    // 构建API请求参数（与FileProcessForm保持一致）
-    const requestData = {
-      inputs: processedInputs,
-      outputFolder: outputFolder,
-      outputFileName: outputFileName
-    };
-
-    // 调用选择的文件处理API
-    const response = await axios.post(apiEndpoint, requestData);
-    
-    if (response.data.success) {
-      return {
-        success: true,
-        message: `步骤 "${step.name}" 执行成功`,
-        data: response.data.data
-      };
-    } else {
-      throw new Error(response.data.message || '处理失败');
-    }
-  };
-
-  // 快速执行工作流（结果保留在界面）
-  const handleQuickExecute = async (workflow: Workflow) => {
-    if (workflow.steps.length === 0) {
-      messageApi.error('该工作流没有配置步骤');
-      return;
-    }
+    // 单个工作流可以单独停止，批量执行停止时也一并取消
+    const abortController = new AbortController();
+    abortControllersRef.current.set(workflow.id, abortController);
+    batchSignal?.addEventListener('abort', () => abortController.abort(), { once: true });
 
     const execution: WorkflowExecution = {
       workflowId: workflow.id,
@@ -602,144 +502,66 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
     newExecutions.set(workflow.id, execution);
     setExecutions(newExecutions);
 
+    // 将引擎事件同步到对应工作流的步骤状态
+    const updateWorkflowSteps = (update: (steps: WorkflowStep[]) => WorkflowStep[]) => {
+      setWorkflows(prev => prev.map(w => w.id === workflow.id ? { ...w, steps: update(w.steps) } : w));
+    };
+
+    const recorder = createRunRecorder('workflow', workflow, [workflow]);
+    const recordEvent = recorder.createEventHandler(workflow.id, plan?.previousResults);
+
     try {
-      messageApi.info(`开始执行工作流: ${workflow.name}`);
+      messageApi.info(plan
+        ? `从失败处继续执行工作流: ${workflow.name}（复用 ${plan.reusedStepIds.length} 个步骤的输出，执行 ${plan.stepIds.length} 个步骤）`
+        : `开始执行工作流: ${workflow.name}`);
       
-      // 重置所有步骤状态
-      const updatedWorkflows = workflows.map(w => {
-        if (w.id === workflow.id) {
-          return {
-            ...w,
-            steps: w.steps.map(step => ({ ...step, status: 'pending' as const, result: undefined }))
-          };
-        }
-        return w;
-      });
-      setWorkflows(updatedWorkflows);
-
-      // 按依赖关系执行步骤
-      const executedSteps = new Set<string>();
-      const stepResults = new Map<string, any>();
-      const totalSteps = workflow.steps.length;
-      let completedSteps = 0;
-
-      const executeStep = async (step: WorkflowStep): Promise<void> => {
-        // 检查依赖是否已执行
-        for (const depId of step.dependencies) {
-          if (!executedSteps.has(depId)) {
-            const depStep = workflow.steps.find(s => s.id === depId);
-            if (depStep) {
-              await executeStep(depStep);
-            }
+      // 重置要执行的步骤状态（继续执行时保留复用的步骤）
+      updateWorkflowSteps(steps => resetSteps(steps, plan?.stepIds));
+
+      if (plan) recorder.reuseSteps(workflow.id, plan.previousResults);
+      recorder.start();
+      const runResult = await runWorkflow(workflow, {
+        stepIds: plan?.stepIds,
+        previousResults: plan?.previousResults,
+        signal: abortController.signal,
+        executeStep: forceRefresh ? executeStepWithoutCache : executeStepByType,
+        onEvent: (event) => {
+          recordEvent(event);
+          if (event.type !== 'progress') {
+            updateWorkflowSteps(steps => applyWorkflowEvent(steps, event));
+            return;
           }
-        }
 
-        if (executedSteps.has(step.id)) return;
-
-        // 更新步骤状态为运行中
-        setWorkflows(prev => prev.map(w => {
-          if (w.id === workflow.id) {
-            return {
-              ...w,
-              steps: w.steps.map(s => 
-                s.id === step.id ? { ...s, status: 'running' as const } : s
-              )
-            };
-          }
-          return w;
-        }));
-
-        try {
-          // 调用实际的文件处理接口
-          const result = await executeStepWithAPI(step, stepResults);
-          
-          // 存储结果，用于后续步骤的依赖和界面显示
-          stepResults.set(step.id, result);
-          
-          // 更新UI状态（保留执行结果在界面上）
-          setWorkflows(prev => prev.map(w => {
-            if (w.id === workflow.id) {
-              return {
-                ...w,
-                steps: w.steps.map(s => 
-                  s.id === step.id ? { 
-                    ...s, 
-                    status: result.success ? 'success' as const : 'error' as const,
-                    result 
-                  } : s
-                )
-              };
-            }
-            return w;
-          }));
-
-          executedSteps.add(step.id);
-          completedSteps++;
-          
           // 更新执行进度
-          const progress = (completedSteps / totalSteps) * 100;
-          const updatedExecution = {
+          const finished = event.completed === event.total;
+          newExecutions.set(workflow.id, {
             ...execution,
-            progress,
-            isRunning: completedSteps < totalSteps
-          };
-          
-          if (completedSteps === totalSteps) {
-            updatedExecution.endTime = new Date();
-            updatedExecution.isRunning = false;
-          }
-          
-          newExecutions.set(workflow.id, updatedExecution);
-          setExecutions(new Map(newExecutions));
-        } catch (error) {
-          const errorResult = { 
-            success: false, 
-            message: `步骤 "${step.name}" 执行失败: ${error}`
-          };
-          
-          // 更新步骤状态为错误
-          setWorkflows(prev => prev.map(w => {
-            if (w.id === workflow.id) {
-              return {
-                ...w,
-                steps: w.steps.map(s => 
-                  s.id === step.id ? { 
-                    ...s, 
-                    status: 'error' as const,
-                    result: errorResult
-                  } : s
-                )
-              };
-            }
-            return w;
-          }));
-          
-          completedSteps++;
-          const progress = (completedSteps / totalSteps) * 100;
-          const updatedExecution = {
-            ...execution,
-            progress,
-            isRunning: false,
-            endTime: new Date()
-          };
-          
-          newExecutions.set(workflow.id, updatedExecution);
+            progress: (event.completed / event.total) * 100,
+            isRunning: !finished,
+            endTime: finished ? new Date() : undefined
+          });
           setExecutions(new Map(newExecutions));
-          throw error;
-        }
-      };
-
-      // 执行所有步骤
-      for (const step of workflow.steps.sort((a, b) => a.order - b.order)) {
-        if (!executedSteps.has(step.id)) {
-          await executeStep(step);
         }
+      });
+      recorder.completeWorkflow(workflow.id, runResult);
+
+      const { failedStepIds, results } = runResult;
+      // 本次执行中命中步骤结果缓存的步骤数（不含从失败处继续时复用的步骤）
+      const cachedCount = [...results].filter(([stepId, result]) => !plan?.previousResults.has(stepId) && result.data?.cached).length;
+      const cacheText = cachedCount > 0 ? `，${cachedCount} 个步骤命中缓存` : '';
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`工作流部分完成: ${workflow.name}（${failedStepIds.length} 个步骤失败${cacheText}）`);
+      } else {
+        messageApi.success(`工作流执行完成: ${workflow.name}${cachedCount > 0 ? `（${cachedCount} 个步骤命中缓存）` : ''}`);
       }
-
-      messageApi.success(`工作流执行完成: ${workflow.name}`);
       
     } catch (error) {
-      messageApi.error(`工作流执行失败: ${workflow.name}`);
+      recorder.failWorkflow(workflow.id, error);
+      if (isAbortError(error)) {
+        messageApi.info(`工作流已停止: ${workflow.name}`);
+      } else {
+        messageApi.error(`工作流执行失败: ${workflow.name}`);
+      }
       const failedExecution = newExecutions.get(workflow.id);
       if (failedExecution) {
         failedExecution.isRunning = false;
@@ -747,11 +569,15 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         newExecutions.set(workflow.id, failedExecution);
         setExecutions(new Map(newExecutions));
       }
+    } finally {
+      recorder.finish();
+      abortControllersRef.current.delete(workflow.id);
     }
   };
 
   // 停止执行
   const handleStopExecution = (workflowId: string) => {
+    abortControllersRef.current.get(workflowId)?.abort();
     const newExecutions = new Map(executions);
     const execution = newExecutions.get(workflowId);
     if (execution) {
@@ -783,9 +609,22 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
     setBatchExecution(batch);
     messageApi.info(`开始批量执行 ${executableWorkflows.length} 个工作流`);
 
+    const batchAbortController = new AbortController();
+    batchAbortControllerRef.current = batchAbortController;
+    const { signal } = batchAbortController;
+
     try {
       for (let i = 0; i < executableWorkflows.length; i++) {
         const workflow = executableWorkflows[i];
+
+        // 批量执行已停止，剩余工作流的步骤标记为跳过
+        if (signal.aborted) {
+          setWorkflows(prev => prev.map(w => executableWorkflows.slice(i).some(e => e.id === w.id)
+            ? { ...w, steps: w.steps.map(step => ({ ...step, status: 'skipped' as const, result: undefined })) }
+            : w
+          ));
+          break;
+        }
         
         // 更新批量执行状态
         setBatchExecution(prev => prev ? {
@@ -801,7 +640,7 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
 
         try {
           // 调用快速执行函数，与快速执行按钮使用相同的逻辑
-          await handleQuickExecute(workflow);
+          await handleQuickExecute(workflow, signal);
           success = true;
         } catch (error) {
           success = false;
@@ -824,11 +663,14 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         } : null);
 
         // 如果不是最后一个工作流，等待一段时间再执行下一个
-        if (i < executableWorkflows.length - 1) {
+        if (i < executableWorkflows.length - 1 && !signal.aborted) {
           await new Promise(resolve => setTimeout(resolve, 1000));
         }
       }
 
+      // 批量执行已停止，状态已由 handleStopBatchExecution 更新
+      if (signal.aborted) return;
+
       // 批量执行完成
       setBatchExecution(prev => prev ? {
         ...prev,
@@ -854,11 +696,14 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         endTime: new Date()
       } : null);
       messageApi.error('批量执行过程中发生错误');
+    } finally {
+      batchAbortControllerRef.current = null;
     }
   };
 
   // 停止批量执行
   const handleStopBatchExecution = () => {
+    batchAbortControllerRef.current?.abort();
     setBatchExecution(prev => prev ? {
       ...prev,
       isRunning: false,
@@ -930,28 +775,25 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
     <div style={{ padding: '24px' }}>
       {contextHolder}
       
-      {/* 执行状态信息提示 */}
-      {workflowGroup?.executionContext?.isRunning && workflowGroup.executionContext.taskExecution && (
+      {/* 执行状态信息提示（任务在服务端执行） */}
+      {runningJob && (
         <Card style={{ marginBottom: '16px', backgroundColor: '#f6ffed', borderColor: '#b7eb8f' }}>
           <Space direction="vertical" style={{ width: '100%' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
               <Space>
                 <Text strong style={{ color: '#52c41a' }}>🟢 任务正在执行中</Text>
-                <Tag color="processing">进度: {Math.round(workflowGroup.executionContext.taskExecution.progress)}%</Tag>
+                <Tag color="processing">进度: {runningJob.progress}%</Tag>
               </Space>
             </div>
             
             <Progress 
-              percent={Math.round(workflowGroup.executionContext.taskExecution.progress)}
+              percent={runningJob.progress}
               status="active"
-              format={() => {
-                const ctx = workflowGroup?.executionContext?.taskExecution;
-                return ctx ? `${ctx.currentWorkflowIndex + 1}/${ctx.totalWorkflows}` : '';
-              }}
+              format={() => `${runningJob.currentWorkflowIndex + 1}/${runningJob.totalWorkflows}`}
             />
             
             <Text type="secondary" style={{ fontSize: '12px' }}>
-              正在执行第 {workflowGroup.executionContext.taskExecution.currentWorkflowIndex + 1} 个工作流，共 {workflowGroup.executionContext.taskExecution.totalWorkflows} 个
+              正在执行第 {runningJob.currentWorkflowIndex + 1} 个工作流，共 {runningJob.totalWorkflows} 个
             </Text>
           </Space>
         </Card>
@@ -1071,6 +913,12 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
                 重置排序
               </Button>
             )}
+            <Button 
+              icon={<HistoryOutlined />}
+              onClick={() => setIsRunHistoryVisible(true)}
+            >
+              运行历史
+            </Button>
             <Button 
               icon={<ImportOutlined />}
               onClick={() => setIsImportModalVisible(true)}
@@ -1085,6 +933,15 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
             >
               导出为模板
             </Button>
+            <Tooltip title="忽略步骤结果缓存，输入未变化的步骤也重新调用模型">
+              <Checkbox
+                checked={forceRefresh}
+                onChange={e => setForceRefresh(e.target.checked)}
+                disabled={stats.batchRunning}
+              >
+                强制刷新
+              </Checkbox>
+            </Tooltip>
             <Button 
               type="default"
               icon={<PlayCircleOutlined />}
@@ -1199,6 +1056,17 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
                         </Button>
                       )
                     ),
+                    !isDragMode && !isRunning && canResumeWorkflow(workflow.steps) && (
+                      <Button 
+                        type="link" 
+                        icon={<StepForwardOutlined />}
+                        onClick={() => handleQuickExecute(workflow, undefined, true)}
+                        disabled={stats.batchRunning}
+                        title="复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤"
+                      >
+                        从失败处继续
+                      </Button>
+                    ),
                     !isDragMode && (
                       <Button 
                         type="link" 
@@ -1351,6 +1219,12 @@ const MultiWorkflowManager: React.FC<MultiWorkflowManagerProps> = ({
         </Space>
       </Modal>
 
+      <RunHistory
+        open={isRunHistoryVisible}
+        onClose={() => setIsRunHistoryVisible(false)}
+        kind="workflow"
+      />
+
       {/* 导入工作流模态框 */}
       <Modal
         title="导入工作流"
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Popconfirm, Radio, Space, Spin, message } from 'antd';
+import { CheckOutlined, RollbackOutlined } from '@ant-design/icons';
+import { readOutputFile, writeStepOutput } from '../engine';
+import type { StepResult } from '../engine';
+import OutputDiffView from './OutputDiffView';
+
+interface OutputComparePanelProps {
+  // 本次执行的结果
+  result: StepResult;
+  // 重新执行前最近一次成功的结果
+  previousResult?: StepResult;
+  // 确认保留新输出或恢复旧输出后调用，参数为最终采用的结果
+  onResolve: (result: StepResult) => void;
+}
+
+type CompareSource = 'previous' | 'disk';
+
+// 对比步骤的新输出与上一次输出（或磁盘上的文件），并选择保留新输出或恢复旧输出
+const OutputComparePanel: React.FC<OutputComparePanelProps> = ({ result, previousResult, onResolve }) => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const previousContent = previousResult?.data?.content;
+  const outputPath = result.data?.path;
+  const [source, setSource] = useState<CompareSource>(typeof previousContent === 'string' ? 'previous' : 'disk');
+  const [diskContent, setDiskContent] = useState<string>();
+  const [loadingDisk, setLoadingDisk] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (source !== 'disk' || !outputPath) return;
+    let cancelled = false;
+    setLoadingDisk(true);
+    setDiskContent(undefined);
+    readOutputFile(outputPath)
+      .then(content => {
+        if (!cancelled) setDiskContent(content);
+      })
+      .catch(error => {
+        console.error('读取输出文件失败:', error);
+        if (!cancelled) messageApi.error('读取磁盘上的输出文件失败');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDisk(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, outputPath, messageApi]);
+
+  const newContent = result.data?.content ?? '';
+  const baseContent = source === 'previous' ? previousContent : diskContent;
+  const baseLabel = source === 'previous' ? '上次输出' : '磁盘文件';
+
+  // 恢复旧输出：写回输出文件，并以旧内容作为步骤结果
+  const restoreOldOutput = async () => {
+    if (baseContent === undefined) return;
+    setRestoring(true);
+    try {
+      onResolve(await writeStepOutput(result, baseContent));
+      messageApi.success(`已恢复为${baseLabel}`);
+    } catch (error) {
+      console.error('恢复旧输出失败:', error);
+      messageApi.error('恢复旧输出失败，请检查服务是否可用');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div>
+      {contextHolder}
+      <Space style={{ marginBottom: '12px' }} wrap>
+        <Radio.Group value={source} onChange={e => setSource(e.target.value)} size="small">
+          <Radio.Button value="previous" disabled={typeof previousContent !== 'string'}>与上次输出对比</Radio.Button>
+          <Radio.Button value="disk" disabled={!outputPath}>与磁盘文件对比</Radio.Button>
+        </Radio.Group>
+        <Button
+          size="small"
+          type="primary"
+          icon={<CheckOutlined />}
+          disabled={restoring}
+          onClick={() => onResolve(result)}
+        >
+          保留新输出
+        </Button>
+        <Popconfirm
+          title={`恢复为${baseLabel}`}
+          description="将用旧内容覆盖输出文件，已经使用新输出执行的后续步骤不会自动重新执行"
+          onConfirm={restoreOldOutput}
+          disabled={baseContent === undefined || !outputPath}
+        >
+          <Button
+            size="small"
+            icon={<RollbackOutlined />}
+            loading={restoring}
+            disabled={baseContent === undefined || !outputPath}
+          >
+            恢复{baseLabel}
+          </Button>
+        </Popconfirm>
+      </Space>
+
+      {source === 'previous' && previousResult?.data?.path && previousResult.data.path !== outputPath && (
+        <Alert
+          type="info"
+          showIcon
+          message={`上次输出的文件为 ${previousResult.data.path}，恢复时将写入本次的输出文件`}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      {loadingDisk ? (
+        <Spin />
+      ) : baseContent !== undefined && (
+        <OutputDiffView oldContent={baseContent} newContent={newContent} oldLabel={baseLabel} newLabel="新输出" />
+      )}
+    </div>
+  );
+};
+
+export default OutputComparePanel;
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Checkbox, Empty, Segmented, Space, Tag, Typography } from 'antd';
+import { diffLines, toSideBySide, countDiffChanges } from '../engine';
+import type { DiffLine } from '../engine';
+import '../styles/workflow.css';
+
+const { Text } = Typography;
+
+interface OutputDiffViewProps {
+  oldContent: string;
+  newContent: string;
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+// 折叠未变化内容时，变化前后保留的行数
+const CONTEXT_LINES = 3;
+
+// 折叠连续的未变化行，只保留变化附近的上下文；折叠处以省略的行数表示
+function foldUnchanged<T>(items: T[], isChanged: (item: T) => boolean): Array<T | number> {
+  const keep = items.map(() => false);
+  items.forEach((item, index) => {
+    if (!isChanged(item)) return;
+    for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(items.length - 1, index + CONTEXT_LINES); i++) {
+      keep[i] = true;
+    }
+  });
+
+  const result: Array<T | number> = [];
+  items.forEach((item, index) => {
+    if (keep[index]) {
+      result.push(item);
+    } else if (typeof result[result.length - 1] === 'number') {
+      (result[result.length - 1] as number)++;
+    } else {
+      result.push(1);
+    }
+  });
+  return result;
+}
+
+const MARKERS: Record<DiffLine['type'], string> = { equal: ' ', added: '+', removed: '-' };
+
+const renderCell = (line: DiffLine | undefined, number: number | undefined) => (
+  <div className={`output-diff-cell ${line && line.type !== 'equal' ? `output-diff-${line.type}` : ''} ${line ? '' : 'output-diff-empty'}`}>
+    <span className="output-diff-number">{number}</span>
+    <span className="output-diff-marker">{line && MARKERS[line.type]}</span>
+    <span className="output-diff-content">{line?.content}</span>
+  </div>
+);
+
+const renderFolded = (count: number, key: number) => (
+  <div key={key} className="output-diff-row output-diff-empty">
+    <Text type="secondary" style={{ padding: '0 8px', fontSize: '12px' }}>… {count} 行未变化</Text>
+  </div>
+);
+
+// 新旧输出的按行对比，支持并排与行内两种显示方式
+const OutputDiffView: React.FC<OutputDiffViewProps> = ({ oldContent, newContent, oldLabel = '旧输出', newLabel = '新输出' }) => {
+  const [mode, setMode] = useState<'split' | 'inline'>('split');
+  const [foldUnchangedLines, setFoldUnchangedLines] = useState(true);
+
+  const lines = useMemo(() => diffLines(oldContent, newContent), [oldContent, newContent]);
+  const rows = useMemo(() => toSideBySide(lines), [lines]);
+  const { added, removed } = countDiffChanges(lines);
+
+  const renderSplit = () => {
+    const items = foldUnchangedLines ? foldUnchanged(rows, row => row.left !== row.right) : rows;
+    return items.map((row, index) => typeof row === 'number' ? renderFolded(row, index) : (
+      <div key={index} className="output-diff-row">
+        {renderCell(row.left, row.left?.oldNumber)}
+        {renderCell(row.right, row.right?.newNumber)}
+      </div>
+    ));
+  };
+
+  const renderInline = () => {
+    const items = foldUnchangedLines ? foldUnchanged(lines, line => line.type !== 'equal') : lines;
+    return items.map((line, index) => typeof line === 'number' ? renderFolded(line, index) : (
+      <div key={index} className="output-diff-row">
+        {renderCell(line, line.type === 'removed' ? line.oldNumber : line.newNumber)}
+      </div>
+    ));
+  };
+
+  return (
+    <div>
+      <Space wrap style={{ marginBottom: '8px' }}>
+        <Segmented
+          size="small"
+          value={mode}
+          onChange={value => setMode(value as 'split' | 'inline')}
+          options={[{ label: '并排', value: 'split' }, { label: '行内', value: 'inline' }]}
+        />
+        <Checkbox checked={foldUnchangedLines} onChange={e => setFoldUnchangedLines(e.target.checked)}>
+          折叠未变化的行
+        </Checkbox>
+        <Tag color="success">+{added}</Tag>
+        <Tag color="error">-{removed}</Tag>
+        {mode === 'split' && <Text type="secondary">左侧: {oldLabel}，右侧: {newLabel}</Text>}
+      </Space>
+      {added === 0 && removed === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={`${newLabel}与${oldLabel}完全相同`} />
+      ) : (
+        <div className="output-diff">
+          {mode === 'split' ? renderSplit() : renderInline()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputDiffView;
@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Empty,
+  Form,
+  Input,
+  List,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  message
+} from 'antd';
+import { DeleteOutlined, EditOutlined, HistoryOutlined, PlusOutlined, ReloadOutlined, RollbackOutlined } from '@ant-design/icons';
+import {
+  deletePromptSnippet,
+  getLatestSnippetVersion,
+  listPromptSnippets,
+  loadPromptSnippetUsages,
+  savePromptSnippet,
+  PROMPT_SNIPPET_ID_PATTERN
+} from '../engine';
+import type { PromptSnippet, PromptSnippetUsage, SavePromptSnippetRequest } from '../engine';
+import OutputDiffView from './OutputDiffView';
+
+const { TextArea } = Input;
+const { Text, Paragraph } = Typography;
+
+const formatTime = (time?: string) => time ? new Date(time).toLocaleString() : '-';
+
+// 提示词库：管理可复用的提示词片段，查看版本历史和各片段在工作流中的引用位置
+const PromptLibrary: React.FC = () => {
+  const [messageApi, contextHolder] = message.useMessage();
+  const [form] = Form.useForm<SavePromptSnippetRequest>();
+  const [snippets, setSnippets] = useState<PromptSnippet[]>([]);
+  const [usages, setUsages] = useState<PromptSnippetUsage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // 编辑中的片段：null 为新建，undefined 为未打开编辑框
+  const [editingSnippet, setEditingSnippet] = useState<PromptSnippet | null>();
+  const [detailSnippetId, setDetailSnippetId] = useState<string>();
+  // 版本历史中与最新版本对比的版本号
+  const [compareVersion, setCompareVersion] = useState<number>();
+
+  const loadSnippets = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSnippets(await listPromptSnippets());
+    } catch (error) {
+      console.error('读取提示词库失败:', error);
+      messageApi.error(`读取提示词库失败: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setLoading(false);
+    }
+    // 引用位置读取失败时不影响片段的管理
+    try {
+      setUsages(await loadPromptSnippetUsages());
+    } catch (error) {
+      console.error('读取工作流配置失败:', error);
+      messageApi.warning('读取工作流配置失败，暂时无法显示片段的引用位置');
+    }
+  }, [messageApi]);
+
+  useEffect(() => {
+    loadSnippets();
+  }, [loadSnippets]);
+
+  const usagesBySnippet = useMemo(() => {
+    const map = new Map<string, PromptSnippetUsage[]>();
+    usages.forEach(usage => map.set(usage.snippetId, [...(map.get(usage.snippetId) || []), usage]));
+    return map;
+  }, [usages]);
+
+  const detailSnippet = snippets.find(snippet => snippet.id === detailSnippetId);
+  const detailLatest = detailSnippet && getLatestSnippetVersion(detailSnippet);
+  const comparedVersion = detailSnippet?.versions.find(version => version.version === compareVersion);
+
+  const openEditor = (snippet: PromptSnippet | null) => {
+    setEditingSnippet(snippet);
+    form.setFieldsValue(snippet
+      ? { id: snippet.id, name: snippet.name, description: snippet.description, content: getLatestSnippetVersion(snippet)?.content, note: '' }
+      : { id: '', name: '', description: '', content: '', note: '' });
+  };
+
+  const saveSnippet = async (request: SavePromptSnippetRequest) => {
+    setSaving(true);
+    try {
+      const saved = await savePromptSnippet(request);
+      setSnippets(prev => prev.some(item => item.id === saved.id)
+        ? prev.map(item => item.id === saved.id ? saved : item)
+        : [...prev, saved]);
+      return saved;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+    try {
+      const saved = await saveSnippet(values);
+      const latest = getLatestSnippetVersion(saved);
+      const usedCount = usagesBySnippet.get(saved.id)?.filter(usage => usage.version === undefined).length ?? 0;
+      messageApi.success(editingSnippet && latest?.version !== getLatestSnippetVersion(editingSnippet)?.version
+        ? `已保存为版本 ${latest?.version}，${usedCount} 处引用最新版本的提示词下次执行时使用新内容`
+        : '提示词片段已保存');
+      setEditingSnippet(undefined);
+    } catch (error) {
+      messageApi.error(`保存提示词片段失败: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // 以历史版本的内容保存为新版本
+  const restoreVersion = async (snippet: PromptSnippet, version: number) => {
+    const target = snippet.versions.find(item => item.version === version);
+    if (!target) return;
+    try {
+      const saved = await saveSnippet({
+        id: snippet.id,
+        name: snippet.name,
+        description: snippet.description,
+        content: target.content,
+        note: `恢复版本 ${version}`
+      });
+      setCompareVersion(undefined);
+      messageApi.success(`已将版本 ${version} 的内容保存为版本 ${getLatestSnippetVersion(saved)?.version}`);
+    } catch (error) {
+      messageApi.error(`恢复版本失败: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePromptSnippet(id);
+      setSnippets(prev => prev.filter(item => item.id !== id));
+      messageApi.success('提示词片段已删除');
+    } catch (error) {
+      messageApi.error(`删除提示词片段失败: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const renderUsages = (items: PromptSnippetUsage[]) => items.length === 0 ? (
+    <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="没有工作流引用此片段" />
+  ) : (
+    <Table
+      size="small"
+      rowKey={usage => `${usage.source}-${usage.workflowId}-${usage.stepId}-${usage.version ?? 'latest'}`}
+      dataSource={items}
+      pagination={false}
+      columns={[
+        { title: '位置', dataIndex: 'source' },
+        { title: '工作流', dataIndex: 'workflowName' },
+        { title: '步骤', dataIndex: 'stepName' },
+        {
+          title: '引用版本',
+          dataIndex: 'version',
+          render: (version?: number) => version === undefined ? <Tag color="blue">最新</Tag> : <Tag>版本 {version}</Tag>
+        }
+      ]}
+    />
+  );
+
+  return (
+    <div style={{ padding: '24px' }}>
+      {contextHolder}
+      <Card
+        title="提示词库"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadSnippets} loading={loading}>刷新</Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openEditor(null)}>新建片段</Button>
+          </Space>
+        }
+      >
+        <Paragraph type="secondary">
+          在步骤的提示词中使用 <Text code>{'{{> 片段ID}}'}</Text> 引用片段的最新版本，
+          使用 <Text code>{'{{> 片段ID@版本号}}'}</Text> 固定引用某个版本。片段内容同样是提示词模板，可以引用文件和变量；
+          修改片段后，引用最新版本的工作流下次执行时自动使用新内容。
+        </Paragraph>
+        <Table
+          rowKey="id"
+          loading={loading}
+          dataSource={snippets}
+          pagination={false}
+          columns={[
+            { title: '片段ID', dataIndex: 'id', render: (id: string) => <Text code copyable={{ text: `{{> ${id}}}` }}>{id}</Text> },
+            {
+              title: '名称',
+              dataIndex: 'name',
+              render: (name: string, snippet: PromptSnippet) => (
+                <div>
+                  <div>{name}</div>
+                  {snippet.description && <Text type="secondary" style={{ fontSize: '12px' }}>{snippet.description}</Text>}
+                </div>
+              )
+            },
+            {
+              title: '版本',
+              render: (_: unknown, snippet: PromptSnippet) => <Tag>版本 {getLatestSnippetVersion(snippet)?.version ?? '-'}</Tag>
+            },
+            { title: '更新时间', dataIndex: 'updatedAt', render: formatTime },
+            {
+              title: '引用',
+              render: (_: unknown, snippet: PromptSnippet) => {
+                const count = usagesBySnippet.get(snippet.id)?.length ?? 0;
+                return <Tag color={count > 0 ? 'blue' : 'default'}>{count} 处</Tag>;
+              }
+            },
+            {
+              title: '操作',
+              render: (_: unknown, snippet: PromptSnippet) => (
+                <Space>
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openEditor(snippet)}>编辑</Button>
+                  <Button
+                    size="small"
+                    icon={<HistoryOutlined />}
+                    onClick={() => {
+                      setDetailSnippetId(snippet.id);
+                      setCompareVersion(undefined);
+                    }}
+                  >
+                    版本与引用
+                  </Button>
+                  <Popconfirm
+                    title={`删除片段 "${snippet.name}"？`}
+                    description={usagesBySnippet.has(snippet.id)
+                      ? `有 ${usagesBySnippet.get(snippet.id)?.length} 处提示词引用此片段，删除后这些步骤将无法执行`
+                      : '删除后全部版本都将移除'}
+                    onConfirm={() => handleDelete(snippet.id)}
+                  >
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              )
+            }
+          ]}
+        />
+      </Card>
+
+      <Modal
+        title={editingSnippet ? `编辑片段 "${editingSnippet.name}"` : '新建提示词片段'}
+        open={editingSnippet !== undefined}
+        onOk={handleSubmit}
+        onCancel={() => setEditingSnippet(undefined)}
+        confirmLoading={saving}
+        okText="保存"
+        cancelText="取消"
+        width={800}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item
+            name="id"
+            label="片段ID"
+            extra="在提示词中以 {{> 片段ID}} 引用，保存后不能修改"
+            rules={[
+              { required: true, message: '请输入片段ID' },
+              { pattern: PROMPT_SNIPPET_ID_PATTERN, message: '只能包含字母、数字、下划线和连字符' },
+              {
+                validator: (_, value) => !editingSnippet && snippets.some(item => item.id === value)
+                  ? Promise.reject(new Error('片段ID已存在'))
+                  : Promise.resolve()
+              }
+            ]}
+          >
+            <Input placeholder="例如 jsp-dom-rules" disabled={!!editingSnippet} />
+          </Form.Item>
+          <Form.Item name="name" label="名称" rules={[{ required: true, message: '请输入名称' }]}>
+            <Input placeholder="例如 JSP 转换规则" />
+          </Form.Item>
+          <Form.Item name="description" label="说明">
+            <Input placeholder="片段的用途" />
+          </Form.Item>
+          <Form.Item name="content" label="内容" rules={[{ required: true, whitespace: true, message: '请输入片段内容' }]}>
+            <TextArea rows={10} placeholder="提示词内容，可以使用 {{文件名}}、变量、条件和循环" />
+          </Form.Item>
+          <Form.Item name="note" label="修改说明" extra="内容有变化时保存为新版本，说明记录在版本历史中">
+            <Input placeholder="例如 增加忽略 jsp:forward 标签的规则" />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title={detailSnippet ? `片段 "${detailSnippet.name}"（${detailSnippet.id}）` : ''}
+        open={!!detailSnippet}
+        onCancel={() => setDetailSnippetId(undefined)}
+        footer={null}
+        width={1000}
+      >
+        {detailSnippet && (
+          <Tabs
+            items={[
+              {
+                key: 'versions',
+                label: `版本历史（${detailSnippet.versions.length}）`,
+                children: (
+                  <div>
+                    <Space style={{ marginBottom: '12px' }} wrap>
+                      <Text>与最新版本对比:</Text>
+                      <Select
+                        style={{ width: '200px' }}
+                        placeholder="选择历史版本"
+                        allowClear
+                        value={compareVersion}
+                        onChange={setCompareVersion}
+                        options={detailSnippet.versions
+                          .filter(version => version.version !== detailLatest?.version)
+                          .map(version => ({ value: version.version, label: `版本 ${version.version}` }))}
+                      />
+                      {comparedVersion && (
+                        <Popconfirm
+                          title={`恢复版本 ${comparedVersion.version}`}
+                          description="将以此版本的内容保存为新版本，引用最新版本的工作流随之生效"
+                          onConfirm={() => restoreVersion(detailSnippet, comparedVersion.version)}
+                        >
+                          <Button size="small" icon={<RollbackOutlined />} loading={saving}>恢复此版本</Button>
+                        </Popconfirm>
+                      )}
+                    </Space>
+                    {comparedVersion && detailLatest ? (
+                      <OutputDiffView
+                        oldContent={comparedVersion.content}
+                        newContent={detailLatest.content}
+                        oldLabel={`版本 ${comparedVersion.version}`}
+                        newLabel={`版本 ${detailLatest.version}（最新）`}
+                      />
+                    ) : (
+                      <List
+                        size="small"
+                        dataSource={[...detailSnippet.versions].reverse()}
+                        renderItem={version => (
+                          <List.Item>
+                            <div style={{ width: '100%' }}>
+                              <Space>
+                                <Tag color={version.version === detailLatest?.version ? 'blue' : 'default'}>版本 {version.version}</Tag>
+                                <Text type="secondary">{formatTime(version.createdAt)}</Text>
+                                {version.note && <Text>{version.note}</Text>}
+                              </Space>
+                              <Paragraph
+                                ellipsis={{ rows: 3, expandable: true, symbol: '展开' }}
+                                style={{ marginTop: '8px', marginBottom: 0, whiteSpace: 'pre-wrap', fontSize: '12px' }}
+                              >
+                                {version.content}
+                              </Paragraph>
+                            </div>
+                          </List.Item>
+                        )}
+                      />
+                    )}
+                  </div>
+                )
+              },
+              {
+                key: 'usages',
+                label: `引用位置（${usagesBySnippet.get(detailSnippet.id)?.length ?? 0}）`,
+                children: (
+                  <div>
+                    {(usagesBySnippet.get(detailSnippet.id) || []).some(usage => usage.version !== undefined) && (
+                      <Alert
+                        type="info"
+                        showIcon
+                        message="固定引用某个版本的提示词不会随片段修改而变化"
+                        style={{ marginBottom: '12px' }}
+                      />
+                    )}
+                    {renderUsages(usagesBySnippet.get(detailSnippet.id) || [])}
+                  </div>
+                )
+              }
+            ]}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Collapse, Space, Switch, Typography } from 'antd';
+import { buildProcessInputs, createPartialResolver, listPromptSnippets, readOutputFile, resolvePreviewFileInputs, resolveStepVariables, usesPromptSnippets } from '../engine';
+import type { ProcessInput, PromptSnippet, StepContext, Workflow, WorkflowStep } from '../engine';
+
+const { Text } = Typography;
+
+interface PromptPreviewProps {
+  // 编辑中的步骤配置
+  step: WorkflowStep;
+  allSteps: WorkflowStep[];
+  // 步骤所在的工作流，用于模板中的 workflow 变量和替换 ${变量名}
+  workflow?: Pick<Workflow, 'id' | 'name' | 'variables'>;
+}
+
+const SYNTAX_HELP = [
+  ['{{文件名}}', '引用文件，发送文件内容'],
+  ['{{文件名 | path}}', '文件路径；basename、dirname、extname、stem 取路径的一部分'],
+  ['{{文件名 | stem | pascalCase}}', '命名风格转换：pascalCase、camelCase、kebabCase、snakeCase、upper、lower'],
+  ['{{workflow.name}} {{group.name}}', '工作流和任务（工作流组）的 id、name；group 只在任务中执行时存在'],
+  ['{{run.date}} {{run.time}} {{step.name}}', '本次运行的开始日期、时间（run.startedAt 为 ISO 时间）和当前步骤'],
+  ['{{#if 表达式}}…{{else if 表达式}}…{{else}}…{{/if}}', '条件，表达式语法同条件判断步骤'],
+  ['{{#each files as file}}{{loop.number}}. {{file | basename}}{{/each}}', '遍历全部文件输入；loop 提供 index、number、first、last，{{else}} 为列表为空时的内容'],
+  ['{{值 | default("无")}} {{列表 | join("、")}} {{值 | replace("a", "b")}} {{值 | json}}', '其他过滤器'],
+  ['{{> 片段ID}} {{> 片段ID@2}}', '引用提示词库中片段的最新版本或指定版本'],
+  ['${变量名}', '工作流、任务模板或任务上定义的变量，渲染模板前替换；预览只使用工作流变量'],
+  ['{{! 注释 }}', '注释，不会发送']
+];
+
+// 提示词预览：按执行时的规则渲染模板，文件内容可从后端读取，按发送给模型的顺序以换行拼接
+const PromptPreview: React.FC<PromptPreviewProps> = ({ step, allSteps, workflow }) => {
+  const [showContent, setShowContent] = useState(false);
+  // 文件路径 -> 文件内容（读取中或读取失败时为说明文字）
+  const [fileContents, setFileContents] = useState<Record<string, string>>({});
+  const [startedAt] = useState(() => Date.now());
+  // 提示词库，提示词引用了片段时才读取
+  const [snippets, setSnippets] = useState<PromptSnippet[]>();
+  const needsSnippets = usesPromptSnippets(step);
+
+  useEffect(() => {
+    if (!needsSnippets || snippets) return;
+    listPromptSnippets()
+      .then(setSnippets)
+      .catch(loadError => console.error('读取提示词库失败:', loadError));
+  }, [needsSnippets, snippets]);
+
+  const { inputs, error } = useMemo((): { inputs: ProcessInput[]; error?: string } => {
+    try {
+      const context: StepContext = { workflow: { id: workflow?.id ?? '', name: workflow?.name ?? '' }, run: { startedAt } };
+      const resolvePartial = snippets && createPartialResolver(snippets);
+      // 预览时未定义的变量保留原文，任务上的变量要到执行时才确定
+      const resolve = (target: WorkflowStep) => resolveStepVariables(target, workflow?.variables, false);
+      const resolvedStep = resolve(step);
+      const fileInputMap = resolvePreviewFileInputs(resolvedStep, allSteps.map(resolve));
+      return { inputs: buildProcessInputs(resolvedStep, fileInputMap, context, resolvePartial) };
+    } catch (renderError) {
+      return { inputs: [], error: renderError instanceof Error ? renderError.message : String(renderError) };
+    }
+  }, [step, allSteps, workflow, startedAt, snippets]);
+
+  // 打开“显示文件内容”后读取尚未读取过的文件
+  useEffect(() => {
+    if (!showContent) return;
+    const paths = [...new Set(inputs.filter(input => input.type === 'file').map(input => input.value))]
+      .filter(path => !(path in fileContents));
+    if (paths.length === 0) return;
+    setFileContents(prev => ({ ...prev, ...Object.fromEntries(paths.map(path => [path, `〈正在读取 ${path}…〉`])) }));
+    paths.forEach(path => {
+      readOutputFile(path)
+        .then(content => setFileContents(prev => ({ ...prev, [path]: content })))
+        .catch(readError => setFileContents(prev => ({
+          ...prev,
+          [path]: `〈无法读取文件 ${path}: ${readError instanceof Error ? readError.message : readError}〉`
+        })));
+    });
+  }, [showContent, inputs, fileContents]);
+
+  const preview = inputs.map(input => {
+    if (input.type === 'prompt') return input.value;
+    if (!showContent) return `〈文件 ${input.value}〉`;
+    return fileContents[input.value] ?? '';
+  }).join('\n');
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <Space style={{ marginBottom: '8px' }} wrap>
+        <Text strong>提示词预览</Text>
+        <Switch size="small" checked={showContent} onChange={setShowContent} />
+        <Text type="secondary">显示文件内容</Text>
+        {!error && <Text type="secondary">共 {inputs.length} 段，{preview.length} 个字符</Text>}
+      </Space>
+      {error ? (
+        <Alert type="error" showIcon message={error} />
+      ) : (
+        <pre
+          style={{
+            margin: 0,
+            padding: '8px 12px',
+            maxHeight: '320px',
+            overflow: 'auto',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-all',
+            background: '#fafafa',
+            border: '1px solid #d9d9d9',
+            borderRadius: '4px',
+            fontSize: '12px'
+          }}
+        >
+          {preview || ' '}
+        </pre>
+      )}
+      <Collapse
+        ghost
+        size="small"
+        style={{ marginTop: '8px' }}
+        items={[{
+          key: 'syntax',
+          label: '模板语法',
+          children: (
+            <Space direction="vertical" size={4}>
+              {SYNTAX_HELP.map(([syntax, description]) => (
+                <Text key={syntax} style={{ fontSize: '12px' }}>
+                  <Text code>{syntax}</Text> {description}
+                </Text>
+              ))}
+            </Space>
+          )
+        }]}
+      />
+    </div>
+  );
+};
+
+export default PromptPreview;
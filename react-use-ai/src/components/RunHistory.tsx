@@ -0,0 +1,409 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Modal,
+  Table,
+  Tag,
+  Space,
+  Button,
+  Card,
+  Typography,
+  Popconfirm,
+  Descriptions,
+  Empty,
+  message
+} from 'antd';
+import { ReloadOutlined, ArrowLeftOutlined, DiffOutlined, DeleteOutlined, EyeOutlined } from '@ant-design/icons';
+import { listRunRecords, loadRunRecord, deleteRunRecord, RUN_STATUS_OPTIONS } from '../engine';
+import type { RunRecord, RunSummary, StepRunRecord, WorkflowStep } from '../engine';
+import '../styles/workflow.css';
+
+const { Text, Paragraph } = Typography;
+
+interface RunHistoryProps {
+  open: boolean;
+  onClose: () => void;
+  // 只显示指定类型 / 目标的运行记录
+  kind?: RunRecord['kind'];
+  targetId?: string;
+  title?: string;
+}
+
+const STEP_STATUS_OPTIONS: Record<WorkflowStep['status'], { color: string; text: string }> = {
+  pending: { color: 'default', text: '未执行' },
+  running: { color: 'processing', text: '运行中' },
+  success: { color: 'success', text: '成功' },
+  error: { color: 'error', text: '失败' },
+  skipped: { color: 'warning', text: '已跳过' }
+};
+
+// 计算耗时文本
+const formatDuration = (startedAt?: string, finishedAt?: string) => {
+  if (!startedAt || !finishedAt) return '-';
+  const seconds = Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}分${seconds % 60}秒` : `${seconds}秒`;
+};
+
+const formatTime = (time?: string) => time ? new Date(time).toLocaleString() : '-';
+
+// 对比时用于匹配两次运行中同一步骤的键
+const getStepKey = (workflowName: string, step: StepRunRecord) => `${workflowName} / ${step.stepName}`;
+
+const RunHistory: React.FC<RunHistoryProps> = ({ open, onClose, kind, targetId, title = '运行历史' }) => {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedRunIds, setSelectedRunIds] = useState<string[]>([]);
+  const [detailRun, setDetailRun] = useState<RunRecord | null>(null);
+  const [compareRuns, setCompareRuns] = useState<[RunRecord, RunRecord] | null>(null);
+  const [messageApi, contextHolder] = message.useMessage();
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRuns(await listRunRecords({ kind, targetId }));
+    } catch (error) {
+      console.error('加载运行历史失败:', error);
+      messageApi.error('加载运行历史失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [kind, targetId, messageApi]);
+
+  useEffect(() => {
+    if (open) {
+      setDetailRun(null);
+      setCompareRuns(null);
+      setSelectedRunIds([]);
+      loadRuns();
+    }
+  }, [open, loadRuns]);
+
+  const showDetail = async (runId: string) => {
+    try {
+      setDetailRun(await loadRunRecord(runId));
+    } catch (error) {
+      console.error('读取运行记录失败:', error);
+      messageApi.error('读取运行记录失败');
+    }
+  };
+
+  const showCompare = async () => {
+    try {
+      const [first, second] = await Promise.all(selectedRunIds.map(loadRunRecord));
+      // 较早的运行放在左侧
+      setCompareRuns(first.startedAt <= second.startedAt ? [first, second] : [second, first]);
+    } catch (error) {
+      console.error('读取运行记录失败:', error);
+      messageApi.error('读取运行记录失败');
+    }
+  };
+
+  const handleDelete = async (runId: string) => {
+    try {
+      await deleteRunRecord(runId);
+      setSelectedRunIds(ids => ids.filter(id => id !== runId));
+      messageApi.success('运行记录已删除');
+      loadRuns();
+    } catch (error) {
+      console.error('删除运行记录失败:', error);
+      messageApi.error('删除运行记录失败');
+    }
+  };
+
+  const renderStepStatus = (status?: WorkflowStep['status']) => {
+    if (!status) return <Text type="secondary">-</Text>;
+    const config = STEP_STATUS_OPTIONS[status];
+    return <Tag color={config.color}>{config.text}</Tag>;
+  };
+
+  const renderOutput = (step: StepRunRecord) => {
+    if (step.outputPath) return <Text code>{step.outputPath}</Text>;
+    if (step.outputContent !== undefined) {
+      return <Text ellipsis={{ tooltip: step.outputContent }} style={{ maxWidth: 240 }}>{step.outputContent}</Text>;
+    }
+    return <Text type="secondary">-</Text>;
+  };
+
+  // 步骤详情：解析后的输入、输出内容和错误信息
+  const renderStepDetail = (step: StepRunRecord) => (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      {step.inputs && Object.keys(step.inputs).length > 0 && (
+        <div>
+          <Text strong>输入: </Text>
+          {Object.entries(step.inputs).map(([name, input]) => (
+            <div key={name}>
+              <Text type="secondary">{name}: </Text>
+              {input.type === 'file'
+                ? <Text code>{input.value}</Text>
+                : <Text ellipsis={{ tooltip: input.value }} style={{ maxWidth: 600 }}>{input.value}</Text>}
+            </div>
+          ))}
+        </div>
+      )}
+      {step.message && <Text>{step.message}</Text>}
+      {step.error && <Text type="danger">错误: {step.error}</Text>}
+      {step.outputContent && (
+        <Paragraph>
+          <pre style={{ maxHeight: 240, overflow: 'auto', margin: 0 }}>{step.outputContent}</pre>
+        </Paragraph>
+      )}
+    </Space>
+  );
+
+  const stepColumns = [
+    { title: '步骤', dataIndex: 'stepName', key: 'stepName' },
+    {
+      title: '状态',
+      dataIndex: 'status',
+      key: 'status',
+      width: 90,
+      render: renderStepStatus
+    },
+    {
+      title: '尝试次数',
+      dataIndex: 'attempts',
+      key: 'attempts',
+      width: 90,
+      render: (attempts?: number) => attempts ?? '-'
+    },
+    {
+      title: '开始时间',
+      dataIndex: 'startedAt',
+      key: 'startedAt',
+      width: 180,
+      render: formatTime
+    },
+    {
+      title: '耗时',
+      key: 'duration',
+      width: 90,
+      render: (_: unknown, step: StepRunRecord) => formatDuration(step.startedAt, step.finishedAt)
+    },
+    {
+      title: '输出',
+      key: 'output',
+      render: (_: unknown, step: StepRunRecord) => renderOutput(step)
+    }
+  ];
+
+  // 对比两次运行：按 “工作流 / 步骤名称” 对齐
+  const compareRows = useMemo(() => {
+    if (!compareRuns) return [];
+    const [left, right] = compareRuns.map(run => new Map(
+      run.workflows.flatMap(workflow => workflow.steps.map(step => [getStepKey(workflow.workflowName, step), step] as const))
+    ));
+    const keys = [...new Set([...left.keys(), ...right.keys()])];
+    return keys.map(key => {
+      const leftStep = left.get(key);
+      const rightStep = right.get(key);
+      const changed = leftStep?.status !== rightStep?.status
+        || leftStep?.outputPath !== rightStep?.outputPath
+        || leftStep?.outputContent !== rightStep?.outputContent
+        || leftStep?.error !== rightStep?.error;
+      return { key, leftStep, rightStep, changed };
+    });
+  }, [compareRuns]);
+
+  const renderCompareCell = (step?: StepRunRecord) => step ? (
+    <Space direction="vertical" size={2}>
+      <Space>
+        {renderStepStatus(step.status)}
+        <Text type="secondary">{formatDuration(step.startedAt, step.finishedAt)}</Text>
+      </Space>
+      {renderOutput(step)}
+      {step.error && <Text type="danger" ellipsis={{ tooltip: step.error }} style={{ maxWidth: 240 }}>{step.error}</Text>}
+    </Space>
+  ) : <Text type="secondary">（无此步骤）</Text>;
+
+  const renderList = () => (
+    <>
+      <Space style={{ marginBottom: '12px' }}>
+        <Button icon={<ReloadOutlined />} onClick={loadRuns} loading={loading}>
+          刷新
+        </Button>
+        <Button
+          icon={<DiffOutlined />}
+          disabled={selectedRunIds.length !== 2}
+          onClick={showCompare}
+        >
+          对比所选（{selectedRunIds.length}/2）
+        </Button>
+      </Space>
+      <Table
+        rowKey="id"
+        size="small"
+        loading={loading}
+        dataSource={runs}
+        pagination={{ pageSize: 10 }}
+        rowSelection={{
+          selectedRowKeys: selectedRunIds,
+          onChange: keys => setSelectedRunIds((keys as string[]).slice(-2))
+        }}
+        columns={[
+          {
+            title: '开始时间',
+            dataIndex: 'startedAt',
+            key: 'startedAt',
+            width: 180,
+            render: formatTime
+          },
+          {
+            title: '名称',
+            dataIndex: 'targetName',
+            key: 'targetName',
+            render: (name: string, run: RunSummary) => (
+              <Space>
+                <Text>{name}</Text>
+                <Tag>{run.kind === 'group' ? '任务' : '工作流'}</Tag>
+              </Space>
+            )
+          },
+          {
+            title: '状态',
+            dataIndex: 'status',
+            key: 'status',
+            width: 100,
+            render: (status: RunSummary['status']) => (
+              <Tag color={RUN_STATUS_OPTIONS[status].color}>{RUN_STATUS_OPTIONS[status].text}</Tag>
+            )
+          },
+          {
+            title: '耗时',
+            key: 'duration',
+            width: 100,
+            render: (_: unknown, run: RunSummary) => formatDuration(run.startedAt, run.finishedAt)
+          },
+          {
+            title: '步骤',
+            key: 'steps',
+            width: 200,
+            render: (_: unknown, run: RunSummary) => (
+              <Text type="secondary">
+                成功 {run.stepCounts.success} / 失败 {run.stepCounts.error} / 跳过 {run.stepCounts.skipped}（共 {run.stepCounts.total}）
+              </Text>
+            )
+          },
+          {
+            title: '操作',
+            key: 'actions',
+            width: 140,
+            render: (_: unknown, run: RunSummary) => (
+              <Space>
+                <Button size="small" icon={<EyeOutlined />} onClick={() => showDetail(run.id)}>
+                  详情
+                </Button>
+                <Popconfirm
+                  title="确定要删除这条运行记录吗？"
+                  onConfirm={() => handleDelete(run.id)}
+                  okText="确定"
+                  cancelText="取消"
+                >
+                  <Button size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </Space>
+            )
+          }
+        ]}
+      />
+    </>
+  );
+
+  const renderDetail = (run: RunRecord) => (
+    <>
+      <Button icon={<ArrowLeftOutlined />} onClick={() => setDetailRun(null)} style={{ marginBottom: '12px' }}>
+        返回列表
+      </Button>
+      <Descriptions size="small" column={3} bordered style={{ marginBottom: '16px' }}>
+        <Descriptions.Item label="名称">{run.targetName}</Descriptions.Item>
+        <Descriptions.Item label="状态">
+          <Tag color={RUN_STATUS_OPTIONS[run.status].color}>{RUN_STATUS_OPTIONS[run.status].text}</Tag>
+        </Descriptions.Item>
+        <Descriptions.Item label="耗时">{formatDuration(run.startedAt, run.finishedAt)}</Descriptions.Item>
+        <Descriptions.Item label="开始时间">{formatTime(run.startedAt)}</Descriptions.Item>
+        <Descriptions.Item label="结束时间" span={2}>{formatTime(run.finishedAt)}</Descriptions.Item>
+      </Descriptions>
+      {run.workflows.length === 0 && <Empty description="没有执行任何工作流" />}
+      {run.workflows.map(workflow => (
+        <Card
+          key={workflow.workflowId}
+          size="small"
+          style={{ marginBottom: '12px' }}
+          title={
+            <Space>
+              <Text strong>{workflow.workflowName}</Text>
+              <Tag color={RUN_STATUS_OPTIONS[workflow.status].color}>{RUN_STATUS_OPTIONS[workflow.status].text}</Tag>
+              <Text type="secondary">{formatDuration(workflow.startedAt, workflow.finishedAt)}</Text>
+            </Space>
+          }
+        >
+          {workflow.error && <Text type="danger">{workflow.error}</Text>}
+          <Table
+            rowKey="stepId"
+            size="small"
+            pagination={false}
+            dataSource={workflow.steps}
+            columns={stepColumns}
+            expandable={{
+              expandedRowRender: renderStepDetail,
+              rowExpandable: step => !!(step.inputs || step.message || step.error || step.outputContent)
+            }}
+          />
+        </Card>
+      ))}
+    </>
+  );
+
+  const renderCompare = ([left, right]: [RunRecord, RunRecord]) => (
+    <>
+      <Button icon={<ArrowLeftOutlined />} onClick={() => setCompareRuns(null)} style={{ marginBottom: '12px' }}>
+        返回列表
+      </Button>
+      <Table
+        rowKey="key"
+        size="small"
+        pagination={false}
+        dataSource={compareRows}
+        rowClassName={row => row.changed ? 'run-compare-changed' : ''}
+        columns={[
+          {
+            title: '工作流 / 步骤',
+            dataIndex: 'key',
+            key: 'key',
+            render: (key: string, row) => (
+              <Space>
+                <Text>{key}</Text>
+                {row.changed && <Tag color="orange">有变化</Tag>}
+              </Space>
+            )
+          },
+          {
+            title: `${formatTime(left.startedAt)}（${RUN_STATUS_OPTIONS[left.status].text}）`,
+            key: 'left',
+            render: (_: unknown, row) => renderCompareCell(row.leftStep)
+          },
+          {
+            title: `${formatTime(right.startedAt)}（${RUN_STATUS_OPTIONS[right.status].text}）`,
+            key: 'right',
+            render: (_: unknown, row) => renderCompareCell(row.rightStep)
+          }
+        ]}
+      />
+    </>
+  );
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      width="80%"
+      destroyOnClose
+    >
+      {contextHolder}
+      {compareRuns ? renderCompare(compareRuns) : detailRun ? renderDetail(detailRun) : renderList()}
+    </Modal>
+  );
+};
+
+export default RunHistory;
@@ -21,9 +21,15 @@ import {
   CheckCircleOutlined,
   CloseCircleOutlined,
   LoadingOutlined,
-  ClockCircleOutlined
+  ClockCircleOutlined,
+  MinusCircleOutlined,
+  RedoOutlined,
+  DatabaseOutlined,
+  ToolOutlined
 } from '@ant-design/icons';
 import type { WorkflowStep } from './WorkflowDesigner';
+import StreamOutputView from './StreamOutputView';
+import { formatElapsed } from '../engine';
 
 const { Text, Paragraph } = Typography;
 
@@ -108,7 +114,7 @@ const StepCard: React.FC<StepCardProps> = ({
       case 'error':
         return { icon: <CloseCircleOutlined />, color: 'error', text: '失败' };
       case 'skipped':
-        return { icon: <ClockCircleOutlined />, color: 'warning', text: '跳过' };
+        return { icon: <MinusCircleOutlined />, color: 'warning', text: '已跳过' };
       default:
         return { icon: <ClockCircleOutlined />, color: 'default', text: '未知' };
     }
@@ -125,6 +131,12 @@ const StepCard: React.FC<StepCardProps> = ({
   };
 
   const statusDisplay = getStatusDisplay(step.status);
+  const attempts = step.attempts || [];
+  // 允许重试且正在执行或已发生重试时显示尝试次数
+  const showAttempts = (step.maxAttempts ?? 1) > 1 && (step.status === 'running' || attempts.length > 1);
+  const failedAttempts = attempts.filter(item => item.error);
+  // 自动修复的轮数（不含首次生成）
+  const autoFixRounds = (step.result?.data?.autoFixHistory?.length ?? 1) - 1;
 
   return (
     <Badge.Ribbon 
@@ -133,7 +145,10 @@ const StepCard: React.FC<StepCardProps> = ({
     >
       <Card
         hoverable
-        className={isSelected ? 'selected-step-card' : ''}
+        className={[
+          isSelected ? 'selected-step-card' : '',
+          step.status === 'skipped' ? 'skipped-step-card' : ''
+        ].join(' ')}
         style={{
           border: isSelected ? '2px solid #1890ff' : '1px solid #d9d9d9',
           cursor: 'pointer'
@@ -212,6 +227,31 @@ const StepCard: React.FC<StepCardProps> = ({
               >
                 {statusDisplay.text}
               </Tag>
+              {step.status === 'success' && step.result?.data?.cached && (
+                <Tooltip title="输入内容与之前的执行相同，直接使用了缓存的输出">
+                  <Tag icon={<DatabaseOutlined />} color="cyan">缓存命中</Tag>
+                </Tooltip>
+              )}
+              {autoFixRounds > 0 && (
+                <Tooltip title="输出未通过校验，已把错误反馈给模型自动修复，可在执行结果中查看各轮输出">
+                  <Tag icon={<ToolOutlined />} color={step.result?.success ? 'purple' : 'orange'}>
+                    自动修复 {autoFixRounds} 轮
+                  </Tag>
+                </Tooltip>
+              )}
+              {showAttempts && (
+                <Tooltip
+                  title={failedAttempts.length > 0
+                    ? failedAttempts.map(item => (
+                        <div key={item.attempt}>第 {item.attempt} 次: {item.error}</div>
+                      ))
+                    : undefined}
+                >
+                  <Tag icon={<RedoOutlined />} color={failedAttempts.length > 0 ? 'orange' : 'default'}>
+                    尝试 {attempts.length}/{step.maxAttempts}
+                  </Tag>
+                </Tooltip>
+              )}
             </Space>
           }
           description={
@@ -248,11 +288,24 @@ const StepCard: React.FC<StepCardProps> = ({
                 {step.result && (
                   <div>
                     <Text type="secondary">执行结果: </Text>
-                    <Text type={step.result.success ? 'success' : 'danger'}>
+                    <Text type={step.status === 'skipped' ? 'warning' : step.result.success ? 'success' : 'danger'}>
                       {step.result.message}
                     </Text>
+                    {step.result.data?.elapsed !== undefined && (
+                      <Text type="secondary">
+                        （用时 {formatElapsed(step.result.data.elapsed)}，{step.result.data.tokens} tokens）
+                      </Text>
+                    )}
                   </div>
                 )}
+
+                {step.streamOutput && (
+                  <StreamOutputView
+                    output={step.streamOutput}
+                    streaming={step.status === 'running'}
+                    maxHeight={160}
+                  />
+                )}
               </Space>
             </div>
           }
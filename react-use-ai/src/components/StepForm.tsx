@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Form,
   Input,
@@ -10,18 +10,43 @@ import {
   Row,
   Col,
   message,
-  Checkbox
+  Checkbox,
+  Alert,
+  InputNumber
 } from 'antd';
 import { PlusOutlined, DeleteOutlined, FileOutlined, EditOutlined } from '@ant-design/icons';
 import type { WorkflowStep } from './WorkflowDesigner';
+import type { OutputValidation, RetryPolicy, Workflow } from '../engine';
+import { validateWorkflow, getStepIssues, validateExpression, TRANSFORM_TYPE_OPTIONS, DEFAULT_RETRY_POLICY } from '../engine';
+import PromptPreview from './PromptPreview';
 
 const { TextArea } = Input;
 const { Text } = Typography;
 const { Option } = Select;
 
+// 失败重试相关的表单字段
+interface RetryFormValues {
+  maxAttempts?: number | null;
+  retryBaseDelay?: number | null;
+  retryableStatuses?: string[];
+  retryableErrors?: string[];
+}
+
+// 输出校验相关的表单字段
+interface ValidationFormValues {
+  checkSyntax?: boolean;
+  jsonSchema?: string;
+  requiredTexts?: string[];
+  patterns?: string[];
+  autoFixRounds?: number | null;
+  retryOnFailure?: boolean;
+}
+
 interface StepFormProps {
   step: WorkflowStep;
   allSteps: WorkflowStep[];
+  // 步骤所在的工作流，用于预览提示词模板中的 workflow 变量和 ${变量名}
+  workflow?: Pick<Workflow, 'id' | 'name' | 'variables'>;
   onSave: (step: Partial<WorkflowStep>) => void;
   onCancel: () => void;
 }
@@ -42,6 +67,7 @@ interface PromptInput {
 const StepForm: React.FC<StepFormProps> = ({
   step,
   allSteps,
+  workflow,
   onSave,
   onCancel
 }) => {
@@ -53,6 +79,33 @@ const StepForm: React.FC<StepFormProps> = ({
     step.config.promptInputs || []
   );
   const [messageApi, contextHolder] = message.useMessage();
+  const watchedDependencies: string[] | undefined = Form.useWatch('dependencies', form);
+  const stepType: WorkflowStep['type'] = Form.useWatch('type', form) ?? step.type;
+  // 数据转换步骤在本地执行，不需要提示词和输出配置
+  const isDataTransform = stepType === 'data_transform';
+  // 条件判断步骤只基于依赖步骤的结果计算表达式，不需要文件输入
+  const isCondition = stepType === 'condition';
+  // API 调用步骤通过后端中转请求外部接口，文件输入只用于填充请求体模板
+  const isApiCall = stepType === 'api_call';
+  const watchedBodyTemplate: string | undefined = Form.useWatch('bodyTemplate', form);
+
+  // 当前编辑中的配置，用于校验依赖与引用、预览提示词
+  const draftStep = useMemo((): WorkflowStep => ({
+    ...step,
+    type: stepType,
+    dependencies: watchedDependencies ?? step.dependencies,
+    config: {
+      ...step.config,
+      fileInputs,
+      promptInputs,
+      customSettings: { ...step.config.customSettings, bodyTemplate: watchedBodyTemplate }
+    }
+  }), [step, stepType, watchedDependencies, watchedBodyTemplate, fileInputs, promptInputs]);
+
+  const validationIssues = useMemo(() => {
+    const draftSteps = allSteps.map(s => s.id === step.id ? draftStep : s);
+    return getStepIssues(validateWorkflow(draftSteps), step.id);
+  }, [step.id, allSteps, draftStep]);
 
   // 可选择的依赖步骤（排除当前步骤和后续步骤）
   const availableDependencies = allSteps.filter(s => 
@@ -69,7 +122,17 @@ const StepForm: React.FC<StepFormProps> = ({
       outputFolder: step.config.outputFolder,
       outputFileName: step.config.outputFileName,
       apiEndpoint: step.config.apiEndpoint || '/api/process-file',
-      ...step.config.customSettings
+      ...step.config.customSettings,
+      maxAttempts: step.retryPolicy?.maxAttempts,
+      retryBaseDelay: step.retryPolicy?.baseDelay,
+      retryableStatuses: step.retryPolicy?.retryableStatuses?.map(String),
+      retryableErrors: step.retryPolicy?.retryableErrors,
+      checkSyntax: step.config.validation?.checkSyntax,
+      jsonSchema: step.config.validation?.jsonSchema,
+      requiredTexts: step.config.validation?.requiredTexts,
+      patterns: step.config.validation?.patterns,
+      autoFixRounds: step.config.validation?.autoFixRounds,
+      retryOnFailure: step.config.validation?.retryOnFailure
     });
   }, [step, form]);
 
@@ -130,10 +193,121 @@ const StepForm: React.FC<StepFormProps> = ({
     { value: 'condition', label: '条件判断' }
   ];
 
+  // 根据表单生成步骤级重试策略，未设置最大尝试次数时沿用工作流的策略
+  const buildRetryPolicy = (values: RetryFormValues): RetryPolicy | undefined => {
+    if (!values.maxAttempts) return undefined;
+    return {
+      maxAttempts: values.maxAttempts,
+      baseDelay: values.retryBaseDelay ?? undefined,
+      retryableStatuses: values.retryableStatuses?.length
+        ? values.retryableStatuses.map(Number).filter(status => !Number.isNaN(status))
+        : undefined,
+      retryableErrors: values.retryableErrors?.length ? values.retryableErrors : undefined
+    };
+  };
+
+  // 根据表单生成输出校验规则，未配置任何规则时返回 undefined
+  const buildValidation = (values: ValidationFormValues): OutputValidation | undefined => {
+    const validation: OutputValidation = {
+      checkSyntax: values.checkSyntax || undefined,
+      jsonSchema: values.jsonSchema?.trim() || undefined,
+      requiredTexts: values.requiredTexts?.length ? values.requiredTexts : undefined,
+      patterns: values.patterns?.length ? values.patterns : undefined,
+      autoFixRounds: values.autoFixRounds || undefined,
+      retryOnFailure: values.retryOnFailure || undefined
+    };
+    return Object.values(validation).some(value => value !== undefined) ? validation : undefined;
+  };
+
+  // 检查校验规则本身是否有效，返回错误信息
+  const getValidationRuleError = (validation?: OutputValidation) => {
+    if (validation?.jsonSchema) {
+      try {
+        JSON.parse(validation.jsonSchema);
+      } catch {
+        return 'JSON Schema 必须是合法的 JSON';
+      }
+    }
+    for (const pattern of validation?.patterns ?? []) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return `正则表达式无效: ${pattern}`;
+      }
+    }
+    return undefined;
+  };
+
   // 保存步骤配置
   const handleSave = async () => {
     try {
       const values = await form.validateFields();
+      const retryPolicy = buildRetryPolicy(values);
+
+      if (values.type === 'condition') {
+        if (!values.condition?.trim()) {
+          messageApi.error('请输入条件表达式');
+          return;
+        }
+        try {
+          validateExpression(values.condition);
+        } catch (error) {
+          messageApi.error(`条件表达式有误: ${error instanceof Error ? error.message : error}`);
+          return;
+        }
+
+        onSave({
+          name: values.name,
+          description: values.description,
+          type: values.type,
+          dependencies: values.dependencies || [],
+          retryPolicy,
+          config: {
+            customSettings: {
+              condition: values.condition
+            }
+          }
+        });
+        return;
+      }
+
+      if (values.type === 'api_call') {
+        if (!values.apiUrl?.trim()) {
+          messageApi.error('请输入API地址');
+          return;
+        }
+        if (values.headers?.trim()) {
+          try {
+            JSON.parse(values.headers);
+          } catch {
+            messageApi.error('请求头必须是合法的 JSON');
+            return;
+          }
+        }
+        if (fileInputs.some(file => !file.name.trim())) {
+          messageApi.error('请为所有文件输入设置名称');
+          return;
+        }
+
+        onSave({
+          name: values.name,
+          description: values.description,
+          type: values.type,
+          dependencies: values.dependencies || [],
+          retryPolicy,
+          config: {
+            fileInputs: fileInputs,
+            customSettings: {
+              apiUrl: values.apiUrl,
+              method: values.method || 'GET',
+              headers: values.headers,
+              bodyTemplate: values.bodyTemplate,
+              timeout: values.timeout
+            }
+          }
+        });
+        return;
+      }
       
       // 验证文件输入配置
       if (fileInputs.length === 0) {
@@ -153,6 +327,43 @@ const StepForm: React.FC<StepFormProps> = ({
         }
       }
 
+      if (values.type === 'data_transform') {
+        const sourceFile = fileInputs.find(file => file.name === values.sourceFile) || fileInputs[0];
+        if (!sourceFile.dependsOn) {
+          messageApi.error('数据转换的输入文件需要引用前置步骤的输出');
+          return;
+        }
+        if (!values.transformType) {
+          messageApi.error('请选择转换类型');
+          return;
+        }
+        if (values.transformType !== 'json_to_ts' && !values.expression?.trim()) {
+          messageApi.error('请输入转换表达式');
+          return;
+        }
+
+        onSave({
+          name: values.name,
+          description: values.description,
+          type: values.type,
+          dependencies: values.dependencies || [],
+          retryPolicy,
+          config: {
+            fileInputs: fileInputs,
+            promptInputs: promptInputs,
+            customSettings: {
+              transformType: values.transformType,
+              sourceFile: values.sourceFile,
+              expression: values.expression,
+              replacement: values.replacement,
+              regexFlags: values.regexFlags,
+              interfaceName: values.interfaceName
+            }
+          }
+        });
+        return;
+      }
+
       // 验证提示词输入
       if (promptInputs.length === 0) {
         messageApi.error('请至少添加一个提示词');
@@ -177,22 +388,30 @@ const StepForm: React.FC<StepFormProps> = ({
         return;
       }
 
+      const validation = buildValidation(values);
+      const validationRuleError = getValidationRuleError(validation);
+      if (validationRuleError) {
+        messageApi.error(validationRuleError);
+        return;
+      }
+
       const updatedStep: Partial<WorkflowStep> = {
         name: values.name,
         description: values.description,
         type: values.type,
         dependencies: values.dependencies || [],
+        retryPolicy,
         config: {
           fileInputs: fileInputs,
           promptInputs: promptInputs,
           outputFolder: values.outputFolder,
           outputFileName: values.outputFileName,
           apiEndpoint: values.apiEndpoint,
+          validation,
           customSettings: {
             // 保存其他自定义设置
             apiUrl: values.apiUrl,
             timeout: values.timeout,
-            retryCount: values.retryCount,
             condition: values.condition
           }
         }
@@ -207,6 +426,22 @@ const StepForm: React.FC<StepFormProps> = ({
   return (
     <div style={{ maxHeight: '70vh', overflow: 'auto' }}>
       {contextHolder}
+
+      {validationIssues.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message="依赖配置存在问题，修复前工作流无法执行"
+          description={
+            <ul style={{ margin: 0, paddingLeft: '20px' }}>
+              {validationIssues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          }
+          style={{ marginBottom: '16px' }}
+        />
+      )}
       
       <Form
         form={form}
@@ -271,242 +506,384 @@ const StepForm: React.FC<StepFormProps> = ({
         </Card>
 
         {/* 1. 文件输入配置 */}
-        <Card 
-          title="1. 文件输入配置"
-          extra={
-            <Button 
-              type="primary"
-              size="small" 
-              icon={<PlusOutlined />}
-              onClick={addFileInput}
-            >
-              添加文件
-            </Button>
-          }
-          style={{ marginBottom: '16px' }}
-        >
-          <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
-            为每个输入文件设置名称和路径，或者引用前置步骤的输出文件
-          </Text>
+        {!isCondition && (
+          <Card 
+            title="1. 文件输入配置"
+            extra={
+              <Button 
+                type="primary"
+                size="small" 
+                icon={<PlusOutlined />}
+                onClick={addFileInput}
+              >
+                添加文件
+              </Button>
+            }
+            style={{ marginBottom: '16px' }}
+          >
+            <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+              为每个输入文件设置名称和路径，或者引用前置步骤的输出文件
+            </Text>
           
-          {fileInputs.length === 0 ? (
-            <div style={{ textAlign: 'center', padding: '20px' }}>
-              <Text type="secondary">暂无文件输入，请添加文件</Text>
-            </div>
-          ) : (
-            <Space direction="vertical" style={{ width: '100%' }} size="middle">
-              {fileInputs.map((file, index) => (
-                <Card 
-                  key={file.id}
-                  size="small"
-                  title={
-                    <Space>
-                      <FileOutlined />
-                      <Text>文件 {index + 1}</Text>
-                    </Space>
-                  }
-                  extra={
-                    <Button 
-                      type="text" 
-                      danger 
-                      icon={<DeleteOutlined />}
-                      onClick={() => removeFileInput(file.id)}
-                    />
-                  }
-                >
-                  <Row gutter={16}>
-                    <Col span={8}>
-                      <Text strong>文件名称:</Text>
-                      <Input
-                        value={file.name}
-                        onChange={(e) => updateFileInput(file.id, 'name', e.target.value)}
-                        placeholder="为文件设置一个名称"
-                        style={{ marginTop: '4px' }}
+            {fileInputs.length === 0 ? (
+              <div style={{ textAlign: 'center', padding: '20px' }}>
+                <Text type="secondary">暂无文件输入，请添加文件</Text>
+              </div>
+            ) : (
+              <Space direction="vertical" style={{ width: '100%' }} size="middle">
+                {fileInputs.map((file, index) => (
+                  <Card 
+                    key={file.id}
+                    size="small"
+                    title={
+                      <Space>
+                        <FileOutlined />
+                        <Text>文件 {index + 1}</Text>
+                      </Space>
+                    }
+                    extra={
+                      <Button 
+                        type="text" 
+                        danger 
+                        icon={<DeleteOutlined />}
+                        onClick={() => removeFileInput(file.id)}
                       />
-                    </Col>
-                    <Col span={10}>
-                      <Text strong>文件路径:</Text>
-                      <Input
-                        value={file.dependsOn ? '将自动使用依赖步骤的输出文件' : file.path}
-                        onChange={(e) => updateFileInput(file.id, 'path', e.target.value)}
-                        placeholder={file.dependsOn ? '将自动使用依赖步骤的输出文件' : '输入文件的完整路径'}
-                        disabled={!!file.dependsOn}
-                        style={{ 
-                          marginTop: '4px',
-                          color: file.dependsOn ? '#999' : undefined,
-                          fontStyle: file.dependsOn ? 'italic' : undefined
-                        }}
-                      />
-                    </Col>
-                    <Col span={6}>
-                      <Text strong>或引用步骤输出:</Text>
-                      <Select
-                        value={file.dependsOn}
-                        onChange={(value) => {
-                          updateFileInput(file.id, 'dependsOn', value);
-                          if (value) {
-                            updateFileInput(file.id, 'path', ''); // 清空路径
-                          }
-                        }}
-                        placeholder="选择依赖步骤"
-                        allowClear
-                        style={{ width: '100%', marginTop: '4px' }}
-                      >
-                        {availableDependencies.map(dep => (
-                          <Option key={dep.id} value={dep.id}>
-                            {dep.name}
-                          </Option>
-                        ))}
-                      </Select>
-                    </Col>
-                  </Row>
-                </Card>
-              ))}
-            </Space>
-          )}
-        </Card>
+                    }
+                  >
+                    <Row gutter={16}>
+                      <Col span={8}>
+                        <Text strong>文件名称:</Text>
+                        <Input
+                          value={file.name}
+                          onChange={(e) => updateFileInput(file.id, 'name', e.target.value)}
+                          placeholder="为文件设置一个名称"
+                          style={{ marginTop: '4px' }}
+                        />
+                      </Col>
+                      <Col span={10}>
+                        <Text strong>文件路径:</Text>
+                        <Input
+                          value={file.dependsOn ? '将自动使用依赖步骤的输出文件' : file.path}
+                          onChange={(e) => updateFileInput(file.id, 'path', e.target.value)}
+                          placeholder={file.dependsOn ? '将自动使用依赖步骤的输出文件' : '输入文件的完整路径，可使用 ${变量名}'}
+                          disabled={!!file.dependsOn}
+                          style={{ 
+                            marginTop: '4px',
+                            color: file.dependsOn ? '#999' : undefined,
+                            fontStyle: file.dependsOn ? 'italic' : undefined
+                          }}
+                        />
+                      </Col>
+                      <Col span={6}>
+                        <Text strong>或引用步骤输出:</Text>
+                        <Select
+                          value={file.dependsOn}
+                          onChange={(value) => {
+                            updateFileInput(file.id, 'dependsOn', value);
+                            if (value) {
+                              updateFileInput(file.id, 'path', ''); // 清空路径
+                            }
+                          }}
+                          placeholder="选择依赖步骤"
+                          allowClear
+                          style={{ width: '100%', marginTop: '4px' }}
+                        >
+                          {availableDependencies.map(dep => (
+                            <Option key={dep.id} value={dep.id}>
+                              {dep.name}
+                            </Option>
+                          ))}
+                        </Select>
+                      </Col>
+                    </Row>
+                  </Card>
+                ))}
+              </Space>
+            )}
+          </Card>
+        )}
 
-        {/* 2. 提示词配置 */}
-        <Card 
-          title="2. 提示词配置"
-          extra={
-            <Button 
-              type="primary"
-              size="small" 
-              icon={<PlusOutlined />}
-              onClick={addPromptInput}
+        {!isDataTransform && !isCondition && !isApiCall && (
+          <>
+            {/* 2. 提示词配置 */}
+            <Card 
+              title="2. 提示词配置"
+              extra={
+                <Button 
+                  type="primary"
+                  size="small" 
+                  icon={<PlusOutlined />}
+                  onClick={addPromptInput}
+                >
+                  添加提示词
+                </Button>
+              }
+              style={{ marginBottom: '16px' }}
             >
-              添加提示词
-            </Button>
-          }
-          style={{ marginBottom: '16px' }}
-        >
-          <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
-            编写处理指令，可以在提示词中引用上面配置的文件
-          </Text>
+              <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+                编写处理指令，使用 {'{{文件名}}'} 引用上面配置的文件，还可以使用变量、过滤器、条件和循环（见预览下方的模板语法）
+              </Text>
           
-          {promptInputs.length === 0 ? (
-            <div style={{ textAlign: 'center', padding: '20px' }}>
-              <Text type="secondary">暂无提示词，请添加提示词</Text>
-            </div>
-          ) : (
-            <Space direction="vertical" style={{ width: '100%' }} size="middle">
-              {promptInputs.map((prompt, index) => (
-                <Card 
-                  key={prompt.id}
-                  size="small"
-                  title={
-                    <Space>
-                      <EditOutlined />
-                      <Text>提示词 {index + 1}</Text>
-                    </Space>
-                  }
-                  extra={
-                    <Button 
-                      type="text" 
-                      danger 
-                      icon={<DeleteOutlined />}
-                      onClick={() => removePromptInput(prompt.id)}
-                    />
-                  }
-                >
-                  <Row gutter={16}>
-                    <Col span={16}>
-                      <Text strong>提示词内容:</Text>
-                      <TextArea
-                        value={prompt.content}
-                        onChange={(e) => updatePromptInput(prompt.id, 'content', e.target.value)}
-                        placeholder="输入处理指令，可以使用 {{文件名}} 来引用文件"
-                        rows={4}
-                        style={{ marginTop: '4px' }}
-                      />
-                    </Col>
-                    <Col span={8}>
-                      <Text strong>引用的文件:</Text>
-                      <div style={{ marginTop: '4px' }}>
-                        <Checkbox.Group
-                          value={prompt.fileReferences}
-                          onChange={(values) => updatePromptInput(prompt.id, 'fileReferences', values)}
-                        >
-                          <Space direction="vertical">
-                            {fileInputs.map(file => (
-                              <Checkbox key={file.id} value={file.id}>
-                                {file.name}
-                              </Checkbox>
-                            ))}
-                          </Space>
-                        </Checkbox.Group>
-                        {prompt.fileReferences.length > 0 && (
-                          <div style={{ marginTop: '8px' }}>
-                            <Text type="secondary" style={{ fontSize: '12px' }}>
-                              在提示词中使用: {prompt.fileReferences.map(ref => {
-                                const file = fileInputs.find(f => f.id === ref);
-                                return file ? `{{${file.name}}}` : '';
-                              }).join(', ')}
-                            </Text>
+              {promptInputs.length === 0 ? (
+                <div style={{ textAlign: 'center', padding: '20px' }}>
+                  <Text type="secondary">暂无提示词，请添加提示词</Text>
+                </div>
+              ) : (
+                <Space direction="vertical" style={{ width: '100%' }} size="middle">
+                  {promptInputs.map((prompt, index) => (
+                    <Card 
+                      key={prompt.id}
+                      size="small"
+                      title={
+                        <Space>
+                          <EditOutlined />
+                          <Text>提示词 {index + 1}</Text>
+                        </Space>
+                      }
+                      extra={
+                        <Button 
+                          type="text" 
+                          danger 
+                          icon={<DeleteOutlined />}
+                          onClick={() => removePromptInput(prompt.id)}
+                        />
+                      }
+                    >
+                      <Row gutter={16}>
+                        <Col span={16}>
+                          <Text strong>提示词内容:</Text>
+                          <TextArea
+                            value={prompt.content}
+                            onChange={(e) => updatePromptInput(prompt.id, 'content', e.target.value)}
+                            placeholder="输入处理指令，可以使用 {{文件名}} 来引用文件，{{文件名 | path}} 引用文件路径"
+                            rows={4}
+                            style={{ marginTop: '4px' }}
+                          />
+                        </Col>
+                        <Col span={8}>
+                          <Text strong>引用的文件:</Text>
+                          <div style={{ marginTop: '4px' }}>
+                            <Checkbox.Group
+                              value={prompt.fileReferences}
+                              onChange={(values) => updatePromptInput(prompt.id, 'fileReferences', values)}
+                            >
+                              <Space direction="vertical">
+                                {fileInputs.map(file => (
+                                  <Checkbox key={file.id} value={file.id}>
+                                    {file.name}
+                                  </Checkbox>
+                                ))}
+                              </Space>
+                            </Checkbox.Group>
+                            {prompt.fileReferences.length > 0 && (
+                              <div style={{ marginTop: '8px' }}>
+                                <Text type="secondary" style={{ fontSize: '12px' }}>
+                                  在提示词中使用: {prompt.fileReferences.map(ref => {
+                                    const file = fileInputs.find(f => f.id === ref);
+                                    return file ? `{{${file.name}}}` : '';
+                                  }).join(', ')}
+                                </Text>
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    </Col>
-                  </Row>
-                </Card>
-              ))}
-            </Space>
-          )}
-        </Card>
+                        </Col>
+                      </Row>
+                    </Card>
+                  ))}
+                </Space>
+              )}
 
-        {/* 3. 输出配置 */}
-        <Card title="3. 输出配置" style={{ marginBottom: '16px' }}>
-          <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
-            指定处理结果的输出位置和文件格式
-          </Text>
+              {promptInputs.length > 0 && (
+                <PromptPreview step={draftStep} allSteps={allSteps} workflow={workflow} />
+              )}
+            </Card>
+
+            {/* 3. 输出配置 */}
+            <Card title="3. 输出配置" style={{ marginBottom: '16px' }}>
+              <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+                指定处理结果的输出位置和文件格式
+              </Text>
           
-          <Row gutter={16}>
-            <Col span={8}>
-              <Form.Item
-                name="outputFolder"
-                label="输出文件夹"
-                rules={[{ required: true, message: '请输入输出文件夹路径' }]}
-              >
-                <Input placeholder="如: ./output" />
+              <Row gutter={16}>
+                <Col span={8}>
+                  <Form.Item
+                    name="outputFolder"
+                    label="输出文件夹"
+                    rules={[{ required: true, message: '请输入输出文件夹路径' }]}
+                  >
+                    <Input placeholder="如: ./output 或 ${outputRoot}/pages" />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item
+                    name="outputFileName"
+                    label="输出文件名"
+                    rules={[{ required: true, message: '请输入输出文件名' }]}
+                  >
+                    <Input placeholder="如: result.tsx, ${fileName}.tsx" />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item
+                    name="apiEndpoint"
+                    label="处理接口"
+                    rules={[{ required: true, message: '请选择处理接口' }]}
+                  >
+                    <Select placeholder="选择处理接口">
+                      <Option value="/api/process-file">标准处理接口</Option>
+                      <Option value="/api/process-file-direct?model=qianwen">直接处理接口（千问）</Option>
+                      <Option value="/api/process-file-direct?model=deepseek">直接处理接口（deepseek）</Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+              </Row>
+            </Card>
+
+            {/* 4. 输出校验 */}
+            <Card title="4. 输出校验" style={{ marginBottom: '16px' }}>
+              <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+                模型输出写入文件前按以下规则检查，不通过时步骤失败（状态码 422）
+              </Text>
+
+              <Form.Item name="checkSyntax" valuePropName="checked">
+                <Checkbox>检查语法（.json 解析 JSON，.ts/.tsx/.js/.jsx 使用 TypeScript 解析）</Checkbox>
               </Form.Item>
-            </Col>
-            <Col span={8}>
               <Form.Item
-                name="outputFileName"
-                label="输出文件名"
-                rules={[{ required: true, message: '请输入输出文件名' }]}
+                name="jsonSchema"
+                label="JSON Schema"
+                extra="仅对 .json 输出生效，支持 type、required、properties、items、enum 等常用关键字"
               >
-                <Input placeholder="如: result.tsx, output.json" />
+                <TextArea rows={4} placeholder='如: {"type": "object", "required": ["name"]}' />
               </Form.Item>
-            </Col>
-            <Col span={8}>
+              <Row gutter={16}>
+                <Col span={12}>
+                  <Form.Item name="requiredTexts" label="必须包含的文本">
+                    <Select mode="tags" placeholder="如: export default" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="patterns" label="必须匹配的正则表达式">
+                    <Select mode="tags" placeholder="如: ^import React" />
+                  </Form.Item>
+                </Col>
+              </Row>
               <Form.Item
-                name="apiEndpoint"
-                label="处理接口"
-                rules={[{ required: true, message: '请选择处理接口' }]}
+                name="autoFixRounds"
+                label="自动修复轮数"
+                extra="校验不通过时把原始提示词、错误输出和错误原因发回模型修复，最多进行的轮数；不填写时不自动修复"
               >
-                <Select placeholder="选择处理接口">
-                  <Option value="/api/process-file">标准处理接口</Option>
-                  <Option value="/api/process-file-direct?model=qianwen">直接处理接口（千问）</Option>
-                  <Option value="/api/process-file-direct?model=deepseek">直接处理接口（deepseek）</Option>
-                </Select>
+                <InputNumber min={1} max={5} placeholder="不自动修复" style={{ width: '200px' }} />
               </Form.Item>
-            </Col>
-          </Row>
-        </Card>
+              <Form.Item name="retryOnFailure" valuePropName="checked">
+                <Checkbox>校验不通过时按失败重试策略重新执行步骤</Checkbox>
+              </Form.Item>
+            </Card>
+          </>
+        )}
 
         {/* 高级配置 */}
         <Card title="高级配置" style={{ marginBottom: '16px' }}>
-          <Form.Item noStyle shouldUpdate={(prev, curr) => prev.type !== curr.type}>
+          <Form.Item noStyle shouldUpdate={(prev, curr) => prev.type !== curr.type || prev.transformType !== curr.transformType}>
             {({ getFieldValue }) => {
               const stepType = getFieldValue('type');
+              const transformType = getFieldValue('transformType');
               
               return (
                 <div>
+                  {stepType === 'data_transform' && (
+                    <>
+                      <Row gutter={16}>
+                        <Col span={12}>
+                          <Form.Item
+                            name="transformType"
+                            label="转换类型"
+                          >
+                            <Select placeholder="请选择转换类型">
+                              {TRANSFORM_TYPE_OPTIONS.map(option => (
+                                <Option key={option.value} value={option.value}>
+                                  {option.label}
+                                </Option>
+                              ))}
+                            </Select>
+                          </Form.Item>
+                        </Col>
+                        <Col span={12}>
+                          <Form.Item
+                            name="sourceFile"
+                            label="转换的输入文件"
+                          >
+                            <Select placeholder="默认使用第一个文件输入" allowClear>
+                              {fileInputs.map(file => (
+                                <Option key={file.id} value={file.name}>
+                                  {file.name}
+                                </Option>
+                              ))}
+                            </Select>
+                          </Form.Item>
+                        </Col>
+                      </Row>
+
+                      {(transformType === 'jsonpath' || transformType === 'regex_extract' || transformType === 'regex_replace') && (
+                        <Row gutter={16}>
+                          <Col span={transformType === 'jsonpath' ? 24 : 12}>
+                            <Form.Item
+                              name="expression"
+                              label={transformType === 'jsonpath' ? 'JSONPath 表达式' : '正则表达式'}
+                            >
+                              <Input placeholder={transformType === 'jsonpath' ? '如: $.data.items[*].name' : '如: export default (\\w+)'} />
+                            </Form.Item>
+                          </Col>
+                          {transformType !== 'jsonpath' && (
+                            <Col span={4}>
+                              <Form.Item
+                                name="regexFlags"
+                                label="正则标志"
+                              >
+                                <Input placeholder="g" />
+                              </Form.Item>
+                            </Col>
+                          )}
+                          {transformType === 'regex_replace' && (
+                            <Col span={8}>
+                              <Form.Item
+                                name="replacement"
+                                label="替换内容"
+                              >
+                                <Input placeholder="支持 $1 等分组引用" />
+                              </Form.Item>
+                            </Col>
+                          )}
+                        </Row>
+                      )}
+
+                      {transformType === 'json_to_ts' && (
+                        <Form.Item
+                          name="interfaceName"
+                          label="根接口名称"
+                        >
+                          <Input placeholder="Root" />
+                        </Form.Item>
+                      )}
+                    </>
+                  )}
+
                   {stepType === 'api_call' && (
+                    <>
                     <Row gutter={16}>
-                      <Col span={12}>
+                      <Col span={4}>
+                        <Form.Item
+                          name="method"
+                          label="请求方法"
+                          initialValue="GET"
+                        >
+                          <Select>
+                            {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => (
+                              <Option key={method} value={method}>{method}</Option>
+                            ))}
+                          </Select>
+                        </Form.Item>
+                      </Col>
+                      <Col span={14}>
                         <Form.Item
                           name="apiUrl"
                           label="API地址"
@@ -522,25 +899,32 @@ const StepForm: React.FC<StepFormProps> = ({
                           <Input type="number" placeholder="30" />
                         </Form.Item>
                       </Col>
-                      <Col span={6}>
-                        <Form.Item
-                          name="retryCount"
-                          label="重试次数"
-                        >
-                          <Input type="number" placeholder="3" />
-                        </Form.Item>
-                      </Col>
                     </Row>
+                    <Form.Item
+                      name="headers"
+                      label="请求头（JSON）"
+                    >
+                      <TextArea rows={3} placeholder='如: {"Authorization": "Bearer xxx"}' />
+                    </Form.Item>
+                    <Form.Item
+                      name="bodyTemplate"
+                      label="请求体模板"
+                      extra="使用 {{文件名}} 引用文件输入的内容"
+                    >
+                      <TextArea rows={4} placeholder='如: {"code": {{文件1}}}' />
+                    </Form.Item>
+                    </>
                   )}
                   
                   {stepType === 'condition' && (
                     <Form.Item
                       name="condition"
                       label="条件表达式"
+                      extra="result 为第一个依赖步骤的结果，results 为全部依赖步骤的结果（按依赖顺序）；不满足时跳过依赖此步骤的后续步骤"
                     >
                       <TextArea 
                         rows={3}
-                        placeholder="请输入条件判断表达式，如: result.success === true"
+                        placeholder="请输入条件判断表达式，如: result.success && result.data.content.includes('export')"
                       />
                     </Form.Item>
                   )}
@@ -550,6 +934,43 @@ const StepForm: React.FC<StepFormProps> = ({
           </Form.Item>
         </Card>
 
+        {/* 失败重试 */}
+        <Card title="失败重试" style={{ marginBottom: '16px' }}>
+          <Text type="secondary">
+            不填写最大尝试次数时使用工作流的重试策略；只有匹配下列状态码或错误信息的失败才会重试，网络异常总是重试
+          </Text>
+          <Row gutter={16} style={{ marginTop: '12px' }}>
+            <Col span={6}>
+              <Form.Item name="maxAttempts" label="最大尝试次数">
+                <InputNumber min={1} max={10} placeholder="沿用工作流" style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="retryBaseDelay" label="首次重试间隔(毫秒)" extra="之后每次翻倍">
+                <InputNumber min={0} step={500} placeholder={String(DEFAULT_RETRY_POLICY.baseDelay)} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="retryableStatuses" label="可重试状态码">
+                <Select
+                  mode="tags"
+                  placeholder={DEFAULT_RETRY_POLICY.retryableStatuses.join(', ')}
+                  tokenSeparators={[',', ' ']}
+                />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="retryableErrors" label="可重试错误信息">
+                <Select
+                  mode="tags"
+                  placeholder="如: rate limit"
+                  tokenSeparators={[',']}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Card>
+
         {/* 操作按钮 */}
         <div style={{ textAlign: 'right', marginTop: '24px' }}>
           <Space>
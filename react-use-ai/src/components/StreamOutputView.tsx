@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Space, Tag } from 'antd';
+import { ClockCircleOutlined, LoadingOutlined, ThunderboltOutlined } from '@ant-design/icons';
+import { formatElapsed } from '../engine';
+import type { StepStreamOutput } from '../engine';
+
+interface StreamOutputViewProps {
+  output: StepStreamOutput;
+  // 是否仍在接收输出
+  streaming?: boolean;
+  // 输出内容区域的最大高度
+  maxHeight?: number | string;
+}
+
+// 模型实时输出：显示已用时间、token 数和已生成的内容，内容更新时自动滚动到底部
+const StreamOutputView: React.FC<StreamOutputViewProps> = ({ output, streaming = false, maxHeight = 300 }) => {
+  const contentRef = useRef<HTMLPreElement>(null);
+  const [now, setNow] = useState(Date.now);
+
+  // 生成中每秒刷新用时，等待模型输出时也持续计时
+  useEffect(() => {
+    if (!streaming) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [streaming]);
+
+  useEffect(() => {
+    if (contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+  }, [output.content]);
+
+  return (
+    <div>
+      <Space size="small">
+        {streaming && <Tag icon={<LoadingOutlined spin />} color="processing">生成中</Tag>}
+        <Tag icon={<ClockCircleOutlined />}>
+          用时 {formatElapsed(streaming ? Math.max(output.elapsed, now - output.startedAt) : output.elapsed)}
+        </Tag>
+        <Tag icon={<ThunderboltOutlined />}>{output.tokens} tokens</Tag>
+      </Space>
+      <pre
+        ref={contentRef}
+        style={{
+          marginTop: '8px',
+          marginBottom: 0,
+          padding: '8px',
+          maxHeight,
+          overflow: 'auto',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-all',
+          fontSize: '12px',
+          backgroundColor: '#fafafa',
+          border: '1px solid #f0f0f0',
+          borderRadius: '4px'
+        }}
+      >
+        {output.content || '等待模型输出...'}
+      </pre>
+    </div>
+  );
+};
+
+export default StreamOutputView;
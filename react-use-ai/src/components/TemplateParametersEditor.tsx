@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { Checkbox, Input, Select, Space, Table, Typography } from 'antd';
+import {
+  TEMPLATE_INPUT_BINDING_OPTIONS,
+  TEMPLATE_NAME_STYLE_OPTIONS,
+  getInputBinding,
+  getInputNameStyle,
+  isOutputDerived,
+  listTemplatePathSlots,
+  setInputBinding,
+  setInputNameStyle,
+  setOutputDerived
+} from '../engine';
+import type { TemplateParameters, TemplatePathSlot, Workflow } from '../engine';
+
+const { Text } = Typography;
+
+interface TemplateParametersEditorProps {
+  workflows: Workflow[];
+  value?: TemplateParameters;
+  onChange: (parameters: TemplateParameters) => void;
+}
+
+// 任务模板参数编辑：列出模板中全部文件输入和输出，逐项声明批量创建时如何绑定所选文件
+const TemplateParametersEditor: React.FC<TemplateParametersEditorProps> = ({ workflows, value = {}, onChange }) => {
+  const slots = useMemo(() => listTemplatePathSlots(workflows), [workflows]);
+
+  const columns = [
+    { title: '工作流', dataIndex: 'workflowName', width: 140 },
+    { title: '步骤', dataIndex: 'stepName', width: 140 },
+    {
+      title: '位置',
+      width: 120,
+      render: (_: unknown, slot: TemplatePathSlot) => slot.inputId ? `输入: ${slot.inputName}` : '输出'
+    },
+    {
+      title: '模板中的路径',
+      dataIndex: 'path',
+      render: (path: string) => <Text code style={{ wordBreak: 'break-all' }}>{path || '（空）'}</Text>
+    },
+    {
+      title: '批量创建时',
+      width: 150,
+      render: (_: unknown, slot: TemplatePathSlot) => slot.inputId ? (
+        <Select
+          size="small"
+          value={getInputBinding(value, slot)}
+          options={TEMPLATE_INPUT_BINDING_OPTIONS}
+          onChange={binding => onChange(setInputBinding(value, slot, binding))}
+          style={{ width: 130 }}
+        />
+      ) : (
+        <Checkbox
+          checked={isOutputDerived(value, slot)}
+          onChange={e => onChange(setOutputDerived(value, slot, e.target.checked))}
+        >
+          派生文件名
+        </Checkbox>
+      )
+    },
+    {
+      title: '命名风格',
+      width: 140,
+      render: (_: unknown, slot: TemplatePathSlot) => slot.inputId && getInputBinding(value, slot) === 'derived' ? (
+        <Select
+          size="small"
+          allowClear
+          placeholder="沿用上方风格"
+          value={getInputNameStyle(value, slot)}
+          options={TEMPLATE_NAME_STYLE_OPTIONS}
+          onChange={nameStyle => onChange(setInputNameStyle(value, slot, nameStyle))}
+          style={{ width: 120 }}
+        />
+      ) : null
+    }
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space wrap>
+        <Text>派生文件名风格</Text>
+        <Select
+          value={value.nameStyle ?? 'original'}
+          options={TEMPLATE_NAME_STYLE_OPTIONS}
+          onChange={nameStyle => onChange({ ...value, nameStyle })}
+          style={{ width: 140 }}
+        />
+        <Text>输出文件名前缀</Text>
+        <Input
+          value={value.outputNamePrefix}
+          onChange={e => onChange({ ...value, outputNamePrefix: e.target.value })}
+          placeholder="可选"
+          style={{ width: 140 }}
+        />
+        <Checkbox
+          checked={!!value.appendRelativeDir}
+          onChange={e => onChange({ ...value, appendRelativeDir: e.target.checked })}
+        >
+          派生路径追加所选文件的相对目录
+        </Checkbox>
+      </Space>
+      <Table
+        size="small"
+        rowKey="key"
+        columns={columns}
+        dataSource={slots}
+        pagination={false}
+        scroll={{ y: 240 }}
+      />
+      <Text type="secondary" style={{ fontSize: '12px' }}>
+        所选文件：使用所选文件的完整路径；派生文件名：保留模板路径的目录和扩展名，文件名替换为所选文件按风格转换后的名称；
+        固定的输入和未勾选的输出保持不变。路径中使用了 {'${变量名}'} 的位置不改写，由执行时替换
+      </Text>
+    </Space>
+  );
+};
+
+export default TemplateParametersEditor;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Space, Switch, Table, Tag, Typography } from 'antd';
+import { toPlatformPath } from '../engine';
+import type { TemplatePreviewRow } from '../engine';
+
+const { Text } = Typography;
+
+interface TemplatePreviewTableProps {
+  rows: TemplatePreviewRow[];
+  // 任务名称，与创建任务时的命名规则一致
+  getGroupName: (row: TemplatePreviewRow) => string;
+}
+
+// 批量创建预览：每个所选文件对应的任务名称和解析后的路径
+const TemplatePreviewTable: React.FC<TemplatePreviewTableProps> = ({ rows, getGroupName }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const columns = [
+    {
+      title: '所选文件',
+      width: 220,
+      render: (_: unknown, row: TemplatePreviewRow) => <Text style={{ wordBreak: 'break-all' }}>{row.source.file}</Text>
+    },
+    {
+      title: '任务名称',
+      width: 180,
+      render: (_: unknown, row: TemplatePreviewRow) => getGroupName(row)
+    },
+    {
+      title: '路径',
+      render: (_: unknown, row: TemplatePreviewRow) => {
+        const paths = row.paths.filter(path => showUnchanged || path.changed);
+        if (paths.length === 0) return <Text type="secondary">模板中的路径均不变</Text>;
+        return (
+          <Space direction="vertical" size={2}>
+            {paths.map(path => (
+              <div key={path.key}>
+                <Text type="secondary">{path.stepName} · {path.inputId ? path.inputName : '输出'}：</Text>
+                <Text code type={path.changed ? undefined : 'secondary'} style={{ wordBreak: 'break-all' }}>
+                  {toPlatformPath(path.path) || '（空）'}
+                </Text>
+                {path.path.includes('${') && <Tag color="warning">含未定义的变量</Tag>}
+              </div>
+            ))}
+          </Space>
+        );
+      }
+    }
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space>
+        <Switch size="small" checked={showUnchanged} onChange={setShowUnchanged} />
+        <Text>显示未改变的路径</Text>
+      </Space>
+      <Table
+        size="small"
+        rowKey="key"
+        columns={columns}
+        dataSource={rows}
+        pagination={{ pageSize: 5, size: 'small' }}
+      />
+    </Space>
+  );
+};
+
+export default TemplatePreviewTable;
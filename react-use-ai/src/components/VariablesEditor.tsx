@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button, Input, Space, Tag, Typography } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { VARIABLE_NAME_PATTERN } from '../engine';
+import type { WorkflowVariables } from '../engine';
+
+const { Text } = Typography;
+
+interface VariablesEditorProps {
+  value?: WorkflowVariables;
+  onChange: (variables: WorkflowVariables) => void;
+  // 继承的变量（如任务模板的默认值），未覆盖时显示为只读
+  inherited?: WorkflowVariables;
+  inheritedLabel?: string;
+  disabled?: boolean;
+}
+
+interface VariableRow {
+  key: number;
+  name: string;
+  value: string;
+}
+
+let nextRowKey = 0;
+
+const toRows = (variables: WorkflowVariables = {}): VariableRow[] =>
+  Object.entries(variables).map(([name, value]) => ({ key: nextRowKey++, name, value }));
+
+// 变量编辑：按行编辑变量名和值，变量名不合法或重复的行不生效。
+// 外部的 value 变化时不会重新初始化，切换编辑对象时请更换 key
+const VariablesEditor: React.FC<VariablesEditorProps> = ({ value, onChange, inherited = {}, inheritedLabel = '默认值', disabled }) => {
+  const [rows, setRows] = useState<VariableRow[]>(() => toRows(value));
+
+  const update = (nextRows: VariableRow[]) => {
+    setRows(nextRows);
+    const variables: WorkflowVariables = {};
+    nextRows.forEach(row => {
+      const name = row.name.trim();
+      if (VARIABLE_NAME_PATTERN.test(name) && !(name in variables)) variables[name] = row.value;
+    });
+    onChange(variables);
+  };
+
+  const updateRow = (key: number, field: 'name' | 'value', fieldValue: string) =>
+    update(rows.map(row => row.key === key ? { ...row, [field]: fieldValue } : row));
+
+  const definedNames = new Set(rows.map(row => row.name.trim()));
+  const inheritedEntries = Object.entries(inherited).filter(([name]) => !definedNames.has(name));
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      {rows.map(row => {
+        const name = row.name.trim();
+        const invalid = name !== '' && !VARIABLE_NAME_PATTERN.test(name);
+        const duplicated = rows.some(other => other.key < row.key && other.name.trim() === name);
+        return (
+          <Space key={row.key} align="start" style={{ width: '100%' }}>
+            <Input
+              value={row.name}
+              onChange={e => updateRow(row.key, 'name', e.target.value)}
+              placeholder="变量名，如 outputRoot"
+              status={invalid || duplicated ? 'error' : undefined}
+              disabled={disabled}
+              style={{ width: 200 }}
+            />
+            <Input
+              value={row.value}
+              onChange={e => updateRow(row.key, 'value', e.target.value)}
+              placeholder={name in inherited ? `${inheritedLabel}: ${inherited[name]}` : '变量值'}
+              disabled={disabled}
+              style={{ width: 420 }}
+            />
+            <Button
+              type="text"
+              danger
+              icon={<DeleteOutlined />}
+              disabled={disabled}
+              onClick={() => update(rows.filter(item => item.key !== row.key))}
+            />
+            {invalid && <Text type="danger">变量名只能包含字母、数字和下划线，且不能以数字开头</Text>}
+            {duplicated && <Text type="danger">变量名重复</Text>}
+          </Space>
+        );
+      })}
+      {inheritedEntries.map(([name, inheritedValue]) => (
+        <Space key={`inherited-${name}`}>
+          <Text code>{name}</Text>
+          <Text type="secondary">{inheritedValue}</Text>
+          <Tag>{inheritedLabel}</Tag>
+          <Button
+            type="link"
+            size="small"
+            disabled={disabled}
+            onClick={() => update([...rows, { key: nextRowKey++, name, value: inheritedValue }])}
+          >
+            覆盖
+          </Button>
+        </Space>
+      ))}
+      <Button
+        type="dashed"
+        icon={<PlusOutlined />}
+        disabled={disabled}
+        onClick={() => update([...rows, { key: nextRowKey++, name: '', value: '' }])}
+      >
+        添加变量
+      </Button>
+      <Text type="secondary" style={{ fontSize: '12px' }}>
+        在文件路径、输出目录、输出文件名和提示词中使用 {'${变量名}'} 引用，执行时替换；值为空的变量不生效
+      </Text>
+    </Space>
+  );
+};
+
+export default VariablesEditor;
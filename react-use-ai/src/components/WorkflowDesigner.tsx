@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { 
   Button, 
   Card, 
@@ -9,7 +9,12 @@ import {
   Row,
   Col,
   Progress,
-  Tag
+  Tag,
+  InputNumber,
+  Select,
+  Checkbox,
+  Tooltip,
+  Tabs
 } from 'antd';
 import { 
   PlusOutlined, 
@@ -17,72 +22,41 @@ import {
   SaveOutlined, 
   BranchesOutlined,
   EyeOutlined,
-  ReloadOutlined
+  ReloadOutlined,
+  PauseCircleOutlined,
+  HistoryOutlined,
+  StepForwardOutlined,
+  DatabaseOutlined,
+  DiffOutlined,
+  CodeOutlined
 } from '@ant-design/icons';
-import axios from 'axios';
-import CodeMirror from '@uiw/react-codemirror';
 import { javascript } from '@codemirror/lang-javascript';
 import { json } from '@codemirror/lang-json';
 import { css } from '@codemirror/lang-css';
 import DependencyGraph from './DependencyGraph';
 import StepForm from './StepForm';
+import RunHistory from './RunHistory';
+import StreamOutputView from './StreamOutputView';
+import AutoFixHistoryView from './AutoFixHistoryView';
+import OutputComparePanel from './OutputComparePanel';
+import EditableOutputView from './EditableOutputView';
+import VariablesEditor from './VariablesEditor';
+import { runWorkflow, applyWorkflowEvent, resetSteps, isAbortError, validateWorkflow, getStepIssues, DEFAULT_MAX_CONCURRENCY, DEFAULT_RETRY_POLICY, FAILURE_STRATEGY_OPTIONS, createRunRecorder, formatElapsed, getDownstreamStepIds, canResumeWorkflow, prepareResume, executeStepByType, executeStepWithoutCache, loadAppConfig, saveAppConfig } from '../engine';
+import type { Workflow, WorkflowStep, StepResult, WorkflowEvent, ResumePlan, AppConfig } from '../engine';
 import '../styles/workflow.css';
 
 const { Title, Text } = Typography;
 
-// 文件输入接口
-export interface FileInput {
-  id: string;
-  name: string;
-  path: string;
-  dependsOn?: string; // 依赖的步骤ID，可以引用前置步骤的输出文件
-}
-
-// 提示词输入接口
-export interface PromptInput {
-  id: string;
-  content: string;
-  fileReferences: string[]; // 引用的文件ID列表
-}
-
-// 步骤接口定义
-export interface WorkflowStep {
-  id: string;
-  name: string;
-  description: string;
-  type: 'file_process' | 'data_transform' | 'api_call' | 'condition';
-  config: {
-    fileInputs?: FileInput[];
-    promptInputs?: PromptInput[];
-    outputFolder?: string;
-    outputFileName?: string;
-    apiEndpoint?: '/api/process-file' | '/api/process-file-direct'; // 接口选择
-    customSettings?: Record<string, any>;
-  };
-  dependencies: string[]; // 依赖的步骤ID列表
-  status: 'pending' | 'running' | 'success' | 'error' | 'skipped';
-  result?: {
-    success: boolean;
-    message: string;
-    data?: {
-      path?: string;
-      content?: string;
-      size?: string;
-      [key: string]: any;
-    };
-  };
-  order: number;
-}
+// 步骤类型标签
+const STEP_TYPE_TAGS: Record<WorkflowStep['type'], { label: string; color: string }> = {
+  file_process: { label: '文件处理', color: 'blue' },
+  data_transform: { label: '数据转换', color: 'green' },
+  api_call: { label: 'API调用', color: 'orange' },
+  condition: { label: '条件判断', color: 'purple' }
+};
 
-// 工作流接口定义
-export interface Workflow {
-  id: string;
-  name: string;
-  description: string;
-  steps: WorkflowStep[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+// 工作流相关类型统一定义在引擎模块中
+export type { FileInput, PromptInput, WorkflowStep, Workflow } from '../engine';
 
 interface WorkflowDesignerProps {
   workflow?: Workflow | null;
@@ -113,11 +87,18 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
   const [isStepFormVisible, setIsStepFormVisible] = useState(false);
   const [isDependencyGraphVisible, setIsDependencyGraphVisible] = useState(false);
+  const [isRunHistoryVisible, setIsRunHistoryVisible] = useState(false);
+  const [isVariablesVisible, setIsVariablesVisible] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
+  // 本次执行忽略步骤结果缓存
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [executionProgress, setExecutionProgress] = useState(0);
   const [isResultModalVisible, setIsResultModalVisible] = useState(false);
-  const [currentStepResult, setCurrentStepResult] = useState<any>(null);
+  // 结果弹窗中查看的步骤，执行中时显示模型的实时输出
+  const [resultStepId, setResultStepId] = useState<string | null>(null);
+  // 当前执行的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // 加载工作流
   const loadWorkflow = useCallback(async () => {
@@ -126,20 +107,21 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
     } else {
       // 如果没有传入工作流，尝试从服务器加载
       try {
-        const response = await axios.get('/api/config/load');
+        const config = await loadAppConfig();
         
-        if (response.data.success && response.data.data) {
+        if (config) {
+          const data = config as unknown as Workflow;
           const loadedWorkflow = {
-            ...response.data.data,
-            createdAt: new Date(response.data.data.createdAt),
-            updatedAt: new Date(response.data.data.updatedAt)
+            ...data,
+            createdAt: new Date(data.createdAt),
+            updatedAt: new Date(data.updatedAt)
           };
           setWorkflow(loadedWorkflow);
           messageApi.success('工作流配置加载成功');
         }
       } catch (error) {
         console.error('加载工作流失败:', error);
-        messageApi.warning('加载工作流失败');
+        messageApi.warning(`加载工作流失败: ${error instanceof Error ? error.message : error}`);
       }
     }
   }, [initialWorkflow, messageApi]);
@@ -149,6 +131,9 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
     loadWorkflow();
   }, [loadWorkflow]);
 
+  // 依赖与引用校验结果
+  const validationIssues = useMemo(() => validateWorkflow(workflow.steps), [workflow.steps]);
+
   // 获取选中的步骤
   const selectedStep = useMemo(() => 
     workflow.steps.find(step => step.id === selectedStepId) || null,
@@ -223,12 +208,7 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
   const saveWorkflow = useCallback(async () => {
     try {
       // 先加载现有配置
-      const loadResponse = await axios.get('/api/config/load');
-      let existingConfig = {};
-      
-      if (loadResponse.data.success && loadResponse.data.data) {
-        existingConfig = loadResponse.data.data;
-      }
+      const existingConfig: AppConfig = await loadAppConfig() ?? {};
       
       const workflowData = {
         ...workflow,
@@ -247,244 +227,123 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
         currentWorkflow: workflowData,
         // 如果有工作流列表，也要更新其中对应的工作流
         workflows: existingConfig.workflows ? 
-          existingConfig.workflows.map((w: any) => 
+          existingConfig.workflows.map(w => 
             w.id === workflow.id ? workflowData : w
           ) : undefined
       };
       
       // 通过统一的配置API保存
-      const response = await axios.post('/api/config/save', configData);
-      
-      if (response.data.success) {
-        // 更新当前工作流的时间戳，但保留执行结果
-        setWorkflow(prev => ({
-          ...prev,
-          updatedAt: new Date()
-        }));
-        
-        messageApi.success('工作流配置保存成功');
-      } else {
-        messageApi.error(response.data.message || '保存失败');
-      }
+      await saveAppConfig(configData);
+
+      // 更新当前工作流的时间戳，但保留执行结果
+      setWorkflow(prev => ({
+        ...prev,
+        updatedAt: new Date()
+      }));
+
+      messageApi.success('工作流配置保存成功');
     } catch (error) {
       console.error('保存工作流失败:', error);
-      messageApi.error('保存失败，请检查网络连接');
+      messageApi.error(`保存失败: ${error instanceof Error ? error.message : error}`);
     }
   }, [workflow, messageApi]);
 
-  // 执行工作流（结果保留在界面，不通过API保存）
-  const executeWorkflow = useCallback(async () => {
+  // 将引擎事件同步到界面状态
+  const handleWorkflowEvent = useCallback((event: WorkflowEvent) => {
+    if (event.type === 'progress') {
+      setExecutionProgress((event.completed / event.total) * 100);
+      return;
+    }
+    setWorkflow(prev => ({
+      ...prev,
+      steps: applyWorkflowEvent(prev.steps, event),
+      updatedAt: new Date()
+    }));
+  }, []);
+
+  // 执行工作流（结果保留在界面，执行记录保存到运行历史）；
+  // resume 为 true 时从失败处继续，复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤
+  const executeWorkflow = useCallback(async (resume = false) => {
     if (workflow.steps.length === 0) {
       messageApi.error('请至少添加一个步骤');
       return;
     }
 
+    if (validationIssues.length > 0) {
+      messageApi.error(`工作流校验未通过: ${validationIssues[0].message}${validationIssues.length > 1 ? `（共 ${validationIssues.length} 个问题）` : ''}`);
+      return;
+    }
+
+    let plan: ResumePlan | undefined;
+    if (resume) {
+      try {
+        plan = await prepareResume(workflow.steps);
+      } catch (error) {
+        console.error('检查步骤输出失败:', error);
+        messageApi.error('检查步骤输出失败，请检查服务是否可用');
+        return;
+      }
+      if (plan.stepIds.length === 0) {
+        messageApi.info('没有需要继续执行的步骤');
+        return;
+      }
+      messageApi.info(`从失败处继续：复用 ${plan.reusedStepIds.length} 个步骤的输出，执行 ${plan.stepIds.length} 个步骤`);
+    }
+
     setIsExecuting(true);
     setExecutionProgress(0);
+
+    const recorder = createRunRecorder('workflow', workflow, [workflow]);
+    const recordEvent = recorder.createEventHandler(workflow.id, plan?.previousResults);
     
     try {
-      // 重置所有步骤状态
+      // 重置要执行的步骤状态（继续执行时保留复用的步骤）
       setWorkflow(prev => ({
         ...prev,
-        steps: prev.steps.map(step => ({ ...step, status: 'pending' as const, result: undefined }))
+        steps: resetSteps(prev.steps, plan?.stepIds)
       }));
 
-      // 按依赖关系执行步骤
-      const executedSteps = new Set<string>();
-      const stepResults = new Map<string, any>();
-      const totalSteps = workflow.steps.length;
-      let completedSteps = 0;
-
-      const executeStep = async (step: WorkflowStep): Promise<void> => {
-        // 检查依赖是否已执行
-        for (const depId of step.dependencies) {
-          if (!executedSteps.has(depId)) {
-            const depStep = workflow.steps.find(s => s.id === depId);
-            if (depStep) {
-              await executeStep(depStep);
-            }
-          }
-        }
-
-        if (executedSteps.has(step.id)) return;
-
-        // 更新步骤状态为运行中
-        updateStep(step.id, { status: 'running' });
-
-        try {
-          // 调用实际的文件处理接口
-          const result = await executeStepWithAPI(step, stepResults);
-          
-          // 存储结果，用于后续步骤的依赖和界面显示
-          stepResults.set(step.id, result);
-          
-          // 更新UI状态（保留执行结果在界面上）
-          updateStep(step.id, { 
-            status: result.success ? 'success' : 'error',
-            result 
-          });
-
-          executedSteps.add(step.id);
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-        } catch (error) {
-          const errorResult = { 
-            success: false, 
-            message: `步骤 "${step.name}" 执行失败: ${error}`
-          };
-          updateStep(step.id, { 
-            status: 'error',
-            result: errorResult
-          });
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-          throw error;
+      abortControllerRef.current = new AbortController();
+      if (plan) recorder.reuseSteps(workflow.id, plan.previousResults);
+      recorder.start();
+      const runResult = await runWorkflow(workflow, {
+        stepIds: plan?.stepIds,
+        previousResults: plan?.previousResults,
+        signal: abortControllerRef.current.signal,
+        executeStep: forceRefresh ? executeStepWithoutCache : executeStepByType,
+        onEvent: event => {
+          handleWorkflowEvent(event);
+          recordEvent(event);
         }
-      };
+      });
+      recorder.completeWorkflow(workflow.id, runResult);
 
-      // 执行所有步骤
-      for (const step of workflow.steps.sort((a, b) => a.order - b.order)) {
-        if (!executedSteps.has(step.id)) {
-          await executeStep(step);
-        }
+      const { failedStepIds, skippedStepIds } = runResult;
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`工作流部分完成：${failedStepIds.length} 个步骤失败，${skippedStepIds.length} 个步骤跳过`);
+      } else {
+        messageApi.success('工作流执行完成');
       }
-
-      messageApi.success('工作流执行完成');
       
     } catch (error) {
-      messageApi.error('工作流执行失败，请检查步骤配置');
+      recorder.failWorkflow(workflow.id, error);
+      if (isAbortError(error)) {
+        messageApi.info('工作流执行已停止');
+      } else {
+        messageApi.error('工作流执行失败，请检查步骤配置');
+      }
     } finally {
+      recorder.finish();
+      abortControllerRef.current = null;
       setIsExecuting(false);
       setExecutionProgress(100);
     }
-  }, [workflow.steps, messageApi, updateStep]);
-
-  // 使用FileProcessForm的API执行单个步骤
-  const executeStepWithAPI = async (step: WorkflowStep, previousResults: Map<string, any>) => {
-    const { fileInputs = [], promptInputs = [], outputFolder, outputFileName, apiEndpoint = '/api/process-file' } = step.config;
-
-    // 验证必要参数
-    if (fileInputs.length === 0) {
-      throw new Error('缺少文件输入配置');
-    }
-    if (promptInputs.length === 0) {
-      throw new Error('缺少提示词配置');
-    }
-    if (!outputFolder || !outputFileName) {
-      throw new Error('缺少输出配置');
-    }
-
-    // 创建文件路径映射表
-    const filePathMap = new Map<string, string>();
-    
-    // 处理文件输入，解析依赖步骤的输出
-    for (const fileInput of fileInputs) {
-      let filePath = fileInput.path;
-      
-      // 如果依赖其他步骤，获取其输出路径
-      if (fileInput.dependsOn) {
-        const depResult = previousResults.get(fileInput.dependsOn);
-        if (depResult?.success && depResult.data?.path) {
-          filePath = depResult.data.path;
-        } else {
-          throw new Error(`依赖步骤 "${fileInput.dependsOn}" 未成功执行或无输出文件`);
-        }
-      }
-
-      if (!filePath) {
-        throw new Error(`文件 "${fileInput.name}" 缺少有效路径`);
-      }
-
-      // 将文件名映射到路径
-      filePathMap.set(fileInput.name, filePath);
-    }
-
-    // 处理提示词输入，按 {{}} 标记拆分生成inputs
-    const processedInputs: Array<{ type: 'file' | 'prompt'; value: string }> = [];
-
-    for (const promptInput of promptInputs) {
-      let content = promptInput.content;
-      
-      // 使用正则表达式找到所有 {{文件名}} 标记
-      const fileReferences = content.match(/\{\{([^}]+)\}\}/g) || [];
-      
-      if (fileReferences.length === 0) {
-        // 如果没有文件引用，直接添加提示词
-        processedInputs.push({
-          type: 'prompt',
-          value: content
-        });
-      } else {
-        // 按文件引用拆分提示词
-        let remainingContent = content;
-        
-        for (const fileRef of fileReferences) {
-          const fileName = fileRef.replace(/[{}]/g, ''); // 移除 {{}}
-          const filePath = filePathMap.get(fileName);
-          
-          if (!filePath) {
-            throw new Error(`找不到文件 "${fileName}" 的路径配置`);
-          }
-          
-          // 找到文件引用的位置
-          const refIndex = remainingContent.indexOf(fileRef);
-          
-          if (refIndex > 0) {
-            // 添加文件引用前的提示词部分
-            const beforePrompt = remainingContent.substring(0, refIndex).trim();
-            if (beforePrompt) {
-              processedInputs.push({
-                type: 'prompt',
-                value: beforePrompt
-              });
-            }
-          }
-          
-          // 添加文件
-          processedInputs.push({
-            type: 'file',
-            value: filePath
-          });
-          
-          // 更新剩余内容
-          remainingContent = remainingContent.substring(refIndex + fileRef.length);
-        }
-        
-        // 添加最后剩余的提示词部分
-        if (remainingContent.trim()) {
-          processedInputs.push({
-            type: 'prompt',
-            value: remainingContent.trim()
-          });
-        }
-      }
-    }
-
-    // 构建API请求参数（与FileProcessForm保持一致）
-    const requestData = {
-      inputs: processedInputs,
-      outputFolder: outputFolder,
-      outputFileName: outputFileName
-    };
-
-    // 调用选择的文件处理API
-    const response = await axios.post(apiEndpoint, requestData);
-    
-    if (response.data.success) {
-      return {
-        success: true,
-        message: `步骤 "${step.name}" 执行成功`,
-        data: response.data.data
-      };
-    } else {
-      throw new Error(response.data.message || '处理失败');
-    }
-  };
+  }, [workflow, validationIssues, forceRefresh, messageApi, handleWorkflowEvent]);
 
   // 查看步骤结果
   const viewStepResult = (step: WorkflowStep) => {
-    if (step.result) {
-      setCurrentStepResult(step.result);
+    if (step.result || step.streamOutput) {
+      setResultStepId(step.id);
       setIsResultModalVisible(true);
     }
   };
@@ -498,7 +357,7 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
     }
 
     // 检查依赖步骤是否已成功执行
-    const dependencyResults = new Map<string, any>();
+    const dependencyResults = new Map<string, StepResult>();
     for (const depId of step.dependencies) {
       const depStep = workflow.steps.find(s => s.id === depId);
       if (!depStep || depStep.status !== 'success' || !depStep.result) {
@@ -508,32 +367,31 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
       dependencyResults.set(depId, depStep.result);
     }
 
-    // 更新步骤状态为运行中
-    updateStep(stepId, { status: 'running', result: undefined });
+    setIsExecuting(true);
 
     try {
-      // 执行步骤
-      const result = await executeStepWithAPI(step, dependencyResults);
-      
-      // 更新步骤状态和结果
-      updateStep(stepId, { 
-        status: result.success ? 'success' : 'error',
-        result 
+      abortControllerRef.current = new AbortController();
+      await runWorkflow(workflow, {
+        stepIds: [stepId],
+        previousResults: dependencyResults,
+        failureStrategy: 'fail_fast',
+        signal: abortControllerRef.current.signal,
+        // 单独重新执行步骤时总是重新调用模型
+        executeStep: executeStepWithoutCache,
+        onEvent: handleWorkflowEvent
       });
-
       messageApi.success(`步骤 "${step.name}" 重新执行成功`);
     } catch (error) {
-      const errorResult = { 
-        success: false, 
-        message: `步骤 "${step.name}" 重新执行失败: ${error}`
-      };
-      updateStep(stepId, { 
-        status: 'error',
-        result: errorResult
-      });
-      messageApi.error(`步骤 "${step.name}" 重新执行失败`);
+      if (isAbortError(error)) {
+        messageApi.info('工作流执行已停止');
+      } else {
+        messageApi.error(`步骤 "${step.name}" 重新执行失败`);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsExecuting(false);
     }
-  }, [workflow.steps, messageApi, updateStep]);
+  }, [workflow, messageApi, handleWorkflowEvent]);
 
   // 从指定步骤开始重新向后执行
   const reExecuteFromStep = useCallback(async (startStepId: string) => {
@@ -544,28 +402,8 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
     }
 
     // 获取需要重新执行的步骤（包括当前步骤和所有依赖它的后续步骤）
-    const getAffectedSteps = (stepId: string, visited = new Set<string>()): string[] => {
-      if (visited.has(stepId)) return [];
-      visited.add(stepId);
-      
-      const affectedSteps = [stepId];
-      
-      // 找到所有依赖当前步骤的步骤
-      workflow.steps.forEach(step => {
-        if (step.dependencies.includes(stepId)) {
-          affectedSteps.push(...getAffectedSteps(step.id, visited));
-        }
-      });
-      
-      return affectedSteps;
-    };
-
-    const stepsToReExecute = getAffectedSteps(startStepId);
-    const sortedSteps = workflow.steps
-      .filter(step => stepsToReExecute.includes(step.id))
-      .sort((a, b) => a.order - b.order);
-
-    if (sortedSteps.length === 0) {
+    const stepsToReExecute = getDownstreamStepIds(workflow.steps, [startStepId]);
+    if (stepsToReExecute.length === 0) {
       messageApi.error('没有找到需要重新执行的步骤');
       return;
     }
@@ -575,87 +413,74 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
 
     try {
       // 重置要重新执行的步骤状态
-      sortedSteps.forEach(step => {
-        updateStep(step.id, { status: 'pending', result: undefined });
-      });
+      setWorkflow(prev => ({
+        ...prev,
+        steps: resetSteps(prev.steps, stepsToReExecute)
+      }));
 
-      const executedSteps = new Set<string>();
-      const stepResults = new Map<string, any>();
-      
       // 收集已成功执行的依赖步骤结果
+      const stepResults = new Map<string, StepResult>();
       workflow.steps.forEach(step => {
         if (!stepsToReExecute.includes(step.id) && step.status === 'success' && step.result) {
           stepResults.set(step.id, step.result);
-          executedSteps.add(step.id);
         }
       });
 
-      const totalSteps = sortedSteps.length;
-      let completedSteps = 0;
-
-      const executeStep = async (step: WorkflowStep): Promise<void> => {
-        // 检查依赖是否已执行
-        for (const depId of step.dependencies) {
-          if (!executedSteps.has(depId)) {
-            const depStep = workflow.steps.find(s => s.id === depId);
-            if (depStep && stepsToReExecute.includes(depId)) {
-              await executeStep(depStep);
-            }
-          }
-        }
-
-        if (executedSteps.has(step.id)) return;
-
-        // 更新步骤状态为运行中
-        updateStep(step.id, { status: 'running' });
-
-        try {
-          // 调用实际的文件处理接口
-          const result = await executeStepWithAPI(step, stepResults);
-          
-          // 存储结果
-          stepResults.set(step.id, result);
-          
-          // 更新UI状态
-          updateStep(step.id, { 
-            status: result.success ? 'success' : 'error',
-            result 
-          });
-
-          executedSteps.add(step.id);
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-        } catch (error) {
-          const errorResult = { 
-            success: false, 
-            message: `步骤 "${step.name}" 执行失败: ${error}`
-          };
-          updateStep(step.id, { 
-            status: 'error',
-            result: errorResult
-          });
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-          throw error;
-        }
-      };
+      abortControllerRef.current = new AbortController();
+      const { failedStepIds } = await runWorkflow(workflow, {
+        stepIds: stepsToReExecute,
+        previousResults: stepResults,
+        signal: abortControllerRef.current.signal,
+        executeStep: forceRefresh ? executeStepWithoutCache : executeStepByType,
+        onEvent: handleWorkflowEvent
+      });
 
-      // 执行所有需要重新执行的步骤
-      for (const step of sortedSteps) {
-        if (!executedSteps.has(step.id)) {
-          await executeStep(step);
-        }
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`从步骤 "${startStep.name}" 开始的重新执行部分完成，${failedStepIds.length} 个步骤失败`);
+      } else {
+        messageApi.success(`从步骤 "${startStep.name}" 开始的重新执行完成`);
       }
-
-      messageApi.success(`从步骤 "${startStep.name}" 开始的重新执行完成`);
       
     } catch (error) {
-      messageApi.error(`从步骤 "${startStep.name}" 开始的重新执行失败`);
+      if (isAbortError(error)) {
+        messageApi.info('工作流执行已停止');
+      } else {
+        messageApi.error(`从步骤 "${startStep.name}" 开始的重新执行失败`);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsExecuting(false);
       setExecutionProgress(100);
     }
-  }, [workflow.steps, messageApi, updateStep]);
+  }, [workflow, forceRefresh, messageApi, handleWorkflowEvent]);
+
+  // 确认步骤输出（保留新输出或恢复旧输出），清除待对比的上次输出
+  const resolveStepOutput = useCallback((stepId: string, result: StepResult) => {
+    setWorkflow(prev => ({
+      ...prev,
+      steps: prev.steps.map(s => s.id === stepId ? { ...s, result, previousResult: undefined } : s),
+      updatedAt: new Date()
+    }));
+  }, []);
+
+  // 手动修改的输出已写回文件，更新步骤结果，依赖此步骤的后续步骤下次执行时使用修改后的内容
+  const saveStepOutput = useCallback((stepId: string, content: string, size: string) => {
+    setWorkflow(prev => ({
+      ...prev,
+      steps: prev.steps.map(s => s.id === stepId && s.result
+        ? { ...s, result: { ...s.result, data: { ...s.result.data, content, size } } }
+        : s),
+      updatedAt: new Date()
+    }));
+  }, []);
+
+  // 停止执行：中止进行中的请求，剩余步骤标记为跳过
+  const stopExecution = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const resultStep = workflow.steps.find(s => s.id === resultStepId);
+  const currentStepResult = resultStep?.result;
 
   // 获取CodeMirror扩展
   const getCodeMirrorExtensions = useMemo(() => {
@@ -692,6 +517,60 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
           </Col>
           <Col>
             <Space>
+              <Text>最大并发数</Text>
+              <InputNumber
+                min={1}
+                max={10}
+                value={workflow.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY}
+                onChange={value => setWorkflow(prev => ({
+                  ...prev,
+                  maxConcurrency: value ?? DEFAULT_MAX_CONCURRENCY,
+                  updatedAt: new Date()
+                }))}
+                disabled={isExecuting}
+                style={{ width: 80 }}
+              />
+              <Text>失败策略</Text>
+              <Select
+                value={workflow.failureStrategy ?? 'fail_fast'}
+                options={FAILURE_STRATEGY_OPTIONS}
+                onChange={value => setWorkflow(prev => ({
+                  ...prev,
+                  failureStrategy: value,
+                  updatedAt: new Date()
+                }))}
+                disabled={isExecuting}
+                style={{ width: 160 }}
+              />
+              <Text>最大尝试次数</Text>
+              <InputNumber
+                min={1}
+                max={10}
+                value={workflow.retryPolicy?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts}
+                onChange={value => setWorkflow(prev => ({
+                  ...prev,
+                  retryPolicy: { ...prev.retryPolicy, maxAttempts: value ?? DEFAULT_RETRY_POLICY.maxAttempts },
+                  updatedAt: new Date()
+                }))}
+                disabled={isExecuting}
+                style={{ width: 80 }}
+              />
+              <Tooltip title="忽略步骤结果缓存，输入未变化的步骤也重新调用模型">
+                <Checkbox
+                  checked={forceRefresh}
+                  onChange={e => setForceRefresh(e.target.checked)}
+                  disabled={isExecuting}
+                >
+                  强制刷新
+                </Checkbox>
+              </Tooltip>
+              <Button
+                icon={<CodeOutlined />}
+                onClick={() => setIsVariablesVisible(true)}
+                disabled={isExecuting}
+              >
+                变量 ({Object.keys(workflow.variables || {}).length})
+              </Button>
               <Button 
                 icon={<BranchesOutlined />}
                 onClick={() => setIsDependencyGraphVisible(true)}
@@ -699,6 +578,12 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
               >
                 依赖关系图
               </Button>
+              <Button 
+                icon={<HistoryOutlined />}
+                onClick={() => setIsRunHistoryVisible(true)}
+              >
+                运行历史
+              </Button>
               <Button 
                 icon={<SaveOutlined />}
                 onClick={saveWorkflow}
@@ -710,10 +595,28 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                 type="primary"
                 icon={<PlayCircleOutlined />}
                 loading={isExecuting}
-                onClick={executeWorkflow}
+                onClick={() => executeWorkflow()}
               >
                 执行工作流
               </Button>
+              {!isExecuting && canResumeWorkflow(workflow.steps) && (
+                <Button 
+                  icon={<StepForwardOutlined />}
+                  onClick={() => executeWorkflow(true)}
+                  title="复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤"
+                >
+                  从失败处继续
+                </Button>
+              )}
+              {isExecuting && (
+                <Button 
+                  danger
+                  icon={<PauseCircleOutlined />}
+                  onClick={stopExecution}
+                >
+                  停止执行
+                </Button>
+              )}
             </Space>
           </Col>
         </Row>
@@ -733,6 +636,7 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
             />
             <Text style={{ marginTop: '8px', display: 'block' }}>
               工作流执行中... {Math.round(executionProgress)}%
+              （{workflow.steps.filter(step => step.status === 'running').length} 个步骤运行中）
             </Text>
           </div>
         </Card>
@@ -765,7 +669,10 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                   .map((step) => (
                     <Card
                       key={step.id}
-                      className={selectedStepId === step.id ? 'selected-step-card' : ''}
+                      className={[
+                        selectedStepId === step.id ? 'selected-step-card' : '',
+                        step.status === 'skipped' ? 'skipped-step-card' : ''
+                      ].join(' ')}
                       style={{
                         border: selectedStepId === step.id ? '2px solid #1890ff' : '1px solid #d9d9d9',
                         cursor: 'pointer'
@@ -783,7 +690,7 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                         >
                           编辑
                         </Button>,
-                        step.result && (
+                        (step.result || step.streamOutput) && (
                           <Button 
                             type="text" 
                             icon={<EyeOutlined />}
@@ -836,13 +743,25 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                         title={
                           <Space>
                             <Text strong>步骤 {step.order + 1}: {step.name}</Text>
-                            <Tag color={step.type === 'file_process' ? 'blue' : 'green'}>
-                              {step.type === 'file_process' ? '文件处理' : '数据转换'}
+                            <Tag color={STEP_TYPE_TAGS[step.type].color}>
+                              {STEP_TYPE_TAGS[step.type].label}
                             </Tag>
                             {step.status === 'pending' && <Tag color="default">等待中</Tag>}
                             {step.status === 'running' && <Tag color="processing">运行中</Tag>}
                             {step.status === 'success' && <Tag color="success">成功</Tag>}
+                            {step.status === 'success' && step.result?.data?.cached && (
+                              <Tag icon={<DatabaseOutlined />} color="cyan">缓存命中</Tag>
+                            )}
+                            {step.status === 'success' && step.previousResult && (
+                              <Tooltip title="在执行结果中对比新旧输出，选择保留新输出或恢复旧输出">
+                                <Tag icon={<DiffOutlined />} color="gold">新输出待确认</Tag>
+                              </Tooltip>
+                            )}
                             {step.status === 'error' && <Tag color="error">失败</Tag>}
+                            {step.status === 'skipped' && <Tag color="warning">跳过</Tag>}
+                            {getStepIssues(validationIssues, step.id).length > 0 && (
+                              <Tag color="red">配置问题</Tag>
+                            )}
                           </Space>
                         }
                         description={
@@ -892,11 +811,24 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                               {step.result && (
                                 <div>
                                   <Text type="secondary">执行结果: </Text>
-                                  <Text type={step.result.success ? 'success' : 'danger'}>
+                                  <Text type={step.status === 'skipped' ? 'warning' : step.result.success ? 'success' : 'danger'}>
                                     {step.result.message}
                                   </Text>
+                                  {step.result.data?.elapsed !== undefined && (
+                                    <Text type="secondary">
+                                      （用时 {formatElapsed(step.result.data.elapsed)}，{step.result.data.tokens} tokens）
+                                    </Text>
+                                  )}
                                 </div>
                               )}
+
+                              {step.streamOutput && (
+                                <StreamOutputView
+                                  output={step.streamOutput}
+                                  streaming={step.status === 'running'}
+                                  maxHeight={160}
+                                />
+                              )}
                             </Space>
                           </div>
                         }
@@ -922,6 +854,7 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
           <StepForm
             step={selectedStep}
             allSteps={workflow.steps}
+            workflow={{ id: workflow.id, name: workflow.name, variables: workflow.variables }}
             onSave={(updatedStep: Partial<WorkflowStep>) => {
               updateStep(selectedStep.id, updatedStep);
               setIsStepFormVisible(false);
@@ -932,6 +865,36 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
         )}
       </Modal>
 
+      {/* 工作流变量模态框 */}
+      <Modal
+        title="工作流变量"
+        open={isVariablesVisible}
+        onCancel={() => setIsVariablesVisible(false)}
+        footer={null}
+        width={800}
+        destroyOnClose
+      >
+        <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+          工作流变量为默认值，作为任务执行时会被任务模板和任务上的同名变量覆盖
+        </Text>
+        <VariablesEditor
+          value={workflow.variables}
+          onChange={variables => setWorkflow(prev => ({
+            ...prev,
+            variables,
+            updatedAt: new Date()
+          }))}
+        />
+      </Modal>
+
+      <RunHistory
+        open={isRunHistoryVisible}
+        onClose={() => setIsRunHistoryVisible(false)}
+        kind="workflow"
+        targetId={workflow.id}
+        title={`运行历史 - ${workflow.name}`}
+      />
+
       {/* 依赖关系图模态框 */}
       <Modal
         title="工作流依赖关系图"
@@ -959,6 +922,18 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
         footer={null}
         width="80%"
       >
+        {resultStep?.streamOutput && (
+          <div style={{ marginTop: '20px' }}>
+            <Text strong>{resultStep.status === 'running' ? '实时输出:' : '最近一次输出:'}</Text>
+            <div style={{ marginTop: '8px' }}>
+              <StreamOutputView
+                output={resultStep.streamOutput}
+                streaming={resultStep.status === 'running'}
+                maxHeight="60vh"
+              />
+            </div>
+          </div>
+        )}
         {currentStepResult && (
           <div style={{ marginTop: '20px' }}>
             <div style={{ 
@@ -989,29 +964,58 @@ const WorkflowDesigner: React.FC<WorkflowDesignerProps> = ({
                         <Text>{currentStepResult.data.size}</Text>
                       </div>
                     )}
+                    {currentStepResult.data.elapsed !== undefined && (
+                      <div style={{ marginTop: '4px' }}>
+                        <Text type="secondary">生成用时: </Text>
+                        <Text>{formatElapsed(currentStepResult.data.elapsed)}（{currentStepResult.data.tokens} tokens）</Text>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </div>
             
-            {currentStepResult.data?.content && (
-              <div>
-                <Text strong>文件内容预览:</Text>
+            {currentStepResult.data?.autoFixHistory && (
+              <div style={{ marginBottom: '16px' }}>
+                <Text strong>自动修复记录:</Text>
                 <div style={{ marginTop: '8px' }}>
-                  <CodeMirror
-                    value={currentStepResult.data.content}
-                    extensions={getCodeMirrorExtensions}
-                    readOnly
-                    style={{
-                      border: '1px solid #d9d9d9',
-                      borderRadius: '4px',
-                      maxHeight: '60vh',
-                      overflow: 'auto'
-                    }}
-                  />
+                  <AutoFixHistoryView history={currentStepResult.data.autoFixHistory} />
                 </div>
               </div>
             )}
+
+            {resultStep && currentStepResult.success && typeof currentStepResult.data?.content === 'string' && (
+              <Tabs
+                key={resultStep.id}
+                defaultActiveKey={resultStep.previousResult ? 'compare' : 'content'}
+                items={[
+                  {
+                    key: 'content',
+                    label: '文件内容预览',
+                    children: (
+                      <EditableOutputView
+                        content={currentStepResult.data.content}
+                        path={currentStepResult.data.path}
+                        extensions={getCodeMirrorExtensions}
+                        onSaved={(content, size) => saveStepOutput(resultStep.id, content, size)}
+                      />
+                    )
+                  },
+                  {
+                    key: 'compare',
+                    label: resultStep.previousResult ? '对比新旧输出（待确认）' : '对比新旧输出',
+                    disabled: !resultStep.previousResult && !currentStepResult.data.path,
+                    children: (
+                      <OutputComparePanel
+                        result={currentStepResult}
+                        previousResult={resultStep.previousResult}
+                        onResolve={result => resolveStepOutput(resultStep.id, result)}
+                      />
+                    )
+                  }
+                ]}
+              />
+            )}
           </div>
         )}
       </Modal>
@@ -2,6 +2,8 @@ import React, { useState, useCallback } from 'react';
 import { Button, message, Progress, Card, Space, Typography, Tag } from 'antd';
 import { PlayCircleOutlined, PauseCircleOutlined, ReloadOutlined } from '@ant-design/icons';
 import type { Workflow, WorkflowStep } from './WorkflowDesigner';
+import { runWorkflow, validateWorkflow } from '../engine';
+import type { WorkflowEvent } from '../engine';
 
 const { Text } = Typography;
 
@@ -37,6 +39,12 @@ const WorkflowExecutionManager: React.FC<WorkflowExecutionManagerProps> = ({
       return;
     }
 
+    const issues = validateWorkflow(workflow.steps);
+    if (issues.length > 0) {
+      messageApi.error(`工作流校验未通过: ${issues[0].message}`);
+      return;
+    }
+
     setIsExecuting(true);
     setExecutionProgress(0);
     
@@ -49,77 +57,46 @@ const WorkflowExecutionManager: React.FC<WorkflowExecutionManagerProps> = ({
         });
       });
 
-      // 按依赖关系执行步骤
-      const executedSteps = new Set<string>();
-      const stepResults = new Map<string, any>();
-      const totalSteps = workflow.steps.length;
-      let completedSteps = 0;
-
-      const executeStep = async (step: WorkflowStep): Promise<void> => {
-        // 检查依赖是否已执行
-        for (const depId of step.dependencies) {
-          if (!executedSteps.has(depId)) {
-            const depStep = workflow.steps.find(s => s.id === depId);
-            if (depStep) {
-              await executeStep(depStep);
-            }
+      // 按依赖关系执行步骤，引擎事件同步到界面（保留执行结果在界面上）
+      const { failedStepIds } = await runWorkflow(workflow, {
+        onEvent: (event: WorkflowEvent) => {
+          switch (event.type) {
+            case 'step:start':
+              onStepUpdate(event.step.id, {
+                status: 'running',
+                result: undefined,
+                attempts: [{ attempt: 1 }],
+                maxAttempts: event.maxAttempts,
+                streamOutput: undefined
+              });
+              break;
+            case 'step:retry':
+              onStepUpdate(event.step.id, { attempts: event.attempts, streamOutput: undefined });
+              break;
+            case 'step:output':
+              onStepUpdate(event.step.id, { streamOutput: event.output });
+              break;
+            case 'step:success':
+              onStepUpdate(event.step.id, { status: 'success', result: event.result, streamOutput: undefined });
+              break;
+            case 'step:error':
+              onStepUpdate(event.step.id, { status: 'error', result: event.result, attempts: event.attempts });
+              break;
+            case 'step:skipped':
+              onStepUpdate(event.step.id, { status: 'skipped', result: event.result, streamOutput: undefined });
+              break;
+            case 'progress':
+              setExecutionProgress((event.completed / event.total) * 100);
+              break;
           }
         }
+      });
 
-        if (executedSteps.has(step.id)) return;
-
-        // 更新步骤状态为运行中
-        onStepUpdate(step.id, { status: 'running' });
-
-        try {
-          // 模拟步骤执行（实际应该调用真实的API）
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          
-          const result = {
-            success: Math.random() > 0.2, // 80% 成功率
-            message: `步骤 "${step.name}" 执行${Math.random() > 0.2 ? '成功' : '失败'}`,
-            data: {
-              path: `${step.config.outputFolder}/${step.config.outputFileName}`,
-              content: `执行结果内容 - ${new Date().toLocaleString()}`,
-              size: `${Math.floor(Math.random() * 1000)}KB`
-            }
-          };
-          
-          // 存储结果，用于后续步骤的依赖和界面显示
-          stepResults.set(step.id, result);
-          
-          // 更新UI状态（保留执行结果在界面上）
-          onStepUpdate(step.id, { 
-            status: result.success ? 'success' : 'error',
-            result 
-          });
-
-          executedSteps.add(step.id);
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-        } catch (error) {
-          const errorResult = { 
-            success: false, 
-            message: `步骤 "${step.name}" 执行失败: ${error}`
-          };
-          onStepUpdate(step.id, { 
-            status: 'error',
-            result: errorResult
-          });
-          completedSteps++;
-          setExecutionProgress((completedSteps / totalSteps) * 100);
-          throw error;
-        }
-      };
-
-      // 执行所有步骤
-      for (const step of workflow.steps.sort((a, b) => a.order - b.order)) {
-        if (!executedSteps.has(step.id)) {
-          await executeStep(step);
-        }
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`工作流部分完成，${failedStepIds.length} 个步骤失败`);
+      } else {
+        messageApi.success('工作流执行完成');
       }
-
-      messageApi.success('工作流执行完成');
       
     } catch (error) {
       messageApi.error('工作流执行失败，请检查步骤配置');
@@ -127,7 +104,7 @@ const WorkflowExecutionManager: React.FC<WorkflowExecutionManagerProps> = ({
       setIsExecuting(false);
       setExecutionProgress(100);
     }
-  }, [workflow.steps, onStepUpdate, messageApi]);
+  }, [workflow, onStepUpdate, messageApi]);
 
   // 获取执行统计
   const getExecutionStats = () => {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Card,
   Button,
@@ -17,7 +17,8 @@ import {
   Statistic,
   Select,
   InputNumber,
-  Tooltip
+  Tooltip,
+  Checkbox
 } from 'antd';
 import {
   PlusOutlined,
@@ -34,7 +35,8 @@ import {
   InfoCircleOutlined
 } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
-import axios from 'axios';
+import { getExecutableWorkflows, getMultiStreamConfigInfo, listRunningJobs, loadMultiStreamConfig, runWorkflowGroup, saveMultiStreamConfig } from '../engine';
+import type { WorkflowVariables } from '../engine';
 
 const { Title, Text } = Typography;
 const { TextArea } = Input;
@@ -45,14 +47,17 @@ interface WorkflowGroup {
   name: string;
   description: string;
   template?: WorkflowGroupTemplate;
+  // 任务变量，覆盖模板中的同名默认值
+  variables?: WorkflowVariables;
   workflowCount: number;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'partial' | 'failed';
   progress: number;
   createdAt: Date;
   updatedAt: Date;
   executionResults?: {
     totalWorkflows: number;
     completedWorkflows: number;
+    partialWorkflows?: number;
     failedWorkflows: number;
     startTime: Date;
     endTime?: Date;
@@ -66,9 +71,31 @@ interface WorkflowGroupTemplate {
   description: string;
   workflows: any[];
   workflowOrder: string[];
+  // 变量默认值，任务上的同名变量优先
+  variables?: WorkflowVariables;
   createdAt: Date;
 }
 
+// 批量执行中单个工作流组的结果
+interface BatchExecutionResult {
+  groupId: string;
+  groupName: string;
+  status: 'pending' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+  progress: number;
+  startTime?: Date;
+  endTime?: Date;
+  error?: string;
+}
+
+const BATCH_STATUS_CONFIG: Record<BatchExecutionResult['status'], { color: string; text: string }> = {
+  pending: { color: 'default', text: '等待' },
+  running: { color: 'processing', text: '运行中' },
+  completed: { color: 'success', text: '完成' },
+  partial: { color: 'warning', text: '部分完成' },
+  failed: { color: 'error', text: '失败' },
+  cancelled: { color: 'default', text: '已取消' }
+};
+
 const WorkflowGroupList: React.FC = () => {
   const navigate = useNavigate();
   const [groups, setGroups] = useState<WorkflowGroup[]>([]);
@@ -91,31 +118,27 @@ const WorkflowGroupList: React.FC = () => {
   // 批量执行相关状态
   const [batchExecution, setBatchExecution] = useState<{
     isRunning: boolean;
-    currentGroupIndex: number;
+    finishedGroups: number;
     totalGroups: number;
-    results: Array<{
-      groupId: string;
-      groupName: string;
-      status: 'pending' | 'running' | 'completed' | 'failed';
-      startTime?: Date;
-      endTime?: Date;
-      error?: string;
-    }>;
+    results: BatchExecutionResult[];
   }>({
     isRunning: false,
-    currentGroupIndex: 0,
+    finishedGroups: 0,
     totalGroups: 0,
     results: []
   });
+  const [maxConcurrentGroups, setMaxConcurrentGroups] = useState(3);
+  // 执行时忽略步骤结果缓存
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const batchAbortControllerRef = useRef<AbortController | null>(null);
 
   // 加载工作流组列表
   const loadGroups = async () => {
     setLoading(true);
     try {
-      const response = await axios.get('/api/multi-stream/load');
+      const configData = await loadMultiStreamConfig();
       
-      if (response.data.success && response.data.data) {
-        const configData = response.data.data;
+      if (configData) {
         
         if (configData.workflowGroups && Array.isArray(configData.workflowGroups)) {
           const groups = configData.workflowGroups.map((group: any) => ({
@@ -153,7 +176,7 @@ const WorkflowGroupList: React.FC = () => {
       }
     } catch (error) {
       console.error('加载工作流组失败:', error);
-      messageApi.error('加载工作流组失败，请检查网络连接');
+      messageApi.error(`加载工作流组失败: ${error instanceof Error ? error.message : error}`);
       setGroups([]);
       setTemplates([]);
     } finally {
@@ -164,12 +187,9 @@ const WorkflowGroupList: React.FC = () => {
   // 获取配置文件信息
   const getConfigInfo = async () => {
     try {
-      const response = await axios.get('/api/multi-stream/info');
-      if (response.data.success) {
-        const info = response.data.data;
-        messageApi.info(`配置信息: 文件大小 ${info.size || 'N/A'}, 最后更新: ${info.lastModified ? new Date(info.lastModified).toLocaleString() : 'N/A'}`);
-        return info;
-      }
+      const info = await getMultiStreamConfigInfo();
+      messageApi.info(`配置信息: 文件大小 ${info.size || 'N/A'}, 最后更新: ${info.lastModified ? new Date(info.lastModified).toLocaleString() : 'N/A'}`);
+      return info;
     } catch (error) {
       console.error('获取配置信息失败:', error);
       messageApi.error('获取配置信息失败');
@@ -189,7 +209,7 @@ const WorkflowGroupList: React.FC = () => {
             <p><strong>最后更新:</strong> {info.lastModified ? new Date(info.lastModified).toLocaleString() : 'N/A'}</p>
             <p><strong>工作流组数量:</strong> {groups.length}</p>
             <p><strong>模板数量:</strong> {templates.length}</p>
-            <p><strong>配置路径:</strong> {info.path || 'N/A'}</p>
+            <p><strong>配置路径:</strong> {info.configPath || 'N/A'}</p>
           </div>
         ),
         width: 500
@@ -205,12 +225,7 @@ const WorkflowGroupList: React.FC = () => {
   const saveConfig = async (newGroups: WorkflowGroup[], newTemplates?: WorkflowGroupTemplate[]) => {
     try {
       // 先获取现有配置
-      const loadResponse = await axios.get('/api/multi-stream/load');
-      let existingConfig = {};
-      
-      if (loadResponse.data.success && loadResponse.data.data) {
-        existingConfig = loadResponse.data.data;
-      }
+      const existingConfig = await loadMultiStreamConfig() ?? {};
 
       const configData = {
         ...existingConfig,
@@ -232,16 +247,11 @@ const WorkflowGroupList: React.FC = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      const saveResponse = await axios.post('/api/multi-stream/save', configData);
-      
-      if (!saveResponse.data.success) {
-        throw new Error(saveResponse.data.message || '保存失败');
-      }
-      
+      await saveMultiStreamConfig(configData);
       return true;
     } catch (error) {
       console.error('保存配置失败:', error);
-      messageApi.error('保存配置失败，请检查网络连接');
+      messageApi.error(`保存配置失败: ${error instanceof Error ? error.message : error}`);
       return false;
     }
   };
@@ -414,73 +424,182 @@ const WorkflowGroupList: React.FC = () => {
     }
   };
 
-  // 批量执行所有工作流组
+  // 更新批量执行结果中的单个工作流组
+  const updateBatchResult = useCallback((groupId: string, update: Partial<BatchExecutionResult>) => {
+    setBatchExecution(prev => ({
+      ...prev,
+      results: prev.results.map(result => result.groupId === groupId ? { ...result, ...update } : result)
+    }));
+  }, []);
+
+  // 更新工作流组的执行状态（仅在内存中）
+  const updateGroup = useCallback((groupId: string, update: (group: WorkflowGroup) => Partial<WorkflowGroup>) => {
+    setGroups(current => current.map(g => g.id === groupId ? { ...g, ...update(g) } : g));
+  }, []);
+
+  // 执行单个工作流组（与任务管理页面相同，提交到服务端执行）；传入 jobId 时重新关联已在运行的任务
+  const executeGroup = useCallback(async (group: WorkflowGroup, signal?: AbortSignal, jobId?: string) => {
+    const workflows = getExecutableWorkflows(group.template?.workflows);
+
+    if (workflows.length === 0) {
+      updateBatchResult(group.id, { status: 'failed', endTime: new Date(), error: '没有可执行的工作流（需要至少包含一个步骤）' });
+      return;
+    }
+
+    const startTime = new Date();
+    updateBatchResult(group.id, { status: 'running', startTime, progress: 0 });
+    updateGroup(group.id, () => ({
+      status: 'running',
+      progress: 0,
+      executionResults: {
+        totalWorkflows: workflows.length,
+        completedWorkflows: 0,
+        partialWorkflows: 0,
+        failedWorkflows: 0,
+        startTime
+      }
+    }));
+
+    try {
+      const job = await runWorkflowGroup(group, workflows, {
+        signal,
+        jobId,
+        forceRefresh,
+        onUpdate: (latest) => {
+          updateBatchResult(group.id, { progress: latest.progress });
+          updateGroup(group.id, g => ({
+            progress: latest.progress,
+            executionResults: g.executionResults && {
+              ...g.executionResults,
+              completedWorkflows: latest.completedWorkflows,
+              partialWorkflows: latest.partialWorkflows,
+              failedWorkflows: latest.failedWorkflows,
+              startTime: new Date(latest.startedAt)
+            }
+          }));
+        }
+      });
+
+      const endTime = job.finishedAt ? new Date(job.finishedAt) : new Date();
+
+      // 任务已停止，工作流组恢复为空闲状态
+      if (job.status === 'cancelled') {
+        updateBatchResult(group.id, { status: 'cancelled', endTime });
+        updateGroup(group.id, () => ({ status: 'idle', progress: 0 }));
+        return;
+      }
+
+      const status = job.status === 'completed' || job.status === 'partial' ? job.status : 'failed';
+      const errors = [
+        ...job.errors.map(e => `${e.workflowName}: ${e.message}`),
+        ...(job.partialWorkflows > 0 ? [`${job.partialWorkflows} 个工作流有步骤失败`] : [])
+      ];
+
+      updateBatchResult(group.id, {
+        status,
+        progress: 100,
+        endTime,
+        error: errors.length > 0 ? errors.join('；') : undefined
+      });
+      updateGroup(group.id, g => ({
+        status,
+        progress: 100,
+        executionResults: g.executionResults && {
+          ...g.executionResults,
+          completedWorkflows: job.completedWorkflows,
+          partialWorkflows: job.partialWorkflows,
+          failedWorkflows: job.failedWorkflows,
+          endTime,
+          duration: endTime.getTime() - new Date(job.startedAt).getTime()
+        }
+      }));
+    } catch (error) {
+      console.error(`执行工作流组 ${group.name} 失败:`, error);
+      updateBatchResult(group.id, {
+        status: 'failed',
+        endTime: new Date(),
+        error: error instanceof Error ? error.message : '执行失败'
+      });
+      updateGroup(group.id, () => ({ status: 'failed' }));
+    }
+  }, [forceRefresh, updateBatchResult, updateGroup]);
+
+  // 列表加载后，重新关联服务端仍在运行的工作流组（页面刷新或重新打开时）
+  const reattachedRef = useRef(false);
+  useEffect(() => {
+    if (reattachedRef.current || groups.length === 0) return;
+    reattachedRef.current = true;
+
+    listRunningJobs()
+      .then(runningJobs => {
+        runningJobs.forEach(job => {
+          const group = groups.find(g => g.id === job.targetId);
+          if (group) executeGroup(group, undefined, job.id);
+        });
+      })
+      .catch(error => console.error('获取运行中的任务失败:', error));
+  }, [groups, executeGroup]);
+
+  // 批量执行所有工作流组（最多同时执行 maxConcurrentGroups 个）
   const handleBatchExecuteAll = async () => {
-    if (groups.length === 0) {
+    const targetGroups = groups.filter(g => g.status !== 'running');
+
+    if (targetGroups.length === 0) {
       messageApi.warning('没有可执行的工作流组');
       return;
     }
 
+    const abortController = new AbortController();
+    batchAbortControllerRef.current = abortController;
+    const { signal } = abortController;
+
     setBatchExecution({
       isRunning: true,
-      currentGroupIndex: 0,
-      totalGroups: groups.length,
-      results: groups.map(group => ({
+      finishedGroups: 0,
+      totalGroups: targetGroups.length,
+      results: targetGroups.map(group => ({
         groupId: group.id,
         groupName: group.name,
-        status: 'pending'
+        status: 'pending',
+        progress: 0
       }))
     });
 
-    // 依次执行每个工作流组
-    for (let i = 0; i < groups.length; i++) {
-      const group = groups[i];
-      
+    messageApi.info(`开始批量执行 ${targetGroups.length} 个工作流组，最多同时执行 ${maxConcurrentGroups} 个`);
+
+    let groupIndex = 0;
+
+    // 并发执行器：依次从队列中取出工作流组执行，停止后不再取新的工作流组
+    const worker = async () => {
+      while (groupIndex < targetGroups.length && !signal.aborted) {
+        const group = targetGroups[groupIndex++];
+        await executeGroup(group, signal);
+        setBatchExecution(prev => ({ ...prev, finishedGroups: prev.finishedGroups + 1 }));
+      }
+    };
+
+    const workerCount = Math.min(maxConcurrentGroups, targetGroups.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    batchAbortControllerRef.current = null;
+
+    if (signal.aborted) {
+      // 未开始执行的工作流组标记为已取消
       setBatchExecution(prev => ({
         ...prev,
-        currentGroupIndex: i,
-        results: prev.results.map((result, index) => 
-          index === i ? { ...result, status: 'running', startTime: new Date() } : result
-        )
+        isRunning: false,
+        results: prev.results.map(result => result.status === 'pending' ? { ...result, status: 'cancelled' } : result)
       }));
-
-      try {
-        // 这里应该调用具体的工作流组执行逻辑
-        // 暂时用延时模拟执行过程
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        setBatchExecution(prev => ({
-          ...prev,
-          results: prev.results.map((result, index) => 
-            index === i ? { ...result, status: 'completed', endTime: new Date() } : result
-          )
-        }));
-
-        messageApi.success(`工作流组 "${group.name}" 执行完成`);
-      } catch (error) {
-        setBatchExecution(prev => ({
-          ...prev,
-          results: prev.results.map((result, index) => 
-            index === i ? { 
-              ...result, 
-              status: 'failed', 
-              endTime: new Date(),
-              error: error instanceof Error ? error.message : '执行失败'
-            } : result
-          )
-        }));
-
-        messageApi.error(`工作流组 "${group.name}" 执行失败`);
-      }
+      return;
     }
 
     setBatchExecution(prev => ({ ...prev, isRunning: false }));
     messageApi.success('批量执行完成');
   };
 
-  // 停止批量执行
+  // 停止批量执行：中止进行中的请求，未开始的工作流组不再执行
   const handleStopBatchExecution = () => {
-    setBatchExecution(prev => ({ ...prev, isRunning: false }));
+    batchAbortControllerRef.current?.abort();
     messageApi.info('批量执行已停止');
   };
 
@@ -531,6 +650,7 @@ const WorkflowGroupList: React.FC = () => {
           idle: { color: 'default', text: '空闲' },
           running: { color: 'processing', text: '运行中' },
           completed: { color: 'success', text: '已完成' },
+          partial: { color: 'warning', text: '部分完成' },
           failed: { color: 'error', text: '失败' }
         };
         const config = statusConfig[status as keyof typeof statusConfig];
@@ -651,6 +771,26 @@ const WorkflowGroupList: React.FC = () => {
             >
               导入模板
             </Button>
+            <Tooltip title="批量执行时最多同时执行的工作流组数量">
+              <InputNumber
+                min={1}
+                max={6}
+                value={maxConcurrentGroups}
+                onChange={(value) => setMaxConcurrentGroups(value || 1)}
+                addonBefore="并发数"
+                disabled={batchExecution.isRunning}
+                style={{ width: 130 }}
+              />
+            </Tooltip>
+            <Tooltip title="忽略步骤结果缓存，输入未变化的步骤也重新调用模型">
+              <Checkbox
+                checked={forceRefresh}
+                onChange={e => setForceRefresh(e.target.checked)}
+                disabled={batchExecution.isRunning}
+              >
+                强制刷新
+              </Checkbox>
+            </Tooltip>
             <Button 
               type="primary" 
               icon={<PlayCircleOutlined />} 
@@ -706,34 +846,76 @@ const WorkflowGroupList: React.FC = () => {
         </Col>
       </Row>
 
-      {/* 批量执行进度 */}
-      {batchExecution.isRunning && (
+      {/* 批量执行进度与结果 */}
+      {batchExecution.results.length > 0 && (
         <Card style={{ marginBottom: '24px' }}>
-          <Title level={4}>批量执行进度</Title>
+          <Row justify="space-between" align="middle">
+            <Col>
+              <Title level={4}>{batchExecution.isRunning ? '批量执行进度' : '批量执行结果'}</Title>
+            </Col>
+            <Col>
+              {!batchExecution.isRunning && (
+                <Button size="small" onClick={() => setBatchExecution(prev => ({ ...prev, results: [] }))}>
+                  清除结果
+                </Button>
+              )}
+            </Col>
+          </Row>
           <Progress 
-            percent={Math.round((batchExecution.currentGroupIndex / batchExecution.totalGroups) * 100)}
-            status="active"
-            format={() => `${batchExecution.currentGroupIndex}/${batchExecution.totalGroups}`}
+            percent={Math.round((batchExecution.finishedGroups / batchExecution.totalGroups) * 100)}
+            status={batchExecution.isRunning ? 'active' : undefined}
+            format={() => `${batchExecution.finishedGroups}/${batchExecution.totalGroups}`}
+          />
+          <Table
+            style={{ marginTop: '16px' }}
+            size="small"
+            rowKey="groupId"
+            pagination={false}
+            dataSource={batchExecution.results}
+            columns={[
+              {
+                title: '工作流组',
+                dataIndex: 'groupName',
+                key: 'groupName'
+              },
+              {
+                title: '状态',
+                dataIndex: 'status',
+                key: 'status',
+                width: 100,
+                render: (status: BatchExecutionResult['status']) => (
+                  <Tag color={BATCH_STATUS_CONFIG[status].color}>{BATCH_STATUS_CONFIG[status].text}</Tag>
+                )
+              },
+              {
+                title: '进度',
+                dataIndex: 'progress',
+                key: 'progress',
+                width: 160,
+                render: (progress: number, result: BatchExecutionResult) => (
+                  <Progress
+                    percent={progress}
+                    size="small"
+                    status={result.status === 'failed' ? 'exception' : result.status === 'running' ? 'active' : undefined}
+                  />
+                )
+              },
+              {
+                title: '耗时',
+                key: 'duration',
+                width: 90,
+                render: (_: unknown, result: BatchExecutionResult) => result.startTime && result.endTime
+                  ? `${Math.round((result.endTime.getTime() - result.startTime.getTime()) / 1000)}秒`
+                  : '-'
+              },
+              {
+                title: '错误信息',
+                dataIndex: 'error',
+                key: 'error',
+                render: (error?: string) => error ? <Text type="danger">{error}</Text> : '-'
+              }
+            ]}
           />
-          <div style={{ marginTop: '16px' }}>
-            {batchExecution.results.map((result, index) => (
-              <div key={result.groupId} style={{ marginBottom: '8px' }}>
-                <Space>
-                  <Text>{result.groupName}</Text>
-                  <Tag color={
-                    result.status === 'pending' ? 'default' :
-                    result.status === 'running' ? 'processing' :
-                    result.status === 'completed' ? 'success' : 'error'
-                  }>
-                    {result.status === 'pending' ? '等待' :
-                     result.status === 'running' ? '运行中' :
-                     result.status === 'completed' ? '完成' : '失败'}
-                  </Tag>
-                  {result.error && <Text type="danger">{result.error}</Text>}
-                </Space>
-              </div>
-            ))}
-          </div>
         </Card>
       )}
 
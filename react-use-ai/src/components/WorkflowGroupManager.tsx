@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Card,
   Button,
@@ -18,7 +18,9 @@ import {
   Tooltip,
   Progress,
   List,
-  Empty
+  Empty,
+  Checkbox,
+  Tabs
 } from 'antd';
 import {
   DeleteOutlined,
@@ -31,15 +33,26 @@ import {
   PlayCircleOutlined,
   PauseCircleOutlined,
   StopOutlined,
-  EyeOutlined
+  EyeOutlined,
+  HistoryOutlined,
+  StepForwardOutlined,
+  DatabaseOutlined,
+  DiffOutlined
 } from '@ant-design/icons';
 import CodeMirror from '@uiw/react-codemirror';
 import { json } from '@codemirror/lang-json';
 import { javascript } from '@codemirror/lang-javascript';
 import { css } from '@codemirror/lang-css';
 import { oneDark } from '@codemirror/theme-one-dark';
-import axios from 'axios';
 import MultiWorkflowManager from './MultiWorkflowManager';
+import RunHistory from './RunHistory';
+import OutputComparePanel from './OutputComparePanel';
+import EditableOutputView from './EditableOutputView';
+import VariablesEditor from './VariablesEditor';
+import TemplateParametersEditor from './TemplateParametersEditor';
+import TemplatePreviewTable from './TemplatePreviewTable';
+import { runWorkflow, applyWorkflowEvent, resetSteps, isAbortError, sortSteps, getExecutableWorkflows, runWorkflowGroup, applyJobToWorkflows, listRunningJobs, getDownstreamStepIds, canResumeWorkflow, prepareResume, executeStepByType, executeStepWithoutCache, listFiles, loadAppConfig, loadMultiStreamConfig, saveMultiStreamConfig, resolveGroupVariables, getSourceFileVariables, applyTemplateParameters, previewTemplateParameters } from '../engine';
+import type { ResumePlan, StepResult, TemplateParameters, TemplateSourceFile, Workflow, WorkflowEvent, WorkflowStep, WorkflowVariables } from '../engine';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -50,14 +63,17 @@ interface WorkflowGroup {
   name: string;
   description: string;
   template?: WorkflowGroupTemplate;
+  // 任务变量，覆盖模板中的同名默认值
+  variables?: WorkflowVariables;
   workflowCount: number;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'partial' | 'failed';
   progress: number;
   createdAt: Date;
   updatedAt: Date;
   executionResults?: {
     totalWorkflows: number;
     completedWorkflows: number;
+    partialWorkflows?: number; // 部分步骤失败的工作流数量
     failedWorkflows: number;
     startTime: Date;
     endTime?: Date;
@@ -71,6 +87,10 @@ interface WorkflowGroupTemplate {
   description: string;
   workflows: any[];
   workflowOrder: string[];
+  // 变量默认值，任务上的同名变量优先
+  variables?: WorkflowVariables;
+  // 批量创建时如何根据所选文件改写路径
+  parameters?: TemplateParameters;
   createdAt: Date;
 }
 
@@ -93,12 +113,17 @@ interface TaskExecution {
   totalWorkflows: number;
 }
 
+// 智能批量创建表单，selectedFiles 的每项为 JSON 序列化的 TemplateSourceFile
+interface AdvancedBatchCreateValues {
+  templateId?: string;
+  selectedFiles?: string[];
+  namePrefix?: string;
+  namePattern?: string;
+  description?: string;
+}
+
 interface WorkflowGroupManagerProps {
-  onOpenGroup?: (group: WorkflowGroup, executionContext?: {
-    isRunning: boolean;
-    taskExecution?: TaskExecution;
-    executingTasks: Set<string>;
-  }) => void;
+  onOpenGroup?: (group: WorkflowGroup) => void;
 }
 
 const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup }) => {
@@ -113,9 +138,20 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
   // 智能批量创建相关状态（带文件来源）
   const [isAdvancedBatchCreateModalVisible, setIsAdvancedBatchCreateModalVisible] = useState(false);
   const [advancedBatchCreateForm] = Form.useForm();
+  const batchTemplateId: string | undefined = Form.useWatch('templateId', advancedBatchCreateForm);
+  // 批量创建时编辑的模板变量默认值和模板参数，创建任务时保存到模板
+  const [batchTemplateVariables, setBatchTemplateVariables] = useState<WorkflowVariables>();
+  const [batchTemplateParameters, setBatchTemplateParameters] = useState<TemplateParameters>();
+  const batchSelectedFiles: string[] | undefined = Form.useWatch('selectedFiles', advancedBatchCreateForm);
+  const batchNamePattern: string | undefined = Form.useWatch('namePattern', advancedBatchCreateForm);
+  const batchNamePrefix: string | undefined = Form.useWatch('namePrefix', advancedBatchCreateForm);
+  const batchTemplate = templates.find(t => t.id === batchTemplateId);
+  // 批量创建使用的模板参数：编辑过的参数优先，其次是模板上声明的参数
+  const batchParameters = batchTemplate && (batchTemplateParameters ?? batchTemplate.parameters);
 
   // 模板管理相关状态
   const [isTemplateModalVisible, setIsTemplateModalVisible] = useState(false);
+  const [isRunHistoryVisible, setIsRunHistoryVisible] = useState(false);
   const [importTemplateData, setImportTemplateData] = useState('');
   const [isWorkflowImportModalVisible, setIsWorkflowImportModalVisible] = useState(false);
   const [workflowTemplateData, setWorkflowTemplateData] = useState('');
@@ -123,22 +159,29 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
   // 任务执行相关状态
   const [executingTasks, setExecutingTasks] = useState<Set<string>>(new Set());
   const [maxConcurrentTasks] = useState(6);
+  // 执行时忽略步骤结果缓存
+  const [forceRefresh, setForceRefresh] = useState(false);
   
   const [taskExecutions, setTaskExecutions] = useState<Map<string, TaskExecution>>(new Map());
+  // 正在执行的任务对应的取消控制器
+  const taskAbortControllersRef = useRef(new Map<string, AbortController>());
   const [isDetailModalVisible, setIsDetailModalVisible] = useState(false);
   const [selectedTask, setSelectedTask] = useState<WorkflowGroup | null>(null);
   const [selectedExecutionContext, setSelectedExecutionContext] = useState<any>(null);
+  // 任务详情中编辑的任务变量，保存前不影响执行
+  const [taskVariablesDraft, setTaskVariablesDraft] = useState<WorkflowVariables>();
   const [isStepResultModalVisible, setIsStepResultModalVisible] = useState(false);
   const [currentStepResult, setCurrentStepResult] = useState<any>(null);
+  // 正在查看结果的步骤，用于对比新旧输出
+  const [resultStepKey, setResultStepKey] = useState<{ workflowId: string; stepId: string } | null>(null);
 
   // 加载任务列表
   const loadGroups = async () => {
     setLoading(true);
     try {
-      const response = await axios.get('/api/multi-stream/load');
+      const configData = await loadMultiStreamConfig();
       
-      if (response.data.success && response.data.data) {
-        const configData = response.data.data;
+      if (configData) {
         
         if (configData.workflowGroups && Array.isArray(configData.workflowGroups)) {
           const groups = configData.workflowGroups.map((group: any) => ({
@@ -176,7 +219,7 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       }
     } catch (error) {
       console.error('加载任务失败:', error);
-      messageApi.error('加载任务失败，请检查网络连接');
+      messageApi.error(`加载任务失败: ${error instanceof Error ? error.message : error}`);
       setGroups([]);
       setTemplates([]);
     } finally {
@@ -220,20 +263,12 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
 
     updateFileSource(sourceId, 'loading', true);
     try {
-      const response = await axios.post<{ success: boolean; data: string[]; message?: string }>('/api/list-files', {
-        folderPath: source.path,
-        fileType: source.fileType,
-      });
-      if (response.data.success) {
-        updateFileSource(sourceId, 'files', response.data.data);
-        messageApi.success(`来源 "${source.path}" 文件提取成功`);
-      } else {
-        updateFileSource(sourceId, 'files', []);
-        messageApi.error(response.data.message || '文件提取失败');
-      }
+      const files = await listFiles(source.path, source.fileType);
+      updateFileSource(sourceId, 'files', files);
+      messageApi.success(`来源 "${source.path}" 文件提取成功`);
     } catch (error) {
       updateFileSource(sourceId, 'files', []);
-      messageApi.error('提取文件失败');
+      messageApi.error(`提取文件失败: ${error instanceof Error ? error.message : error}`);
     } finally {
       updateFileSource(sourceId, 'loading', false);
     }
@@ -242,12 +277,7 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
   // 保存配置到服务器
   const saveConfig = async (newGroups: WorkflowGroup[], newTemplates?: WorkflowGroupTemplate[]) => {
     try {
-      const response = await axios.get('/api/multi-stream/load');
-      let existingConfig = {};
-      
-      if (response.data.success && response.data.data) {
-        existingConfig = response.data.data;
-      }
+      const existingConfig = await loadMultiStreamConfig() ?? {};
 
       const configData = {
         ...existingConfig,
@@ -269,32 +299,39 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
         lastUpdated: new Date().toISOString()
       };
 
-      const saveResponse = await axios.post('/api/multi-stream/save', configData);
-      
-      if (!saveResponse.data.success) {
-        throw new Error(saveResponse.data.message || '保存失败');
-      }
-      
+      await saveMultiStreamConfig(configData);
       return true;
     } catch (error) {
       console.error('保存配置失败:', error);
-      messageApi.error('保存配置失败，请检查网络连接');
+      messageApi.error(`保存配置失败: ${error instanceof Error ? error.message : error}`);
       return false;
     }
   };
 
+  // 批量创建的任务名称：名称模式中的 {fileName} 替换为派生文件名
+  const getBatchGroupName = (values: { namePattern?: string; namePrefix?: string }, fileName: string) =>
+    values.namePattern
+      ? values.namePattern.replace('{fileName}', fileName)
+      : `${values.namePrefix || '任务'}-${fileName}`;
+
   // 高级批量创建任务（基于文件来源）
-  const handleAdvancedBatchCreate = async (values: any) => {
+  const handleAdvancedBatchCreate = async (values: AdvancedBatchCreateValues) => {
     if (!values.templateId) {
       messageApi.error('请选择模板');
       return;
     }
 
-    const template = templates.find(t => t.id === values.templateId);
-    if (!template) {
+    const selectedTemplate = templates.find(t => t.id === values.templateId);
+    if (!selectedTemplate) {
       messageApi.error('模板不存在');
       return;
     }
+    // 批量创建时编辑的变量默认值和参数保存到模板
+    const template: WorkflowGroupTemplate = {
+      ...selectedTemplate,
+      variables: batchTemplateVariables ?? selectedTemplate.variables,
+      parameters: batchTemplateParameters ?? selectedTemplate.parameters
+    };
 
     // 获取选中的文件
     const selectedFiles = values.selectedFiles || [];
@@ -305,153 +342,24 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
 
     const newGroups: WorkflowGroup[] = [];
     
-    // 为每个选中的文件创建一个任务
-    selectedFiles.forEach((fileValue: string, index: number) => {
+    // 为每个选中的文件创建一个任务，路径按模板参数改写
+    selectedFiles.forEach((fileValue, index) => {
       try {
-        const { sourcePath, file } = JSON.parse(fileValue);
-        
-        // 从相对路径中提取最后的文件名和目录前缀
-        const fullFilePath = file;
-        const fileName = fullFilePath.split('/').pop()?.split('\\').pop() || fullFilePath.split('\\').pop() || fullFilePath;
-        const fileNameWithoutExt = fileName.includes('.') ? 
-          fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
-        
-        // 提取file的相对路径前缀（目录部分）
-        const filePathParts = fullFilePath.split('/').length > 1 ? fullFilePath.split('/') : fullFilePath.split('\\');
-        const fileRelativePrefix = filePathParts.length > 1 ? filePathParts.slice(0, -1).join('/') : '';
-        
-        // 确保文件名使用大驼峰命名法
-        let finalFileName = fileNameWithoutExt;
-        if (finalFileName && finalFileName.length > 0 && 
-            (finalFileName[0] < 'A' || finalFileName[0] > 'Z')) {
-          finalFileName = finalFileName[0].toUpperCase() + finalFileName.slice(1);
-        }
-        
-        const groupName = values.namePattern 
-          ? values.namePattern.replace('{fileName}', finalFileName)
-          : `${values.namePrefix || '任务'}-${finalFileName}`;
-        
-        // 修改模板中的fileInputs和输出文件配置
-        const modifiedWorkflows = template.workflows.map((workflow: any) => ({
-          ...workflow,
-          steps: workflow.steps.map((step: any) => {
-            let modifiedStep = { ...step };
-            
-            // 修改文件输入步骤 - 统一处理所有fileInputs的path
-            if (step.config && step.config.fileInputs) {
-              modifiedStep.config = {
-                ...step.config,
-                fileInputs: step.config.fileInputs.map((input: any) => {
-                  // 如果name为'接口文档'，则不修改path
-                  if (input.name === '接口文档') {
-                    return input;
-                  }
-                  
-                  if (input.path) {
-                    // 提取原路径的目录部分
-                    const pathParts = input.path.split('\\');
-                    const originalFileName = pathParts.pop() || '';
-                    const directory = pathParts.join('\\');
-                    
-                    // 获取原文件的扩展名
-                    const originalExtension = originalFileName.includes('.') 
-                      ? '.' + originalFileName.split('.').pop() 
-                      : '';
-                    
-                    let newFileName;
-                    if (originalExtension === '.jsp') {
-                      // jsp文件使用原始文件名（不需要大写首字母）
-                      newFileName = fileName;
-                    } else {
-                      // 非jsp文件使用首字母大写的文件名
-                      newFileName = finalFileName + originalExtension;
-                    }
-                    
-                    // 检查目录是否包含和file一样的相对路径
-                    let finalDirectory = directory;
-                    if (fileRelativePrefix && !directory.includes(fileRelativePrefix.replace(/\//g, '\\'))) {
-                      // 如果目录不包含相对路径前缀，则添加
-                      finalDirectory = directory ? `${directory}\\${fileRelativePrefix.replace(/\//g, '\\')}` : fileRelativePrefix.replace(/\//g, '\\');
-                    }
-                    
-                    // 如果是jsp文件且name字段为"jsp"，使用完整的源路径
-                    if (input.name === 'jsp' && originalExtension === '.jsp') {
-                      return {
-                        ...input,
-                        path: `${sourcePath}\\${fullFilePath}`
-                      };
-                    } else {
-                      // 其他情况使用检查后的目录，只替换文件名
-                      return {
-                        ...input,
-                        path: `${finalDirectory}\\${newFileName}`
-                      };
-                    }
-                  }
-                  return input;
-                })
-              };
-            }
-            
-            // 修改输出文件路径
-            if (step.config && step.config.outputFileName) {
-              // 使用名称前缀和大写首字母的文件名
-              const currentOutputName = step.config.outputFileName;
-              const fileExtension = currentOutputName.includes('.') ? currentOutputName.split('.').pop() : '';
-              const newOutputFileName = fileExtension 
-                ? `${values.namePrefix || ''}${finalFileName}.${fileExtension}`
-                : `${values.namePrefix || ''}${finalFileName}`;
-              
-              modifiedStep.config = {
-                ...modifiedStep.config,
-                outputFileName: newOutputFileName
-              };
-            }
-            
-            // 修改输出文件夹路径（检查并添加相对路径）
-            if (step.config && step.config.outputFolder) {
-              let outputFolder = step.config.outputFolder;
-              
-              // 检查输出文件夹是否包含和file一样的相对路径
-              if (fileRelativePrefix && !outputFolder.includes(fileRelativePrefix.replace(/\//g, '\\'))) {
-                // 如果输出文件夹不包含相对路径前缀，则添加
-                outputFolder = `${outputFolder}\\${fileRelativePrefix.replace(/\//g, '\\')}`;
-                
-                modifiedStep.config = {
-                  ...modifiedStep.config,
-                  outputFolder: outputFolder
-                };
-              }
-            }
-            
-            // 修改文件路径中的占位符
-            if (step.config && step.config.filePath) {
-              const updatedFilePath = step.config.filePath
-                .replace(/\{\{文件名\}\}/g, file)
-                .replace(/\{\{fileName\}\}/g, file)
-                .replace(/\{\{sourcePath\}\}/g, sourcePath)
-                .replace(/\{\{filePath\}\}/g, `${sourcePath}\\${file}`);
-              
-              modifiedStep.config = {
-                ...step.config,
-                filePath: updatedFilePath
-              };
-            }
-            
-            return modifiedStep;
-          })
-        }));
+        const source: TemplateSourceFile = JSON.parse(fileValue);
+        const variables = getSourceFileVariables(source, template.parameters);
         
         const group: WorkflowGroup = {
           id: `group-${Date.now()}-${index}`,
-          name: groupName,
+          name: getBatchGroupName(values, variables.fileName),
           description: values.description ? 
-            values.description.replace('{fileName}', finalFileName).replace('{sourcePath}', sourcePath) :
-            `基于文件 ${file} 创建的任务`,
+            values.description.replace('{fileName}', variables.fileName).replace('{sourcePath}', source.sourcePath) :
+            `基于文件 ${source.file} 创建的任务`,
           template: {
             ...template,
-            workflows: modifiedWorkflows
+            workflows: applyTemplateParameters(template.workflows, template.parameters, source)
           },
+          // 文件相关的变量，模板中可以 ${fileName} 等形式引用
+          variables,
           workflowCount: template.workflows.length,
           status: 'idle',
           progress: 0,
@@ -470,9 +378,13 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
     }
 
     const allGroups = [...newGroups, ...groups];
+    const newTemplates = templates.map(t => t.id === template.id ? template : t);
     
-    if (await saveConfig(allGroups)) {
+    if (await saveConfig(allGroups, newTemplates)) {
       setGroups(allGroups);
+      setTemplates(newTemplates);
+      setBatchTemplateVariables(undefined);
+      setBatchTemplateParameters(undefined);
       setIsAdvancedBatchCreateModalVisible(false);
       advancedBatchCreateForm.resetFields();
       messageApi.success(`成功创建 ${newGroups.length} 个任务`);
@@ -481,6 +393,20 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
 
 
 
+  // 保存任务详情中编辑的任务变量
+  const handleSaveTaskVariables = async () => {
+    if (!selectedTask || !taskVariablesDraft) return;
+    const updatedTask = { ...selectedTask, variables: taskVariablesDraft, updatedAt: new Date() };
+    const newGroups = groups.map(g => g.id === updatedTask.id ? updatedTask : g);
+
+    if (await saveConfig(newGroups)) {
+      setGroups(newGroups);
+      setSelectedTask(updatedTask);
+      setTaskVariablesDraft(undefined);
+      messageApi.success('任务变量已保存');
+    }
+  };
+
   // 删除任务
   const handleDeleteGroup = async (groupId: string) => {
     const newGroups = groups.filter(g => g.id !== groupId);
@@ -492,13 +418,75 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
   };
 
   // 查看步骤结果
-  const viewStepResult = (step: any) => {
+  const viewStepResult = (workflowId: string, step: any) => {
     if (step.result) {
       setCurrentStepResult(step.result);
+      setResultStepKey({ workflowId, stepId: step.id });
       setIsStepResultModalVisible(true);
     }
   };
 
+  // 更新任务模板中某个工作流的步骤，同时更新任务列表和任务详情 - 使用函数形式确保获取最新状态
+  const updateWorkflowSteps = (groupId: string, workflowId: string, update: (steps: WorkflowStep[]) => WorkflowStep[]) => {
+    const updateGroup = (group: WorkflowGroup): WorkflowGroup => group.id === groupId && group.template
+      ? {
+          ...group,
+          template: {
+            ...group.template,
+            workflows: group.template.workflows.map((w: Workflow) => w.id === workflowId ? { ...w, steps: update(w.steps) } : w)
+          }
+        }
+      : group;
+    setGroups(current => current.map(updateGroup));
+    setSelectedTask(current => current && updateGroup(current));
+  };
+
+  // 确认步骤输出（保留新输出或恢复旧输出），清除待对比的上次输出
+  const resolveStepOutput = (workflowId: string, stepId: string, result: StepResult) => {
+    if (!selectedTask) return;
+    updateWorkflowSteps(selectedTask.id, workflowId, steps => steps.map(s => s.id === stepId ? { ...s, result, previousResult: undefined } : s));
+    setCurrentStepResult(result);
+  };
+
+  // 手动修改的输出已写回文件，更新步骤结果，依赖此步骤的后续步骤下次执行时使用修改后的内容
+  const saveStepOutput = (workflowId: string, stepId: string, content: string, size: string) => {
+    const workflow = selectedTask?.template?.workflows.find((w: Workflow) => w.id === workflowId);
+    const step = workflow?.steps.find((s: WorkflowStep) => s.id === stepId);
+    if (!selectedTask || !step?.result) return;
+    const result = { ...step.result, data: { ...step.result.data, content, size } };
+    updateWorkflowSteps(selectedTask.id, workflowId, steps => steps.map(s => s.id === stepId ? { ...s, result } : s));
+    setCurrentStepResult(result);
+  };
+
+  // 将引擎事件写回任务模板中的工作流，并刷新详情弹窗
+  const handleStepEvent = (groupId: string, workflow: Workflow) => (event: WorkflowEvent) => {
+    updateWorkflowSteps(groupId, workflow.id, steps => applyWorkflowEvent(steps, event));
+  };
+
+  // 在浏览器中重新执行任务中的步骤：与任务执行共用停止控制器，执行期间任务显示为运行中，可通过“停止任务”中止
+  const runInTask = async <T,>(groupId: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const abortController = new AbortController();
+    const previousStatus = groups.find(g => g.id === groupId)?.status ?? 'idle';
+    taskAbortControllersRef.current.set(groupId, abortController);
+    setExecutingTasks(prev => new Set([...prev, groupId]));
+    setGroups(current => current.map(g => g.id === groupId ? { ...g, status: 'running' as const } : g));
+
+    try {
+      return await run(abortController.signal);
+    } finally {
+      taskAbortControllersRef.current.delete(groupId);
+      setExecutingTasks(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(groupId);
+        return newSet;
+      });
+      // 被停止时状态已由 stopTask 更新
+      if (!abortController.signal.aborted) {
+        setGroups(current => current.map(g => g.id === groupId ? { ...g, status: previousStatus } : g));
+      }
+    }
+  };
+
   // 重新执行单个步骤
   const reExecuteStep = async (workflowId: string, stepId: string) => {
     if (!selectedTask?.template) {
@@ -506,24 +494,24 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       return;
     }
 
-    const workflow = selectedTask.template.workflows.find((w: any) => w.id === workflowId);
+    const workflow: Workflow | undefined = selectedTask.template.workflows.find((w: Workflow) => w.id === workflowId);
     if (!workflow) {
       messageApi.error('找不到指定的工作流');
       return;
     }
 
-    const step = workflow.steps.find((s: any) => s.id === stepId);
+    const step = workflow.steps.find(s => s.id === stepId);
     if (!step) {
       messageApi.error('找不到指定的步骤');
       return;
     }
 
     // 收集已成功执行的依赖步骤结果
-    const dependencyResults = new Map<string, any>();
+    const dependencyResults = new Map<string, StepResult>();
     const missingDependencies: string[] = [];
     
     for (const depId of step.dependencies) {
-      const depStep = workflow.steps.find((s: any) => s.id === depId);
+      const depStep = workflow.steps.find(s => s.id === depId);
       if (depStep && depStep.status === 'success' && depStep.result) {
         dependencyResults.set(depId, depStep.result);
       } else {
@@ -536,37 +524,25 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       messageApi.warning(`依赖步骤 "${missingDependencies.join(', ')}" 未成功执行，可能会影响执行结果`);
     }
 
-    // 更新步骤状态为运行中
-    step.status = 'running';
-    step.result = undefined;
-    
-    // 强制更新UI
-    setSelectedTask({ ...selectedTask });
-
     try {
-      // 执行步骤
-      const result = await executeStepWithAPI(step, dependencyResults);
-      
-      // 更新步骤状态和结果
-      step.status = result.success ? 'success' : 'error';
-      step.result = result;
-      
-      // 强制更新UI
-      setSelectedTask({ ...selectedTask });
-
+      await runInTask(selectedTask.id, signal => runWorkflow(workflow, {
+        stepIds: [stepId],
+        previousResults: dependencyResults,
+        failureStrategy: 'fail_fast',
+        signal,
+        // 单独重新执行步骤时总是重新调用模型
+        executeStep: executeStepWithoutCache,
+        onEvent: handleStepEvent(selectedTask.id, workflow),
+        group: { id: selectedTask.id, name: selectedTask.name },
+        variables: resolveGroupVariables(selectedTask)
+      }));
       messageApi.success(`步骤 "${step.name}" 执行成功`);
     } catch (error) {
-      const errorResult = { 
-        success: false, 
-        message: `步骤 "${step.name}" 执行失败: ${error}`
-      };
-      step.status = 'error';
-      step.result = errorResult;
-      
-      // 强制更新UI
-      setSelectedTask({ ...selectedTask });
-      
-      messageApi.error(`步骤 "${step.name}" 执行失败`);
+      if (isAbortError(error)) {
+        messageApi.info(`步骤 "${step.name}" 已停止执行`);
+      } else {
+        messageApi.error(`步骤 "${step.name}" 执行失败`);
+      }
     }
   };
 
@@ -577,114 +553,69 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       return;
     }
 
-    const workflow = selectedTask.template.workflows.find((w: any) => w.id === workflowId);
+    const workflow: Workflow | undefined = selectedTask.template.workflows.find((w: Workflow) => w.id === workflowId);
     if (!workflow) {
       messageApi.error('找不到指定的工作流');
       return;
     }
 
-    const startStep = workflow.steps.find((s: any) => s.id === startStepId);
+    const startStep = workflow.steps.find(s => s.id === startStepId);
     if (!startStep) {
       messageApi.error('找不到指定的步骤');
       return;
     }
 
-    // 获取需要重新执行的步骤（从当前步骤开始的所有后续步骤，按order顺序）
-    const startStepOrder = startStep.order;
-    const stepsToReExecute = workflow.steps
-      .filter((step: any) => step.order >= startStepOrder)
-      .map((step: any) => step.id);
-    
-    const sortedSteps = workflow.steps
-      .filter((step: any) => stepsToReExecute.includes(step.id))
-      .sort((a: any, b: any) => a.order - b.order);
+    // 获取需要重新执行的步骤（当前步骤及依赖它的全部后续步骤，按order顺序）
+    const sortedSteps = sortSteps(workflow.steps);
+    const stepsToReExecute = getDownstreamStepIds(sortedSteps, [startStepId]);
 
-    if (sortedSteps.length === 0) {
+    if (stepsToReExecute.length === 0) {
       messageApi.error('没有找到需要重新执行的步骤');
       return;
     }
 
-    messageApi.info(`开始从步骤 "${startStep.name}" 重新执行 ${sortedSteps.length} 个步骤`);
+    messageApi.info(`开始从步骤 "${startStep.name}" 重新执行 ${stepsToReExecute.length} 个步骤`);
 
     // 记录开始时间
     const executionStartTime = new Date();
 
     try {
       // 重置要重新执行的步骤状态
-      sortedSteps.forEach((step: any) => {
-        step.status = 'pending';
-        step.result = undefined;
-      });
-      
-      // 强制更新UI
-      setSelectedTask({ ...selectedTask });
+      updateWorkflowSteps(selectedTask.id, workflowId, steps => resetSteps(steps, stepsToReExecute));
 
-      const executedSteps = new Set<string>();
-      const stepResults = new Map<string, any>();
+      const stepResults = new Map<string, StepResult>();
       
       // 收集已成功执行的依赖步骤结果
-      workflow.steps.forEach((step: any) => {
+      workflow.steps.forEach(step => {
         if (!stepsToReExecute.includes(step.id) && step.status === 'success' && step.result) {
           stepResults.set(step.id, step.result);
-          executedSteps.add(step.id);
         }
       });
 
-      // 按顺序执行所有需要重新执行的步骤
-      for (const step of sortedSteps) {
-        if (executedSteps.has(step.id)) continue;
-
-        // 检查依赖步骤是否已执行（收集可用的依赖结果）
-        const availableDependencies = new Map<string, any>();
-        const missingDependencies: string[] = [];
-        
-        for (const depId of step.dependencies) {
-          if (stepResults.has(depId)) {
-            availableDependencies.set(depId, stepResults.get(depId));
-          } else {
-            const depStep = workflow.steps.find((s: any) => s.id === depId);
-            missingDependencies.push(depStep?.name || '未知步骤');
-          }
-        }
+      // 依赖了本次范围外且未成功执行的步骤时，给出警告但继续执行
+      for (const step of sortedSteps.filter(s => stepsToReExecute.includes(s.id))) {
+        const missingDependencies = step.dependencies
+          .filter(depId => !stepResults.has(depId) && !stepsToReExecute.includes(depId))
+          .map(depId => workflow.steps.find(s => s.id === depId)?.name || '未知步骤');
 
-        // 如果有缺失的依赖，给出警告但继续执行
         if (missingDependencies.length > 0) {
           messageApi.warning(`步骤 "${step.name}" 的依赖步骤 "${missingDependencies.join(', ')}" 未执行，可能会影响结果`);
         }
+      }
 
-        // 更新步骤状态为运行中
-        step.status = 'running';
-        setSelectedTask({ ...selectedTask });
-
-        try {
-          messageApi.info(`正在执行步骤: ${step.name}`);
-          
-          // 调用实际的文件处理接口
-          const result = await executeStepWithAPI(step, availableDependencies);
-          
-          // 存储结果
-          stepResults.set(step.id, result);
-          
-          // 更新UI状态
-          step.status = result.success ? 'success' : 'error';
-          step.result = result;
-          setSelectedTask({ ...selectedTask });
-
-          executedSteps.add(step.id);
-          
-          messageApi.success(`步骤 "${step.name}" 执行完成`);
-        } catch (error) {
-          const errorResult = { 
-            success: false, 
-            message: `步骤 "${step.name}" 执行失败: ${error}`
-          };
-          step.status = 'error';
-          step.result = errorResult;
-          setSelectedTask({ ...selectedTask });
-          
-          messageApi.error(`步骤 "${step.name}" 执行失败: ${error}`);
-          // 继续执行下一个步骤，不中断整个流程
-        }
+      // 单个步骤失败不中断整个流程
+      const { failedStepIds } = await runInTask(selectedTask.id, signal => runWorkflow(workflow, {
+        stepIds: stepsToReExecute,
+        previousResults: stepResults,
+        failureStrategy: 'continue_all',
+        signal,
+        executeStep: forceRefresh ? executeStepWithoutCache : executeStepByType,
+        onEvent: handleStepEvent(selectedTask.id, workflow),
+        group: { id: selectedTask.id, name: selectedTask.name },
+        variables: resolveGroupVariables(selectedTask)
+      }));
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`${failedStepIds.length} 个步骤执行失败`);
       }
 
       // 计算执行时长
@@ -700,10 +631,72 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       const executionDuration = executionEndTime.getTime() - executionStartTime.getTime();
       const durationSeconds = Math.round(executionDuration / 1000);
       
-      messageApi.error(`从步骤 "${startStep.name}" 开始的重新执行失败，耗时 ${durationSeconds} 秒`);
+      if (isAbortError(error)) {
+        messageApi.info(`从步骤 "${startStep.name}" 开始的重新执行已停止，耗时 ${durationSeconds} 秒`);
+      } else {
+        messageApi.error(`从步骤 "${startStep.name}" 开始的重新执行失败，耗时 ${durationSeconds} 秒`);
+      }
+    }
+  };
+
+  // 从失败处继续执行工作流：复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤
+  const resumeWorkflow = async (workflowId: string) => {
+    if (!selectedTask?.template) {
+      messageApi.error('任务模板不存在');
+      return;
+    }
+
+    const workflow: Workflow | undefined = selectedTask.template.workflows.find((w: Workflow) => w.id === workflowId);
+    if (!workflow) {
+      messageApi.error('找不到指定的工作流');
+      return;
+    }
+
+    let plan: ResumePlan;
+    try {
+      plan = await prepareResume(workflow.steps);
+    } catch (error) {
+      console.error('检查步骤输出失败:', error);
+      messageApi.error('检查步骤输出失败，请检查服务是否可用');
+      return;
+    }
+    if (plan.stepIds.length === 0) {
+      messageApi.info(`工作流 "${workflow.name}" 没有需要继续执行的步骤`);
+      return;
+    }
+
+    messageApi.info(`从失败处继续执行工作流 "${workflow.name}"：复用 ${plan.reusedStepIds.length} 个步骤的输出，执行 ${plan.stepIds.length} 个步骤`);
+
+    updateWorkflowSteps(selectedTask.id, workflowId, steps => resetSteps(steps, plan.stepIds));
+
+    try {
+      const { failedStepIds } = await runInTask(selectedTask.id, signal => runWorkflow(workflow, {
+        stepIds: plan.stepIds,
+        previousResults: plan.previousResults,
+        signal,
+        executeStep: forceRefresh ? executeStepWithoutCache : executeStepByType,
+        onEvent: handleStepEvent(selectedTask.id, workflow),
+        group: { id: selectedTask.id, name: selectedTask.name },
+        variables: resolveGroupVariables(selectedTask)
+      }));
+      if (failedStepIds.length > 0) {
+        messageApi.warning(`工作流 "${workflow.name}" 部分完成，${failedStepIds.length} 个步骤失败`);
+      } else {
+        messageApi.success(`工作流 "${workflow.name}" 继续执行完成`);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        messageApi.info(`工作流 "${workflow.name}" 已停止执行`);
+      } else {
+        messageApi.error(`工作流 "${workflow.name}" 继续执行失败: ${error instanceof Error ? error.message : error}`);
+      }
     }
   };
 
+  const resultStep = resultStepKey
+    ? selectedTask?.template?.workflows.find(w => w.id === resultStepKey.workflowId)?.steps.find((s: WorkflowStep) => s.id === resultStepKey.stepId)
+    : undefined;
+
   // 获取CodeMirror扩展
   const getCodeMirrorExtensions = (resultData: any) => {
     const path = resultData?.path || '';
@@ -802,17 +795,16 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
   const handleImportFromWorkflowRoute = async () => {
     try {
       // 从工作流路由获取多工作流配置
-      const response = await axios.get('/api/config/load');
+      const workflowData = await loadAppConfig();
       
-      if (response.data.success && response.data.data) {
-        const workflowData = response.data.data;
+      if (workflowData) {
         
         if (workflowData.workflows && Array.isArray(workflowData.workflows) && workflowData.workflows.length > 0) {
           const templateData = {
             name: `工作流模板 - ${new Date().toLocaleDateString()}`,
             description: `从工作流路由导入的模板，包含 ${workflowData.workflows.length} 个工作流`,
             workflows: workflowData.workflows,
-            workflowOrder: workflowData.workflows.map((w: any) => w.id)
+            workflowOrder: workflowData.workflows.map(w => w.id)
           };
 
           // 在CodeMirror中展示模板数据
@@ -827,7 +819,7 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
       }
     } catch (error) {
       console.error('从工作流路由导入失败:', error);
-      messageApi.error('从工作流路由导入失败，请检查网络连接');
+      messageApi.error(`从工作流路由导入失败: ${error instanceof Error ? error.message : error}`);
     }
   };
 
@@ -877,244 +869,8 @@ const WorkflowGroupManager: React.FC<WorkflowGroupManagerProps> = ({ onOpenGroup
     }
   };
 
-// 添加必要的类型定义和接口
-// 文件输入接口
-interface FileInput {
-  id: string;
-  name: string;
-  path: string;
-  dependsOn?: string; // 依赖的步骤ID，可以引用前置步骤的输出文件
-}
-
-// 提示词输入接口
-interface PromptInput {
-  id: string;
-  content: string;
-  fileReferences: string[]; // 引用的文件ID列表
-}
-
-// 步骤接口定义
-interface WorkflowStep {
-  id: string;
-  name: string;
-  description: string;
-  type: 'file_process' | 'data_transform' | 'api_call' | 'condition';
-  config: {
-    fileInputs?: FileInput[];
-    promptInputs?: PromptInput[];
-    outputFolder?: string;
-    outputFileName?: string;
-    apiEndpoint?: '/api/process-file' | '/api/process-file-direct'; // 接口选择
-    customSettings?: Record<string, any>;
-  };
-  dependencies: string[]; // 依赖的步骤ID列表
-  status: 'pending' | 'running' | 'success' | 'error' | 'skipped';
-  result?: {
-    success: boolean;
-    message: string;
-    data?: {
-      path?: string;
-      content?: string;
-      size?: string;
-      [key: string]: any;
-    };
-  };
-  order: number;
-}
-
-  // 使用FileProcessForm的API执行单个步骤
-  const executeStepWithAPI = async (step: WorkflowStep, previousResults: Map<string, any>) => {
-    const { fileInputs = [], promptInputs = [], outputFolder, outputFileName, apiEndpoint = '/api/process-file' } = step.config;
-
-    // 验证必要参数
-    if (fileInputs.length === 0) {
-      throw new Error('缺少文件输入配置');
-    }
-    if (promptInputs.length === 0) {
-      throw new Error('缺少提示词配置');
-    }
-    if (!outputFolder || !outputFileName) {
-      throw new Error('缺少输出配置');
-    }
-
-    // 创建文件路径映射表
-    const filePathMap = new Map<string, string>();
-    
-    // 处理文件输入，解析依赖步骤的输出
-    for (const fileInput of fileInputs) {
-      let filePath = fileInput.path;
-      
-      // 如果依赖其他步骤，获取其输出路径
-      if (fileInput.dependsOn) {
-        const depResult = previousResults.get(fileInput.dependsOn);
-        if (depResult?.success && depResult.data?.path) {
-          filePath = depResult.data.path;
-        } else {
-          throw new Error(`依赖步骤 "${fileInput.dependsOn}" 未成功执行或无输出文件`);
-        }
-      }
-
-      if (!filePath) {
-        throw new Error(`文件 "${fileInput.name}" 缺少有效路径`);
-      }
-
-      // 将文件名映射到路径
-      filePathMap.set(fileInput.name, filePath);
-    }
-
-    // 处理提示词输入，按 {{}} 标记拆分生成inputs
-    const processedInputs: Array<{ type: 'file' | 'prompt'; value: string }> = [];
-
-    for (const promptInput of promptInputs) {
-      let content = promptInput.content;
-      
-      // 使用正则表达式找到所有 {{文件名}} 标记
-      const fileReferences = content.match(/\{\{([^}]+)\}\}/g) || [];
-      
-      if (fileReferences.length === 0) {
-        // 如果没有文件引用，直接添加提示词
-        processedInputs.push({
-          type: 'prompt',
-          value: content
-        });
-      } else {
-        // 按文件引用拆分提示词
-        let remainingContent = content;
-        
-        for (const fileRef of fileReferences) {
-          const fileName = fileRef.replace(/[{}]/g, ''); // 移除 {{}}
-          const filePath = filePathMap.get(fileName);
-          
-          if (!filePath) {
-            throw new Error(`找不到文件 "${fileName}" 的路径配置`);
-          }
-          
-          // 找到文件引用的位置
-          const refIndex = remainingContent.indexOf(fileRef);
-          
-          if (refIndex > 0) {
-            // 添加文件引用前的提示词部分
-            const beforePrompt = remainingContent.substring(0, refIndex).trim();
-            if (beforePrompt) {
-              processedInputs.push({
-                type: 'prompt',
-                value: beforePrompt
-              });
-            }
-          }
-          
-          // 添加文件
-          processedInputs.push({
-            type: 'file',
-            value: filePath
-          });
-          
-          // 更新剩余内容
-          remainingContent = remainingContent.substring(refIndex + fileRef.length);
-        }
-        
-        // 添加最后剩余的提示词部分
-        if (remainingContent.trim()) {
-          processedInputs.push({
-            type: 'prompt',
-            value: remainingContent.trim()
-          });
-        }
-      }
-    }
-
-    // 构建API请求参数（与FileProcessForm保持一致）
-    const requestData = {
-      inputs: processedInputs,
-      outputFolder: outputFolder,
-      outputFileName: outputFileName
-    };
-
-    // 调用选择的文件处理API
-    const response = await axios.post(apiEndpoint, requestData);
-    
-    if (response.data.success) {
-      return {
-        success: true,
-        message: `步骤 "${step.name}" 执行成功`,
-        data: response.data.data
-      };
-    } else {
-      throw new Error(response.data.message || '处理失败');
-    }
-  };
-
-  // 执行单个工作流（使用真实的API调用，与MultiWorkflowManager相同的逻辑）
-  const executeWorkflowWithRealAPI = async (workflow: any, groupId: string): Promise<void> => {
-    return new Promise(async (resolve, reject) => {
-      try {
-        // 重置所有步骤状态
-        const resetSteps = workflow.steps.map((step: any) => ({ ...step, status: 'pending' as const, result: undefined }));
-        workflow.steps = resetSteps;
-
-        // 按依赖关系执行步骤
-        const executedSteps = new Set<string>();
-        const stepResults = new Map<string, any>();
-        const totalSteps = workflow.steps.length;
-        let completedSteps = 0;
-
-        const executeStep = async (step: WorkflowStep): Promise<void> => {
-          // 检查依赖是否已执行
-          for (const depId of step.dependencies) {
-            if (!executedSteps.has(depId)) {
-              const depStep = workflow.steps.find((s: any) => s.id === depId);
-              if (depStep) {
-                await executeStep(depStep);
-              }
-            }
-          }
-
-          if (executedSteps.has(step.id)) return;
-
-          // 更新步骤状态为运行中
-          step.status = 'running';
-
-          try {
-            // 调用实际的文件处理接口
-            const result = await executeStepWithAPI(step, stepResults);
-            
-            // 存储结果，用于后续步骤的依赖和界面显示
-            stepResults.set(step.id, result);
-            
-            // 更新步骤状态
-            step.status = result.success ? 'success' : 'error';
-            step.result = result;
-
-            executedSteps.add(step.id);
-            completedSteps++;
-          } catch (error) {
-            const errorResult = { 
-              success: false, 
-              message: `步骤 "${step.name}" 执行失败: ${error}`
-            };
-            step.status = 'error';
-            step.result = errorResult;
-            completedSteps++;
-            throw error;
-          }
-        };
-
-        // 执行所有步骤
-        for (const step of workflow.steps.sort((a: any, b: any) => a.order - b.order)) {
-          if (!executedSteps.has(step.id)) {
-            await executeStep(step);
-          }
-        }
-
-        resolve();
-      } catch (error) {
-        reject(error);
-      }
-    });
-  };
-
-  // 执行单个任务
-  const executeTask = async (groupId: string) => {
+  // 执行单个任务：提交到服务端执行并轮询进度，刷新页面后由下方重新关联运行中任务的 effect 通过 jobId 重新关联
+  const executeTask = useCallback(async (groupId: string, jobId?: string) => {
     // 直接从当前groups状态中查找任务，避免闭包问题
     const currentGroup = groups.find(g => g.id === groupId);
     
@@ -1123,13 +879,13 @@ interface WorkflowStep {
       return;
     }
 
-    // 检查并发限制
-    if (executingTasks.size >= maxConcurrentTasks) {
+    // 检查并发限制（重新关联已在服务端运行的任务时不受限制）
+    if (!jobId && executingTasks.size >= maxConcurrentTasks) {
       messageApi.warning(`已达到最大并发限制（${maxConcurrentTasks}个），请等待其他任务完成`);
       return;
     }
 
-    const executableWorkflows = currentGroup.template.workflows.filter((w: any) => w.steps && w.steps.length > 0);
+    const executableWorkflows = getExecutableWorkflows(currentGroup.template.workflows);
     
     if (executableWorkflows.length === 0) {
       messageApi.error('该任务没有可执行的工作流（需要至少包含一个步骤）');
@@ -1139,12 +895,17 @@ interface WorkflowStep {
     // 添加到执行中的任务集合
     setExecutingTasks(prev => new Set([...prev, groupId]));
 
+    const abortController = new AbortController();
+    taskAbortControllersRef.current.set(groupId, abortController);
+    const { signal } = abortController;
+    const startTime = new Date();
+
     // 创建任务执行状态
     const taskExecution: TaskExecution = {
       taskId: groupId,
       isRunning: true,
       progress: 0,
-      startTime: new Date(),
+      startTime,
       currentWorkflowIndex: 0,
       totalWorkflows: executableWorkflows.length
     };
@@ -1162,78 +923,85 @@ interface WorkflowStep {
               totalWorkflows: executableWorkflows.length,
               completedWorkflows: 0,
               failedWorkflows: 0,
-              startTime: new Date()
+              startTime
             }
           }
         : g
     ));
 
-    messageApi.info(`开始执行任务 "${currentGroup.name}"，包含 ${executableWorkflows.length} 个工作流`);
+    messageApi.info(jobId
+      ? `任务 "${currentGroup.name}" 正在服务端执行，已重新关联`
+      : `开始执行任务 "${currentGroup.name}"，包含 ${executableWorkflows.length} 个工作流`);
 
-    try {
-      let completedWorkflows = 0;
-      let failedWorkflows = 0;
+    // 已提示过的工作流索引与失败数量，避免轮询时重复提示
+    let lastWorkflowIndex = -1;
+    let reportedErrors = 0;
 
-      for (let i = 0; i < executableWorkflows.length; i++) {
-        const workflow = executableWorkflows[i];
-        
-        // 更新当前执行的工作流索引
-        setTaskExecutions(prev => {
-          const newMap = new Map(prev);
-          const execution = newMap.get(groupId);
-          if (execution) {
-            newMap.set(groupId, { ...execution, currentWorkflowIndex: i });
+    try {
+      const job = await runWorkflowGroup(currentGroup, executableWorkflows, {
+        signal,
+        jobId,
+        forceRefresh,
+        onUpdate: (latest) => {
+          if (latest.status === 'running' && latest.currentWorkflowIndex !== lastWorkflowIndex) {
+            lastWorkflowIndex = latest.currentWorkflowIndex;
+            const workflow = executableWorkflows[lastWorkflowIndex];
+            messageApi.info(`任务 "${currentGroup.name}" 正在执行工作流 ${lastWorkflowIndex + 1}/${latest.totalWorkflows}: ${workflow?.name}`);
           }
-          return newMap;
-        });
-
-        messageApi.info(`任务 "${currentGroup.name}" 正在执行工作流 ${i + 1}/${executableWorkflows.length}: ${workflow.name}`);
-
-        try {
-          // 执行单个工作流（使用真实的API调用，与MultiWorkflowManager相同的逻辑）
-          await executeWorkflowWithRealAPI(workflow, groupId);
-          completedWorkflows++;
-        } catch (error) {
-          failedWorkflows++;
-          messageApi.error(`工作流 "${workflow.name}" 执行失败: ${error instanceof Error ? error.message : '执行失败'}`);
-        }
+          latest.errors.slice(reportedErrors).forEach(error => {
+            messageApi.error(`工作流 "${error.workflowName}" 执行失败: ${error.message}`);
+          });
+          reportedErrors = latest.errors.length;
+
+          setTaskExecutions(prev => {
+            const newMap = new Map(prev);
+            const execution = newMap.get(groupId);
+            if (execution) {
+              newMap.set(groupId, {
+                ...execution,
+                progress: latest.progress,
+                currentWorkflowIndex: latest.currentWorkflowIndex,
+                startTime: new Date(latest.startedAt)
+              });
+            }
+            return newMap;
+          });
 
-        // 更新进度
-        const progress = ((i + 1) / executableWorkflows.length) * 100;
-        
-        setTaskExecutions(prev => {
-          const newMap = new Map(prev);
-          const execution = newMap.get(groupId);
-          if (execution) {
-            newMap.set(groupId, { ...execution, progress });
-          }
-          return newMap;
-        });
-
-        // 更新任务组状态（仅在内存中）- 使用函数形式确保获取最新状态
-        setGroups(current => current.map(g => 
-          g.id === groupId 
-            ? { 
-                ...g, 
-                progress,
-                executionResults: {
-                  ...g.executionResults!,
-                  completedWorkflows,
-                  failedWorkflows
+          // 更新任务组状态与任务模板中工作流的步骤状态（仅在内存中）- 使用函数形式确保获取最新状态
+          setGroups(current => current.map(g => 
+            g.id === groupId && g.executionResults
+              ? { 
+                  ...g, 
+                  template: g.template && { ...g.template, workflows: applyJobToWorkflows(g.template.workflows, latest) },
+                  progress: latest.progress,
+                  executionResults: {
+                    ...g.executionResults,
+                    completedWorkflows: latest.completedWorkflows,
+                    partialWorkflows: latest.partialWorkflows,
+                    failedWorkflows: latest.failedWorkflows,
+                    startTime: new Date(latest.startedAt)
+                  }
                 }
-              }
-            : g
-        ));
-
-        // 如果不是最后一个工作流，等待一段时间再执行下一个
-        if (i < executableWorkflows.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
+              : g
+          ));
+          // 任务详情中打开的是该任务时同步显示步骤状态
+          setSelectedTask(current => current?.id === groupId && current.template
+            ? { ...current, template: { ...current.template, workflows: applyJobToWorkflows(current.template.workflows, latest) } }
+            : current);
         }
+      });
+
+      // 任务已被停止（本页面停止时状态已由 stopTask 更新）
+      if (job.status === 'cancelled') {
+        setGroups(current => current.map(g => g.id === groupId ? { ...g, status: 'idle' as const, progress: 0 } : g));
+        return;
       }
 
       // 任务执行完成
-      const finalStatus: 'completed' | 'failed' = failedWorkflows === 0 ? 'completed' : (completedWorkflows > 0 ? 'completed' : 'failed');
-      const endTime = new Date();
+      const { completedWorkflows, partialWorkflows, failedWorkflows } = job;
+      const finalStatus: WorkflowGroup['status'] = job.status === 'completed' || job.status === 'partial' ? job.status : 'failed';
+      const endTime = job.finishedAt ? new Date(job.finishedAt) : new Date();
+      const duration = endTime.getTime() - new Date(job.startedAt).getTime();
       
       setGroups(current => current.map(g => 
         g.id === groupId 
@@ -1244,20 +1012,15 @@ interface WorkflowStep {
               executionResults: {
                 ...g.executionResults!,
                 completedWorkflows,
+                partialWorkflows,
                 failedWorkflows,
                 endTime,
-                duration: g.executionResults?.startTime 
-                  ? endTime.getTime() - g.executionResults.startTime.getTime()
-                  : 0
+                duration
               }
             }
           : g
       ));
       
-      // 记录任务完成信息
-      const duration = currentGroup.executionResults?.startTime 
-        ? endTime.getTime() - currentGroup.executionResults.startTime.getTime()
-        : 0;
       const durationText = duration > 0 ? ` (耗时: ${Math.round(duration / 1000)}秒)` : '';
 
       // 完成任务执行状态
@@ -1268,7 +1031,7 @@ interface WorkflowStep {
           newMap.set(groupId, { 
             ...execution, 
             isRunning: false, 
-            endTime: new Date(),
+            endTime,
             progress: 100
           });
         }
@@ -1276,18 +1039,17 @@ interface WorkflowStep {
       });
 
       messageApi.success(
-        `任务 "${currentGroup.name}" 执行完成！成功: ${completedWorkflows} 个，失败: ${failedWorkflows} 个${durationText}`
+        `任务 "${currentGroup.name}" 执行完成！成功: ${completedWorkflows} 个，部分完成: ${partialWorkflows} 个，失败: ${failedWorkflows} 个${durationText}`
       );
 
     } catch (error) {
       console.error('执行任务失败:', error);
       const errorEndTime = new Date();
-      const errorDuration = currentGroup.executionResults?.startTime 
-        ? errorEndTime.getTime() - currentGroup.executionResults.startTime.getTime()
-        : 0;
+      const errorDuration = errorEndTime.getTime() - startTime.getTime();
       const errorDurationText = errorDuration > 0 ? ` (耗时: ${Math.round(errorDuration / 1000)}秒)` : '';
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
       
-      messageApi.error(`执行任务失败: ${error instanceof Error ? error.message : '未知错误'}${errorDurationText}`);
+      messageApi.error(`执行任务失败: ${errorMessage}${errorDurationText}`);
       
       // 恢复任务状态（仅在内存中），记录执行时长
       setGroups(current => current.map(g => 
@@ -1316,6 +1078,7 @@ interface WorkflowStep {
         return newMap;
       });
     } finally {
+      taskAbortControllersRef.current.delete(groupId);
       // 从执行中的任务集合中移除
       setExecutingTasks(prev => {
         const newSet = new Set(prev);
@@ -1323,12 +1086,30 @@ interface WorkflowStep {
         return newSet;
       });
     }
-  };
+  }, [groups, executingTasks, maxConcurrentTasks, forceRefresh, messageApi]);
+
+  // 任务列表加载后，重新关联服务端仍在运行的任务（页面刷新或重新打开时）
+  const reattachedRef = useRef(false);
+  useEffect(() => {
+    if (reattachedRef.current || groups.length === 0) return;
+    reattachedRef.current = true;
+
+    listRunningJobs()
+      .then(runningJobs => {
+        runningJobs
+          .filter(job => groups.some(g => g.id === job.targetId))
+          .forEach(job => executeTask(job.targetId, job.id));
+      })
+      .catch(error => console.error('获取运行中的任务失败:', error));
+  }, [groups, executeTask]);
 
   // 停止任务执行
   const stopTask = async (groupId: string) => {
     try {
       const stopTime = new Date();
+
+      // 中止进行中的请求，未执行的步骤由执行流程标记为跳过
+      taskAbortControllersRef.current.get(groupId)?.abort();
       
       // 更新任务执行状态为停止
       setTaskExecutions(prev => {
@@ -1504,6 +1285,20 @@ interface WorkflowStep {
             >
               刷新列表
             </Button>
+            <Button 
+              icon={<HistoryOutlined />}
+              onClick={() => setIsRunHistoryVisible(true)}
+            >
+              运行历史
+            </Button>
+            <Tooltip title="忽略步骤结果缓存，输入未变化的步骤也重新调用模型">
+              <Checkbox
+                checked={forceRefresh}
+                onChange={e => setForceRefresh(e.target.checked)}
+              >
+                强制刷新
+              </Checkbox>
+            </Tooltip>
             <Button 
               icon={<PlayCircleOutlined />}
               onClick={handleBatchExecute}
@@ -1627,6 +1422,7 @@ interface WorkflowStep {
                   idle: { color: 'default', text: '空闲' },
                   running: { color: 'processing', text: '运行中' },
                   completed: { color: 'success', text: '已完成' },
+                  partial: { color: 'warning', text: '部分完成' },
                   failed: { color: 'error', text: '失败' }
                 };
                 const config = statusConfig[status as keyof typeof statusConfig];
@@ -1651,7 +1447,9 @@ interface WorkflowStep {
                     {record.executionResults && status !== 'running' && (
                       <div>
                         <Text type="secondary" style={{ fontSize: '10px' }}>
-                          成功: {record.executionResults.completedWorkflows} 失败: {record.executionResults.failedWorkflows}
+                          成功: {record.executionResults.completedWorkflows}
+                          {!!record.executionResults.partialWorkflows && ` 部分完成: ${record.executionResults.partialWorkflows}`}
+                          {' '}失败: {record.executionResults.failedWorkflows}
                         </Text>
                         {record.executionResults.duration && (
                           <div>
@@ -1757,13 +1555,20 @@ interface WorkflowStep {
         />
       </Card>
 
+      <RunHistory
+        open={isRunHistoryVisible}
+        onClose={() => setIsRunHistoryVisible(false)}
+        kind="group"
+        title="任务运行历史"
+      />
+
       {/* 智能批量创建模态框（带文件来源） */}
       <Modal
         title="智能批量创建任务"
         open={isAdvancedBatchCreateModalVisible}
         onCancel={() => setIsAdvancedBatchCreateModalVisible(false)}
         footer={null}
-        width={800}
+        width={1000}
       >
         <Form
           form={advancedBatchCreateForm}
@@ -1823,7 +1628,13 @@ interface WorkflowStep {
             label="选择模板"
             rules={[{ required: true, message: '请选择模板' }]}
           >
-            <Select placeholder="选择模板">
+            <Select
+              placeholder="选择模板"
+              onChange={() => {
+                setBatchTemplateVariables(undefined);
+                setBatchTemplateParameters(undefined);
+              }}
+            >
               {templates.map(template => (
                 <Option key={template.id} value={template.id}>
                   {template.name} ({template.workflows.length} 个工作流)
@@ -1832,6 +1643,33 @@ interface WorkflowStep {
             </Select>
           </Form.Item>
 
+          {batchTemplate && (
+            <>
+              <Form.Item
+                label="模板参数"
+                extra={batchTemplate.parameters || batchTemplateParameters
+                  ? '创建任务时保存到模板'
+                  : '模板未声明参数，创建任务时路径保持不变，只设置文件变量；在下方声明的参数创建任务时保存到模板'}
+              >
+                <TemplateParametersEditor
+                  workflows={batchTemplate.workflows}
+                  value={batchParameters}
+                  onChange={setBatchTemplateParameters}
+                />
+              </Form.Item>
+              <Form.Item
+                label="模板变量默认值"
+                extra="创建任务时保存到模板。每个任务还会自动设置 fileName（按派生文件名风格转换、不含扩展名）、fileStem、sourceFileName、sourcePath、filePath、relativeDir 变量，覆盖同名默认值"
+              >
+                <VariablesEditor
+                  key={batchTemplate.id}
+                  value={batchTemplate.variables}
+                  onChange={setBatchTemplateVariables}
+                />
+              </Form.Item>
+            </>
+          )}
+
           <Form.Item
             name="selectedFiles"
             label={
@@ -1928,6 +1766,20 @@ interface WorkflowStep {
             />
           </Form.Item>
 
+          {batchTemplate && batchSelectedFiles && batchSelectedFiles.length > 0 && (
+            <Form.Item label={`预览（${batchSelectedFiles.length} 个任务）`}>
+              <TemplatePreviewTable
+                rows={previewTemplateParameters(
+                  batchTemplate.workflows,
+                  batchParameters,
+                  batchTemplateVariables ?? batchTemplate.variables,
+                  batchSelectedFiles.map(fileValue => JSON.parse(fileValue))
+                )}
+                getGroupName={row => getBatchGroupName({ namePattern: batchNamePattern, namePrefix: batchNamePrefix }, row.variables.fileName)}
+              />
+            </Form.Item>
+          )}
+
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit">
@@ -2017,6 +1869,7 @@ interface WorkflowStep {
           setIsDetailModalVisible(false);
           setSelectedTask(null);
           setSelectedExecutionContext(null);
+          setTaskVariablesDraft(undefined);
         }}
         footer={null}
         width={1200}
@@ -2025,6 +1878,14 @@ interface WorkflowStep {
       >
         {selectedTask?.template && (
           <div style={{ padding: '16px' }}>
+            {/* 重新执行步骤期间可停止，与任务执行共用停止控制器 */}
+            {executingTasks.has(selectedTask.id) && !selectedExecutionContext?.isRunning && (
+              <div style={{ marginBottom: '16px', textAlign: 'right' }}>
+                <Button danger icon={<StopOutlined />} onClick={() => stopTask(selectedTask.id)}>
+                  停止执行
+                </Button>
+              </div>
+            )}
             {/* 执行状态信息提示 */}
             {selectedExecutionContext?.isRunning && selectedExecutionContext.taskExecution && (
               <Card style={{ marginBottom: '16px', backgroundColor: '#f6ffed', borderColor: '#b7eb8f' }}>
@@ -2052,6 +1913,31 @@ interface WorkflowStep {
               </Card>
             )}
             
+            {/* 任务变量 */}
+            <Card
+              title="任务变量"
+              size="small"
+              style={{ marginBottom: '16px' }}
+              extra={
+                <Button
+                  type="primary"
+                  size="small"
+                  disabled={!taskVariablesDraft}
+                  onClick={handleSaveTaskVariables}
+                >
+                  保存变量
+                </Button>
+              }
+            >
+              <VariablesEditor
+                key={selectedTask.id}
+                value={selectedTask.variables}
+                inherited={selectedTask.template.variables}
+                inheritedLabel="模板默认值"
+                onChange={setTaskVariablesDraft}
+              />
+            </Card>
+
             {/* 工作流列表 */}
             <Card 
               title={
@@ -2128,6 +2014,18 @@ interface WorkflowStep {
                               {workflow.steps && workflow.steps.length > 0 && (
                                 <div style={{ marginTop: '12px' }}>
                                   <Typography.Text strong style={{ fontSize: '14px' }}>步骤列表：</Typography.Text>
+                                  {canResumeWorkflow(workflow.steps) && (
+                                    <Button 
+                                      type="link" 
+                                      size="small"
+                                      icon={<StepForwardOutlined />}
+                                      onClick={() => resumeWorkflow(workflow.id)}
+                                      title="复用已成功步骤的输出，只执行失败、未执行的步骤及其后续步骤"
+                                      disabled={selectedExecutionContext?.isRunning || executingTasks.has(selectedTask.id)}
+                                    >
+                                      从失败处继续
+                                    </Button>
+                                  )}
                                   <div style={{ marginTop: '8px' }}>
                                     {workflow.steps.map((step: any, stepIndex: number) => (
                                       <div key={step.id || stepIndex} style={{ 
@@ -2141,11 +2039,20 @@ interface WorkflowStep {
                                           <Typography.Text type="secondary" style={{ fontSize: '12px', minWidth: '20px' }}>
                                             {stepIndex + 1}.
                                           </Typography.Text>
-                                          <Tag color={step.status === 'success' ? 'green' : step.status === 'error' ? 'red' : step.status === 'running' ? 'blue' : 'default'}>
+                                          <Tag color={step.status === 'success' ? 'green' : step.status === 'error' ? 'red' : step.status === 'running' ? 'blue' : step.status === 'skipped' ? 'orange' : 'default'}>
                                             {step.status === 'success' ? '成功' : 
                                              step.status === 'error' ? '失败' : 
-                                             step.status === 'running' ? '运行中' : '待执行'}
+                                             step.status === 'running' ? '运行中' :
+                                             step.status === 'skipped' ? '跳过' : '待执行'}
                                           </Tag>
+                                          {step.status === 'success' && step.result?.data?.cached && (
+                                            <Tag icon={<DatabaseOutlined />} color="cyan">缓存命中</Tag>
+                                          )}
+                                          {step.status === 'success' && step.previousResult && (
+                                            <Tooltip title="在执行结果中对比新旧输出，选择保留新输出或恢复旧输出">
+                                              <Tag icon={<DiffOutlined />} color="gold">新输出待确认</Tag>
+                                            </Tooltip>
+                                          )}
                                           <Typography.Text style={{ fontSize: '13px' }}>
                                             {step.name || `步骤 ${stepIndex + 1}`}
                                           </Typography.Text>
@@ -2188,7 +2095,7 @@ interface WorkflowStep {
                                               icon={<ReloadOutlined />}
                                               onClick={() => reExecuteStep(workflow.id, step.id)}
                                               title="重新执行此步骤"
-                                              disabled={selectedExecutionContext?.isRunning}
+                                              disabled={selectedExecutionContext?.isRunning || executingTasks.has(selectedTask.id)}
                                             >
                                               重新执行
                                             </Button>
@@ -2198,7 +2105,7 @@ interface WorkflowStep {
                                               icon={<ReloadOutlined />}
                                               onClick={() => reExecuteFromStep(workflow.id, step.id)}
                                               title="从此步骤开始重新向后执行"
-                                              disabled={selectedExecutionContext?.isRunning}
+                                              disabled={selectedExecutionContext?.isRunning || executingTasks.has(selectedTask.id)}
                                             >
                                               从此重新执行
                                             </Button>
@@ -2207,7 +2114,7 @@ interface WorkflowStep {
                                                 type="text" 
                                                 size="small"
                                                 icon={<EyeOutlined />}
-                                                onClick={() => viewStepResult(step)}
+                                                onClick={() => viewStepResult(workflow.id, step)}
                                               >
                                                 查看结果
                                               </Button>
@@ -2239,6 +2146,7 @@ interface WorkflowStep {
         onCancel={() => {
           setIsStepResultModalVisible(false);
           setCurrentStepResult(null);
+          setResultStepKey(null);
         }}
         footer={null}
         width="80%"
@@ -2280,22 +2188,35 @@ interface WorkflowStep {
             </div>
             
             {currentStepResult.data?.content && (
-              <div>
-                <Typography.Text strong>文件内容预览:</Typography.Text>
-                <div style={{ marginTop: '8px' }}>
-                  <CodeMirror
-                    value={currentStepResult.data.content}
-                    extensions={getCodeMirrorExtensions(currentStepResult.data)}
-                    readOnly
-                    style={{
-                      border: '1px solid #d9d9d9',
-                      borderRadius: '4px',
-                      maxHeight: '60vh',
-                      overflow: 'auto'
-                    }}
-                  />
-                </div>
-              </div>
+              <Tabs
+                key={resultStepKey ? `${resultStepKey.workflowId}-${resultStepKey.stepId}` : undefined}
+                defaultActiveKey={resultStep?.previousResult ? 'compare' : 'content'}
+                items={[
+                  {
+                    key: 'content',
+                    label: '文件内容预览',
+                    children: (
+                      <EditableOutputView
+                        content={currentStepResult.data.content}
+                        path={currentStepResult.data.path}
+                        extensions={getCodeMirrorExtensions(currentStepResult.data)}
+                        onSaved={(content, size) => resultStepKey && saveStepOutput(resultStepKey.workflowId, resultStepKey.stepId, content, size)}
+                      />
+                    )
+                  },
+                  ...(resultStepKey && currentStepResult.success && (resultStep?.previousResult || currentStepResult.data.path) ? [{
+                    key: 'compare',
+                    label: resultStep?.previousResult ? '对比新旧输出（待确认）' : '对比新旧输出',
+                    children: (
+                      <OutputComparePanel
+                        result={currentStepResult}
+                        previousResult={resultStep?.previousResult}
+                        onResolve={(result: StepResult) => resolveStepOutput(resultStepKey.workflowId, resultStepKey.stepId, result)}
+                      />
+                    )
+                  }] : [])
+                ]}
+              />
             )}
           </div>
         )}
@@ -0,0 +1,288 @@
+import axios from 'axios';
+import type { AxiosRequestConfig } from 'axios';
+import { setPathSeparator, toPortableWorkflowPaths } from './paths';
+import type { PathSeparator } from './paths';
+import type { ProcessRequest } from './streaming';
+import type { AutoFixRound, ProcessInput, StepResult, Workflow } from './types';
+
+// 后端接口客户端：统一的服务地址、错误对象和各接口的请求/响应类型。
+// 运行记录（/api/runs）、服务端任务（/api/jobs）和文件读写（/api/files）的接口
+// 分别封装在 runHistory.ts、jobs.ts、outputFiles.ts 和 resume.ts 中
+
+// 接口成功时的响应格式
+export interface ApiResponse<T> {
+  success: true;
+  message?: string;
+  data: T;
+}
+
+// 后端错误响应中的 details（不同接口只包含其中一部分）
+export interface ApiErrorDetails {
+  status?: number; // 中转接口：目标接口的原始状态码
+  content?: string; // 中转接口：目标接口的响应文本
+  validationErrors?: string[]; // 文件处理接口：未通过的输出校验项
+  autoFixHistory?: AutoFixRound[]; // 文件处理接口：自动修复记录
+}
+
+// 统一的接口错误：message 为后端返回的 error（或 message），网络错误时没有 status
+export interface ApiError extends Error {
+  name: 'ApiError';
+  status?: number;
+  details?: ApiErrorDetails;
+}
+
+// ========== 服务地址 ==========
+
+const API_BASE_URL_STORAGE_KEY = 'api-base-url';
+
+// 没有 localStorage 时（服务端执行任务）设置的地址保存在内存中
+let memoryBaseUrl: string | null = null;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+// 后端服务地址：页面中设置的地址优先，其次是环境变量 VITE_API_BASE_URL；
+// 为空时请求同源的 /api（开发环境由 Vite 代理转发）
+export const getApiBaseUrl = () =>
+  (hasLocalStorage() ? localStorage.getItem(API_BASE_URL_STORAGE_KEY) : memoryBaseUrl) ?? import.meta.env.VITE_API_BASE_URL ?? '';
+
+// 设置后端服务地址，传入空值时恢复默认
+export const setApiBaseUrl = (baseUrl?: string) => {
+  const value = baseUrl?.trim().replace(/\/+$/, '');
+  if (!hasLocalStorage()) {
+    memoryBaseUrl = value || null;
+  } else if (value) {
+    localStorage.setItem(API_BASE_URL_STORAGE_KEY, value);
+  } else {
+    localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+  }
+  // 新地址的后端可能运行在其他平台上
+  platformInfoRequest = undefined;
+};
+
+// 接口路径对应的完整地址（fetch 等不经过 axios 的请求使用）
+export const resolveApiUrl = (path: string) => `${getApiBaseUrl()}${path}`;
+
+// ========== 错误处理 ==========
+
+export const createApiError = (message: string, status?: number, details?: ApiErrorDetails): ApiError =>
+  Object.assign(new Error(message), { name: 'ApiError' as const, status, details });
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error && error.name === 'ApiError';
+
+// 将 axios 错误转换为统一的接口错误；后端的 details 为字符串时拼接到错误信息中
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+  if (!axios.isAxiosError(error)) {
+    return createApiError(error instanceof Error ? error.message : String(error));
+  }
+  if (!error.response) {
+    return createApiError(`无法连接后端服务（${getApiBaseUrl() || '当前站点'}）: ${error.message}`);
+  }
+
+  const body = error.response.data;
+  const reason = body?.error || body?.message || `请求失败，状态码 ${error.response.status}`;
+  const details = body?.details;
+  return typeof details === 'string'
+    ? createApiError(`${reason}: ${details}`, error.response.status)
+    : createApiError(reason, error.response.status, details);
+};
+
+// ========== 请求 ==========
+
+const client = axios.create();
+
+// 每次请求时读取服务地址，修改设置后立即生效
+client.interceptors.request.use(config => ({ ...config, baseURL: getApiBaseUrl() }));
+
+// 取消请求的错误原样抛出，供调用方区分取消与失败
+client.interceptors.response.use(undefined, error =>
+  Promise.reject(axios.isCancel(error) ? error : toApiError(error)));
+
+// 发送请求并返回响应体
+export const apiRequest = async <T>(config: AxiosRequestConfig): Promise<T> => {
+  const response = await client.request<T>(config);
+  return response.data;
+};
+
+export const apiGet = <T>(url: string, params?: object) => apiRequest<T>({ method: 'GET', url, params });
+
+export const apiPost = <T>(url: string, data?: unknown, options: { signal?: AbortSignal } = {}) =>
+  apiRequest<T>({ method: 'POST', url, data, signal: options.signal });
+
+export const apiDelete = <T>(url: string) => apiRequest<T>({ method: 'DELETE', url });
+
+// ========== 文件处理 ==========
+
+// 文件处理接口（/api/process-file、/api/process-file-direct）的结果
+export type ProcessFileResponse = ApiResponse<NonNullable<StepResult['data']>>;
+
+// apiEndpoint 可带 ?model= 等查询参数
+export const processFile = (apiEndpoint: string, request: ProcessRequest, signal?: AbortSignal) =>
+  apiPost<ProcessFileResponse>(apiEndpoint, request, { signal });
+
+export const generateReact = async (message: string, sessionId?: string) => {
+  const response = await apiPost<{ success: true; reply: string }>('/api/generate-react', { message, sessionId });
+  return response.reply;
+};
+
+export interface RelayRequest {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  bodyTemplate?: string;
+  files?: Record<string, ProcessInput>;
+  timeout?: number;
+}
+
+export interface RelayResult {
+  status: number;
+  headers: Record<string, string>;
+  content: string; // 原始响应文本
+}
+
+// 通过后端转发 HTTP 请求，目标接口返回错误状态码时错误的 details.status 为原始状态码
+export const relayRequest = async (request: RelayRequest, signal?: AbortSignal) => {
+  const response = await apiPost<ApiResponse<RelayResult>>('/api/relay', request, { signal });
+  return response.data;
+};
+
+// ========== 文件列表 ==========
+
+// 后端运行的平台（/api/platform），读取后按其路径分隔符转换发送和显示的路径
+export interface PlatformInfo {
+  platform: string; // 即后端的 process.platform，如 win32、linux、darwin
+  separator: PathSeparator;
+}
+
+let platformInfoRequest: Promise<PlatformInfo> | undefined;
+
+// 读取后端平台信息，结果在切换后端服务地址前复用；读取失败时下次重新请求
+export const loadPlatformInfo = () => {
+  platformInfoRequest ??= apiGet<ApiResponse<PlatformInfo>>('/api/platform')
+    .then(response => {
+      setPathSeparator(response.data.separator);
+      return response.data;
+    })
+    .catch(error => {
+      platformInfoRequest = undefined;
+      throw error;
+    });
+  return platformInfoRequest;
+};
+
+// 列出目录下指定类型的文件，返回以 / 分隔的相对路径
+export const listFiles = async (folderPath: string, fileType: string) => {
+  const response = await apiPost<ApiResponse<string[]>>('/api/list-files', { folderPath, fileType });
+  return response.data;
+};
+
+// ========== 配置 ==========
+
+// 工作流配置（/api/config/*）
+export interface AppConfig {
+  workflows?: Workflow[];
+  workflowOrder?: string[];
+  currentWorkflow?: Workflow;
+  lastUpdated?: string;
+  version?: string;
+  [key: string]: unknown;
+}
+
+// 保存在配置中的工作流组（任务），其余字段由各页面自行维护
+export interface StoredWorkflowGroup {
+  id: string;
+  name: string;
+  template?: { workflows: Workflow[]; workflowOrder?: string[] };
+}
+
+// 多文件流配置（/api/multi-stream/*），保存工作流组（任务）与模板
+export interface MultiStreamConfig {
+  workflowGroups?: StoredWorkflowGroup[];
+  workflowGroupTemplates?: Array<{ id: string; name: string; workflows?: Workflow[] }>;
+  lastUpdated?: string;
+  version?: string;
+  [key: string]: unknown;
+}
+
+// 保存配置的结果
+export interface SavedConfig {
+  path: string;
+  lastUpdated: string;
+}
+
+// 配置文件信息
+export interface ConfigFileInfo {
+  configPath: string;
+  exists: boolean;
+  size: number;
+  lastModified: string | null;
+  streamGroupsCount?: number; // 仅多文件流配置
+}
+
+// 读取配置，配置文件不存在时返回 null
+const loadConfig = async <T>(url: string): Promise<T | null> => {
+  try {
+    const response = await apiGet<ApiResponse<T>>(url);
+    return response.data;
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) return null;
+    throw error;
+  }
+};
+
+export const loadAppConfig = () => loadConfig<AppConfig>('/api/config/load');
+
+// 保存配置时工作流中的路径统一以 / 分隔，配置文件可在不同平台的后端之间共用
+export const saveAppConfig = async (config: AppConfig) => {
+  const response = await apiPost<ApiResponse<SavedConfig>>('/api/config/save', {
+    ...config,
+    workflows: config.workflows?.map(toPortableWorkflowPaths),
+    currentWorkflow: config.currentWorkflow && toPortableWorkflowPaths(config.currentWorkflow)
+  });
+  return response.data;
+};
+
+export const deleteAppConfig = async () => {
+  await apiDelete<{ success: true; message: string }>('/api/config/delete');
+};
+
+export const getAppConfigInfo = async () => {
+  const response = await apiGet<ApiResponse<ConfigFileInfo>>('/api/config/info');
+  return response.data;
+};
+
+export const loadMultiStreamConfig = () => loadConfig<MultiStreamConfig>('/api/multi-stream/load');
+
+export const saveMultiStreamConfig = async (config: MultiStreamConfig) => {
+  const response = await apiPost<ApiResponse<SavedConfig>>('/api/multi-stream/save', {
+    ...config,
+    workflowGroups: config.workflowGroups?.map(group => group.template ? {
+      ...group,
+      template: { ...group.template, workflows: group.template.workflows.map(toPortableWorkflowPaths) }
+    } : group),
+    workflowGroupTemplates: config.workflowGroupTemplates?.map(template => template.workflows ? {
+      ...template,
+      workflows: template.workflows.map(toPortableWorkflowPaths)
+    } : template)
+  });
+  return response.data;
+};
+
+export const getMultiStreamConfigInfo = async () => {
+  const response = await apiGet<ApiResponse<ConfigFileInfo>>('/api/multi-stream/info');
+  return response.data;
+};
+
+// 多文件流组（旧版 streamGroups 配置）的批量处理结果
+export interface MultiStreamProcessResult {
+  streamGroupId: string;
+  streamGroupName: string;
+  totalFiles: number;
+  results: unknown[];
+}
+
+export const processMultiStream = async (streamGroupId: string) => {
+  const response = await apiPost<ApiResponse<MultiStreamProcessResult>>('/api/multi-stream/process', { streamGroupId });
+  return response.data;
+};
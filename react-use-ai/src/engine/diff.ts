@@ -0,0 +1,155 @@
+// 按行对比两段文本（Myers 差异算法），用于对比步骤的新旧输出
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  content: string;
+  oldNumber?: number; // 在旧文本中的行号（从 1 开始），新增的行没有
+  newNumber?: number; // 在新文本中的行号（从 1 开始），删除的行没有
+}
+
+// 并排显示的一行：左侧为旧文本，右侧为新文本，缺少的一侧为空
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// 编辑距离超过该值时不再计算最短差异，直接视为整体替换，避免大文件完全不同时耗时过长
+const MAX_DIFF_EDITS = 2000;
+
+const splitLines = (text: string) => text === '' ? [] : text.split(/\r?\n/);
+
+// 计算 a 到 b 的最短编辑序列，只返回行的类型和内容
+const myersDiff = (a: string[], b: string[]): DiffLine[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // 每一轮开始前 v 在 [-d, d] 范围内的快照，用于回溯编辑路径
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_DIFF_EDITS) {
+      return [
+        ...a.map(content => ({ type: 'removed' as const, content })),
+        ...b.map(content => ({ type: 'added' as const, content }))
+      ];
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+  return [];
+};
+
+// 从终点沿快照回溯出编辑序列
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const snapshot = trace[d];
+    const get = (k: number) => snapshot[k + d];
+    const k = x - y;
+    let prevX = 0;
+    let prevY = 0;
+
+    if (d > 0) {
+      const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+      prevX = get(prevK);
+      prevY = prevX - prevK;
+    }
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', content: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      lines.push(x === prevX ? { type: 'added', content: b[y - 1] } : { type: 'removed', content: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+};
+
+// 按行对比新旧文本，返回带行号的差异行（相同的开头和结尾不参与差异计算）
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = [
+    ...a.slice(0, start).map(content => ({ type: 'equal' as const, content })),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(content => ({ type: 'equal' as const, content }))
+  ];
+
+  let oldNumber = 0;
+  let newNumber = 0;
+  return lines.map(line => ({
+    ...line,
+    oldNumber: line.type === 'added' ? undefined : ++oldNumber,
+    newNumber: line.type === 'removed' ? undefined : ++newNumber
+  }));
+};
+
+// 转换为并排显示的行：连续的删除与新增逐行配对
+export const toSideBySide = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+// 统计新增与删除的行数
+export const countDiffChanges = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, validateExpression } from './expression';
+
+describe('evaluateExpression', () => {
+  it('按优先级计算算术与比较运算', () => {
+    expect(evaluateExpression('1 + 2 * 3', {})).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+    expect(evaluateExpression('10 % 4 == 2 && 3 > 2', {})).toBe(true);
+    expect(evaluateExpression('-2 + 5', {})).toBe(3);
+  });
+
+  it('逻辑运算短路，?? 只在左侧为空时取右侧', () => {
+    expect(evaluateExpression('missing ?? "默认"', { missing: null })).toBe('默认');
+    expect(evaluateExpression('0 ?? 1', {})).toBe(0);
+    expect(evaluateExpression('0 || 1', {})).toBe(1);
+    expect(evaluateExpression('false && missing.value', { missing: undefined })).toBe(false);
+  });
+
+  it('读取上下文中的变量、属性和数组元素', () => {
+    const context = { result: { data: { items: ['a', 'b'] } }, step: { name: '生成' } };
+    expect(evaluateExpression('result.data.items[1]', context)).toBe('b');
+    expect(evaluateExpression('step["name"]', context)).toBe('生成');
+    expect(evaluateExpression('result.missing?.value', context)).toBeUndefined();
+  });
+
+  it('支持三元表达式与字符串转义', () => {
+    expect(evaluateExpression('count > 1 ? "多个" : "单个"', { count: 2 })).toBe('多个');
+    expect(evaluateExpression("'it\\'s'", {})).toBe("it's");
+  });
+
+  it('可以调用白名单中的字符串与数组方法', () => {
+    expect(evaluateExpression('name.toLowerCase().startsWith("user")', { name: 'UserList.jsp' })).toBe(true);
+    expect(evaluateExpression('tags.includes("react")', { tags: ['react', 'antd'] })).toBe(true);
+    expect(evaluateExpression('["a", "b"].join("-")', {})).toBe('a-b');
+  });
+
+  it('禁止调用白名单以外的方法', () => {
+    expect(() => evaluateExpression('name.replace("a", "b")', { name: 'a' })).toThrow();
+  });
+
+  it('禁止访问原型链上的属性', () => {
+    expect(() => evaluateExpression('name.constructor', { name: 'a' })).toThrow();
+    expect(() => evaluateExpression('value.__proto__', { value: {} })).toThrow();
+  });
+});
+
+describe('validateExpression', () => {
+  it('语法正确时不抛出错误', () => {
+    expect(() => validateExpression('a && (b || c.d[0])')).not.toThrow();
+  });
+
+  it('语法错误时抛出带说明的错误', () => {
+    expect(() => validateExpression('"未结束')).toThrow('字符串缺少结束引号');
+    expect(() => validateExpression('(1 + 2')).toThrow();
+    expect(() => validateExpression('1 +')).toThrow();
+  });
+});
@@ -0,0 +1,308 @@
+// 条件表达式求值：自行解析表达式，不使用 eval / new Function，
+// 只能访问上下文中提供的变量、对象自身属性以及白名单中的字符串/数组方法
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'punctuator'; value: string };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'array'; elements: Node[] }
+  | { type: 'member'; object: Node; property: Node; optional: boolean }
+  | { type: 'call'; callee: Node; args: Node[] }
+  | { type: 'unary'; operator: string; argument: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+const PUNCTUATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', '.', ',', '?', ':'];
+
+// 二元运算符优先级，数值越大优先级越高
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1, '??': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+// 禁止访问的属性，防止通过原型链逃逸沙箱
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+const STRING_METHODS = new Set(['includes', 'startsWith', 'endsWith', 'indexOf', 'trim', 'toLowerCase', 'toUpperCase', 'split', 'slice']);
+const ARRAY_METHODS = new Set(['includes', 'indexOf', 'join', 'slice']);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new Error('字符串缺少结束引号');
+      }
+      index++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    // 变量名支持中文等 Unicode 字母（如以中文命名的文件输入）
+    if (/[\p{L}_$]/u.test(char)) {
+      const match = /^[\p{L}_$][\p{L}\p{N}_$]*/u.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      index += match[0].length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, index));
+    if (!punctuator) {
+      throw new Error(`无法识别的字符 "${char}"`);
+    }
+    tokens.push({ type: 'punctuator', value: punctuator });
+    index += punctuator.length;
+  }
+
+  return tokens;
+};
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isPunctuator = (value: string) => peek()?.type === 'punctuator' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isPunctuator(value)) {
+      throw new Error(`表达式缺少 "${value}"`);
+    }
+    position++;
+  };
+
+  const parseExpression = (): Node => {
+    const test = parseBinary(1);
+    if (!isPunctuator('?')) return test;
+    position++;
+    const consequent = parseExpression();
+    expect(':');
+    const alternate = parseExpression();
+    return { type: 'conditional', test, consequent, alternate };
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence = token?.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      position++;
+      const right = parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value as string, left, right };
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isPunctuator('!') || isPunctuator('-') || isPunctuator('+')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      return { type: 'unary', operator, argument: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parseArguments = (closing: string) => {
+    const args: Node[] = [];
+    while (!isPunctuator(closing)) {
+      args.push(parseExpression());
+      if (!isPunctuator(closing)) expect(',');
+    }
+    position++;
+    return args;
+  };
+
+  const parsePostfix = (): Node => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isPunctuator('.') || isPunctuator('?.')) {
+        const optional = peek().value === '?.';
+        position++;
+        const token = tokens[position++];
+        if (token?.type !== 'identifier') {
+          throw new Error('属性访问缺少属性名');
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value }, optional };
+      } else if (isPunctuator('[')) {
+        position++;
+        const property = parseExpression();
+        expect(']');
+        node = { type: 'member', object: node, property, optional: false };
+      } else if (isPunctuator('(')) {
+        position++;
+        node = { type: 'call', callee: node, args: parseArguments(')') };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('表达式不完整');
+    }
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        return token.value in LITERALS
+          ? { type: 'literal', value: LITERALS[token.value] }
+          : { type: 'identifier', name: token.value };
+      default:
+        if (token.value === '(') {
+          const node = parseExpression();
+          expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: parseArguments(']') };
+        }
+        throw new Error(`表达式中出现意外的 "${token.value}"`);
+    }
+  };
+
+  const ast = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`表达式中出现意外的 "${String(tokens[position].value)}"`);
+  }
+  return ast;
+};
+
+// 读取属性：只允许对象自身属性、数组下标以及字符串/数组的 length
+const getProperty = (object: unknown, property: unknown): unknown => {
+  const key = String(property);
+  if (FORBIDDEN_PROPERTIES.has(key)) {
+    throw new Error(`不允许访问属性 "${key}"`);
+  }
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (key === 'length') return object.length;
+    if (/^\d+$/.test(key)) return object[Number(key)];
+  }
+  if (object !== null && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+    return (object as Record<string, unknown>)[key];
+  }
+  return undefined;
+};
+
+const callMethod = (target: unknown, method: string, args: unknown[]): unknown => {
+  if (typeof target === 'string' && STRING_METHODS.has(method)) {
+    return (target[method as keyof string] as (...params: unknown[]) => unknown).apply(target, args);
+  }
+  if (Array.isArray(target) && ARRAY_METHODS.has(method)) {
+    return (target[method as keyof unknown[]] as (...params: unknown[]) => unknown).apply(target, args);
+  }
+  throw new Error(`不支持调用方法 "${method}"`);
+};
+
+const evaluate = (node: Node, context: Record<string, unknown>): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      if (!Object.prototype.hasOwnProperty.call(context, node.name)) {
+        throw new Error(`未知变量 "${node.name}"`);
+      }
+      return context[node.name];
+    case 'array':
+      return node.elements.map(element => evaluate(element, context));
+    case 'member': {
+      const object = evaluate(node.object, context);
+      if (object === null || object === undefined) {
+        if (node.optional) return undefined;
+        throw new Error('无法读取 null 或 undefined 的属性');
+      }
+      return getProperty(object, evaluate(node.property, context));
+    }
+    case 'call': {
+      if (node.callee.type !== 'member') {
+        throw new Error('只支持调用字符串或数组的方法');
+      }
+      const target = evaluate(node.callee.object, context);
+      if ((target === null || target === undefined) && node.callee.optional) return undefined;
+      const method = String(evaluate(node.callee.property, context));
+      return callMethod(target, method, node.args.map(arg => evaluate(arg, context)));
+    }
+    case 'unary': {
+      const value = evaluate(node.argument, context);
+      if (node.operator === '!') return !value;
+      return node.operator === '-' ? -Number(value) : Number(value);
+    }
+    case 'conditional':
+      return evaluate(node.test, context) ? evaluate(node.consequent, context) : evaluate(node.alternate, context);
+    case 'binary': {
+      const left = evaluate(node.left, context);
+      // 逻辑运算短路求值
+      if (node.operator === '&&') return left ? evaluate(node.right, context) : left;
+      if (node.operator === '||') return left ? left : evaluate(node.right, context);
+      if (node.operator === '??') return left ?? evaluate(node.right, context);
+
+      const right = evaluate(node.right, context);
+      const a = left as number;
+      const b = right as number;
+      switch (node.operator) {
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        default:
+          throw new Error(`不支持的运算符 "${node.operator}"`);
+      }
+    }
+  }
+};
+
+// 校验表达式语法，出错时抛出带说明的错误
+export const validateExpression = (source: string) => {
+  parse(source);
+};
+
+// 在给定上下文中计算表达式的值
+export const evaluateExpression = (source: string, context: Record<string, unknown>): unknown =>
+  evaluate(parse(source), context);
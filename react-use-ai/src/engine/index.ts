@@ -0,0 +1,20 @@
+export * from './types';
+export * from './api';
+export * from './paths';
+export * from './stepExecutor';
+export * from './streaming';
+export * from './workflowEngine';
+export * from './resume';
+export * from './diff';
+export * from './outputFiles';
+export * from './validateWorkflow';
+export * from './transforms';
+export * from './expression';
+export * from './template';
+export * from './promptLibrary';
+export * from './variables';
+export * from './templateParameters';
+export * from './retry';
+export * from './runHistory';
+export * from './workflowGroup';
+export * from './jobs';
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiGet, createApiError } from './api';
+import { JOB_POLL_RETRIES, applyJobToWorkflows, watchJob } from './jobs';
+import type { GroupJob, JobStatus } from './jobs';
+import type { Workflow, WorkflowStep } from './types';
+
+vi.mock('./api', async importOriginal => ({ ...await importOriginal<typeof import('./api')>(), apiGet: vi.fn() }));
+
+const mockedGet = vi.mocked(apiGet);
+
+const createStep = (id: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  id,
+  name: id,
+  description: '',
+  type: 'file_process',
+  config: {},
+  dependencies: [],
+  status: 'pending',
+  order: 1,
+  ...overrides
+});
+
+const createWorkflow = (id: string, steps: WorkflowStep[]): Workflow => ({
+  id,
+  name: id,
+  description: '',
+  steps,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const createJob = (status: JobStatus, workflows: Workflow[] = []): GroupJob => ({
+  id: 'job',
+  kind: 'group',
+  targetId: 'group',
+  targetName: '任务',
+  status,
+  progress: status === 'running' ? 50 : 100,
+  currentWorkflowIndex: 0,
+  totalWorkflows: workflows.length,
+  completedWorkflows: 0,
+  partialWorkflows: 0,
+  failedWorkflows: 0,
+  errors: [],
+  startedAt: '2026-01-01T00:00:00.000Z',
+  runId: 'run-job',
+  workflows
+});
+
+const respond = (job: GroupJob) => ({ success: true as const, data: job });
+
+describe('watchJob', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockedGet.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('轮询到任务结束，每次获取到状态时回调', async () => {
+    mockedGet
+      .mockResolvedValueOnce(respond(createJob('running')))
+      .mockResolvedValueOnce(respond(createJob('completed')));
+    const updates: JobStatus[] = [];
+
+    const promise = watchJob('job', job => updates.push(job.status));
+    await vi.runAllTimersAsync();
+
+    expect((await promise).status).toBe('completed');
+    expect(updates).toEqual(['running', 'completed']);
+    expect(mockedGet).toHaveBeenCalledWith('/api/jobs/job');
+  });
+
+  it('获取状态暂时失败时重试后继续轮询', async () => {
+    mockedGet
+      .mockRejectedValueOnce(createApiError('网关错误', 502))
+      .mockRejectedValueOnce(createApiError('无法连接后端服务'))
+      .mockResolvedValueOnce(respond(createJob('completed')));
+
+    const promise = watchJob('job', () => {});
+    await vi.runAllTimersAsync();
+
+    expect((await promise).status).toBe('completed');
+    expect(mockedGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('连续失败超过重试次数时抛出错误', async () => {
+    mockedGet.mockRejectedValue(createApiError('网关错误', 502));
+
+    const assertion = expect(watchJob('job', () => {})).rejects.toThrow('网关错误');
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(mockedGet).toHaveBeenCalledTimes(JOB_POLL_RETRIES + 1);
+  });
+
+  it('任务不存在（404）时不重试', async () => {
+    mockedGet.mockRejectedValue(createApiError('任务不存在', 404));
+
+    const assertion = expect(watchJob('job', () => {})).rejects.toThrow('任务不存在');
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('停止轮询时返回最近一次获取到的状态，不再请求', async () => {
+    const controller = new AbortController();
+    mockedGet.mockResolvedValue(respond(createJob('running')));
+
+    const promise = watchJob('job', () => controller.abort(), controller.signal);
+    await vi.runAllTimersAsync();
+
+    expect((await promise).status).toBe('running');
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('applyJobToWorkflows', () => {
+  it('按工作流ID和步骤ID同步步骤状态，不修改传入的工作流', () => {
+    const workflows = [
+      createWorkflow('w1', [createStep('s1', { config: { outputFileName: 'a.tsx' } }), createStep('s2')]),
+      createWorkflow('w2', [createStep('s3')])
+    ];
+    const result = { success: true, message: '完成' };
+    const job = createJob('running', [
+      createWorkflow('w1', [createStep('s1', { status: 'success', result, attempts: [{ attempt: 1 }], maxAttempts: 3 })])
+    ]);
+
+    const updated = applyJobToWorkflows(workflows, job);
+
+    expect(updated[0].steps[0]).toMatchObject({ status: 'success', result, attempts: [{ attempt: 1 }], maxAttempts: 3, config: { outputFileName: 'a.tsx' } });
+    expect(updated[0].steps[1]).toBe(workflows[0].steps[1]);
+    expect(updated[1]).toBe(workflows[1]);
+    expect(workflows[0].steps[0].status).toBe('pending');
+  });
+});
@@ -0,0 +1,133 @@
+import { apiGet, apiPost } from './api';
+import { getErrorStatus, isAbortError, retryWithBackoff } from './retry';
+import type { ApiResponse } from './api';
+import type { Workflow } from './types';
+
+// 服务端任务：任务（工作流组）提交到后端执行，浏览器刷新或关闭后仍继续执行，
+// 页面通过轮询任务状态显示进度，并在加载时重新关联运行中的任务
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export interface GroupJobSummary {
+  id: string;
+  kind: 'group';
+  targetId: string; // 任务（工作流组）ID
+  targetName: string;
+  status: JobStatus;
+  progress: number;
+  currentWorkflowIndex: number;
+  totalWorkflows: number;
+  completedWorkflows: number;
+  partialWorkflows: number;
+  failedWorkflows: number;
+  errors: Array<{ workflowName: string; message: string }>;
+  startedAt: string;
+  finishedAt?: string;
+  runId: string; // 对应的运行记录ID
+  variables?: Record<string, string>; // 任务模板与任务上的变量（覆盖工作流上的同名变量）
+}
+
+export interface GroupJob extends GroupJobSummary {
+  // 工作流快照，步骤状态与结果随执行更新
+  workflows: Workflow[];
+}
+
+// 轮询任务状态的间隔（毫秒）
+export const JOB_POLL_INTERVAL = 1500;
+// 获取任务状态失败（网络波动、后端重启）时按指数退避重试的次数，连续失败超过后停止轮询并抛出错误
+export const JOB_POLL_RETRIES = 5;
+
+export const isJobFinished = (job: Pick<GroupJobSummary, 'status'>) => !['queued', 'running'].includes(job.status);
+
+// forceRefresh 时任务中的文件处理步骤忽略步骤结果缓存，variables 覆盖各工作流上的同名变量
+export const submitGroupJob = async (
+  group: { id: string; name: string },
+  workflows: Workflow[],
+  forceRefresh = false,
+  variables?: Record<string, string>
+): Promise<GroupJob> => {
+  const response = await apiPost<ApiResponse<GroupJob>>('/api/jobs', { targetId: group.id, targetName: group.name, workflows, forceRefresh, variables });
+  return response.data;
+};
+
+export const getJob = async (jobId: string): Promise<GroupJob> => {
+  const response = await apiGet<ApiResponse<GroupJob>>(`/api/jobs/${jobId}`);
+  return response.data;
+};
+
+export const listJobs = async (filter: { targetId?: string; status?: JobStatus } = {}): Promise<GroupJobSummary[]> => {
+  const response = await apiGet<ApiResponse<GroupJobSummary[]>>('/api/jobs', filter);
+  return response.data;
+};
+
+export const cancelJob = async (jobId: string): Promise<GroupJob> => {
+  const response = await apiPost<ApiResponse<GroupJob>>(`/api/jobs/${jobId}/cancel`);
+  return response.data;
+};
+
+// 运行中的任务，用于页面加载时重新关联
+export const listRunningJobs = async () => {
+  const jobs = await listJobs();
+  return jobs.filter(job => !isJobFinished(job));
+};
+
+// 轮询间隔的等待，signal 触发时提前结束
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 轮询任务直到结束，每次获取到最新状态时回调；signal 触发后停止轮询（不会取消任务）。
+// 获取状态失败时按指数退避重试，任务不存在（404）时不重试
+export const watchJob = async (
+  jobId: string,
+  onUpdate: (job: GroupJob) => void,
+  signal?: AbortSignal
+): Promise<GroupJob> => {
+  let latest: GroupJob | undefined;
+  for (;;) {
+    try {
+      latest = await retryWithBackoff(() => getJob(jobId), {
+        retries: JOB_POLL_RETRIES,
+        baseDelay: JOB_POLL_INTERVAL,
+        signal,
+        shouldRetry: error => getErrorStatus(error) !== 404
+      });
+    } catch (error) {
+      // 重试等待期间停止轮询时返回最近一次获取到的状态
+      if (isAbortError(error) && latest) return latest;
+      throw error;
+    }
+    if (signal?.aborted) return latest;
+    onUpdate(latest);
+    if (isJobFinished(latest)) return latest;
+
+    await sleep(JOB_POLL_INTERVAL, signal);
+    if (signal?.aborted) return latest;
+  }
+};
+
+// 将任务快照中的步骤状态同步到工作流上（按工作流ID和步骤ID匹配），返回新的工作流列表，不修改传入的工作流
+export const applyJobToWorkflows = (workflows: Workflow[], job: GroupJob): Workflow[] => {
+  const jobWorkflows = new Map(job.workflows.map(workflow => [workflow.id, workflow]));
+  return workflows.map(workflow => {
+    const jobSteps = new Map((jobWorkflows.get(workflow.id)?.steps || []).map(step => [step.id, step]));
+    if (jobSteps.size === 0) return workflow;
+    return {
+      ...workflow,
+      steps: workflow.steps.map(step => {
+        const jobStep = jobSteps.get(step.id);
+        return jobStep
+          ? { ...step, status: jobStep.status, result: jobStep.result, attempts: jobStep.attempts, maxAttempts: jobStep.maxAttempts }
+          : step;
+      })
+    };
+  });
+};
@@ -0,0 +1,27 @@
+import { apiPost } from './api';
+import type { ApiResponse } from './api';
+import type { StepResult } from './types';
+
+// 步骤输出文件的读取与写回（对比新旧输出、恢复旧输出、保存手动修改时使用）
+
+// 读取磁盘上的文件内容
+export const readOutputFile = async (path: string): Promise<string> => {
+  const response = await apiPost<ApiResponse<{ path: string; content: string }>>('/api/files/read', { path });
+  return response.data.content;
+};
+
+// 将内容写入文件（目录不存在时自动创建），返回写入后的文件大小
+export const writeOutputFile = async (path: string, content: string): Promise<{ path: string; size: string }> => {
+  const response = await apiPost<ApiResponse<{ path: string; size: string }>>('/api/files/write', { path, content });
+  return response.data;
+};
+
+// 将内容写入步骤的输出文件，返回内容更新后的步骤结果
+export const writeStepOutput = async (result: StepResult, content: string): Promise<StepResult> => {
+  const path = result.data?.path;
+  if (!path) {
+    throw new Error('步骤结果中没有输出文件路径');
+  }
+  const { size } = await writeOutputFile(path, content);
+  return { ...result, data: { ...result.data, content, size } };
+};
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  basename,
+  dirname,
+  extname,
+  getPathSeparator,
+  joinPath,
+  setPathSeparator,
+  stem,
+  toPlatformPath,
+  toPortablePath,
+  toPortableWorkflowPaths
+} from './paths';
+import type { Workflow } from './types';
+
+describe('路径转换', () => {
+  afterEach(() => {
+    setPathSeparator('/');
+  });
+
+  it('保存时统一为 / 分隔', () => {
+    expect(toPortablePath('E:\\work\\src\\App.tsx')).toBe('E:/work/src/App.tsx');
+  });
+
+  it('按后端平台的分隔符显示和发送路径', () => {
+    expect(getPathSeparator()).toBe('/');
+    expect(toPlatformPath('E:\\work/src')).toBe('E:/work/src');
+    setPathSeparator('\\');
+    expect(toPlatformPath('E:/work/src')).toBe('E:\\work\\src');
+    expect(toPlatformPath('E:/work/src', '/')).toBe('E:/work/src');
+  });
+
+  it('转换工作流中全部步骤的文件路径和输出目录，不修改传入的工作流', () => {
+    const workflow = {
+      id: 'w',
+      name: 'w',
+      description: '',
+      steps: [{
+        id: 's',
+        name: 's',
+        description: '',
+        type: 'file_process',
+        config: { fileInputs: [{ id: 'f', name: 'jsp', path: 'E:\\src\\a.jsp' }], outputFolder: 'E:\\out' },
+        dependencies: [],
+        status: 'pending',
+        order: 1
+      }],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } satisfies Workflow;
+
+    const { config } = toPortableWorkflowPaths(workflow).steps[0];
+
+    expect(config.fileInputs?.[0].path).toBe('E:/src/a.jsp');
+    expect(config.outputFolder).toBe('E:/out');
+    expect(workflow.steps[0].config.outputFolder).toBe('E:\\out');
+  });
+});
+
+describe('路径拼接与拆分', () => {
+  it('拼接时忽略空的部分和多余的分隔符', () => {
+    expect(joinPath('E:\\work\\', '', '/src/', 'App.tsx')).toBe('E:/work/src/App.tsx');
+    expect(joinPath('/root', 'a')).toBe('/root/a');
+    expect(joinPath('', 'a', 'b')).toBe('a/b');
+  });
+
+  it('同时支持 / 与 \\ 分隔的路径', () => {
+    expect(dirname('E:\\work/src\\App.tsx')).toBe('E:\\work/src');
+    expect(dirname('App.tsx')).toBe('');
+    expect(basename('E:\\work\\App.tsx')).toBe('App.tsx');
+  });
+
+  it('扩展名与不含扩展名的文件名', () => {
+    expect(extname('src/user.list.jsp')).toBe('.jsp');
+    expect(extname('src/.env')).toBe('');
+    expect(stem('src\\user.list.jsp')).toBe('user.list');
+  });
+});
@@ -0,0 +1,62 @@
+import type { Workflow, WorkflowStep } from './types';
+
+// 路径：配置中保存以 / 分隔的路径（与后端运行的平台无关），发送给后端或显示时按后端平台的分隔符转换。
+// 后端读写文件前同样会转换为其平台的格式（见服务端 workflow/paths.js），分隔符由 loadPlatformInfo 读取
+
+export type PathSeparator = '/' | '\\';
+
+// 后端平台的路径分隔符，读取平台信息前默认为 /
+let platformSeparator: PathSeparator = '/';
+
+export const getPathSeparator = () => platformSeparator;
+
+export const setPathSeparator = (separator: PathSeparator) => {
+  platformSeparator = separator;
+};
+
+// 以 / 分隔的路径，用于保存和拼接
+export const toPortablePath = (path: string) => path.replace(/\\/g, '/');
+
+// 后端平台格式的路径，用于发送给后端和显示
+export const toPlatformPath = (path: string, separator: PathSeparator = platformSeparator) =>
+  separator === '\\' ? path.replace(/\//g, '\\') : toPortablePath(path);
+
+// 拼接路径：忽略空的部分和多余的分隔符，结果以 / 分隔
+export const joinPath = (...parts: string[]) => {
+  const [first = '', ...rest] = parts.filter(Boolean).map(toPortablePath);
+  return rest.reduce((joined, part) => {
+    const segment = part.replace(/^\/+|\/+$/g, '');
+    return segment ? `${joined.replace(/\/+$/, '')}/${segment}` : joined;
+  }, first);
+};
+
+const lastSeparator = (path: string) => Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+
+// 目录部分（同时支持 / 与 \），没有目录时为空
+export const dirname = (path: string) => lastSeparator(path) === -1 ? '' : path.slice(0, lastSeparator(path));
+
+export const basename = (path: string) => path.slice(lastSeparator(path) + 1);
+
+export const extname = (path: string) => {
+  const name = basename(path);
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? name.slice(dotIndex) : '';
+};
+
+// 不含扩展名的文件名
+export const stem = (path: string) => basename(path).slice(0, basename(path).length - extname(path).length);
+
+// 步骤配置中的文件路径、输出目录转换为以 / 分隔，保存配置前调用
+export const toPortableStepPaths = (step: WorkflowStep): WorkflowStep => ({
+  ...step,
+  config: {
+    ...step.config,
+    fileInputs: step.config.fileInputs?.map(input => ({ ...input, path: toPortablePath(input.path) })),
+    outputFolder: step.config.outputFolder && toPortablePath(step.config.outputFolder)
+  }
+});
+
+export const toPortableWorkflowPaths = (workflow: Workflow): Workflow => ({
+  ...workflow,
+  steps: (workflow.steps || []).map(toPortableStepPaths)
+});
@@ -0,0 +1,118 @@
+import { apiDelete, apiGet, apiPost, loadAppConfig, loadMultiStreamConfig } from './api';
+import type { ApiResponse } from './api';
+import type { PromptPartialResolver } from './template';
+import type { Workflow, WorkflowStep } from './types';
+
+// 提示词库：可复用的提示词片段，提示词中以 {{> 片段ID}} 引用最新版本，{{> 片段ID@版本号}} 固定引用某个版本；
+// 修改片段内容时后端保存为新版本，历史版本保留（服务端见 workflow/promptLibrary.js）
+
+export interface PromptSnippetVersion {
+  version: number; // 从 1 开始递增
+  content: string;
+  note?: string; // 修改说明
+  createdAt: string;
+}
+
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  description?: string;
+  versions: PromptSnippetVersion[]; // 按版本号升序
+  updatedAt?: string;
+}
+
+// 保存片段的参数：内容与最新版本不同时追加新版本
+export interface SavePromptSnippetRequest {
+  id: string;
+  name: string;
+  description?: string;
+  content: string;
+  note?: string;
+}
+
+// 片段ID只允许字母、数字、下划线和连字符
+export const PROMPT_SNIPPET_ID_PATTERN = /^[\w-]+$/;
+
+// 提示词中的片段引用：{{> 片段ID}} 或 {{> 片段ID@版本号}}
+const SNIPPET_REFERENCE_PATTERN = /\{\{\s*>\s*([\w-]+)(?:@(\d+))?\s*\}\}/g;
+
+export const listPromptSnippets = async () => {
+  const response = await apiGet<ApiResponse<PromptSnippet[]>>('/api/prompts');
+  return response.data;
+};
+
+export const savePromptSnippet = async (request: SavePromptSnippetRequest) => {
+  const response = await apiPost<ApiResponse<PromptSnippet>>('/api/prompts/save', request);
+  return response.data;
+};
+
+export const deletePromptSnippet = async (id: string) => {
+  await apiDelete<{ success: true; message: string }>(`/api/prompts/${encodeURIComponent(id)}`);
+};
+
+export const getLatestSnippetVersion = (snippet: PromptSnippet): PromptSnippetVersion | undefined =>
+  snippet.versions[snippet.versions.length - 1];
+
+// 步骤的提示词是否引用了提示词库中的片段
+export const usesPromptSnippets = (step: WorkflowStep) =>
+  (step.config.promptInputs || []).some(({ content }) => /\{\{\s*>/.test(content));
+
+// 根据片段列表创建模板中 {{> 片段ID}} 的解析函数，未指定版本时使用最新版本
+export const createPartialResolver = (snippets: PromptSnippet[]): PromptPartialResolver => (id, version) => {
+  const snippet = snippets.find(item => item.id === id);
+  if (!snippet || snippet.versions.length === 0) {
+    throw new Error(`提示词库中没有片段 "${id}"`);
+  }
+  const target = version === undefined
+    ? getLatestSnippetVersion(snippet)
+    : snippet.versions.find(item => item.version === version);
+  if (!target) {
+    throw new Error(`提示词片段 "${id}" 没有版本 ${version}`);
+  }
+  return target.content;
+};
+
+// 提示词引用了提示词库片段时读取最新的提示词库，否则不请求
+export const loadPartialResolver = async (step: WorkflowStep) =>
+  usesPromptSnippets(step) ? createPartialResolver(await listPromptSnippets()) : undefined;
+
+// 片段被引用的位置
+export interface PromptSnippetUsage {
+  snippetId: string;
+  version?: number; // 固定引用的版本，引用最新版本时为空
+  source: string; // 工作流所在位置，如 “工作流配置”、“任务 "xxx"”
+  workflowId: string;
+  workflowName: string;
+  stepId: string;
+  stepName: string;
+}
+
+// 查找工作流中对提示词片段的引用，sources 为各处保存的工作流及其所在位置
+export const findPromptSnippetUsages = (sources: Array<{ source: string; workflows: Workflow[] }>): PromptSnippetUsage[] =>
+  sources.flatMap(({ source, workflows }) => workflows.flatMap(workflow => (workflow.steps || []).flatMap(step =>
+    (step.config.promptInputs || []).flatMap(({ content }) =>
+      [...content.matchAll(SNIPPET_REFERENCE_PATTERN)].map(match => ({
+        snippetId: match[1],
+        version: match[2] ? Number(match[2]) : undefined,
+        source,
+        workflowId: workflow.id,
+        workflowName: workflow.name,
+        stepId: step.id,
+        stepName: step.name
+      }))))));
+
+// 读取工作流配置与任务配置（含任务模板），查找其中全部的片段引用
+export const loadPromptSnippetUsages = async () => {
+  const [appConfig, multiStreamConfig] = await Promise.all([loadAppConfig(), loadMultiStreamConfig()]);
+  return findPromptSnippetUsages([
+    { source: '工作流配置', workflows: appConfig?.workflows ?? [] },
+    ...(multiStreamConfig?.workflowGroupTemplates ?? []).map(template => ({
+      source: `任务模板 "${template.name}"`,
+      workflows: template.workflows ?? []
+    })),
+    ...(multiStreamConfig?.workflowGroups ?? []).map(group => ({
+      source: `任务 "${group.name}"`,
+      workflows: group.template?.workflows ?? []
+    }))
+  ]);
+};
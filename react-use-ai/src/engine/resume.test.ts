@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { apiPost } from './api';
+import { canResumeWorkflow, getDownstreamStepIds, getResumePlan, prepareResume } from './resume';
+import type { StepResult, WorkflowStep } from './types';
+
+vi.mock('./api', async importOriginal => ({ ...await importOriginal<typeof import('./api')>(), apiPost: vi.fn() }));
+
+const succeeded = (path?: string): Partial<WorkflowStep> => ({
+  status: 'success',
+  result: { success: true, message: '完成', data: path ? { path } : { content: '内容' } }
+});
+
+const failed: Partial<WorkflowStep> = { status: 'error', result: { success: false, message: '失败' } };
+
+const createStep = (id: string, dependencies: string[] = [], overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  id,
+  name: id,
+  description: '',
+  type: 'file_process',
+  config: {},
+  dependencies,
+  status: 'pending',
+  order: 1,
+  ...overrides
+});
+
+describe('getDownstreamStepIds', () => {
+  it('包含指定步骤以及直接和间接依赖它们的步骤，按步骤列表顺序返回', () => {
+    const steps = [createStep('c', ['b']), createStep('a'), createStep('b', ['a']), createStep('d')];
+    expect(getDownstreamStepIds(steps, ['a'])).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('canResumeWorkflow', () => {
+  it('已有成功的步骤且还有未成功的步骤时可以继续', () => {
+    expect(canResumeWorkflow([createStep('a', [], succeeded()), createStep('b', ['a'], failed)])).toBe(true);
+    expect(canResumeWorkflow([createStep('a', [], succeeded())])).toBe(false);
+    expect(canResumeWorkflow([createStep('a', [], failed)])).toBe(false);
+  });
+});
+
+describe('getResumePlan', () => {
+  it('复用成功步骤的结果，重新执行失败步骤及其后续步骤', () => {
+    const steps = [
+      createStep('a', [], succeeded('out/a.txt')),
+      createStep('b', ['a'], failed),
+      createStep('c', ['b'], succeeded()),
+      createStep('d', [], succeeded())
+    ];
+
+    const plan = getResumePlan(steps);
+
+    expect(plan.stepIds).toEqual(['b', 'c']);
+    expect(plan.reusedStepIds).toEqual(['a', 'd']);
+    expect(plan.previousResults.get('a')).toBe(steps[0].result);
+  });
+
+  it('输出文件已不存在的步骤需要重新执行', () => {
+    const steps = [createStep('a', [], succeeded('out/a.txt')), createStep('b', ['a'], failed)];
+
+    expect(getResumePlan(steps, new Set(['out/a.txt'])).stepIds).toEqual(['a', 'b']);
+  });
+
+  it('复用的条件步骤不满足时，其后续步骤保持跳过', () => {
+    const conditionResult: StepResult = { success: true, message: '条件不满足', data: { passed: false } };
+    const steps = [
+      createStep('check', [], { type: 'condition', status: 'success', result: conditionResult }),
+      createStep('a', ['check'], { status: 'skipped' }),
+      createStep('b', [], failed)
+    ];
+
+    expect(getResumePlan(steps).stepIds).toEqual(['b']);
+  });
+});
+
+describe('prepareResume', () => {
+  it('查询成功步骤的输出文件，按已不存在的文件计算范围', async () => {
+    vi.mocked(apiPost).mockResolvedValueOnce({ success: true, data: { 'out/a.txt': false, 'out/b.txt': true } });
+    const steps = [
+      createStep('a', [], succeeded('out/a.txt')),
+      createStep('b', [], succeeded('out/b.txt')),
+      createStep('c', ['a', 'b'], failed)
+    ];
+
+    const plan = await prepareResume(steps);
+
+    expect(apiPost).toHaveBeenCalledWith('/api/files/exists', { paths: ['out/a.txt', 'out/b.txt'] });
+    expect(plan.stepIds).toEqual(['a', 'c']);
+    expect(plan.reusedStepIds).toEqual(['b']);
+  });
+});
@@ -0,0 +1,80 @@
+import { apiPost } from './api';
+import type { ApiResponse } from './api';
+import type { StepResults } from './stepExecutor';
+import type { WorkflowStep } from './types';
+
+// 从失败处继续执行：复用上次已成功步骤的输出（输出文件仍存在时），
+// 只重新执行失败、跳过或未执行的步骤及其全部后续步骤（按 dependencies 计算）
+
+export interface ResumePlan {
+  // 需要重新执行的步骤
+  stepIds: string[];
+  // 复用的步骤结果，供重新执行的步骤解析依赖
+  previousResults: StepResults;
+  // 复用输出的步骤
+  reusedStepIds: string[];
+}
+
+// 指定步骤以及依赖它们的全部后续步骤，按步骤列表中的顺序返回
+export const getDownstreamStepIds = (steps: WorkflowStep[], stepIds: string[]): string[] => {
+  const affectedIds = new Set(stepIds);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const step of steps) {
+      if (!affectedIds.has(step.id) && step.dependencies.some(depId => affectedIds.has(depId))) {
+        affectedIds.add(step.id);
+        changed = true;
+      }
+    }
+  }
+
+  return steps.filter(step => affectedIds.has(step.id)).map(step => step.id);
+};
+
+const isSucceeded = (step: WorkflowStep) => step.status === 'success' && Boolean(step.result?.success);
+
+// 是否可以从失败处继续：已有成功的步骤，且还有未成功的步骤
+export const canResumeWorkflow = (steps: WorkflowStep[]) =>
+  steps.some(isSucceeded) && steps.some(step => !isSucceeded(step));
+
+// 计算继续执行的范围；missingPaths 为已不存在的输出文件，对应的步骤需要重新执行
+export const getResumePlan = (steps: WorkflowStep[], missingPaths: Set<string> = new Set()): ResumePlan => {
+  const isReusable = (step: WorkflowStep) => {
+    const outputPath = step.result?.data?.path;
+    return isSucceeded(step) && !(outputPath && missingPaths.has(outputPath));
+  };
+
+  // 不可复用的步骤及其后续步骤都需要重新执行（后续步骤即使上次成功，输入也可能变化）
+  const candidateIds = new Set(getDownstreamStepIds(steps, steps.filter(step => !isReusable(step)).map(step => step.id)));
+  const reusedSteps = steps.filter(step => !candidateIds.has(step.id));
+
+  // 复用的条件步骤不满足时，其后续步骤继续保持跳过
+  const failedConditionIds = reusedSteps
+    .filter(step => step.type === 'condition' && step.result?.data?.passed === false)
+    .map(step => step.id);
+  const blockedIds = new Set(getDownstreamStepIds(steps, failedConditionIds));
+
+  return {
+    stepIds: [...candidateIds].filter(id => !blockedIds.has(id)),
+    previousResults: new Map(reusedSteps.map(step => [step.id, step.result!])),
+    reusedStepIds: reusedSteps.map(step => step.id)
+  };
+};
+
+// 查询文件是否存在，返回已不存在的文件路径
+export const findMissingFiles = async (paths: string[]): Promise<Set<string>> => {
+  if (paths.length === 0) return new Set();
+  const { data: exists } = await apiPost<ApiResponse<Record<string, boolean>>>('/api/files/exists', { paths });
+  return new Set(paths.filter(path => !exists[path]));
+};
+
+// 检查已成功步骤的输出文件后计算继续执行的范围
+export const prepareResume = async (steps: WorkflowStep[]): Promise<ResumePlan> => {
+  const outputPaths = steps
+    .filter(isSucceeded)
+    .map(step => step.result?.data?.path)
+    .filter((path): path is string => Boolean(path));
+  return getResumePlan(steps, await findMissingFiles(outputPaths));
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createApiError } from './api';
+import {
+  DEFAULT_RETRY_POLICY,
+  VALIDATION_FAILED_STATUS,
+  createStatusError,
+  getBackoffDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  retryWithBackoff
+} from './retry';
+import type { WorkflowStep } from './types';
+
+const createStep = (overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  id: 'step',
+  name: '步骤',
+  description: '',
+  type: 'file_process',
+  config: {},
+  dependencies: [],
+  status: 'pending',
+  order: 1,
+  ...overrides
+});
+
+describe('resolveRetryPolicy', () => {
+  it('未配置时使用默认策略', () => {
+    expect(resolveRetryPolicy(createStep())).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('步骤的策略覆盖工作流的策略，工作流的策略覆盖默认策略', () => {
+    const policy = resolveRetryPolicy(createStep({ retryPolicy: { maxAttempts: 5 } }), { maxAttempts: 2, baseDelay: 10 });
+    expect(policy).toMatchObject({ maxAttempts: 5, baseDelay: 10, retryableStatuses: DEFAULT_RETRY_POLICY.retryableStatuses });
+  });
+
+  it('兼容 API 调用步骤旧版的重试次数配置', () => {
+    const step = createStep({ type: 'api_call', config: { customSettings: { retryCount: '2' } } });
+    expect(resolveRetryPolicy(step).maxAttempts).toBe(3);
+  });
+
+  it('最大尝试次数至少为 1', () => {
+    expect(resolveRetryPolicy(createStep({ retryPolicy: { maxAttempts: 0 } })).maxAttempts).toBe(1);
+  });
+
+  it('开启校验失败重试时 422 可重试，默认不重试', () => {
+    expect(resolveRetryPolicy(createStep()).retryableStatuses).not.toContain(VALIDATION_FAILED_STATUS);
+    const step = createStep({ config: { validation: { retryOnFailure: true } } });
+    expect(resolveRetryPolicy(step).retryableStatuses).toContain(VALIDATION_FAILED_STATUS);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('有状态码时按状态码判断', () => {
+    expect(isRetryableError(createStatusError('限流', 429), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(createStatusError('请求错误', 400), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(createStatusError('请求错误', 400), { ...DEFAULT_RETRY_POLICY, retryableStatuses: [400] })).toBe(true);
+  });
+
+  it('中转接口的错误按目标接口的原始状态码判断', () => {
+    const error = createApiError('目标接口错误', 502, { status: 400 });
+    expect(isRetryableError(error, DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+
+  it('无法连接后端的接口错误总是重试', () => {
+    expect(isRetryableError(createApiError('无法连接后端服务'), DEFAULT_RETRY_POLICY)).toBe(true);
+  });
+
+  it('没有状态码时按错误信息匹配（不区分大小写）', () => {
+    expect(isRetryableError(new Error('Socket hang up'), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new Error('文件不存在'), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(new Error('文件不存在'), { ...DEFAULT_RETRY_POLICY, retryableErrors: ['不存在'] })).toBe(true);
+  });
+
+  it('取消执行引起的错误不重试', () => {
+    expect(isRetryableError(new DOMException('已取消', 'AbortError'), { ...DEFAULT_RETRY_POLICY, retryableErrors: ['已取消'] })).toBe(false);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('按指数退避计算等待时间', () => {
+    expect([1, 2, 3].map(attempt => getBackoffDelay(attempt, 100))).toEqual([100, 200, 400]);
+  });
+
+  it('失败后重试直到成功，并报告每次重试', async () => {
+    const retries: Array<[number, number]> = [];
+    const result = await retryWithBackoff(async attempt => {
+      if (attempt < 3) throw new Error(`第 ${attempt} 次失败`);
+      return attempt;
+    }, { retries: 3, baseDelay: 1, onRetry: (_, attempt, delay) => retries.push([attempt, delay]) });
+
+    expect(result).toBe(3);
+    expect(retries).toEqual([[2, 1], [3, 2]]);
+  });
+
+  it('超过重试次数时抛出最后一次的错误', async () => {
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      throw new Error(`第 ${calls} 次失败`);
+    };
+
+    await expect(retryWithBackoff(task, { retries: 2, baseDelay: 1 })).rejects.toThrow('第 3 次失败');
+  });
+
+  it('shouldRetry 返回 false 时不再重试', async () => {
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      throw new Error('失败');
+    };
+
+    await expect(retryWithBackoff(task, { retries: 3, baseDelay: 1, shouldRetry: () => false })).rejects.toThrow('失败');
+    expect(calls).toBe(1);
+  });
+
+  it('等待重试时取消会立即结束', async () => {
+    const controller = new AbortController();
+    const promise = retryWithBackoff(async () => {
+      throw new Error('失败');
+    }, { retries: 3, baseDelay: 60000, signal: controller.signal, onRetry: () => controller.abort() });
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,121 @@
+// 失败重试（指数退避）与重试策略
+
+import axios from 'axios';
+import { isApiError } from './api';
+import type { RetryPolicy, StepResult, WorkflowStep } from './types';
+
+export interface RetryOptions {
+  // 失败后的最大重试次数
+  retries: number;
+  // 首次重试前的等待时间（毫秒），之后每次翻倍
+  baseDelay?: number;
+  signal?: AbortSignal;
+  // 判断错误是否值得重试，默认全部重试
+  shouldRetry?: (error: unknown) => boolean;
+  // 每次重试等待前调用，attempt 为即将开始的尝试次数
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+export const DEFAULT_RETRY_BASE_DELAY = 1000;
+
+// 默认重试策略：限流、网关错误和网络异常时最多尝试 3 次
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: DEFAULT_RETRY_BASE_DELAY,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableErrors: ['rate limit', 'timeout', 'ECONNRESET', 'ETIMEDOUT', 'socket hang up', '请求超时', 'Failed to fetch', 'NetworkError', '流式响应中断']
+};
+
+// 判断错误是否由取消执行引起
+export const isAbortError = (error: unknown) =>
+  axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+
+// 读取错误对应的 HTTP 状态码：后端中转接口的原始状态码优先，其次是响应状态码或错误上携带的 status
+export const getErrorStatus = (error: unknown): number | undefined => {
+  if (isApiError(error)) {
+    return error.details?.status ?? error.status;
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+// 创建带 HTTP 状态码的错误，供重试策略判断；data 为失败时仍需记录到步骤结果中的数据（如自动修复记录）
+export const createStatusError = (message: string, status?: number, data?: StepResult['data']) =>
+  Object.assign(new Error(message), { status, data });
+
+// 读取错误上携带的步骤结果数据
+export const getErrorData = (error: unknown): StepResult['data'] =>
+  (error as { data?: StepResult['data'] } | null)?.data;
+
+// 输出未通过校验时后端接口返回的状态码
+export const VALIDATION_FAILED_STATUS = 422;
+
+// 合并步骤、工作流与默认的重试策略（步骤级优先）；步骤开启了校验失败重试时 422 也可重试
+export const resolveRetryPolicy = (step: WorkflowStep, workflowPolicy?: RetryPolicy): Required<RetryPolicy> => {
+  // 兼容旧版 API 调用步骤中的重试次数配置
+  const retryCount = step.config.customSettings?.retryCount;
+  const legacyPolicy = step.type === 'api_call' && retryCount !== undefined && retryCount !== ''
+    ? { maxAttempts: Number(retryCount) + 1 }
+    : undefined;
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...workflowPolicy, ...(step.retryPolicy ?? legacyPolicy) };
+  const retryableStatuses = step.config.validation?.retryOnFailure && !policy.retryableStatuses.includes(VALIDATION_FAILED_STATUS)
+    ? [...policy.retryableStatuses, VALIDATION_FAILED_STATUS]
+    : policy.retryableStatuses;
+  return { ...policy, retryableStatuses, maxAttempts: Math.max(1, policy.maxAttempts) };
+};
+
+// 按重试策略判断错误是否可重试：有状态码时看状态码，无法连接后端的接口错误总是重试，其余按错误信息匹配
+export const isRetryableError = (error: unknown, policy: RetryPolicy) => {
+  if (isAbortError(error)) return false;
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return (policy.retryableStatuses ?? DEFAULT_RETRY_POLICY.retryableStatuses).includes(status);
+  }
+  if (isApiError(error)) return true;
+
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return (policy.retryableErrors ?? DEFAULT_RETRY_POLICY.retryableErrors)
+    .some(text => text && message.includes(text.toLowerCase()));
+};
+
+// 第 attempt 次重试前的等待时间
+export const getBackoffDelay = (attempt: number, baseDelay = DEFAULT_RETRY_BASE_DELAY) =>
+  baseDelay * 2 ** (attempt - 1);
+
+// 可被取消的等待
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('工作流执行已取消', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('工作流执行已取消', 'AbortError'));
+  };
+  // 等待结束后移除监听，避免同一个 signal 上的监听随重试次数累积
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 执行任务，失败后按指数退避重试，超过重试次数时抛出最后一次的错误
+export const retryWithBackoff = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelay, signal, shouldRetry = () => true, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt > retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = getBackoffDelay(attempt, baseDelay);
+      onRetry?.(error, attempt + 1, delay);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,257 @@
+import { apiDelete, apiGet, apiPost } from './api';
+import type { ApiResponse } from './api';
+import { isAbortError } from './retry';
+import { resolveFileInputs } from './stepExecutor';
+import type { StepResults } from './stepExecutor';
+import type { WorkflowEvent, WorkflowRunResult } from './workflowEngine';
+import type { ProcessInput, Workflow, WorkflowStep } from './types';
+
+// 运行记录：每次执行工作流或任务时记录各步骤的状态、输入、输出和错误，保存到后端
+
+export type RunStatus = 'running' | 'success' | 'partial' | 'failed' | 'cancelled';
+
+export interface StepRunRecord {
+  stepId: string;
+  stepName: string;
+  status: WorkflowStep['status'];
+  startedAt?: string;
+  finishedAt?: string;
+  attempts?: number;
+  inputs?: Record<string, ProcessInput>; // 解析后的文件输入（文件名称 -> 输入项）
+  outputPath?: string;
+  outputContent?: string; // 没有输出文件时记录输出内容（过长时截断）
+  message?: string;
+  error?: string;
+}
+
+export interface WorkflowRunRecord {
+  workflowId: string;
+  workflowName: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  steps: StepRunRecord[];
+}
+
+export interface RunRecord {
+  id: string;
+  kind: 'workflow' | 'group';
+  targetId: string; // 工作流ID或任务ID
+  targetName: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  workflows: WorkflowRunRecord[];
+}
+
+// 运行记录列表项（由后端根据完整记录生成）
+export interface RunSummary extends Omit<RunRecord, 'workflows'> {
+  workflowCount: number;
+  stepCounts: { total: number; success: number; error: number; skipped: number };
+}
+
+export const RUN_STATUS_OPTIONS: Record<RunStatus, { color: string; text: string }> = {
+  running: { color: 'processing', text: '运行中' },
+  success: { color: 'success', text: '成功' },
+  partial: { color: 'warning', text: '部分完成' },
+  failed: { color: 'error', text: '失败' },
+  cancelled: { color: 'default', text: '已取消' }
+};
+
+// 输出内容记录的最大长度
+const MAX_OUTPUT_CONTENT_LENGTH = 10000;
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const now = () => new Date().toISOString();
+
+export const saveRunRecord = async (record: RunRecord) => {
+  await apiPost<ApiResponse<{ id: string }>>('/api/runs/save', record);
+};
+
+export const listRunRecords = async (filter: { kind?: RunRecord['kind']; targetId?: string } = {}): Promise<RunSummary[]> => {
+  const response = await apiGet<ApiResponse<RunSummary[]>>('/api/runs/list', filter);
+  return response.data;
+};
+
+export const loadRunRecord = async (runId: string): Promise<RunRecord> => {
+  const response = await apiGet<ApiResponse<RunRecord>>(`/api/runs/${runId}`);
+  return response.data;
+};
+
+export const deleteRunRecord = async (runId: string) => {
+  await apiDelete<{ success: true; message: string }>(`/api/runs/${runId}`);
+};
+
+const createWorkflowRunRecord = (workflow: Workflow): WorkflowRunRecord => ({
+  workflowId: workflow.id,
+  workflowName: workflow.name,
+  status: 'running',
+  startedAt: now(),
+  steps: [...workflow.steps]
+    .sort((a, b) => a.order - b.order)
+    .map(step => ({ stepId: step.id, stepName: step.name, status: 'pending' }))
+});
+
+// 根据所有工作流的结果汇总整次运行的状态
+const getOverallStatus = (workflows: WorkflowRunRecord[]): RunStatus => {
+  if (workflows.some(w => w.status === 'cancelled')) return 'cancelled';
+  if (workflows.every(w => w.status === 'success')) return 'success';
+  if (workflows.every(w => w.status === 'failed')) return 'failed';
+  return 'partial';
+};
+
+// 创建运行记录器：开始时保存一次，之后在步骤结束、工作流结束和整体结束时自动保存，
+// 页面刷新后仍可在运行历史中查看已完成的步骤
+export const createRunRecorder = (kind: RunRecord['kind'], target: { id: string; name: string }, workflows: Workflow[]) => {
+  let record: RunRecord = {
+    id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    targetId: target.id,
+    targetName: target.name,
+    status: 'running',
+    startedAt: now(),
+    workflows: kind === 'workflow' ? workflows.map(createWorkflowRunRecord) : []
+  };
+
+  // 依次保存，避免较早的请求覆盖较新的记录
+  let saving = Promise.resolve();
+  const save = () => {
+    const snapshot = record;
+    saving = saving
+      .then(() => saveRunRecord(snapshot))
+      .catch(error => console.error('保存运行记录失败:', error));
+    return saving;
+  };
+
+  const updateWorkflow = (workflowId: string, update: (workflow: WorkflowRunRecord) => WorkflowRunRecord) => {
+    record = { ...record, workflows: record.workflows.map(w => w.workflowId === workflowId ? update(w) : w) };
+  };
+
+  const updateStep = (workflowId: string, stepId: string, update: Partial<StepRunRecord>) => {
+    updateWorkflow(workflowId, w => ({
+      ...w,
+      steps: w.steps.map(s => s.stepId === stepId ? { ...s, ...update } : s)
+    }));
+  };
+
+  const finishWorkflow = (workflowId: string, status: RunStatus, error?: string) => {
+    updateWorkflow(workflowId, w => ({
+      ...w,
+      status,
+      error,
+      finishedAt: now(),
+      // 未执行到的步骤保持 pending，便于区分“未开始”和“已跳过”
+      steps: w.steps.map(s => s.status === 'running' ? { ...s, status: 'skipped', finishedAt: now() } : s)
+    }));
+    return save();
+  };
+
+  return {
+    getRecord: () => record,
+
+    start: save,
+
+    // 任务中的工作流开始执行时调用（单个工作流运行时已自动开始）
+    startWorkflow: (workflow: Workflow) => {
+      record = {
+        ...record,
+        workflows: [...record.workflows.filter(w => w.workflowId !== workflow.id), createWorkflowRunRecord(workflow)]
+      };
+      return save();
+    },
+
+    // 从失败处继续执行时，将复用上次输出的步骤记为成功
+    reuseSteps: (workflowId: string, results: StepResults) => {
+      results.forEach((result, stepId) => {
+        updateStep(workflowId, stepId, {
+          status: 'success',
+          outputPath: result.data?.path,
+          message: '复用上次执行的输出'
+        });
+      });
+    },
+
+    // 返回指定工作流的引擎事件处理函数；previousResults 用于解析依赖范围外步骤的输出
+    createEventHandler: (workflowId: string, previousResults?: StepResults) => {
+      const results: StepResults = new Map(previousResults);
+
+      return (event: WorkflowEvent) => {
+        switch (event.type) {
+          case 'step:start': {
+            let inputs: Record<string, ProcessInput> | undefined;
+            try {
+              inputs = Object.fromEntries(resolveFileInputs(event.step, results));
+            } catch {
+              inputs = undefined;
+            }
+            updateStep(workflowId, event.step.id, {
+              status: 'running',
+              startedAt: now(),
+              finishedAt: undefined,
+              attempts: 1,
+              inputs,
+              message: undefined,
+              error: undefined
+            });
+            break;
+          }
+          case 'step:retry':
+            updateStep(workflowId, event.step.id, { attempts: event.attempts.length });
+            break;
+          case 'step:success': {
+            results.set(event.step.id, event.result);
+            const { path, content } = event.result.data || {};
+            updateStep(workflowId, event.step.id, {
+              status: 'success',
+              finishedAt: now(),
+              outputPath: path,
+              outputContent: !path && typeof content === 'string' ? content.slice(0, MAX_OUTPUT_CONTENT_LENGTH) : undefined,
+              message: event.result.message
+            });
+            save();
+            break;
+          }
+          case 'step:error':
+            updateStep(workflowId, event.step.id, {
+              status: 'error',
+              finishedAt: now(),
+              attempts: event.attempts.length,
+              message: event.result.message,
+              error: getErrorMessage(event.error)
+            });
+            save();
+            break;
+          case 'step:skipped':
+            updateStep(workflowId, event.step.id, {
+              status: 'skipped',
+              finishedAt: now(),
+              message: event.result.message
+            });
+            break;
+        }
+      };
+    },
+
+    // 工作流执行结束：有失败步骤时记为部分完成
+    completeWorkflow: (workflowId: string, result: WorkflowRunResult) =>
+      finishWorkflow(workflowId, result.failedStepIds.length > 0 ? 'partial' : 'success'),
+
+    // 工作流执行抛出错误：取消或失败
+    failWorkflow: (workflowId: string, error: unknown) =>
+      finishWorkflow(workflowId, isAbortError(error) ? 'cancelled' : 'failed', getErrorMessage(error)),
+
+    // 整次运行结束，未显式指定状态时根据各工作流的结果汇总
+    finish: (status?: RunStatus) => {
+      record = {
+        ...record,
+        status: status ?? (record.workflows.length > 0 ? getOverallStatus(record.workflows) : 'failed'),
+        finishedAt: now()
+      };
+      return save();
+    }
+  };
+};
+
+export type RunRecorder = ReturnType<typeof createRunRecorder>;
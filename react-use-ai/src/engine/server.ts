@@ -0,0 +1,6 @@
+// 服务端入口：后端执行任务（jsp-to-react-ai/workflow/jobs.js）使用的引擎接口，
+// 由 npm run build:engine 打包为 jsp-to-react-ai/workflow/dist/engine.js，与前端共用同一份实现
+export { setApiBaseUrl } from './api';
+export { resolveFileInputs, createStepExecutor } from './stepExecutor';
+export { applyWorkflowEvent, runWorkflow } from './workflowEngine';
+export { isAbortError } from './retry';
@@ -0,0 +1,253 @@
+import { isApiError, processFile, relayRequest } from './api';
+import { evaluateExpression } from './expression';
+import { createStatusError, getErrorStatus } from './retry';
+import { streamProcessFile, supportsStreaming } from './streaming';
+import { loadPartialResolver } from './promptLibrary';
+import { createTemplateScope, renderPromptTemplate } from './template';
+import type { PromptPartialResolver } from './template';
+import { runTransform } from './transforms';
+import { resolveStepVariables } from './variables';
+import type { TransformConfig } from './transforms';
+import type { ProcessInput, StepContext, StepResult, StepStreamOutput, WorkflowStep } from './types';
+
+// 已完成步骤的结果表（步骤ID -> 结果）
+export type StepResults = Map<string, StepResult>;
+
+// 单个步骤的执行函数签名，引擎通过它调用具体的执行逻辑；signal 用于取消进行中的请求，
+// onOutput 用于接收模型的实时输出（仅支持流式输出的步骤会调用），context 为提示词模板中的变量来源
+export type StepExecutor = (
+  step: WorkflowStep,
+  previousResults: StepResults,
+  signal?: AbortSignal,
+  onOutput?: (output: StepStreamOutput) => void,
+  context?: StepContext
+) => Promise<StepResult>;
+
+// 解析步骤的文件输入，返回 文件名称 -> 输入项 的映射；
+// 依赖步骤只有输出内容而没有输出文件时（如数据转换步骤），直接以内容作为输入
+export const resolveFileInputs = (step: WorkflowStep, previousResults: StepResults) => {
+  const { fileInputs = [] } = step.config;
+  const fileInputMap = new Map<string, ProcessInput>();
+
+  for (const fileInput of fileInputs) {
+    // 如果依赖其他步骤，获取其输出路径或输出内容
+    if (fileInput.dependsOn) {
+      const depResult = previousResults.get(fileInput.dependsOn);
+      if (depResult?.success && depResult.data?.path) {
+        fileInputMap.set(fileInput.name, { type: 'file', value: depResult.data.path });
+      } else if (depResult?.success && typeof depResult.data?.content === 'string') {
+        fileInputMap.set(fileInput.name, { type: 'prompt', value: depResult.data.content });
+      } else {
+        throw new Error(`依赖步骤 "${fileInput.dependsOn}" 未成功执行或无输出文件`);
+      }
+      continue;
+    }
+
+    if (!fileInput.path) {
+      throw new Error(`文件 "${fileInput.name}" 缺少有效路径`);
+    }
+
+    fileInputMap.set(fileInput.name, { type: 'file', value: fileInput.path });
+  }
+
+  return fileInputMap;
+};
+
+// 渲染提示词模板（见 template.ts），按引用的文件拆分成 file / prompt 输入项；resolvePartial 用于解析提示词库片段
+export const buildProcessInputs = (
+  step: WorkflowStep,
+  fileInputMap: Map<string, ProcessInput>,
+  context?: StepContext,
+  resolvePartial?: PromptPartialResolver
+): ProcessInput[] => {
+  const { promptInputs = [] } = step.config;
+  const scope = createTemplateScope(step, fileInputMap, context);
+  return promptInputs.flatMap(promptInput => renderPromptTemplate(promptInput.content, scope, resolvePartial));
+};
+
+export interface StepExecutorOptions {
+  // 忽略步骤结果缓存：输入内容未变化时也重新调用模型
+  forceRefresh?: boolean;
+}
+
+// 创建文件处理步骤的执行函数（使用FileProcessForm的API）
+const createFileProcessExecutor = ({ forceRefresh = false }: StepExecutorOptions = {}): StepExecutor => async (step, previousResults, signal, onOutput, context) => {
+  const { fileInputs = [], promptInputs = [], outputFolder, outputFileName, apiEndpoint = '/api/process-file', validation } = step.config;
+
+  // 验证必要参数
+  if (fileInputs.length === 0) {
+    throw new Error('缺少文件输入配置');
+  }
+  if (promptInputs.length === 0) {
+    throw new Error('缺少提示词配置');
+  }
+  if (!outputFolder || !outputFileName) {
+    throw new Error('缺少输出配置');
+  }
+
+  const fileInputMap = resolveFileInputs(step, previousResults);
+  // 提示词引用了提示词库片段时，执行前读取最新的提示词库
+  const resolvePartial = await loadPartialResolver(step);
+  const processedInputs = buildProcessInputs(step, fileInputMap, context, resolvePartial);
+
+  // 构建API请求参数（与FileProcessForm保持一致）
+  const requestData = {
+    inputs: processedInputs,
+    outputFolder,
+    outputFileName,
+    forceRefresh,
+    validation
+  };
+
+  // 直接处理接口使用流式版本，实时输出模型生成的内容
+  if (onOutput && supportsStreaming(apiEndpoint)) {
+    const result = await streamProcessFile(apiEndpoint, requestData, { signal, onOutput });
+    return { ...result, message: `步骤 "${step.name}" 执行成功` };
+  }
+
+  try {
+    const response = await processFile(apiEndpoint, requestData, signal);
+    return {
+      success: true,
+      message: `步骤 "${step.name}" 执行成功`,
+      data: response.data
+    };
+  } catch (error) {
+    // 输出未通过校验时，自动修复记录随错误写入步骤结果
+    if (isApiError(error) && error.details?.autoFixHistory) {
+      throw createStatusError(error.message, getErrorStatus(error), { autoFixHistory: error.details.autoFixHistory });
+    }
+    throw error;
+  }
+};
+
+// 使用FileProcessForm的API执行单个步骤（输入未变化时复用步骤结果缓存）
+export const executeStepWithAPI = createFileProcessExecutor();
+
+// 数据转换步骤：在本地对前置步骤的输出内容执行转换，不调用大模型
+export const executeDataTransformStep: StepExecutor = async (step, previousResults) => {
+  const { fileInputs = [], customSettings = {} } = step.config;
+  const config = customSettings as TransformConfig;
+
+  if (!config.transformType) {
+    throw new Error('缺少转换类型配置');
+  }
+  if (config.transformType !== 'json_to_ts' && !config.expression) {
+    throw new Error('缺少转换表达式配置');
+  }
+
+  // 转换的输入文件，默认使用第一个文件输入
+  const sourceFile = fileInputs.find(file => file.name === customSettings.sourceFile) || fileInputs[0];
+  if (!sourceFile?.dependsOn) {
+    throw new Error('数据转换步骤需要引用前置步骤的输出作为输入');
+  }
+
+  const sourceResult = previousResults.get(sourceFile.dependsOn);
+  if (!sourceResult?.success || typeof sourceResult.data?.content !== 'string') {
+    throw new Error(`依赖步骤 "${sourceFile.dependsOn}" 未成功执行或无输出内容`);
+  }
+
+  const content = runTransform(sourceResult.data.content, config);
+
+  return {
+    success: true,
+    message: `步骤 "${step.name}" 执行成功`,
+    data: {
+      content,
+      size: `${content.length} 字符`
+    }
+  };
+};
+
+// 条件判断步骤：基于依赖步骤的结果计算条件表达式，
+// 表达式中 result 为第一个依赖步骤的结果，results 为全部依赖步骤的结果（按依赖顺序）
+export const executeConditionStep: StepExecutor = async (step, previousResults) => {
+  const condition: string | undefined = step.config.customSettings?.condition;
+
+  if (!condition?.trim()) {
+    throw new Error('缺少条件表达式配置');
+  }
+
+  const results = step.dependencies.map(depId => previousResults.get(depId));
+  let passed: boolean;
+  try {
+    passed = Boolean(evaluateExpression(condition, { result: results[0], results }));
+  } catch (error) {
+    throw new Error(`条件表达式计算失败: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    success: true,
+    message: passed ? '条件满足，继续执行后续步骤' : '条件不满足，跳过后续步骤',
+    data: {
+      passed,
+      content: String(passed)
+    }
+  };
+};
+
+// API调用步骤：通过后端中转接口发送配置的 HTTP 请求，请求体模板中的 {{文件名}} 替换为文件内容
+export const executeApiCallStep: StepExecutor = async (step, previousResults, signal) => {
+  const { customSettings = {} } = step.config;
+  const { apiUrl, method = 'GET', headers, bodyTemplate } = customSettings;
+
+  if (!apiUrl) {
+    throw new Error('缺少 API 地址配置');
+  }
+
+  let parsedHeaders: Record<string, string> = {};
+  if (headers?.trim()) {
+    try {
+      parsedHeaders = JSON.parse(headers);
+    } catch {
+      throw new Error('请求头不是合法的 JSON');
+    }
+  }
+
+  const timeout = Number(customSettings.timeout || 30) * 1000;
+  const files = Object.fromEntries(resolveFileInputs(step, previousResults));
+
+  // 目标接口返回错误状态码时，错误的 details.status 为原始状态码，供重试策略判断
+  const response = await relayRequest({
+    url: apiUrl,
+    method,
+    headers: parsedHeaders,
+    bodyTemplate,
+    files,
+    timeout
+  }, signal);
+
+  return {
+    success: true,
+    message: `步骤 "${step.name}" 执行成功`,
+    data: {
+      content: response.content,
+      status: response.status
+    }
+  };
+};
+
+// 创建按步骤类型选择执行方式的函数，执行前替换步骤配置中的变量
+export const createStepExecutor = (options: StepExecutorOptions = {}): StepExecutor => {
+  const executeFileProcessStep = createFileProcessExecutor(options);
+
+  return async (originalStep, previousResults, signal, onOutput, context) => {
+    const step = resolveStepVariables(originalStep, context?.variables);
+    switch (step.type) {
+      case 'data_transform':
+        return executeDataTransformStep(step, previousResults, signal);
+      case 'condition':
+        return executeConditionStep(step, previousResults, signal);
+      case 'api_call':
+        return executeApiCallStep(step, previousResults, signal);
+      default:
+        return executeFileProcessStep(step, previousResults, signal, onOutput, context);
+    }
+  };
+};
+
+// 按步骤类型选择执行方式
+export const executeStepByType = createStepExecutor();
+
+// 按步骤类型选择执行方式，文件处理步骤忽略步骤结果缓存（强制刷新）
+export const executeStepWithoutCache = createStepExecutor({ forceRefresh: true });
@@ -0,0 +1,128 @@
+import { createApiError, resolveApiUrl } from './api';
+import { createStatusError } from './retry';
+import type { OutputValidation, ProcessInput, StepResult, StepStreamOutput } from './types';
+
+// 流式文件处理：通过直接处理接口的流式版本（SSE）实时接收模型输出
+
+// 文件处理接口的请求参数
+export interface ProcessRequest {
+  inputs: ProcessInput[];
+  outputFolder: string;
+  outputFileName: string;
+  forceRefresh?: boolean; // 忽略步骤结果缓存，重新调用模型
+  validation?: OutputValidation; // 输出校验规则
+}
+
+export interface StreamProcessOptions {
+  signal?: AbortSignal;
+  // 收到新的输出时调用（按 STREAM_OUTPUT_INTERVAL 节流，结束时再调用一次）
+  onOutput?: (output: StepStreamOutput) => void;
+}
+
+// 实时输出回调的最小间隔（毫秒），避免每个分片都触发一次界面渲染
+export const STREAM_OUTPUT_INTERVAL = 100;
+
+// 只有直接处理接口支持流式输出
+export const supportsStreaming = (apiEndpoint?: string) => Boolean(apiEndpoint?.startsWith('/api/process-file-direct'));
+
+// 直接处理接口对应的流式接口，保留 ?model= 等查询参数
+export const getStreamEndpoint = (apiEndpoint: string) => {
+  const [pathname, query] = apiEndpoint.split('?');
+  return query ? `${pathname}/stream?${query}` : `${pathname}/stream`;
+};
+
+// 格式化已用时间（毫秒）
+export const formatElapsed = (elapsed: number) => {
+  const seconds = elapsed / 1000;
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}分${Math.round(seconds % 60)}秒` : `${seconds.toFixed(1)}秒`;
+};
+
+// 解析一条 SSE 消息
+const parseServerEvent = (block: string) => {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+  return { event, data: dataLines.length > 0 ? JSON.parse(dataLines.join('\n')) : undefined };
+};
+
+// 调用流式接口处理文件，返回与非流式接口一致的结果，data 中额外带上 token 数与耗时；
+// 模型未返回用量时，token 数按收到的输出分片数计算（每个分片通常为一个 token）
+export const streamProcessFile = async (
+  apiEndpoint: string,
+  request: ProcessRequest,
+  options: StreamProcessOptions = {}
+): Promise<StepResult> => {
+  const { signal, onOutput } = options;
+  const startedAt = Date.now();
+  const output: StepStreamOutput = { content: '', tokens: 0, elapsed: 0, startedAt };
+  let lastOutputAt = 0;
+
+  const emitOutput = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastOutputAt < STREAM_OUTPUT_INTERVAL) return;
+    lastOutputAt = now;
+    onOutput?.({ ...output, elapsed: now - startedAt });
+  };
+
+  const response = await fetch(resolveApiUrl(getStreamEndpoint(apiEndpoint)), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal
+  });
+
+  // 参数错误时接口直接以 JSON 返回错误
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => undefined);
+    throw createApiError(body?.error || `请求失败，状态码 ${response.status}`, response.status, body?.details);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  emitOutput(true);
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const { event, data } = parseServerEvent(buffer.slice(0, separatorIndex));
+      buffer = buffer.slice(separatorIndex + 2);
+      separatorIndex = buffer.indexOf('\n\n');
+
+      switch (event) {
+        case 'delta':
+          output.content += data.content;
+          output.tokens++;
+          emitOutput();
+          break;
+        case 'autofix':
+          // 输出未通过校验，模型开始新一轮修复
+          output.content += `\n\n--- 第 ${data.round} 轮自动修复 ---\n\n`;
+          emitOutput(true);
+          break;
+        case 'done': {
+          output.tokens = data.usage?.completion_tokens ?? output.tokens;
+          emitOutput(true);
+          return {
+            success: data.success,
+            message: data.message,
+            data: { ...data.data, tokens: output.tokens, elapsed: Date.now() - startedAt }
+          };
+        }
+        case 'error':
+          throw createStatusError(data.error, data.status, data.autoFixHistory && { autoFixHistory: data.autoFixHistory });
+      }
+    }
+  }
+
+  throw new Error('流式响应中断，未收到处理结果');
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createTemplateScope, renderPromptTemplate, validatePromptTemplate } from './template';
+import type { ProcessInput, WorkflowStep } from './types';
+
+const step: WorkflowStep = {
+  id: 'step',
+  name: '转换页面',
+  description: '',
+  type: 'file_process',
+  config: {
+    fileInputs: [
+      { id: 'f1', name: 'jsp', path: 'pages/user-list.jsp' },
+      { id: 'f2', name: 'api', path: 'docs/api.md' }
+    ]
+  },
+  dependencies: [],
+  status: 'pending',
+  order: 1
+};
+
+const fileInputs = new Map<string, ProcessInput>([
+  ['jsp', { type: 'file', value: 'pages/user-list.jsp' }],
+  ['api', { type: 'file', value: 'docs/api.md' }]
+]);
+
+const scope = createTemplateScope(step, fileInputs, {
+  workflow: { id: 'workflow', name: '页面转换' },
+  run: { startedAt: Date.now() },
+  variables: {}
+});
+
+const render = (template: string) => renderPromptTemplate(template, scope);
+
+describe('renderPromptTemplate', () => {
+  it('{{文件名}} 发送文件内容，其余文本去除首尾空白后作为提示词', () => {
+    expect(render('请转换 {{jsp}} 参考 {{api}}')).toEqual([
+      { type: 'prompt', value: '请转换' },
+      { type: 'file', value: 'pages/user-list.jsp' },
+      { type: 'prompt', value: '参考' },
+      { type: 'file', value: 'docs/api.md' }
+    ]);
+  });
+
+  it('过滤器以文件路径为输入并可串联', () => {
+    expect(render('{{jsp | path}} {{jsp | stem | pascalCase}} {{api | extname | upper}}')).toEqual([
+      { type: 'prompt', value: 'pages/user-list.jsp UserList .MD' }
+    ]);
+  });
+
+  it('可使用工作流和步骤变量', () => {
+    expect(render('{{workflow.name}}/{{step.name}}')).toEqual([{ type: 'prompt', value: '页面转换/转换页面' }]);
+  });
+
+  it('{{#if}} 按表达式选择分支', () => {
+    expect(render('{{#if files.length > 1}}多个{{else}}单个{{/if}}')).toEqual([{ type: 'prompt', value: '多个' }]);
+    expect(render('{{#if step.name == "其他"}}A{{else if step.name.includes("页面")}}B{{/if}}')).toEqual([{ type: 'prompt', value: 'B' }]);
+  });
+
+  it('{{#each}} 遍历列表，提供 loop 变量', () => {
+    expect(render('{{#each files as file}}{{loop.number}}. {{file | name}}\n{{/each}}')).toEqual([
+      { type: 'prompt', value: '1. jsp\n2. api' }
+    ]);
+  });
+
+  it('{{#each}} 列表为空时渲染 else 分支', () => {
+    const emptyScope = { ...scope, items: [] };
+    expect(renderPromptTemplate('{{#each items as item}}{{item}}{{else}}无{{/each}}', emptyScope)).toEqual([
+      { type: 'prompt', value: '无' }
+    ]);
+  });
+
+  it('注释不输出', () => {
+    expect(render('A{{! 说明 }}B')).toEqual([{ type: 'prompt', value: 'AB' }]);
+  });
+
+  it('{{> 片段ID}} 引用提示词库片段，片段内容同样按模板渲染', () => {
+    const partials: Record<string, string[]> = { rules: ['旧规则', '规则：{{step.name}}'] };
+    const resolvePartial = (id: string, version?: number) => {
+      const versions = partials[id];
+      if (!versions) throw new Error(`提示词库中没有片段 "${id}"`);
+      return versions[(version ?? versions.length) - 1];
+    };
+
+    expect(renderPromptTemplate('{{> rules}}', scope, resolvePartial)).toEqual([{ type: 'prompt', value: '规则：转换页面' }]);
+    expect(renderPromptTemplate('{{> rules@1}}', scope, resolvePartial)).toEqual([{ type: 'prompt', value: '旧规则' }]);
+    expect(() => renderPromptTemplate('{{> missing}}', scope, resolvePartial)).toThrow('missing');
+  });
+
+  it('片段循环引用时抛出错误', () => {
+    const resolvePartial = (id: string) => id === 'a' ? '{{> b}}' : '{{> a}}';
+    expect(() => renderPromptTemplate('{{> a}}', scope, resolvePartial)).toThrow();
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('只引用已配置的文件和内置变量时没有错误', () => {
+    expect(validatePromptTemplate('{{jsp}} {{workflow.name}} {{#each files as file}}{{file}}{{/each}}', ['jsp'])).toEqual([]);
+  });
+
+  it('引用未配置的文件或变量时返回错误', () => {
+    expect(validatePromptTemplate('第一行\n{{missing | path}}', ['jsp'])).toEqual(['模板第 2 行引用了未配置的文件或变量 "missing"']);
+  });
+
+  it('循环变量只在循环体内可用', () => {
+    expect(validatePromptTemplate('{{#each files as file}}{{file}}{{/each}}{{file}}', [])).toHaveLength(1);
+  });
+
+  it('语法错误时抛出错误', () => {
+    expect(() => validatePromptTemplate('{{#if a}}未结束')).toThrow();
+    expect(() => validatePromptTemplate('{{/each}}')).toThrow();
+  });
+});
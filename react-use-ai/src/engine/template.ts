@@ -0,0 +1,394 @@
+import { evaluateExpression, validateExpression } from './expression';
+import { basename, dirname, extname, stem } from './paths';
+import type { ProcessInput, StepContext, WorkflowStep } from './types';
+
+// 提示词模板：在 {{文件名}} 引用文件的基础上支持变量、过滤器、条件和循环。
+//   {{jsp}}                         引用文件，发送文件内容
+//   {{jsp | path}}                  文件路径；其余过滤器也以文件路径为输入，如 {{jsp | stem | pascalCase}}
+//   {{workflow.name}} {{run.date}}  工作流、任务（工作流组）、本次运行和当前步骤的变量
+//   {{#if expr}}…{{else if expr}}…{{else}}…{{/if}}
+//   {{#each files as file}}…{{loop.number}}…{{else}}列表为空时的内容{{/each}}
+//   {{> 片段ID}} {{> 片段ID@2}}  引用提示词库中的片段（最新版本或指定版本），片段内容按模板渲染
+//   {{! 注释 }}
+// 表达式使用条件表达式的语法（见 expression.ts），渲染结果为依次发送给文件处理接口的输入项
+
+// 模板中引用的文件
+export interface TemplateFile {
+  name: string; // 文件输入名称
+  path: string; // 文件路径；依赖步骤只有输出内容而没有输出文件时为空
+  input: ProcessInput; // 发送给文件处理接口的输入项
+}
+
+interface FilterCall {
+  name: string;
+  args: string; // 参数表达式（逗号分隔），没有参数时为空
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: string; filters: FilterCall[]; line: number }
+  | { type: 'if'; branches: Array<{ test?: string; body: TemplateNode[] }>; line: number }
+  | { type: 'each'; expression: string; alias: string; body: TemplateNode[]; empty: TemplateNode[]; line: number }
+  | { type: 'partial'; id: string; version?: number; line: number };
+
+// 渲染的中间结果：模板文本，或原样发送的输入项（文件、依赖步骤的输出内容）
+type RenderPart = { text: string } | { input: ProcessInput };
+
+export type TemplateScope = Record<string, unknown>;
+
+// 解析 {{> 片段ID}}：返回片段内容（未指定版本时为最新版本），片段不存在时抛出错误
+export type PromptPartialResolver = (id: string, version?: number) => string;
+
+interface RenderOptions {
+  resolvePartial?: PromptPartialResolver;
+  partialStack: string[]; // 正在渲染的片段，用于发现循环引用
+}
+
+// 模板内置的变量（文件输入名称与之相同时以文件为准）
+export const TEMPLATE_BUILTIN_VARIABLES = ['files', 'workflow', 'group', 'run', 'step'];
+
+const isTemplateFile = (value: unknown): value is TemplateFile =>
+  typeof value === 'object' && value !== null && 'input' in value && 'name' in value && 'path' in value;
+
+// 转换为插入模板的文本：文件使用路径（没有路径时使用名称），数组逐行输出，对象输出 JSON
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (isTemplateFile(value)) return value.path || value.name;
+  if (Array.isArray(value)) return value.map(toText).join('\n');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 拆分为单词：按分隔符、小写与大写的交界拆分，用于命名风格转换
+const splitWords = (value: string) =>
+  value
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z\d一-龥]+/)
+    .filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+// 过滤器：第一个参数为管道左侧的值
+export const TEMPLATE_FILTERS: Record<string, (value: unknown, ...args: unknown[]) => unknown> = {
+  path: value => toText(value),
+  content: value => {
+    if (!isTemplateFile(value)) throw new Error('content 过滤器只能用于文件');
+    return value;
+  },
+  name: value => isTemplateFile(value) ? value.name : toText(value),
+  basename: value => basename(toText(value)),
+  dirname: value => dirname(toText(value)),
+  extname: value => extname(toText(value)),
+  // 不含扩展名的文件名
+  stem: value => stem(toText(value)),
+  pascalCase: value => splitWords(toText(value)).map(capitalize).join(''),
+  camelCase: value => splitWords(toText(value)).map((word, index) => index === 0 ? word.toLowerCase() : capitalize(word)).join(''),
+  kebabCase: value => splitWords(toText(value)).map(word => word.toLowerCase()).join('-'),
+  snakeCase: value => splitWords(toText(value)).map(word => word.toLowerCase()).join('_'),
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  trim: value => toText(value).trim(),
+  default: (value, fallback) => value === null || value === undefined || value === '' ? fallback : value,
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value),
+  replace: (value, search, replacement = '') => toText(value).split(String(search)).join(String(replacement)),
+  json: value => JSON.stringify(value, null, 2)
+};
+
+// ========== 解析 ==========
+
+// 按单个 | 拆分过滤器（忽略字符串中的 | 和 || 运算符）
+const splitPipes = (source: string) => {
+  const parts: string[] = [];
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|' && source[i + 1] === '|') {
+      i++;
+    } else if (char === '|') {
+      parts.push(source.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(source.slice(start));
+  return parts.map(part => part.trim());
+};
+
+const parseFilter = (source: string): FilterCall => {
+  const match = /^([A-Za-z_]\w*)\s*(?:\(([\s\S]*)\))?$/.exec(source);
+  if (!match) throw new Error(`过滤器 "${source}" 格式不正确`);
+  const [, name, args = ''] = match;
+  if (!TEMPLATE_FILTERS[name]) throw new Error(`未知的过滤器 "${name}"`);
+  if (args.trim()) validateExpression(`[${args}]`);
+  return { name, args };
+};
+
+// 表达式为文件输入名称（可包含中文、空格等）时不按表达式解析
+const checkExpression = (expression: string, names: Set<string>) => {
+  if (!expression) throw new Error('缺少表达式');
+  if (!names.has(expression)) validateExpression(expression);
+};
+
+const parseTemplate = (template: string, names: Set<string> = new Set()): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // 未闭合的块：当前内容写入 body，each 遇到 else 后写入 empty
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; body: TemplateNode[] }> = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].body : root;
+  const tagPattern = /\{\{([\s\S]*?)\}\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(template))) {
+    const line = template.slice(0, match.index).split('\n').length;
+    const tag = match[1].trim();
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    try {
+      if (tag.startsWith('!')) continue;
+
+      if (/^#if(\s|$)/.test(tag)) {
+        const test = tag.slice(3).trim();
+        checkExpression(test, names);
+        const node: TemplateNode = { type: 'if', branches: [{ test, body: [] }], line };
+        current().push(node);
+        stack.push({ node, body: node.branches[0].body });
+      } else if (/^#each(\s|$)/.test(tag)) {
+        const eachMatch = /^([\s\S]*?)(?:\s+as\s+([A-Za-z_$][\w$]*))?$/.exec(tag.slice(5).trim())!;
+        const expression = eachMatch[1].trim();
+        checkExpression(expression, names);
+        const node: TemplateNode = { type: 'each', expression, alias: eachMatch[2] || 'item', body: [], empty: [], line };
+        current().push(node);
+        stack.push({ node, body: node.body });
+      } else if (tag === 'else' || tag.startsWith('else if ')) {
+        const block = stack[stack.length - 1];
+        if (!block) throw new Error('else 不在 #if 或 #each 中');
+        if (block.node.type === 'each') {
+          if (tag !== 'else' || block.body === block.node.empty) throw new Error('#each 中只能有一个 else');
+          block.body = block.node.empty;
+        } else {
+          const branches = block.node.branches;
+          if (branches[branches.length - 1].test === undefined) throw new Error('else 之后不能再有分支');
+          const test = tag === 'else' ? undefined : tag.slice(8).trim();
+          if (test !== undefined) checkExpression(test, names);
+          branches.push({ test, body: [] });
+          block.body = branches[branches.length - 1].body;
+        }
+      } else if (tag.startsWith('>')) {
+        const partialMatch = /^>\s*([\w-]+)(?:@(\d+))?$/.exec(tag);
+        if (!partialMatch) throw new Error('片段引用格式应为 {{> 片段ID}} 或 {{> 片段ID@版本号}}');
+        const version = partialMatch[2] ? Number(partialMatch[2]) : undefined;
+        current().push({ type: 'partial', id: partialMatch[1], version, line });
+      } else if (tag.startsWith('#')) {
+        throw new Error('未知的块，只支持 #if 和 #each');
+      } else if (tag === '/if' || tag === '/each') {
+        const block = stack.pop();
+        if (!block || `/${block.node.type}` !== tag) throw new Error(`多余的 {{${tag}}}`);
+      } else {
+        const [expression, ...filters] = splitPipes(tag);
+        checkExpression(expression, names);
+        current().push({ type: 'output', expression, filters: filters.map(parseFilter), line });
+      }
+    } catch (error) {
+      throw new Error(`模板第 ${line} 行 {{${tag}}}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new Error(`模板第 ${node.line} 行的 {{#${node.type}}} 缺少 {{/${node.type}}}`);
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  return root;
+};
+
+// ========== 渲染 ==========
+
+const resolveValue = (expression: string, scope: TemplateScope) =>
+  Object.prototype.hasOwnProperty.call(scope, expression) ? scope[expression] : evaluateExpression(expression, scope);
+
+const applyFilters = (value: unknown, filters: FilterCall[], scope: TemplateScope) =>
+  filters.reduce((result, filter) => {
+    const args = filter.args.trim() ? evaluateExpression(`[${filter.args}]`, scope) as unknown[] : [];
+    return TEMPLATE_FILTERS[filter.name](result, ...args);
+  }, value);
+
+// 渲染片段内容，片段中的错误带上片段ID
+const renderPartial = (node: Extract<TemplateNode, { type: 'partial' }>, scope: TemplateScope, parts: RenderPart[], options: RenderOptions) => {
+  const label = `{{> ${node.id}${node.version === undefined ? '' : `@${node.version}`}}}`;
+  try {
+    if (!options.resolvePartial) throw new Error('未加载提示词库');
+    if (options.partialStack.includes(node.id)) {
+      throw new Error(`片段循环引用: ${[...options.partialStack, node.id].join(' → ')}`);
+    }
+    const nodes = parseTemplate(options.resolvePartial(node.id, node.version), new Set(Object.keys(scope)));
+    renderNodes(nodes, scope, parts, { ...options, partialStack: [...options.partialStack, node.id] });
+  } catch (error) {
+    throw new Error(`模板第 ${node.line} 行 ${label}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const renderNodes = (nodes: TemplateNode[], scope: TemplateScope, parts: RenderPart[], options: RenderOptions) => {
+  for (const node of nodes) {
+    try {
+      switch (node.type) {
+        case 'text':
+          parts.push({ text: node.value });
+          break;
+        case 'output': {
+          const value = applyFilters(resolveValue(node.expression, scope), node.filters, scope);
+          const items = Array.isArray(value) && value.some(isTemplateFile) ? value : [value];
+          items.forEach(item => parts.push(isTemplateFile(item) ? { input: item.input } : { text: toText(item) }));
+          break;
+        }
+        case 'if': {
+          const branch = node.branches.find(({ test }) => test === undefined || resolveValue(test, scope));
+          if (branch) renderNodes(branch.body, scope, parts, options);
+          break;
+        }
+        case 'each': {
+          const list = resolveValue(node.expression, scope);
+          if (list !== null && list !== undefined && !Array.isArray(list)) {
+            throw new Error('#each 只能遍历数组');
+          }
+          const items = list ?? [];
+          if (items.length === 0) {
+            renderNodes(node.empty, scope, parts, options);
+          }
+          items.forEach((item, index) => {
+            const loop = { index, number: index + 1, first: index === 0, last: index === items.length - 1 };
+            renderNodes(node.body, { ...scope, [node.alias]: item, loop }, parts, options);
+          });
+          break;
+        }
+        case 'partial':
+          renderPartial(node, scope, parts, options);
+          break;
+      }
+    } catch (error) {
+      if (node.type === 'text' || (error instanceof Error && error.message.startsWith('模板第'))) throw error;
+      throw new Error(`模板第 ${node.line} 行: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+};
+
+// 合并相邻的文本，去掉首尾空白和空文本（与引用文件之间的提示词分别发送）
+const toProcessInputs = (parts: RenderPart[]): ProcessInput[] => {
+  const inputs: ProcessInput[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text.trim()) inputs.push({ type: 'prompt', value: text.trim() });
+    text = '';
+  };
+  parts.forEach(part => {
+    if ('text' in part) {
+      text += part.text;
+    } else {
+      flushText();
+      inputs.push(part.input);
+    }
+  });
+  flushText();
+  return inputs;
+};
+
+// 校验模板语法；names 为文件输入名称，返回引用了未知变量的错误（语法错误直接抛出）
+export const validatePromptTemplate = (template: string, names: string[] = []): string[] => {
+  const known = new Set([...names, ...TEMPLATE_BUILTIN_VARIABLES]);
+  const errors: string[] = [];
+
+  // 只检查表达式开头的变量，循环变量在循环体内可用
+  const check = (expression: string, line: number, scopeNames: Set<string>) => {
+    if (scopeNames.has(expression)) return;
+    const root = /^[\p{L}_$][\p{L}\p{N}_$]*/u.exec(expression)?.[0];
+    if (root && !scopeNames.has(root) && !['true', 'false', 'null', 'undefined'].includes(root)) {
+      errors.push(`模板第 ${line} 行引用了未配置的文件或变量 "${root}"`);
+    }
+  };
+  const visit = (nodes: TemplateNode[], scopeNames: Set<string>) => nodes.forEach(node => {
+    if (node.type === 'output') check(node.expression, node.line, scopeNames);
+    if (node.type === 'if') {
+      node.branches.forEach(branch => {
+        if (branch.test !== undefined) check(branch.test, node.line, scopeNames);
+        visit(branch.body, scopeNames);
+      });
+    }
+    if (node.type === 'each') {
+      check(node.expression, node.line, scopeNames);
+      visit(node.body, new Set([...scopeNames, node.alias, 'loop']));
+      visit(node.empty, scopeNames);
+    }
+  });
+
+  visit(parseTemplate(template, new Set(names)), known);
+  return errors;
+};
+
+// 渲染提示词模板，返回依次发送给文件处理接口的输入项；resolvePartial 用于解析 {{> 片段ID}}
+export const renderPromptTemplate = (template: string, scope: TemplateScope, resolvePartial?: PromptPartialResolver): ProcessInput[] => {
+  const names = new Set(Object.keys(scope));
+  const parts: RenderPart[] = [];
+  renderNodes(parseTemplate(template, names), scope, parts, { resolvePartial, partialStack: [] });
+  return toProcessInputs(parts);
+};
+
+// 预览提示词时使用的文件输入：依赖步骤尚未成功执行时，以占位文本代替它的输出
+export const resolvePreviewFileInputs = (step: WorkflowStep, allSteps: WorkflowStep[]) => {
+  const fileInputMap = new Map<string, ProcessInput>();
+  (step.config.fileInputs || []).forEach(file => {
+    if (file.dependsOn) {
+      const depStep = allSteps.find(s => s.id === file.dependsOn);
+      const depResult = depStep?.result;
+      if (depResult?.success && depResult.data?.path) {
+        fileInputMap.set(file.name, { type: 'file', value: depResult.data.path });
+      } else if (depResult?.success && typeof depResult.data?.content === 'string') {
+        fileInputMap.set(file.name, { type: 'prompt', value: depResult.data.content });
+      } else {
+        fileInputMap.set(file.name, { type: 'prompt', value: `〈步骤 "${depStep?.name || file.dependsOn}" 的输出，执行后可用〉` });
+      }
+    } else if (file.path) {
+      fileInputMap.set(file.name, { type: 'file', value: file.path });
+    }
+  });
+  return fileInputMap;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 构建模板变量：文件输入（按名称）、全部文件 files，以及工作流、任务、本次运行和当前步骤的信息
+export const createTemplateScope = (
+  step: WorkflowStep,
+  fileInputMap: Map<string, ProcessInput>,
+  context?: StepContext
+): TemplateScope => {
+  const files: TemplateFile[] = (step.config.fileInputs || [])
+    .filter(file => fileInputMap.has(file.name))
+    .map(file => {
+      const input = fileInputMap.get(file.name)!;
+      return { name: file.name, path: input.type === 'file' ? input.value : '', input };
+    });
+  const startedAt = new Date(context?.run.startedAt ?? Date.now());
+
+  return {
+    workflow: context?.workflow,
+    group: context?.group,
+    run: {
+      startedAt: startedAt.toISOString(),
+      date: `${startedAt.getFullYear()}-${pad(startedAt.getMonth() + 1)}-${pad(startedAt.getDate())}`,
+      time: `${pad(startedAt.getHours())}:${pad(startedAt.getMinutes())}:${pad(startedAt.getSeconds())}`
+    },
+    step: { id: step.id, name: step.name },
+    files,
+    ...Object.fromEntries(files.map(file => [file.name, file]))
+  };
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTemplateParameters,
+  deriveFileName,
+  getInputBinding,
+  getSourceFileVariables,
+  listTemplatePathSlots,
+  previewTemplateParameters,
+  setInputBinding,
+  setInputNameStyle,
+  setOutputDerived
+} from './templateParameters';
+import type { TemplateParameters, TemplateSourceFile } from './templateParameters';
+import type { Workflow, WorkflowStep } from './types';
+
+const step: WorkflowStep = {
+  id: 's1',
+  name: '转换',
+  description: '',
+  type: 'file_process',
+  config: {
+    fileInputs: [
+      { id: 'jsp', name: 'jsp', path: 'E:/old/pages/demo.jsp' },
+      { id: 'api', name: 'api', path: 'docs/api/demo.md' },
+      { id: 'doc', name: 'doc', path: 'docs/接口文档.md' },
+      { id: 'dep', name: 'dep', path: '', dependsOn: 's0' }
+    ],
+    outputFolder: 'src/pages',
+    outputFileName: 'Demo.tsx'
+  },
+  dependencies: [],
+  status: 'pending',
+  order: 1
+};
+
+const workflows: Workflow[] = [{
+  id: 'w1',
+  name: '页面转换',
+  description: '',
+  steps: [step],
+  createdAt: new Date(),
+  updatedAt: new Date()
+}];
+
+const source: TemplateSourceFile = { sourcePath: 'E:/project/web', file: 'user/user-list.jsp' };
+
+const slots = listTemplatePathSlots(workflows);
+const slotOf = (inputId?: string) => slots.find(slot => slot.inputId === inputId)!;
+
+// 所选文件绑定 jsp，派生 api 和输出文件名
+const declare = (parameters: TemplateParameters = {}) => setOutputDerived(
+  setInputBinding(setInputBinding(parameters, slotOf('jsp'), 'source'), slotOf('api'), 'derived'),
+  slotOf(undefined),
+  true
+);
+
+const resolvedStep = (parameters: TemplateParameters | undefined) =>
+  applyTemplateParameters(workflows, parameters, source)[0].steps[0].config;
+
+describe('listTemplatePathSlots', () => {
+  it('列出没有依赖步骤的文件输入和设置了输出文件名的步骤', () => {
+    expect(slots.map(slot => [slot.inputName ?? '输出', slot.path])).toEqual([
+      ['jsp', 'E:/old/pages/demo.jsp'],
+      ['api', 'docs/api/demo.md'],
+      ['doc', 'docs/接口文档.md'],
+      ['输出', 'src/pages/Demo.tsx']
+    ]);
+  });
+});
+
+describe('模板参数的声明', () => {
+  it('未声明的输入为固定，改为固定时移除声明', () => {
+    const parameters = declare();
+    expect(getInputBinding(parameters, slotOf('jsp'))).toBe('source');
+    expect(getInputBinding(parameters, slotOf('doc'))).toBe('fixed');
+    expect(setInputBinding(parameters, slotOf('jsp'), 'fixed').inputs).toHaveLength(1);
+  });
+
+  it('修改绑定方式时保留输入单独的命名风格', () => {
+    const parameters = setInputNameStyle(declare(), slotOf('api'), 'kebabCase');
+    expect(setInputBinding(parameters, slotOf('api'), 'derived').inputs?.find(input => input.inputId === 'api')?.nameStyle).toBe('kebabCase');
+  });
+});
+
+describe('deriveFileName', () => {
+  it('按命名风格转换不含扩展名的文件名', () => {
+    expect(deriveFileName('a/user-list.jsp')).toBe('user-list');
+    expect(deriveFileName('user-list.jsp', 'capitalize')).toBe('User-list');
+    expect(deriveFileName('user-list.jsp', 'pascalCase')).toBe('UserList');
+    expect(deriveFileName('userList.jsp', 'snakeCase')).toBe('user_list');
+  });
+
+  it('批量创建的任务变量', () => {
+    expect(getSourceFileVariables({ sourcePath: 'E:\\project\\web', file: 'user\\user-list.jsp' }, { nameStyle: 'pascalCase' })).toEqual({
+      fileName: 'UserList',
+      fileStem: 'user-list',
+      sourceFileName: 'user-list.jsp',
+      sourcePath: 'E:/project/web',
+      filePath: 'user/user-list.jsp',
+      relativeDir: 'user'
+    });
+  });
+});
+
+describe('applyTemplateParameters', () => {
+  it('未声明参数的模板路径保持不变', () => {
+    expect(applyTemplateParameters(workflows, undefined, source)).toBe(workflows);
+    expect(resolvedStep({})).toEqual(step.config);
+  });
+
+  it('按声明改写所选文件、派生文件名和输出文件名，固定的输入不变', () => {
+    const config = resolvedStep(declare({ nameStyle: 'pascalCase', outputNamePrefix: 'Page' }));
+
+    expect(config.fileInputs?.map(input => input.path)).toEqual([
+      'E:/project/web/user/user-list.jsp',
+      'docs/api/UserList.md',
+      'docs/接口文档.md',
+      ''
+    ]);
+    expect(config.outputFolder).toBe('src/pages');
+    expect(config.outputFileName).toBe('PageUserList.tsx');
+  });
+
+  it('输入单独的命名风格优先于模板参数的命名风格', () => {
+    const parameters = setInputNameStyle(declare({ nameStyle: 'pascalCase' }), slotOf('api'), 'original');
+    expect(resolvedStep(parameters).fileInputs?.[1].path).toBe('docs/api/user-list.md');
+  });
+
+  it('派生路径和输出目录追加所选文件的相对目录（已在末尾时不重复追加）', () => {
+    const config = resolvedStep(declare({ appendRelativeDir: true }));
+
+    expect(config.fileInputs?.[1].path).toBe('docs/api/user/user-list.md');
+    expect(config.outputFolder).toBe('src/pages/user');
+    expect(applyTemplateParameters(workflows, declare({ appendRelativeDir: true }), { sourcePath: 'web', file: 'api/x.jsp' })[0].steps[0].config.fileInputs?.[1].path)
+      .toBe('docs/api/x.md');
+  });
+
+  it('引用了变量的路径不改写，由执行时替换', () => {
+    const withVariables: Workflow[] = [{
+      ...workflows[0],
+      steps: [{ ...step, config: { ...step.config, outputFolder: '${root}/pages', outputFileName: '${fileName}.tsx' } }]
+    }];
+    const config = applyTemplateParameters(withVariables, declare({ appendRelativeDir: true }), source)[0].steps[0].config;
+
+    expect(config.outputFolder).toBe('${root}/pages');
+    expect(config.outputFileName).toBe('${fileName}.tsx');
+  });
+
+  it('不修改传入的模板', () => {
+    resolvedStep(declare());
+    expect(step.config.fileInputs?.[0].path).toBe('E:/old/pages/demo.jsp');
+  });
+});
+
+describe('previewTemplateParameters', () => {
+  it('列出每个所选文件解析变量后的路径，并标记改变的路径', () => {
+    const withVariables: Workflow[] = [{
+      ...workflows[0],
+      steps: [{ ...step, config: { ...step.config, outputFolder: '${root}/pages' } }]
+    }];
+    const [row] = previewTemplateParameters(withVariables, declare(), { root: 'src' }, [source]);
+
+    expect(row.key).toBe('E:/project/web/user/user-list.jsp');
+    expect(row.variables.fileName).toBe('user-list');
+    expect(row.paths.map(path => [path.path, path.changed])).toEqual([
+      ['E:/project/web/user/user-list.jsp', true],
+      ['docs/api/user-list.md', true],
+      ['docs/接口文档.md', false],
+      ['src/pages/user-list.tsx', true]
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+import { TEMPLATE_FILTERS } from './template';
+import { basename, dirname, extname, joinPath, stem, toPortablePath } from './paths';
+import { mergeVariables, resolveStepVariables } from './variables';
+import type { Workflow, WorkflowStep } from './types';
+import type { WorkflowVariables } from './variables';
+
+// 任务模板参数：声明批量创建任务时哪些文件输入绑定到所选文件、输出文件名如何派生，
+// 未声明的文件输入和输出保持模板中的原值
+
+// 派生文件名（不含扩展名）的命名风格
+export type TemplateNameStyle = 'original' | 'capitalize' | 'pascalCase' | 'camelCase' | 'kebabCase' | 'snakeCase';
+
+export const TEMPLATE_NAME_STYLE_OPTIONS: Array<{ label: string; value: TemplateNameStyle }> = [
+  { label: '保持原样', value: 'original' },
+  { label: '首字母大写', value: 'capitalize' },
+  { label: 'PascalCase', value: 'pascalCase' },
+  { label: 'camelCase', value: 'camelCase' },
+  { label: 'kebab-case', value: 'kebabCase' },
+  { label: 'snake_case', value: 'snakeCase' }
+];
+
+// 文件输入的绑定方式：fixed 保持不变；source 使用所选文件的完整路径；
+// derived 保留原路径的目录和扩展名，文件名替换为派生文件名
+export type TemplateInputBinding = 'fixed' | 'source' | 'derived';
+
+export const TEMPLATE_INPUT_BINDING_OPTIONS: Array<{ label: string; value: TemplateInputBinding }> = [
+  { label: '固定', value: 'fixed' },
+  { label: '所选文件', value: 'source' },
+  { label: '派生文件名', value: 'derived' }
+];
+
+export interface TemplateInputParameter {
+  workflowId: string;
+  stepId: string;
+  inputId: string;
+  binding: Exclude<TemplateInputBinding, 'fixed'>;
+  nameStyle?: TemplateNameStyle; // 派生文件名的命名风格，未设置时使用模板参数的 nameStyle
+}
+
+// 输出文件名按所选文件派生的步骤（保留原输出文件名的扩展名）
+export interface TemplateOutputParameter {
+  workflowId: string;
+  stepId: string;
+}
+
+export interface TemplateParameters {
+  nameStyle?: TemplateNameStyle; // 默认 original
+  outputNamePrefix?: string;
+  // 派生路径和派生输出的输出目录追加所选文件的相对目录
+  appendRelativeDir?: boolean;
+  inputs?: TemplateInputParameter[];
+  outputs?: TemplateOutputParameter[];
+}
+
+// 批量创建时选择的文件：file 为相对 sourcePath 的路径
+export interface TemplateSourceFile {
+  sourcePath: string;
+  file: string;
+}
+
+// 模板中可声明参数的位置：没有依赖步骤的文件输入，以及设置了输出文件名的步骤
+export interface TemplatePathSlot {
+  key: string;
+  workflowId: string;
+  workflowName: string;
+  stepId: string;
+  stepName: string;
+  inputId?: string; // 为空时表示步骤的输出
+  inputName?: string;
+  path: string; // 文件输入的路径，或输出目录与输出文件名
+}
+
+// 所选文件相对目录已在目录末尾时不再追加
+const appendRelativeDir = (directory: string, relativeDir: string) =>
+  !relativeDir || toPortablePath(directory).endsWith(relativeDir) ? directory : joinPath(directory, relativeDir);
+
+const slotKey = (workflowId: string, stepId: string, inputId?: string) =>
+  [workflowId, stepId, inputId ?? 'output'].join(':');
+
+const outputPath = (step: WorkflowStep) =>
+  step.config.outputFolder ? joinPath(step.config.outputFolder, step.config.outputFileName || '') : step.config.outputFileName || '';
+
+export const listTemplatePathSlots = (workflows: Workflow[]): TemplatePathSlot[] =>
+  workflows.flatMap(workflow => (workflow.steps || []).flatMap(step => {
+    const base = { workflowId: workflow.id, workflowName: workflow.name, stepId: step.id, stepName: step.name };
+    const inputs = (step.config.fileInputs || [])
+      .filter(input => !input.dependsOn)
+      .map(input => ({ ...base, key: slotKey(workflow.id, step.id, input.id), inputId: input.id, inputName: input.name, path: input.path }));
+    const output = step.config.outputFileName ? [{ ...base, key: slotKey(workflow.id, step.id), path: outputPath(step) }] : [];
+    return [...inputs, ...output];
+  }));
+
+const findInputParameter = (parameters: TemplateParameters | undefined, slot: TemplatePathSlot) =>
+  parameters?.inputs?.find(input => slotKey(input.workflowId, input.stepId, input.inputId) === slot.key);
+
+export const getInputBinding = (parameters: TemplateParameters | undefined, slot: TemplatePathSlot): TemplateInputBinding =>
+  findInputParameter(parameters, slot)?.binding ?? 'fixed';
+
+export const setInputBinding = (parameters: TemplateParameters, slot: TemplatePathSlot, binding: TemplateInputBinding): TemplateParameters => {
+  const current = findInputParameter(parameters, slot);
+  const inputs = (parameters.inputs || []).filter(input => input !== current);
+  return {
+    ...parameters,
+    inputs: binding === 'fixed' || !slot.inputId
+      ? inputs
+      : [...inputs, { workflowId: slot.workflowId, stepId: slot.stepId, inputId: slot.inputId, binding, nameStyle: current?.nameStyle }]
+  };
+};
+
+export const getInputNameStyle = (parameters: TemplateParameters | undefined, slot: TemplatePathSlot) =>
+  findInputParameter(parameters, slot)?.nameStyle;
+
+// 设置派生输入单独的命名风格，style 为空时使用模板参数的 nameStyle
+export const setInputNameStyle = (parameters: TemplateParameters, slot: TemplatePathSlot, nameStyle?: TemplateNameStyle): TemplateParameters => ({
+  ...parameters,
+  inputs: (parameters.inputs || []).map(input =>
+    slotKey(input.workflowId, input.stepId, input.inputId) === slot.key ? { ...input, nameStyle } : input)
+});
+
+export const isOutputDerived = (parameters: TemplateParameters | undefined, slot: TemplatePathSlot) =>
+  !!parameters?.outputs?.some(output => slotKey(output.workflowId, output.stepId) === slot.key);
+
+export const setOutputDerived = (parameters: TemplateParameters, slot: TemplatePathSlot, derived: boolean): TemplateParameters => {
+  const outputs = (parameters.outputs || []).filter(output => slotKey(output.workflowId, output.stepId) !== slot.key);
+  return {
+    ...parameters,
+    outputs: derived ? [...outputs, { workflowId: slot.workflowId, stepId: slot.stepId }] : outputs
+  };
+};
+
+// 所选文件按命名风格派生的文件名（不含扩展名）
+export const deriveFileName = (file: string, style: TemplateNameStyle = 'original') => {
+  const name = stem(file);
+  if (style === 'original') return name;
+  if (style === 'capitalize') return name.charAt(0).toUpperCase() + name.slice(1);
+  return String(TEMPLATE_FILTERS[style](name));
+};
+
+// 批量创建的任务上设置的变量，模板中可以 ${fileName} 等形式引用
+export const getSourceFileVariables = (source: TemplateSourceFile, parameters?: TemplateParameters): WorkflowVariables => ({
+  fileName: deriveFileName(source.file, parameters?.nameStyle),
+  fileStem: deriveFileName(source.file),
+  sourceFileName: basename(source.file),
+  sourcePath: toPortablePath(source.sourcePath),
+  filePath: toPortablePath(source.file),
+  relativeDir: toPortablePath(dirname(source.file))
+});
+
+// 按模板参数改写工作流中的路径，改写后的路径以 / 分隔；路径中引用了变量（${...}）的保持不变，由执行时替换
+export const applyTemplateParameters = (workflows: Workflow[], parameters: TemplateParameters | undefined, source: TemplateSourceFile): Workflow[] => {
+  if (!parameters) return workflows;
+  const variables = getSourceFileVariables(source, parameters);
+  const withRelativeDir = (directory: string) =>
+    parameters.appendRelativeDir ? appendRelativeDir(directory, variables.relativeDir) : directory;
+  const usesVariables = (value?: string) => !!value && value.includes('${');
+
+  return workflows.map(workflow => ({
+    ...workflow,
+    steps: (workflow.steps || []).map(step => {
+      const slots = listTemplatePathSlots([{ ...workflow, steps: [step] }]);
+      const fileInputs = step.config.fileInputs?.map(input => {
+        const slot = slots.find(item => item.inputId === input.id);
+        const binding = slot ? getInputBinding(parameters, slot) : 'fixed';
+        if (!slot || binding === 'fixed' || usesVariables(input.path)) return input;
+        if (binding === 'source') return { ...input, path: joinPath(source.sourcePath, source.file) };
+        const nameStyle = getInputNameStyle(parameters, slot);
+        const fileName = nameStyle ? deriveFileName(source.file, nameStyle) : variables.fileName;
+        return { ...input, path: joinPath(withRelativeDir(dirname(input.path)), fileName + extname(input.path)) };
+      });
+      const outputSlot = slots.find(item => !item.inputId);
+      if (!outputSlot || !isOutputDerived(parameters, outputSlot)) {
+        return { ...step, config: { ...step.config, fileInputs } };
+      }
+      const { outputFolder, outputFileName = '' } = step.config;
+      return {
+        ...step,
+        config: {
+          ...step.config,
+          fileInputs,
+          outputFolder: outputFolder && !usesVariables(outputFolder) ? withRelativeDir(outputFolder) : outputFolder,
+          outputFileName: usesVariables(outputFileName)
+            ? outputFileName
+            : `${parameters.outputNamePrefix || ''}${variables.fileName}${extname(outputFileName)}`
+        }
+      };
+    })
+  }));
+};
+
+export interface TemplatePreviewRow {
+  key: string;
+  source: TemplateSourceFile;
+  variables: WorkflowVariables;
+  // 各参数位置最终的路径（已替换变量），changed 表示与模板中的路径不同
+  paths: Array<TemplatePathSlot & { changed: boolean }>;
+}
+
+// 预览批量创建的结果：每个所选文件的任务变量和全部路径，模板变量默认值被文件变量覆盖
+export const previewTemplateParameters = (
+  workflows: Workflow[],
+  parameters: TemplateParameters | undefined,
+  templateVariables: WorkflowVariables | undefined,
+  sources: TemplateSourceFile[]
+): TemplatePreviewRow[] => {
+  const templateSlots = listTemplatePathSlots(workflows);
+  return sources.map(source => {
+    const variables = getSourceFileVariables(source, parameters);
+    const merged = mergeVariables(templateVariables, variables);
+    const resolved = applyTemplateParameters(workflows, parameters, source).map(workflow => ({
+      ...workflow,
+      steps: (workflow.steps || []).map(step => resolveStepVariables(step, merged, false))
+    }));
+    return {
+      key: joinPath(source.sourcePath, source.file),
+      source,
+      variables,
+      paths: listTemplatePathSlots(resolved).map(slot => ({
+        ...slot,
+        changed: toPortablePath(slot.path) !== toPortablePath(templateSlots.find(item => item.key === slot.key)?.path ?? '')
+      }))
+    };
+  });
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { jsonToTypeScript, regexExtract, regexReplace, runTransform, selectJsonPath } from './transforms';
+
+const data = {
+  store: {
+    books: [
+      { title: 'A', price: 10, tags: ['x'] },
+      { title: 'B', price: 20, author: { name: 'Tom' } }
+    ],
+    'owner-name': 'shop'
+  }
+};
+
+describe('selectJsonPath', () => {
+  it('按属性、下标和通配符选取', () => {
+    expect(selectJsonPath(data, '$.store.books[0].title')).toEqual(['A']);
+    expect(selectJsonPath(data, '$.store.books[-1].price')).toEqual([20]);
+    expect(selectJsonPath(data, '$.store.books[*].title')).toEqual(['A', 'B']);
+    expect(selectJsonPath(data, "$.store['owner-name']")).toEqual(['shop']);
+  });
+
+  it('.. 递归选取全部后代中的属性', () => {
+    expect(selectJsonPath(data, '$..name')).toEqual(['Tom']);
+    expect(selectJsonPath(data, '$..price')).toEqual([10, 20]);
+  });
+
+  it('没有匹配时返回空列表', () => {
+    expect(selectJsonPath(data, '$.store.missing.title')).toEqual([]);
+  });
+
+  it('表达式格式错误时抛出错误', () => {
+    expect(() => selectJsonPath(data, 'store.books')).toThrow('必须以 $ 开头');
+    expect(() => selectJsonPath(data, '$.store[')).toThrow('无法解析');
+  });
+});
+
+describe('正则转换', () => {
+  it('提取时有分组取第一个分组，每个结果一行', () => {
+    expect(regexExtract('id=1; id=22', 'id=(\\d+)')).toBe('1\n22');
+    expect(regexExtract('Foo bar Baz', '[A-Z]\\w+', '')).toBe('Foo\nBaz');
+  });
+
+  it('替换支持分组引用和标志', () => {
+    expect(regexReplace('a-b-c', '-', '_')).toBe('a_b_c');
+    expect(regexReplace('Hello World', '(\\w+) (\\w+)', '$2 $1')).toBe('World Hello');
+    expect(regexReplace('A a', 'a', 'b', 'gi')).toBe('b b');
+  });
+});
+
+describe('jsonToTypeScript', () => {
+  it('嵌套对象生成独立接口，数组中的对象合并为同一个接口', () => {
+    expect(jsonToTypeScript({ id: 1, user: { name: 'a' }, items: [{ a: 1 }, { b: 'x' }] }, 'Response')).toBe([
+      'export interface Response {\n  id: number;\n  user: User;\n  items: ItemsItem[];\n}',
+      'export interface ItemsItem {\n  a: number;\n  b: string;\n}',
+      'export interface User {\n  name: string;\n}'
+    ].join('\n\n'));
+  });
+
+  it('根节点不是对象时生成类型别名', () => {
+    expect(jsonToTypeScript([1, 'a'], 'List')).toBe('export type List = (number | string)[];');
+    expect(jsonToTypeScript([], 'Empty')).toBe('export type Empty = unknown[];');
+  });
+
+  it('不是合法标识符的属性名加引号', () => {
+    expect(jsonToTypeScript({ 'user-id': 1 })).toBe('export interface Root {\n  "user-id": number;\n}');
+  });
+});
+
+describe('runTransform', () => {
+  it('JSONPath 只有一个匹配时直接输出，字符串不加引号', () => {
+    const content = JSON.stringify(data);
+    expect(runTransform(content, { transformType: 'jsonpath', expression: '$.store.books[0].title' })).toBe('A');
+    expect(runTransform(content, { transformType: 'jsonpath', expression: '$.store.books[0].tags' })).toBe('[\n  "x"\n]');
+    expect(runTransform(content, { transformType: 'jsonpath', expression: '$..price' })).toBe('[\n  10,\n  20\n]');
+  });
+
+  it('输入不是合法 JSON 时报错', () => {
+    expect(() => runTransform('<html>', { transformType: 'json_to_ts' })).toThrow('不是合法的 JSON');
+  });
+});
@@ -0,0 +1,159 @@
+// 数据转换步骤使用的本地转换函数（不调用大模型）
+
+export type TransformType = 'jsonpath' | 'regex_extract' | 'regex_replace' | 'json_to_ts';
+
+export interface TransformConfig {
+  transformType: TransformType;
+  expression?: string; // JSONPath 表达式或正则表达式
+  replacement?: string; // 正则替换内容，支持 $1 等分组引用
+  regexFlags?: string;
+  interfaceName?: string; // JSON 转 TS 时的根接口名称
+}
+
+export const TRANSFORM_TYPE_OPTIONS: Array<{ value: TransformType; label: string }> = [
+  { value: 'jsonpath', label: 'JSONPath 选取' },
+  { value: 'regex_extract', label: '正则提取' },
+  { value: 'regex_replace', label: '正则替换' },
+  { value: 'json_to_ts', label: 'JSON 转 TS 接口' }
+];
+
+const parseJson = (content: string) => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('输入内容不是合法的 JSON');
+  }
+};
+
+// 将 JSONPath 表达式拆分为路径片段，支持 $、.key、['key']、[0]、[*]、.* 和 ..key
+const tokenizeJsonPath = (expression: string) => {
+  const path = expression.trim();
+  if (!path.startsWith('$')) {
+    throw new Error('JSONPath 表达式必须以 $ 开头');
+  }
+
+  const tokens: Array<{ key: string; recursive: boolean }> = [];
+  const pattern = /(\.\.|\.)?(?:([A-Za-z_$][\w$-]*|\*)|\[\s*(?:'([^']*)'|"([^"]*)"|(-?\d+)|(\*))\s*\])/y;
+  let index = 1;
+
+  while (index < path.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(path);
+    if (!match || (!match[1] && match[2] !== undefined)) {
+      throw new Error(`无法解析 JSONPath 表达式: ${expression}`);
+    }
+    const key = match[2] ?? match[3] ?? match[4] ?? match[5] ?? match[6];
+    tokens.push({ key, recursive: match[1] === '..' });
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+};
+
+const selectChildren = (value: unknown, key: string): unknown[] => {
+  if (value === null || typeof value !== 'object') return [];
+  if (key === '*') return Object.values(value);
+  if (Array.isArray(value) && /^-?\d+$/.test(key)) {
+    const index = Number(key);
+    const item = value[index < 0 ? value.length + index : index];
+    return item === undefined ? [] : [item];
+  }
+  return key in value ? [(value as Record<string, unknown>)[key]] : [];
+};
+
+// 递归收集当前节点及其所有后代节点
+const collectDescendants = (value: unknown): unknown[] => {
+  if (value === null || typeof value !== 'object') return [value];
+  return [value, ...Object.values(value).flatMap(collectDescendants)];
+};
+
+// 按 JSONPath 选取节点，返回全部匹配值
+export const selectJsonPath = (data: unknown, expression: string): unknown[] =>
+  tokenizeJsonPath(expression).reduce<unknown[]>((nodes, { key, recursive }) => {
+    const sources = recursive ? nodes.flatMap(collectDescendants) : nodes;
+    return sources.flatMap(node => selectChildren(node, key));
+  }, [data]);
+
+// 正则提取：有分组时取第一个分组，否则取整个匹配，每个结果一行
+export const regexExtract = (content: string, expression: string, flags = 'g') => {
+  const regex = new RegExp(expression, flags.includes('g') ? flags : `${flags}g`);
+  return [...content.matchAll(regex)].map(match => match[1] ?? match[0]).join('\n');
+};
+
+export const regexReplace = (content: string, expression: string, replacement = '', flags = 'g') =>
+  content.replace(new RegExp(expression, flags), replacement);
+
+const toPascalCase = (name: string) =>
+  name.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, char: string) => char.toUpperCase()) || 'Item';
+
+const isValidIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+// 根据 JSON 示例生成 TypeScript 接口定义，嵌套对象生成独立接口
+export const jsonToTypeScript = (data: unknown, rootName = 'Root') => {
+  const interfaces: string[] = [];
+  const usedNames = new Set<string>();
+
+  const uniqueName = (name: string) => {
+    let result = toPascalCase(name);
+    for (let i = 2; usedNames.has(result); i++) {
+      result = `${toPascalCase(name)}${i}`;
+    }
+    usedNames.add(result);
+    return result;
+  };
+
+  const typeOf = (value: unknown, name: string): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) {
+      if (value.length === 0) return 'unknown[]';
+      // 数组中的对象合并为同一个接口
+      const objects = value.filter(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+      const others = value.filter(item => !objects.includes(item));
+      const samples = objects.length > 0 ? [Object.assign({}, ...objects), ...others] : others;
+      const itemTypes = [...new Set(samples.map(item => typeOf(item, `${name}Item`)))];
+      return itemTypes.length === 1 ? `${itemTypes[0]}[]` : `(${itemTypes.join(' | ')})[]`;
+    }
+    if (typeof value === 'object') return buildInterface(value as Record<string, unknown>, name);
+    return typeof value;
+  };
+
+  const buildInterface = (value: Record<string, unknown>, name: string) => {
+    const interfaceName = uniqueName(name);
+    const fields = Object.entries(value).map(([key, fieldValue]) => {
+      const fieldName = isValidIdentifier(key) ? key : JSON.stringify(key);
+      return `  ${fieldName}: ${typeOf(fieldValue, key)};`;
+    });
+    interfaces.push(`export interface ${interfaceName} {\n${fields.join('\n')}\n}`);
+    return interfaceName;
+  };
+
+  const rootType = typeOf(data, rootName);
+  if (interfaces.length === 0 || rootType !== toPascalCase(rootName)) {
+    interfaces.push(`export type ${uniqueName(rootName)} = ${rootType};`);
+  }
+
+  return interfaces.reverse().join('\n\n');
+};
+
+// 执行转换，返回转换后的文本内容
+export const runTransform = (content: string, config: TransformConfig) => {
+  const { transformType, expression = '', replacement, regexFlags, interfaceName } = config;
+
+  switch (transformType) {
+    case 'jsonpath': {
+      const matches = selectJsonPath(parseJson(content), expression);
+      if (matches.length === 1) {
+        return typeof matches[0] === 'string' ? matches[0] : JSON.stringify(matches[0], null, 2);
+      }
+      return JSON.stringify(matches, null, 2);
+    }
+    case 'regex_extract':
+      return regexExtract(content, expression, regexFlags);
+    case 'regex_replace':
+      return regexReplace(content, expression, replacement, regexFlags);
+    case 'json_to_ts':
+      return jsonToTypeScript(parseJson(content), interfaceName || 'Root');
+    default:
+      throw new Error(`不支持的转换类型: ${transformType}`);
+  }
+};
@@ -0,0 +1,153 @@
+// 工作流引擎共享类型定义（不依赖 React，可在组件与引擎之间复用）
+
+import type { TransformType } from './transforms';
+
+// 文件输入接口
+export interface FileInput {
+  id: string;
+  name: string;
+  path: string;
+  dependsOn?: string; // 依赖的步骤ID，可以引用前置步骤的输出文件
+}
+
+// 提示词输入接口
+export interface PromptInput {
+  id: string;
+  content: string;
+  fileReferences: string[]; // 引用的文件ID列表
+}
+
+// 自动修复中的一轮输出：round 为 0 表示首次生成，errors 为该轮输出未通过的校验项
+export interface AutoFixRound {
+  round: number;
+  content: string;
+  errors: string[];
+}
+
+// 步骤执行结果
+export interface StepResult {
+  success: boolean;
+  message: string;
+  data?: {
+    path?: string;
+    content?: string;
+    size?: string;
+    cached?: boolean; // 是否复用了步骤结果缓存（未调用模型）
+    autoFixHistory?: AutoFixRound[]; // 自动修复的各轮输出（进行过修复时才有）
+    tokens?: number; // 流式执行时生成的 token 数
+    elapsed?: number; // 流式执行的用时（毫秒）
+    [key: string]: unknown;
+  };
+}
+
+// 失败重试策略
+export interface RetryPolicy {
+  maxAttempts: number; // 最大尝试次数（含首次执行），1 表示不重试
+  baseDelay?: number; // 首次重试前的等待时间（毫秒），之后每次翻倍
+  retryableStatuses?: number[]; // 可重试的 HTTP 状态码
+  retryableErrors?: string[]; // 错误信息包含其中任一文本时重试
+}
+
+// 步骤的单次执行记录
+export interface StepAttempt {
+  attempt: number; // 第几次尝试，从 1 开始
+  error?: string; // 本次失败的原因
+}
+
+// 文件处理步骤的输出校验规则，由后端在写入输出文件前检查；
+// 不通过时先按 autoFixRounds 把错误反馈给模型修复，仍不通过时接口返回 422，步骤失败；开启 retryOnFailure 时按重试策略重试
+export interface OutputValidation {
+  checkSyntax?: boolean; // 按输出文件类型检查语法：.json 解析 JSON，.ts/.tsx/.js/.jsx 使用 TypeScript 解析
+  jsonSchema?: string; // JSON Schema（JSON 文本），仅对 .json 输出生效
+  requiredTexts?: string[]; // 输出必须包含的文本
+  patterns?: string[]; // 输出必须匹配的正则表达式
+  autoFixRounds?: number; // 自动修复的最大轮数（发送原始提示词、错误输出和错误原因），默认不修复
+  retryOnFailure?: boolean; // 校验不通过（422）时按失败重试策略重新执行步骤，默认不重试
+}
+
+// 步骤执行中模型的实时输出
+export interface StepStreamOutput {
+  content: string; // 已收到的输出内容
+  tokens: number; // 已输出的 token 数
+  elapsed: number; // 已用时间（毫秒）
+  startedAt: number; // 开始时间（时间戳），用于在等待输出时继续计时
+}
+
+// 步骤执行时所在的工作流、任务（工作流组）和本次运行，用于提示词模板中的变量
+export interface StepContext {
+  workflow: { id: string; name: string };
+  group?: { id: string; name: string };
+  run: { startedAt: number }; // 本次运行的开始时间（时间戳）
+  variables?: Record<string, string>; // 合并后的变量，执行前替换步骤配置中的 ${变量名}
+}
+
+// 各类型步骤的自定义配置
+export interface StepCustomSettings {
+  // API 调用步骤
+  apiUrl?: string;
+  method?: string;
+  headers?: string; // 请求头（JSON 文本）
+  bodyTemplate?: string;
+  timeout?: number | string; // 超时时间（秒）
+  retryCount?: number | string; // 旧版的重试次数配置
+  // 条件判断步骤
+  condition?: string;
+  // 数据转换步骤
+  transformType?: TransformType;
+  sourceFile?: string; // 转换的输入文件名称，默认第一个文件输入
+  expression?: string;
+  replacement?: string;
+  regexFlags?: string;
+  interfaceName?: string;
+}
+
+// 步骤接口定义
+export interface WorkflowStep {
+  id: string;
+  name: string;
+  description: string;
+  type: 'file_process' | 'data_transform' | 'api_call' | 'condition';
+  config: {
+    fileInputs?: FileInput[];
+    promptInputs?: PromptInput[];
+    outputFolder?: string;
+    outputFileName?: string;
+    apiEndpoint?: '/api/process-file' | '/api/process-file-direct'; // 接口选择
+    validation?: OutputValidation; // 输出校验规则（文件处理步骤）
+    customSettings?: StepCustomSettings;
+  };
+  dependencies: string[]; // 依赖的步骤ID列表
+  status: 'pending' | 'running' | 'success' | 'error' | 'skipped';
+  result?: StepResult;
+  order: number;
+  retryPolicy?: RetryPolicy; // 步骤级重试策略，未配置时使用工作流的策略
+  attempts?: StepAttempt[]; // 最近一次执行的各次尝试记录
+  maxAttempts?: number; // 最近一次执行允许的最大尝试次数
+  streamOutput?: StepStreamOutput; // 执行中的实时输出（执行成功后清除）
+  previousResult?: StepResult; // 重新执行前最近一次成功的结果，用于与新输出对比（确认保留或恢复后清除）
+}
+
+// 步骤失败后的处理策略：
+// fail_fast 立即停止启动新步骤；continue_independent 跳过失败步骤的后续步骤，其余步骤继续执行；
+// continue_all 所有步骤照常执行（依赖失败步骤输出的步骤会因缺少输入而失败）
+export type FailureStrategy = 'fail_fast' | 'continue_independent' | 'continue_all';
+
+// 工作流接口定义
+export interface Workflow {
+  id: string;
+  name: string;
+  description: string;
+  steps: WorkflowStep[];
+  maxConcurrency?: number; // 同时执行的最大步骤数
+  retryPolicy?: RetryPolicy; // 工作流默认的重试策略
+  failureStrategy?: FailureStrategy; // 步骤失败后的处理策略，默认 fail_fast
+  variables?: Record<string, string>; // 步骤配置中 ${变量名} 的默认值，任务模板和任务上的同名变量优先（见 variables.ts）
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 发送给文件处理接口的单个输入项
+export interface ProcessInput {
+  type: 'file' | 'prompt';
+  value: string;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { findDependencyCycles, getStepIssues, validateWorkflow } from './validateWorkflow';
+import type { WorkflowStep } from './types';
+
+const createStep = (id: string, dependencies: string[] = [], config: WorkflowStep['config'] = {}): WorkflowStep => ({
+  id,
+  name: `步骤${id}`,
+  description: '',
+  type: 'file_process',
+  config,
+  dependencies,
+  status: 'pending',
+  order: 1
+});
+
+describe('findDependencyCycles', () => {
+  it('没有循环依赖时返回空列表', () => {
+    expect(findDependencyCycles([createStep('a'), createStep('b', ['a']), createStep('c', ['a', 'b'])])).toEqual([]);
+  });
+
+  it('按依赖顺序返回环上的步骤，同一个环只返回一次', () => {
+    const steps = [createStep('a', ['c']), createStep('b', ['a']), createStep('c', ['b'])];
+    expect(findDependencyCycles(steps)).toEqual([['a', 'c', 'b']]);
+  });
+
+  it('文件输入引用的步骤也算作依赖', () => {
+    const steps = [
+      createStep('a', [], { fileInputs: [{ id: 'f', name: 'out', path: '', dependsOn: 'b' }] }),
+      createStep('b', ['a'])
+    ];
+    expect(findDependencyCycles(steps)).toHaveLength(1);
+  });
+
+  it('步骤依赖自身时视为循环依赖', () => {
+    expect(findDependencyCycles([createStep('a', ['a'])])).toEqual([['a']]);
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('配置正确时没有问题', () => {
+    const steps = [
+      createStep('a', [], { fileInputs: [{ id: 'f', name: 'jsp', path: 'a.jsp' }], promptInputs: [{ id: 'p', content: '转换 {{jsp}}', fileReferences: [] }] }),
+      createStep('b', ['a'], { fileInputs: [{ id: 'f', name: 'out', path: '', dependsOn: 'a' }] })
+    ];
+    expect(validateWorkflow(steps)).toEqual([]);
+  });
+
+  it('报告循环依赖，并列出环上的步骤名称', () => {
+    const issues = validateWorkflow([createStep('a', ['b']), createStep('b', ['a'])]);
+    expect(issues).toEqual([{ type: 'cycle', stepId: 'a', message: '存在循环依赖: 步骤a → 步骤b → 步骤a', cycle: ['a', 'b'] }]);
+  });
+
+  it('报告依赖或文件引用了不存在的步骤', () => {
+    const step = createStep('a', ['missing'], { fileInputs: [{ id: 'f', name: 'out', path: '', dependsOn: 'gone' }] });
+    expect(validateWorkflow([step]).map(issue => issue.type)).toEqual(['missing_step', 'missing_step']);
+  });
+
+  it('文件引用了其他步骤的输出却未加入依赖列表时报告', () => {
+    const steps = [createStep('a'), createStep('b', [], { fileInputs: [{ id: 'f', name: 'out', path: '', dependsOn: 'a' }] })];
+    expect(validateWorkflow(steps)).toMatchObject([{ type: 'undeclared_dependency', stepId: 'b' }]);
+  });
+
+  it('报告提示词引用了未配置的文件和模板语法错误', () => {
+    const steps = [
+      createStep('a', [], { promptInputs: [{ id: 'p', content: '{{missing}}', fileReferences: [] }] }),
+      createStep('b', [], { promptInputs: [{ id: 'p', content: '{{#if true}}未结束', fileReferences: [] }] })
+    ];
+    expect(validateWorkflow(steps).map(issue => [issue.stepId, issue.type])).toEqual([
+      ['a', 'missing_file_reference'],
+      ['b', 'invalid_template']
+    ]);
+  });
+
+  it('getStepIssues 包含经过该步骤的循环依赖', () => {
+    const issues = validateWorkflow([createStep('a', ['b']), createStep('b', ['a']), createStep('c', ['missing'])]);
+    expect(getStepIssues(issues, 'b').map(issue => issue.type)).toEqual(['cycle']);
+    expect(getStepIssues(issues, 'c').map(issue => issue.type)).toEqual(['missing_step']);
+  });
+});
@@ -0,0 +1,155 @@
+import { validatePromptTemplate } from './template';
+import type { WorkflowStep } from './types';
+
+// 校验问题类型：循环依赖 / 引用了不存在的步骤 / 提示词引用了未配置的文件 / 文件依赖的步骤未加入依赖列表 / 提示词模板语法错误
+export type WorkflowIssueType = 'cycle' | 'missing_step' | 'missing_file_reference' | 'undeclared_dependency' | 'invalid_template';
+
+export interface WorkflowIssue {
+  type: WorkflowIssueType;
+  stepId: string;
+  message: string;
+  // 循环依赖涉及的步骤ID（按依赖顺序）
+  cycle?: string[];
+}
+
+// 步骤依赖的全部步骤ID（依赖列表 + 文件输入引用的步骤）
+const getDependencyIds = (step: WorkflowStep) => {
+  const ids = new Set(step.dependencies);
+  (step.config.fileInputs || []).forEach(file => {
+    if (file.dependsOn) ids.add(file.dependsOn);
+  });
+  return [...ids];
+};
+
+// 查找步骤之间的循环依赖，返回每个环上的步骤ID
+export const findDependencyCycles = (steps: WorkflowStep[]): string[][] => {
+  const stepMap = new Map(steps.map(step => [step.id, step]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+  const cycleKeys = new Set<string>();
+
+  const visit = (stepId: string) => {
+    state.set(stepId, 'visiting');
+    path.push(stepId);
+
+    for (const depId of getDependencyIds(stepMap.get(stepId)!)) {
+      if (!stepMap.has(depId)) continue;
+
+      if (state.get(depId) === 'visiting') {
+        const cycle = path.slice(path.indexOf(depId));
+        const key = [...cycle].sort().join(',');
+        if (!cycleKeys.has(key)) {
+          cycleKeys.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(depId)) {
+        visit(depId);
+      }
+    }
+
+    path.pop();
+    state.set(stepId, 'done');
+  };
+
+  steps.forEach(step => {
+    if (!state.has(step.id)) visit(step.id);
+  });
+
+  return cycles;
+};
+
+// 校验单个步骤的依赖与引用配置（不含循环依赖检查）
+export const validateStep = (step: WorkflowStep, allSteps: WorkflowStep[]): WorkflowIssue[] => {
+  const issues: WorkflowIssue[] = [];
+  const stepIds = new Set(allSteps.map(s => s.id));
+  const { fileInputs = [], promptInputs = [] } = step.config;
+
+  step.dependencies.forEach(depId => {
+    if (!stepIds.has(depId)) {
+      issues.push({
+        type: 'missing_step',
+        stepId: step.id,
+        message: `步骤 "${step.name}" 依赖的步骤 "${depId}" 不存在`
+      });
+    }
+  });
+
+  fileInputs.forEach(file => {
+    if (!file.dependsOn) return;
+
+    if (!stepIds.has(file.dependsOn)) {
+      issues.push({
+        type: 'missing_step',
+        stepId: step.id,
+        message: `步骤 "${step.name}" 的文件 "${file.name}" 引用的步骤 "${file.dependsOn}" 不存在`
+      });
+    } else if (!step.dependencies.includes(file.dependsOn)) {
+      const depName = allSteps.find(s => s.id === file.dependsOn)?.name;
+      issues.push({
+        type: 'undeclared_dependency',
+        stepId: step.id,
+        message: `步骤 "${step.name}" 的文件 "${file.name}" 引用了步骤 "${depName}" 的输出，但未将其加入依赖步骤`
+      });
+    }
+  });
+
+  const fileNames = new Set(fileInputs.map(file => file.name));
+  const checkReferences = (template: string, source: string) => {
+    const references = template.match(/\{\{([^}]+)\}\}/g) || [];
+    references.forEach(ref => {
+      const fileName = ref.replace(/[{}]/g, '');
+      if (!fileNames.has(fileName)) {
+        issues.push({
+          type: 'missing_file_reference',
+          stepId: step.id,
+          message: `步骤 "${step.name}" 的${source}引用了未配置的文件 "${fileName}"`
+        });
+      }
+    });
+  };
+
+  // 提示词按模板语法校验（见 template.ts），请求体模板仍只支持 {{文件名}}
+  promptInputs.forEach(prompt => {
+    try {
+      validatePromptTemplate(prompt.content, [...fileNames]).forEach(error => issues.push({
+        type: 'missing_file_reference',
+        stepId: step.id,
+        message: `步骤 "${step.name}" 的提示词${error}`
+      }));
+    } catch (error) {
+      issues.push({
+        type: 'invalid_template',
+        stepId: step.id,
+        message: `步骤 "${step.name}" 的提示词${error instanceof Error ? error.message : error}`
+      });
+    }
+  });
+  if (step.type === 'api_call' && step.config.customSettings?.bodyTemplate) {
+    checkReferences(step.config.customSettings.bodyTemplate, '请求体模板');
+  }
+
+  return issues;
+};
+
+// 校验整个工作流，返回全部问题（为空表示可以执行）
+export const validateWorkflow = (steps: WorkflowStep[]): WorkflowIssue[] => {
+  const issues = steps.flatMap(step => validateStep(step, steps));
+  const stepMap = new Map(steps.map(step => [step.id, step]));
+
+  findDependencyCycles(steps).forEach(cycle => {
+    const names = [...cycle, cycle[0]].map(id => stepMap.get(id)?.name || id);
+    issues.push({
+      type: 'cycle',
+      stepId: cycle[0],
+      message: `存在循环依赖: ${names.join(' → ')}`,
+      cycle
+    });
+  });
+
+  return issues;
+};
+
+// 筛选与指定步骤相关的问题（包括经过该步骤的循环依赖）
+export const getStepIssues = (issues: WorkflowIssue[], stepId: string) =>
+  issues.filter(issue => issue.stepId === stepId || issue.cycle?.includes(stepId));
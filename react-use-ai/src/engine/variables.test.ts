@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findVariableReferences, mergeVariables, resolveGroupVariables, resolveStepVariables, substituteVariables } from './variables';
+import type { WorkflowStep } from './types';
+
+const createStep = (overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  id: 'step',
+  name: '步骤',
+  description: '',
+  type: 'file_process',
+  config: {},
+  dependencies: [],
+  status: 'pending',
+  order: 1,
+  ...overrides
+});
+
+describe('mergeVariables', () => {
+  it('后面的变量覆盖前面的同名变量，忽略空值和无效的变量名', () => {
+    expect(mergeVariables({ a: '1', b: '2' }, undefined, { b: '3', c: '', 'bad-name': 'x' })).toEqual({ a: '1', b: '3' });
+  });
+
+  it('任务上的变量覆盖任务模板上的同名变量', () => {
+    expect(resolveGroupVariables({ variables: { dir: 'src/user' }, template: { variables: { dir: 'src', module: 'user' } } }))
+      .toEqual({ dir: 'src/user', module: 'user' });
+  });
+});
+
+describe('substituteVariables', () => {
+  it('替换 ${变量名}，并列出引用的变量', () => {
+    expect(substituteVariables('${root}/${name}.tsx', { root: 'src', name: 'App' })).toBe('src/App.tsx');
+    expect(findVariableReferences('${a}/${b}/${a}')).toEqual(['a', 'b']);
+  });
+
+  it('引用未定义的变量时默认抛出错误，非严格模式保留原文', () => {
+    expect(() => substituteVariables('${missing}', {})).toThrow('变量 "missing" 未定义');
+    expect(substituteVariables('`${count}` ${name}', { name: 'a' }, false)).toBe('`${count}` a');
+  });
+
+  it('不读取原型链上的属性', () => {
+    expect(() => substituteVariables('${toString}', {})).toThrow('未定义');
+  });
+});
+
+describe('resolveStepVariables', () => {
+  it('路径中引用未定义的变量时抛出错误，提示词中保留原文', () => {
+    const step = createStep({
+      config: {
+        fileInputs: [{ id: 'f', name: 'jsp', path: '${root}/a.jsp' }],
+        promptInputs: [{ id: 'p', content: '转换 ${module} 中的 ${unknown}', fileReferences: [] }],
+        outputFolder: '${root}/out',
+        outputFileName: '${module}.tsx'
+      }
+    });
+
+    expect(resolveStepVariables(step, { root: 'src', module: 'user' }).config).toMatchObject({
+      fileInputs: [{ path: 'src/a.jsp' }],
+      promptInputs: [{ content: '转换 user 中的 ${unknown}' }],
+      outputFolder: 'src/out',
+      outputFileName: 'user.tsx'
+    });
+    expect(() => resolveStepVariables(step, { module: 'user' })).toThrow('变量 "root" 未定义');
+    expect(resolveStepVariables(step, {}, false).config.outputFolder).toBe('${root}/out');
+  });
+
+  it('API 调用步骤替换地址、请求头和请求体模板，其他类型步骤的自定义配置不变', () => {
+    const customSettings = { apiUrl: '${host}/api', headers: '{"token": "${token}"}', bodyTemplate: '${body}' };
+    const resolved = resolveStepVariables(createStep({ type: 'api_call', config: { customSettings } }), { host: 'http://localhost', token: 't' });
+
+    expect(resolved.config.customSettings).toEqual({ apiUrl: 'http://localhost/api', headers: '{"token": "t"}', bodyTemplate: '${body}' });
+    expect(() => resolveStepVariables(createStep({ type: 'api_call', config: { customSettings } }), {})).toThrow('变量 "host" 未定义');
+
+    const condition = createStep({ type: 'condition', config: { customSettings: { condition: '${flag}' } } });
+    expect(resolveStepVariables(condition, { flag: 'true' }).config.customSettings).toBe(condition.config.customSettings);
+  });
+
+  it('不修改传入的步骤', () => {
+    const step = createStep({ config: { outputFolder: '${root}' } });
+    resolveStepVariables(step, { root: 'src' });
+    expect(step.config.outputFolder).toBe('${root}');
+  });
+});
@@ -0,0 +1,60 @@
+import type { WorkflowStep } from './types';
+
+// 变量：在工作流、任务模板和任务（工作流组）上定义，执行时替换步骤配置中的 ${变量名}。
+// 工作流上的变量为默认值，任务模板上的同名变量覆盖它，任务上的同名变量优先级最高
+
+export type WorkflowVariables = Record<string, string>;
+
+// 变量名：字母或下划线开头，只包含字母、数字和下划线
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+const VARIABLE_REFERENCE_PATTERN = /\$\{([A-Za-z_]\w*)\}/g;
+
+// 按优先级从低到高合并变量，忽略空值
+export const mergeVariables = (...layers: Array<WorkflowVariables | undefined>): WorkflowVariables =>
+  Object.assign({}, ...layers.map(layer => Object.fromEntries(
+    Object.entries(layer || {}).filter(([name, value]) => VARIABLE_NAME_PATTERN.test(name) && value !== '')
+  )));
+
+// 任务执行时使用的变量：任务模板的默认值被任务上的同名变量覆盖
+export const resolveGroupVariables = (group: { variables?: WorkflowVariables; template?: { variables?: WorkflowVariables } }) =>
+  mergeVariables(group.template?.variables, group.variables);
+
+// 文本中引用的变量名（去重）
+export const findVariableReferences = (text: string) =>
+  [...new Set([...text.matchAll(VARIABLE_REFERENCE_PATTERN)].map(match => match[1]))];
+
+// 替换文本中的 ${变量名}；strict 时引用未定义的变量抛出错误，否则保留原文
+// （提示词中可能包含 JavaScript 模板字符串等同样使用 ${} 的内容）
+export const substituteVariables = (text: string, variables: WorkflowVariables, strict = true) =>
+  text.replace(VARIABLE_REFERENCE_PATTERN, (reference, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) return variables[name];
+    if (strict) throw new Error(`变量 "${name}" 未定义`);
+    return reference;
+  });
+
+// 替换步骤配置中的变量：文件路径、输出目录、输出文件名和 API 地址中引用未定义的变量时抛出错误
+// （strict 为 false 时保留原文，供编辑时预览），提示词、请求头和请求体模板中只替换已定义的变量
+export const resolveStepVariables = (step: WorkflowStep, variables: WorkflowVariables = {}, strict = true): WorkflowStep => {
+  const { config } = step;
+  const resolvePath = (value?: string) => value && substituteVariables(value, variables, strict);
+  const resolveText = (value?: string) => value && substituteVariables(value, variables, false);
+  const customSettings = step.type === 'api_call' && config.customSettings ? {
+    ...config.customSettings,
+    apiUrl: resolvePath(config.customSettings.apiUrl),
+    headers: resolveText(config.customSettings.headers),
+    bodyTemplate: resolveText(config.customSettings.bodyTemplate)
+  } : config.customSettings;
+
+  return {
+    ...step,
+    config: {
+      ...config,
+      fileInputs: config.fileInputs?.map(file => ({ ...file, path: resolvePath(file.path) ?? file.path })),
+      promptInputs: config.promptInputs?.map(prompt => ({ ...prompt, content: resolveText(prompt.content) ?? prompt.content })),
+      outputFolder: resolvePath(config.outputFolder),
+      outputFileName: resolvePath(config.outputFileName),
+      customSettings
+    }
+  };
+};
@@ -0,0 +1,249 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createStatusError } from './retry';
+import type { StepExecutor } from './stepExecutor';
+import { runWorkflow } from './workflowEngine';
+import type { WorkflowEvent } from './workflowEngine';
+import type { StepResult, Workflow, WorkflowStep } from './types';
+
+const createStep = (id: string, dependencies: string[] = [], overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+  id,
+  name: id,
+  description: '',
+  type: 'file_process',
+  config: {},
+  dependencies,
+  status: 'pending',
+  order: 0,
+  ...overrides
+});
+
+const createWorkflow = (steps: WorkflowStep[], overrides: Partial<Workflow> = {}): Workflow => ({
+  id: 'workflow',
+  name: '工作流',
+  description: '',
+  steps: steps.map((step, index) => ({ ...step, order: index + 1 })),
+  retryPolicy: { maxAttempts: 3, baseDelay: 1 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const success = (step: WorkflowStep): StepResult => ({ success: true, message: `${step.id} 完成`, data: { content: step.id } });
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 记录执行顺序的执行函数，failing 中的步骤总是失败（默认状态码 400，不重试）
+const createRecorder = (failing: Record<string, number> = {}) => {
+  const started: string[] = [];
+  const executeStep: StepExecutor = async step => {
+    started.push(step.id);
+    await delay(1);
+    if (step.id in failing) throw createStatusError(`${step.id} 失败`, failing[step.id]);
+    return success(step);
+  };
+  return { started, executeStep };
+};
+
+const collectEvents = () => {
+  const events: WorkflowEvent[] = [];
+  const onEvent = (event: WorkflowEvent) => {
+    if (event.type !== 'progress') events.push(event);
+  };
+  const typesOf = (stepId: string) => events.filter(event => 'step' in event && event.step.id === stepId).map(event => event.type);
+  return { events, onEvent, typesOf };
+};
+
+describe('runWorkflow 调度', () => {
+  it('依赖的步骤执行完成后才启动后续步骤，并将结果传给后续步骤', async () => {
+    const seen: Record<string, string[]> = {};
+    const executeStep: StepExecutor = async (step, previousResults) => {
+      seen[step.id] = [...previousResults.keys()];
+      await delay(1);
+      return success(step);
+    };
+    const workflow = createWorkflow([createStep('c', ['a', 'b']), createStep('a'), createStep('b', ['a'])]);
+
+    const { results, completed, total, failedStepIds } = await runWorkflow(workflow, { executeStep });
+
+    expect(seen).toEqual({ a: [], b: ['a'], c: ['a', 'b'] });
+    expect([...results.keys()]).toEqual(['a', 'b', 'c']);
+    expect({ completed, total, failedStepIds }).toEqual({ completed: 3, total: 3, failedStepIds: [] });
+  });
+
+  it('同时运行的步骤不超过并发上限', async () => {
+    let running = 0;
+    let peak = 0;
+    const executeStep: StepExecutor = async step => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+      return success(step);
+    };
+    const workflow = createWorkflow(['a', 'b', 'c', 'd', 'e'].map(id => createStep(id)), { maxConcurrency: 2 });
+
+    await runWorkflow(workflow, { executeStep });
+
+    expect(peak).toBe(2);
+  });
+
+  it('执行结束后移除取消信号上的监听', async () => {
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const { executeStep } = createRecorder();
+
+    await runWorkflow(createWorkflow([createStep('a'), createStep('b', ['a'])]), { executeStep, signal: controller.signal });
+
+    expect(addListener).toHaveBeenCalledTimes(1);
+    expect(removeListener.mock.calls.map(([, listener]) => listener)).toEqual(addListener.mock.calls.map(([, listener]) => listener));
+  });
+
+  it('只执行指定的步骤，范围外的依赖从已有结果中读取', async () => {
+    const { started, executeStep } = createRecorder();
+    const workflow = createWorkflow([createStep('a'), createStep('b', ['a'])]);
+    const previousResults = new Map([['a', success(workflow.steps[0])]]);
+
+    const { results } = await runWorkflow(workflow, { executeStep, stepIds: ['b'], previousResults });
+
+    expect(started).toEqual(['b']);
+    expect([...results.keys()]).toEqual(['a', 'b']);
+  });
+
+  it('条件不满足时跳过依赖它的全部后续步骤', async () => {
+    const executeStep: StepExecutor = async step => step.type === 'condition'
+      ? { success: true, message: '条件不满足', data: { passed: false } }
+      : success(step);
+    const workflow = createWorkflow([
+      createStep('check', [], { type: 'condition' }),
+      createStep('a', ['check']),
+      createStep('b', ['a']),
+      createStep('other')
+    ]);
+
+    const { results, skippedStepIds } = await runWorkflow(workflow, { executeStep });
+
+    expect(skippedStepIds).toEqual(['a', 'b']);
+    expect(results.has('other')).toBe(true);
+  });
+
+  it('步骤之间存在循环依赖时抛出错误', async () => {
+    const { executeStep } = createRecorder();
+    const workflow = createWorkflow([createStep('a', ['b']), createStep('b', ['a'])]);
+
+    await expect(runWorkflow(workflow, { executeStep })).rejects.toThrow('存在循环依赖');
+  });
+
+  it('取消后抛出 AbortError，未完成的步骤标记为跳过', async () => {
+    const controller = new AbortController();
+    const executeStep: StepExecutor = async step => {
+      if (step.id === 'a') controller.abort();
+      await delay(5);
+      return success(step);
+    };
+    const { onEvent, typesOf } = collectEvents();
+    const workflow = createWorkflow([createStep('a'), createStep('b', ['a'])]);
+
+    await expect(runWorkflow(workflow, { executeStep, onEvent, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(typesOf('a')).toEqual(['step:start', 'step:skipped']);
+    expect(typesOf('b')).toEqual(['step:skipped']);
+  });
+});
+
+describe('runWorkflow 失败策略', () => {
+  // a 失败；b 依赖 a，c 依赖 b，d 独立
+  const steps = [createStep('a'), createStep('b', ['a']), createStep('c', ['b']), createStep('d')];
+
+  it('fail_fast：等待运行中的步骤结束后抛出第一个错误，不再启动新步骤', async () => {
+    const { started, executeStep } = createRecorder({ a: 400 });
+    const workflow = createWorkflow(steps, { maxConcurrency: 1 });
+
+    await expect(runWorkflow(workflow, { executeStep })).rejects.toThrow('a 失败');
+    expect(started).toEqual(['a']);
+  });
+
+  it('continue_independent：跳过失败步骤的后续步骤，独立步骤继续执行', async () => {
+    const { started, executeStep } = createRecorder({ a: 400 });
+    const { onEvent, typesOf } = collectEvents();
+    const workflow = createWorkflow(steps, { failureStrategy: 'continue_independent' });
+
+    const { failedStepIds, skippedStepIds } = await runWorkflow(workflow, { executeStep, onEvent });
+
+    expect(started).toEqual(['a', 'd']);
+    expect(failedStepIds).toEqual(['a']);
+    expect(skippedStepIds).toEqual(['b', 'c']);
+    expect(typesOf('b')).toEqual(['step:skipped']);
+  });
+
+  it('continue_all：失败后仍执行全部后续步骤', async () => {
+    const { started, executeStep } = createRecorder({ a: 400 });
+    const workflow = createWorkflow(steps, { failureStrategy: 'continue_all', maxConcurrency: 1 });
+
+    const { failedStepIds, skippedStepIds } = await runWorkflow(workflow, { executeStep });
+
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+    expect(failedStepIds).toEqual(['a']);
+    expect(skippedStepIds).toEqual([]);
+  });
+
+  it('选项中的失败策略优先于工作流上的配置', async () => {
+    const { executeStep } = createRecorder({ a: 400 });
+    const workflow = createWorkflow(steps, { failureStrategy: 'fail_fast' });
+
+    const { failedStepIds } = await runWorkflow(workflow, { executeStep, failureStrategy: 'continue_all' });
+
+    expect(failedStepIds).toEqual(['a']);
+  });
+});
+
+describe('runWorkflow 重试', () => {
+  it('可重试的错误按重试策略重试，记录每次尝试的错误', async () => {
+    let calls = 0;
+    const executeStep: StepExecutor = async step => {
+      calls++;
+      if (calls < 3) throw createStatusError('服务繁忙', 503);
+      return success(step);
+    };
+    const { events, onEvent } = collectEvents();
+    const workflow = createWorkflow([createStep('a')]);
+
+    await runWorkflow(workflow, { executeStep, onEvent });
+
+    expect(calls).toBe(3);
+    const retries = events.filter(event => event.type === 'step:retry');
+    expect(retries.map(event => event.attempts.length)).toEqual([2, 3]);
+    expect(retries[1].attempts).toEqual([
+      { attempt: 1, error: '服务繁忙' },
+      { attempt: 2, error: '服务繁忙' },
+      { attempt: 3 }
+    ]);
+    expect(events.at(-1)?.type).toBe('step:success');
+  });
+
+  it('超过最大尝试次数后按失败处理', async () => {
+    const { started, executeStep } = createRecorder({ a: 503 });
+    const { events, onEvent } = collectEvents();
+    const workflow = createWorkflow([createStep('a')], { retryPolicy: { maxAttempts: 2, baseDelay: 1 } });
+
+    await expect(runWorkflow(workflow, { executeStep, onEvent })).rejects.toThrow('a 失败');
+    expect(started).toEqual(['a', 'a']);
+    const error = events.find(event => event.type === 'step:error');
+    expect(error?.type === 'step:error' && error.result.message).toContain('已尝试 2 次');
+  });
+
+  it('不可重试的错误只执行一次', async () => {
+    const { started, executeStep } = createRecorder({ a: 400 });
+    const workflow = createWorkflow([createStep('a')]);
+
+    await expect(runWorkflow(workflow, { executeStep })).rejects.toThrow('a 失败');
+    expect(started).toEqual(['a']);
+  });
+
+  it('步骤上的重试策略优先于工作流的策略', async () => {
+    const { started, executeStep } = createRecorder({ a: 503 });
+    const workflow = createWorkflow([createStep('a', [], { retryPolicy: { maxAttempts: 1 } })]);
+
+    await expect(runWorkflow(workflow, { executeStep })).rejects.toThrow('a 失败');
+    expect(started).toEqual(['a']);
+  });
+});
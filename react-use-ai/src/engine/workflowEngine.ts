@@ -0,0 +1,264 @@
+import { getErrorData, isRetryableError, resolveRetryPolicy, retryWithBackoff } from './retry';
+import { executeStepByType } from './stepExecutor';
+import type { StepExecutor, StepResults } from './stepExecutor';
+import { mergeVariables } from './variables';
+import type { WorkflowVariables } from './variables';
+import type { FailureStrategy, RetryPolicy, StepAttempt, StepContext, StepResult, StepStreamOutput, Workflow, WorkflowStep } from './types';
+
+// 引擎在执行过程中发出的步骤生命周期事件
+export type WorkflowEvent =
+  | { type: 'step:start'; step: WorkflowStep; maxAttempts: number }
+  | { type: 'step:retry'; step: WorkflowStep; attempts: StepAttempt[]; maxAttempts: number; delay: number; error: unknown }
+  | { type: 'step:output'; step: WorkflowStep; output: StepStreamOutput }
+  | { type: 'step:success'; step: WorkflowStep; result: StepResult }
+  | { type: 'step:error'; step: WorkflowStep; result: StepResult; error: unknown; attempts: StepAttempt[] }
+  | { type: 'step:skipped'; step: WorkflowStep; result: StepResult }
+  | { type: 'progress'; completed: number; total: number };
+
+export interface RunWorkflowOptions {
+  // 只执行这些步骤（默认全部），其余步骤的结果从 previousResults 中读取
+  stepIds?: string[];
+  // 已有的步骤结果，用于解析依赖步骤的输出
+  previousResults?: StepResults;
+  // 生命周期事件回调
+  onEvent?: (event: WorkflowEvent) => void;
+  // 单步执行函数，默认按步骤类型选择执行方式
+  executeStep?: StepExecutor;
+  // 并发上限，默认使用工作流上的配置
+  maxConcurrency?: number;
+  // 取消信号，触发后中止进行中的请求，剩余步骤标记为跳过
+  signal?: AbortSignal;
+  // 默认重试策略，默认使用工作流上的配置；步骤上的策略优先
+  retryPolicy?: RetryPolicy;
+  // 步骤失败后的处理策略，默认使用工作流上的配置
+  failureStrategy?: FailureStrategy;
+  // 工作流所在的任务（工作流组），供提示词模板中的 group 变量使用
+  group?: StepContext['group'];
+  // 任务模板与任务上的变量，覆盖工作流上的同名变量
+  variables?: WorkflowVariables;
+}
+
+export interface WorkflowRunResult {
+  results: StepResults;
+  completed: number;
+  total: number;
+  // 执行失败的步骤（仅在非 fail_fast 策略下可能非空）
+  failedStepIds: string[];
+  // 因条件不满足或依赖步骤失败而跳过的步骤
+  skippedStepIds: string[];
+}
+
+export const FAILURE_STRATEGY_OPTIONS: Array<{ value: FailureStrategy; label: string }> = [
+  { value: 'fail_fast', label: '失败即停止' },
+  { value: 'continue_independent', label: '继续执行独立步骤' },
+  { value: 'continue_all', label: '继续执行全部步骤' }
+];
+
+// 未配置时的默认并发上限
+export const DEFAULT_MAX_CONCURRENCY = 3;
+
+// 按 order 排序，不修改原数组
+export const sortSteps = (steps: WorkflowStep[]) => [...steps].sort((a, b) => a.order - b.order);
+
+// 重新执行时保留的上一次输出：当前结果成功且有输出内容时使用当前结果，否则保留已有的记录
+const keepPreviousResult = (step: WorkflowStep) =>
+  step.result?.success && typeof step.result.data?.content === 'string' ? step.result : step.previousResult;
+
+// 将事件应用到步骤列表上，返回新的步骤列表（供各组件同步界面状态）
+export const applyWorkflowEvent = (steps: WorkflowStep[], event: WorkflowEvent): WorkflowStep[] => {
+  switch (event.type) {
+    case 'step:start':
+      return steps.map(s => s.id === event.step.id
+        ? { ...s, status: 'running' as const, result: undefined, previousResult: keepPreviousResult(s), attempts: [{ attempt: 1 }], maxAttempts: event.maxAttempts, streamOutput: undefined }
+        : s);
+    case 'step:retry':
+      return steps.map(s => s.id === event.step.id ? { ...s, attempts: event.attempts, streamOutput: undefined } : s);
+    case 'step:output':
+      return steps.map(s => s.id === event.step.id ? { ...s, streamOutput: event.output } : s);
+    case 'step:success':
+      return steps.map(s => s.id === event.step.id ? { ...s, status: 'success' as const, result: event.result, streamOutput: undefined } : s);
+    case 'step:error':
+      return steps.map(s => s.id === event.step.id ? { ...s, status: 'error' as const, result: event.result, attempts: event.attempts } : s);
+    case 'step:skipped':
+      return steps.map(s => s.id === event.step.id ? { ...s, status: 'skipped' as const, result: event.result, streamOutput: undefined } : s);
+    default:
+      return steps;
+  }
+};
+
+// 将步骤重置为待执行状态（保留上一次成功的输出，供执行后对比）
+export const resetSteps = (steps: WorkflowStep[], stepIds?: string[]): WorkflowStep[] =>
+  steps.map(s => !stepIds || stepIds.includes(s.id)
+    ? { ...s, status: 'pending' as const, result: undefined, previousResult: keepPreviousResult(s), attempts: undefined, streamOutput: undefined }
+    : s);
+
+// 创建取消执行时抛出的错误
+const createAbortError = () => new DOMException('工作流执行已取消', 'AbortError');
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// 将错误记录到最后一次尝试上
+const recordAttemptError = (attempts: StepAttempt[], error: unknown) =>
+  attempts.map((item, index) => index === attempts.length - 1 ? { ...item, error: getErrorMessage(error) } : item);
+
+// 按依赖关系执行工作流：依赖已满足的步骤在并发上限内同时启动，
+// 步骤失败时按重试策略以指数退避重试，仍失败则按失败策略处理：
+// fail_fast 不再启动新步骤，等待运行中的步骤结束后抛出错误；
+// continue_independent 跳过失败步骤的全部后续步骤，其余步骤继续执行；continue_all 不跳过任何步骤；
+// 非 fail_fast 策略下不抛出步骤错误，失败的步骤通过返回值中的 failedStepIds 体现；
+// 收到取消信号时立即停止，运行中与未执行的步骤均标记为跳过；
+// 条件判断步骤结果为不满足时，依赖它的后续步骤全部标记为跳过
+export const runWorkflow = async (workflow: Workflow, options: RunWorkflowOptions = {}): Promise<WorkflowRunResult> => {
+  const { stepIds, previousResults, onEvent, signal, executeStep = executeStepByType } = options;
+  const retryPolicy = options.retryPolicy ?? workflow.retryPolicy;
+  const failureStrategy = options.failureStrategy ?? workflow.failureStrategy ?? 'fail_fast';
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? workflow.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const context: StepContext = {
+    workflow: { id: workflow.id, name: workflow.name },
+    group: options.group,
+    run: { startedAt: Date.now() },
+    variables: mergeVariables(workflow.variables, options.variables)
+  };
+
+  const targetIds = new Set(stepIds ?? workflow.steps.map(step => step.id));
+  const pendingSteps = sortSteps(workflow.steps).filter(step => targetIds.has(step.id));
+  const results: StepResults = new Map(previousResults);
+  const finishedSteps = new Set<string>();
+  const runningSteps = new Map<string, Promise<void>>();
+  const total = pendingSteps.length;
+  let completed = 0;
+  const errors: unknown[] = [];
+  const failedStepIds: string[] = [];
+  const skippedStepIds: string[] = [];
+
+  const emit = (event: WorkflowEvent) => onEvent?.(event);
+  const isAborted = () => signal?.aborted ?? false;
+  // 执行结束后移除监听，避免同一个 signal（如任务中的多个工作流）上的监听累积
+  let onAbort = () => {};
+  const aborted = new Promise<void>(resolve => {
+    onAbort = () => resolve();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  // 不在本次执行范围内的依赖视为已满足，其结果从 previousResults 中读取
+  const isReady = (step: WorkflowStep) =>
+    step.dependencies.every(depId => !targetIds.has(depId) || finishedSteps.has(depId));
+
+  // 跳过依赖指定步骤的全部后续步骤（条件不满足或步骤失败时）
+  const skipDownstream = (source: WorkflowStep, reason: string) => {
+    const skippedIds = new Set([source.id]);
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (const step of [...pendingSteps]) {
+        if (!step.dependencies.some(depId => skippedIds.has(depId))) continue;
+
+        skippedIds.add(step.id);
+        pendingSteps.splice(pendingSteps.indexOf(step), 1);
+        finishedSteps.add(step.id);
+        skippedStepIds.push(step.id);
+        completed++;
+        emit({ type: 'step:skipped', step, result: { success: false, message: `步骤 "${step.name}" ${reason}` } });
+        emit({ type: 'progress', completed, total });
+        changed = true;
+      }
+    }
+  };
+
+  const launchStep = (step: WorkflowStep) => {
+    const policy = resolveRetryPolicy(step, retryPolicy);
+    const { maxAttempts } = policy;
+    let attempts: StepAttempt[] = [{ attempt: 1 }];
+    emit({ type: 'step:start', step, maxAttempts });
+
+    // 转发模型的实时输出，取消后不再更新
+    const onOutput = (output: StepStreamOutput) => {
+      if (!isAborted()) emit({ type: 'step:output', step, output });
+    };
+
+    const task = (async () => {
+      try {
+        const result = await retryWithBackoff(() => executeStep(step, results, signal, onOutput, context), {
+          retries: maxAttempts - 1,
+          baseDelay: policy.baseDelay,
+          signal,
+          shouldRetry: error => isRetryableError(error, policy),
+          onRetry: (error, attempt, delay) => {
+            attempts = [...recordAttemptError(attempts, error), { attempt }];
+            emit({ type: 'step:retry', step, attempts, maxAttempts, delay, error });
+          }
+        });
+        if (isAborted()) return;
+        results.set(step.id, result);
+        emit({ type: 'step:success', step, result });
+        if (step.type === 'condition' && result.data?.passed === false) {
+          skipDownstream(step, `因条件 "${step.name}" 不满足而跳过`);
+        }
+      } catch (error) {
+        if (isAborted()) return;
+        attempts = recordAttemptError(attempts, error);
+        const result: StepResult = {
+          success: false,
+          message: attempts.length > 1
+            ? `步骤 "${step.name}" 执行失败（已尝试 ${attempts.length} 次）: ${error}`
+            : `步骤 "${step.name}" 执行失败: ${error}`,
+          data: getErrorData(error)
+        };
+        emit({ type: 'step:error', step, result, error, attempts });
+        errors.push(error);
+        failedStepIds.push(step.id);
+        if (failureStrategy === 'continue_independent') {
+          skipDownstream(step, `因依赖步骤 "${step.name}" 执行失败而跳过`);
+        }
+      } finally {
+        runningSteps.delete(step.id);
+        if (!isAborted()) {
+          finishedSteps.add(step.id);
+          completed++;
+          emit({ type: 'progress', completed, total });
+        }
+      }
+    })();
+
+    runningSteps.set(step.id, task);
+  };
+
+  // fail_fast 策略下出现失败后不再启动新步骤
+  const isHalted = () => failureStrategy === 'fail_fast' && errors.length > 0;
+
+  try {
+    while ((pendingSteps.length > 0 || runningSteps.size > 0) && !isAborted()) {
+      if (!isHalted()) {
+        for (const step of pendingSteps.filter(isReady)) {
+          if (runningSteps.size >= maxConcurrency) break;
+          pendingSteps.splice(pendingSteps.indexOf(step), 1);
+          launchStep(step);
+        }
+      }
+
+      if (runningSteps.size === 0) {
+        if (isHalted()) break;
+        // 没有可启动的步骤却仍有待执行步骤，说明剩余步骤之间存在循环依赖
+        throw new Error(`步骤 "${pendingSteps[0].name}" 存在循环依赖`);
+      }
+
+      await Promise.race([...runningSteps.values(), aborted]);
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (isAborted()) {
+    // 未完成的步骤（包括被中止的运行中步骤）全部标记为跳过
+    const skippedSteps = sortSteps(workflow.steps).filter(step => targetIds.has(step.id) && !finishedSteps.has(step.id));
+    for (const step of skippedSteps) {
+      emit({ type: 'step:skipped', step, result: { success: false, message: `步骤 "${step.name}" 已取消` } });
+    }
+    throw createAbortError();
+  }
+
+  if (isHalted()) throw errors[0];
+
+  return { results, completed, total, failedStepIds, skippedStepIds };
+};
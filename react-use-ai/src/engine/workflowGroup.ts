@@ -0,0 +1,58 @@
+import { cancelJob, getJob, submitGroupJob, watchJob } from './jobs';
+import type { GroupJob } from './jobs';
+import { validateWorkflow } from './validateWorkflow';
+import { resolveGroupVariables } from './variables';
+import type { WorkflowVariables } from './variables';
+import type { Workflow } from './types';
+
+// 任务（工作流组）执行：任务中的工作流在服务端按顺序执行，单个工作流失败不影响后续工作流
+
+export interface RunWorkflowGroupOptions {
+  // 触发后取消服务端任务
+  signal?: AbortSignal;
+  // 每次获取到任务的最新状态时调用
+  onUpdate?: (job: GroupJob) => void;
+  // 重新关联已提交的任务（页面刷新后），不再提交新任务
+  jobId?: string;
+  // 忽略步骤结果缓存，全部重新调用模型
+  forceRefresh?: boolean;
+}
+
+// 任务模板中可以执行的工作流（至少包含一个步骤）
+export const getExecutableWorkflows = (workflows: Workflow[] = []) =>
+  workflows.filter(workflow => workflow.steps && workflow.steps.length > 0);
+
+// 提交前校验全部工作流，依赖配置有问题时不提交任务
+const assertWorkflowsValid = (workflows: Workflow[]) => {
+  for (const workflow of workflows) {
+    const issues = validateWorkflow(workflow.steps);
+    if (issues.length > 0) {
+      throw new Error(`工作流 "${workflow.name}" 校验未通过: ${issues[0].message}`);
+    }
+  }
+};
+
+// 提交任务到服务端执行（或关联已提交的任务），轮询直到任务结束，返回最终状态；
+// 任务模板与任务上的变量随任务提交，覆盖各工作流上的同名变量
+export const runWorkflowGroup = async (
+  group: { id: string; name: string; variables?: WorkflowVariables; template?: { variables?: WorkflowVariables } },
+  workflows: Workflow[],
+  options: RunWorkflowGroupOptions = {}
+): Promise<GroupJob> => {
+  const { signal, onUpdate, jobId, forceRefresh } = options;
+  if (!jobId) assertWorkflowsValid(workflows);
+  const job = jobId ? await getJob(jobId) : await submitGroupJob(group, workflows, forceRefresh, resolveGroupVariables(group));
+
+  const cancel = () => {
+    cancelJob(job.id).catch(error => console.error('取消任务失败:', error));
+  };
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    // 取消后继续轮询，直到服务端任务结束
+    return await watchJob(job.id, latest => onUpdate?.(latest));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+};
@@ -12,7 +12,7 @@ interface WorkflowGroup {
   description: string;
   template?: any;
   workflowCount: number;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'partial' | 'failed';
   progress: number;
   createdAt: Date;
   updatedAt: Date;
@@ -26,16 +26,8 @@ const MainWorkflowPage: React.FC = () => {
   const [currentWorkflow, setCurrentWorkflow] = useState<Workflow | null>(null);
 
   // 打开工作流组
-  const handleOpenGroup = (group: WorkflowGroup, executionContext?: {
-    isRunning: boolean;
-    taskExecution?: any;
-    executingTasks: Set<string>;
-  }) => {
-    setCurrentGroup({
-      ...group,
-      // 如果有执行上下文，保留执行状态
-      executionContext
-    } as any);
+  const handleOpenGroup = (group: WorkflowGroup) => {
+    setCurrentGroup(group);
     setViewMode('workflows');
   };
 
@@ -132,8 +124,7 @@ const MainWorkflowPage: React.FC = () => {
           onEditWorkflow={handleEditWorkflow}
           workflowGroup={{
             id: currentGroup.id,
-            name: currentGroup.name,
-            executionContext: (currentGroup as any).executionContext
+            name: currentGroup.name
           }}
         />
       )}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Layout, Typography } from 'antd';
+import PromptLibrary from '../components/PromptLibrary';
+
+const { Header, Content } = Layout;
+const { Title } = Typography;
+
+const PromptLibraryPage: React.FC = () => {
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{
+        background: '#fff',
+        padding: '0 24px',
+        borderBottom: '1px solid #f0f0f0',
+        display: 'flex',
+        alignItems: 'center'
+      }}>
+        <Title level={2} style={{ margin: 0, color: '#1890ff' }}>
+          提示词库
+        </Title>
+      </Header>
+      <Content style={{ padding: 0, background: '#f5f5f5' }}>
+        <PromptLibrary />
+      </Content>
+    </Layout>
+  );
+};
+
+export default PromptLibraryPage;
@@ -22,7 +22,6 @@ const WorkflowGroupDetailPage: React.FC = () => {
   // 从路由状态获取工作流组信息
   const groupName = location.state?.groupName || '工作流组';
   const groupIdFromState = location.state?.groupId || groupId;
-  const executionContext = location.state?.executionContext; // 获取执行上下文
 
   // 创建新工作流
   const handleCreateWorkflow = () => {
@@ -141,9 +140,7 @@ const WorkflowGroupDetailPage: React.FC = () => {
             onEditWorkflow={handleEditWorkflow}
             workflowGroup={{
               id: groupIdFromState,
-              name: groupName,
-              // 传递执行上下文信息
-              executionContext: executionContext
+              name: groupName
             }}
           />
         )}
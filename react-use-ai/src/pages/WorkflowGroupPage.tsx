@@ -9,17 +9,12 @@ const { Title } = Typography;
 const WorkflowGroupPage: React.FC = () => {
   const navigate = useNavigate();
   
-  const handleOpenGroup = (group: any, executionContext?: {
-    isRunning: boolean;
-    taskExecution?: any;
-    executingTasks: Set<string>;
-  }) => {
+  // 执行状态由详情页从服务端任务中获取，无需通过路由传递
+  const handleOpenGroup = (group: any) => {
     navigate(`/workflow-group/${group.id}`, { 
       state: { 
         groupName: group.name,
-        groupId: group.id,
-        // 传递执行上下文
-        executionContext
+        groupId: group.id
       } 
     });
   };
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 后端服务地址，为空时通过 Vite 代理访问同源的 /api
+  readonly VITE_API_BASE_URL?: string;
+}